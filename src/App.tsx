@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react';
 import { useAuth } from './contexts/AuthContext';
 import { useRouter } from './contexts/RouterContext';
 import Login from './pages/Login';
@@ -5,19 +6,42 @@ import Dashboard from './pages/Dashboard';
 import Users from './pages/Users';
 import Procedures from './pages/Procedures';
 import Patients from './pages/Patients';
+import PatientDetail from './pages/PatientDetail';
 import Agenda from './pages/Agenda';
 import CashRegister from './pages/CashRegister';
+import Profile from './pages/Profile';
+import Waitlist from './pages/Waitlist';
+import Settings from './pages/Settings';
+import Resources from './pages/Resources';
+import AnamnesisTemplates from './pages/AnamnesisTemplates';
+import TodayBoard from './pages/TodayBoard';
+import PublicBooking from './pages/PublicBooking';
 import Layout from './components/Layout';
 import ProtectedRoute from './components/ProtectedRoute';
+import { loadClinicTimeZone } from './lib/settings';
 import { Loader2 } from 'lucide-react';
 
 function App() {
   const { user, loading, profile } = useAuth();
   const { currentRoute } = useRouter();
+  const [timeZoneLoaded, setTimeZoneLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadClinicTimeZone()
+      .catch((error) => console.error('Error loading clinic timezone:', error))
+      .finally(() => setTimeZoneLoaded(true));
+  }, [user]);
 
   console.log('🎯 App render - loading:', loading, 'user:', user?.id, 'profile:', profile?.id);
 
-  if (loading) {
+  // Public booking page for patients, available without logging in
+  if (window.location.pathname === '/agendar') {
+    return <PublicBooking />;
+  }
+
+  if (loading || (user && !timeZoneLoaded)) {
     console.log('⏳ App: Still loading...');
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -37,6 +61,10 @@ function App() {
   console.log('✅ App: User logged in, rendering protected content');
 
   const renderPage = () => {
+    if (currentRoute.startsWith('/pacientes/')) {
+      return <PatientDetail patientId={currentRoute.substring('/pacientes/'.length)} />;
+    }
+
     switch (currentRoute) {
       case '/dashboard':
         return <Dashboard />;
@@ -50,10 +78,22 @@ function App() {
         return <Agenda />;
       case '/agenda-geral':
         return <Agenda />;
+      case '/lista-espera':
+        return <Waitlist />;
       case '/fechar-caixa':
         return <CashRegister />;
       case '/fechamentos':
         return <CashRegister />;
+      case '/meu-perfil':
+        return <Profile />;
+      case '/configuracoes':
+        return <Settings />;
+      case '/recursos':
+        return <Resources />;
+      case '/formularios':
+        return <AnamnesisTemplates />;
+      case '/hoje':
+        return <TodayBoard />;
       default:
         return <Dashboard />;
     }
@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { APPOINTMENT_ITEMS_SELECT, describeItems, itemsTotal } from '../lib/appointmentItems';
+import { PatientCharge } from '../lib/cancellation';
+import { todayString } from '../lib/dates';
+import { X } from 'lucide-react';
+
+interface AddTransactionModalProps {
+  closingId: string;
+  professionalId: string;
+  // Pre-selects a completed appointment and fills in its total
+  defaultAppointmentId?: string;
+  // Receives a pending patient charge; the charge is marked paid with the new transaction
+  charge?: PatientCharge;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function AddTransactionModal({
+  closingId,
+  professionalId,
+  defaultAppointmentId,
+  charge,
+  onClose,
+  onSuccess,
+}: AddTransactionModalProps) {
+  const [amount, setAmount] = useState(charge ? charge.amount.toFixed(2) : '');
+  const [paymentMethod, setPaymentMethod] = useState('Dinheiro');
+  const [notes, setNotes] = useState(charge ? `${charge.reason} - ${charge.patient?.full_name}` : '');
+  const [appointmentId, setAppointmentId] = useState('');
+  const [appointments, setAppointments] = useState<any[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadTodayAppointments();
+  }, [professionalId]);
+
+  async function loadTodayAppointments() {
+    try {
+      const today = todayString();
+      const { data, error } = await supabase
+        .from('appointments')
+        .select(`id, agreed_price, patient:patient_contacts(full_name), procedure:procedures(name), ${APPOINTMENT_ITEMS_SELECT}`)
+        .eq('professional_id', professionalId)
+        .eq('appointment_date', today)
+        .eq('status', 'completed');
+
+      if (error) throw error;
+      setAppointments(data || []);
+
+      const appointment = (data || []).find((apt) => apt.id === defaultAppointmentId);
+      if (appointment) {
+        setAppointmentId(appointment.id);
+        setAmount(expectedAmount(appointment).toFixed(2));
+      }
+    } catch (error) {
+      console.error('Error loading appointments:', error);
+    }
+  }
+
+  // The agreed price (after discounts), falling back to the sum of the visit's procedures
+  function expectedAmount(appointment: { agreed_price: number | null; items?: { price: number }[] }) {
+    return appointment.agreed_price ?? itemsTotal(appointment.items || []);
+  }
+
+  function selectAppointment(id: string) {
+    setAppointmentId(id);
+
+    const appointment = appointments.find((apt) => apt.id === id);
+    if (appointment) {
+      setAmount(expectedAmount(appointment).toFixed(2));
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const { data: transaction, error: transactionError } = await supabase
+        .from('cash_register_transactions')
+        .insert({
+          closing_id: closingId,
+          appointment_id: charge ? charge.appointment_id : appointmentId || null,
+          amount: parseFloat(amount),
+          payment_method: paymentMethod,
+          notes: notes || null,
+        })
+        .select('id')
+        .single();
+
+      if (transactionError) throw transactionError;
+
+      if (charge) {
+        const { error: chargeError } = await supabase
+          .from('patient_charges')
+          .update({ status: 'paid', transaction_id: transaction.id, resolved_at: new Date().toISOString() })
+          .eq('id', charge.id);
+
+        if (chargeError) throw chargeError;
+      }
+
+      const { data: transactions } = await supabase
+        .from('cash_register_transactions')
+        .select('amount')
+        .eq('closing_id', closingId);
+
+      const total = (transactions || []).reduce((sum, t) => sum + t.amount, 0) + parseFloat(amount);
+
+      const { error: updateError } = await supabase
+        .from('cash_register_closings')
+        .update({ total_amount: total })
+        .eq('id', closingId);
+
+      if (updateError) throw updateError;
+
+      onSuccess();
+    } catch (error: any) {
+      console.error('Error adding transaction:', error);
+      alert(error.message || 'Erro ao adicionar transação');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
+        <div className="flex items-start justify-between mb-6">
+          <h3 className="text-lg font-semibold text-text">{charge ? 'Receber Cobrança' : 'Nova Transação'}</h3>
+          <button onClick={onClose} className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors">
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Valor (R$)</label>
+            <input
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+              placeholder="0.00"
+              required
+              disabled={loading}
+              min="0"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Forma de Pagamento</label>
+            <select
+              value={paymentMethod}
+              onChange={(e) => setPaymentMethod(e.target.value)}
+              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+              disabled={loading}
+            >
+              <option>Dinheiro</option>
+              <option>Cartão de Crédito</option>
+              <option>Cartão de Débito</option>
+              <option>PIX</option>
+              <option>Transferência</option>
+            </select>
+          </div>
+
+          {!charge && appointments.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">
+                Atendimento (opcional)
+              </label>
+              <select
+                value={appointmentId}
+                onChange={(e) => selectAppointment(e.target.value)}
+                className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+                disabled={loading}
+              >
+                <option value="">Não vincular</option>
+                {appointments.map((apt) => (
+                  <option key={apt.id} value={apt.id}>
+                    {apt.patient.full_name} - {describeItems(apt.items) || apt.procedure.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Observações (opcional)</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text resize-none"
+              rows={2}
+              disabled={loading}
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+              disabled={loading}
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? 'Salvando...' : 'Adicionar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { AnamnesisAnswers, AnamnesisQuestion, AnamnesisResponse, AnamnesisTemplate } from '../lib/anamnesis';
+import { Loader2 } from 'lucide-react';
+
+interface AnamnesisFormModalProps {
+  patientId: string;
+  // Newest response of each form; filling a form again starts from its answers
+  latest: AnamnesisResponse[];
+  initialTemplateId?: string;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text';
+
+export default function AnamnesisFormModal({
+  patientId,
+  latest,
+  initialTemplateId,
+  onClose,
+  onSuccess,
+}: AnamnesisFormModalProps) {
+  const [templates, setTemplates] = useState<AnamnesisTemplate[]>([]);
+  const [templateId, setTemplateId] = useState(initialTemplateId || '');
+  const [answers, setAnswers] = useState<AnamnesisAnswers>({});
+  const [loadingTemplates, setLoadingTemplates] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  useEffect(() => {
+    setAnswers(latest.find((response) => response.template_id === templateId)?.answers || {});
+  }, [templateId]);
+
+  async function loadTemplates() {
+    try {
+      const { data, error } = await supabase
+        .from('anamnesis_templates')
+        .select('id, name, description, questions, version, is_active')
+        .eq('is_active', true)
+        .order('name')
+        .overrideTypes<AnamnesisTemplate[], { merge: false }>();
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error loading anamnesis templates:', error);
+    } finally {
+      setLoadingTemplates(false);
+    }
+  }
+
+  function setAnswer(questionId: string, value: string | number) {
+    setAnswers({ ...answers, [questionId]: value });
+  }
+
+  const template = templates.find((t) => t.id === templateId);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!template) return;
+
+    setError('');
+    setLoading(true);
+
+    try {
+      // Answers to questions removed from the form are dropped
+      const currentAnswers = Object.fromEntries(
+        template.questions
+          .filter((question) => answers[question.id] !== undefined && answers[question.id] !== '')
+          .map((question) => [question.id, answers[question.id]])
+      );
+
+      const { error: insertError } = await supabase.from('anamnesis_responses').insert({
+        patient_id: patientId,
+        template_id: template.id,
+        answers: currentAnswers,
+      });
+
+      if (insertError) throw insertError;
+      onSuccess();
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao salvar anamnese');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-2xl w-full p-6 border border-accent/20 my-8">
+        <h2 className="text-xl font-semibold text-text mb-6">Preencher Anamnese</h2>
+
+        {loadingTemplates ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Formulário</label>
+              <select
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                className={inputClass}
+                required
+                disabled={loading}
+              >
+                <option value="">Selecione...</option>
+                {templates.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+              {template?.description && <p className="text-xs text-text-muted mt-1">{template.description}</p>}
+            </div>
+
+            {template?.questions.map((question) => (
+              <QuestionField
+                key={question.id}
+                question={question}
+                value={answers[question.id]}
+                onChange={(value) => setAnswer(question.id, value)}
+                disabled={loading}
+              />
+            ))}
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+                disabled={loading}
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+                disabled={loading || !template}
+              >
+                {loading ? 'Salvando...' : 'Salvar'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface QuestionFieldProps {
+  question: AnamnesisQuestion;
+  value: string | number | undefined;
+  onChange: (value: string | number) => void;
+  disabled: boolean;
+}
+
+function QuestionField({ question, value, onChange, disabled }: QuestionFieldProps) {
+  const scaleValues: number[] = [];
+  if (question.type === 'scale') {
+    for (let n = question.scale_min ?? 0; n <= (question.scale_max ?? 10); n++) {
+      scaleValues.push(n);
+    }
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-text mb-2">
+        {question.label}
+        {!question.required && <span className="text-text-muted font-normal"> (opcional)</span>}
+      </label>
+
+      {question.type === 'text' && (
+        <textarea
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          rows={2}
+          className={`${inputClass} resize-none`}
+          required={question.required}
+          disabled={disabled}
+        />
+      )}
+
+      {question.type === 'yes_no' && (
+        <div className="flex gap-6">
+          {[
+            { value: 'yes', label: 'Sim' },
+            { value: 'no', label: 'Não' },
+          ].map((option) => (
+            <label key={option.value} className="flex items-center gap-2 text-sm text-text">
+              <input
+                type="radio"
+                name={question.id}
+                checked={value === option.value}
+                onChange={() => onChange(option.value)}
+                className="w-4 h-4 text-primary border-accent/30 focus:ring-primary"
+                required={question.required}
+                disabled={disabled}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {question.type === 'choice' && (
+        <div className="space-y-1">
+          {(question.options || []).map((option) => (
+            <label key={option} className="flex items-center gap-2 text-sm text-text">
+              <input
+                type="radio"
+                name={question.id}
+                checked={value === option}
+                onChange={() => onChange(option)}
+                className="w-4 h-4 text-primary border-accent/30 focus:ring-primary"
+                required={question.required}
+                disabled={disabled}
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {question.type === 'scale' && (
+        <div className="flex flex-wrap gap-2">
+          {scaleValues.map((n) => (
+            <button
+              key={n}
+              type="button"
+              onClick={() => onChange(n)}
+              className={`w-9 h-9 rounded-lg border text-sm transition-colors ${
+                value === n
+                  ? 'bg-primary text-white border-primary'
+                  : 'border-accent/30 text-text hover:bg-champagne-nuvem'
+              }`}
+              disabled={disabled}
+            >
+              {n}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
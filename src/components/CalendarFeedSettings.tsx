@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { buildCalendar, CalendarAppointment, downloadCalendar } from '../lib/ical';
+import { addDays, formatDateString, todayString } from '../lib/dates';
+import { Loader2, Plus, Download, Copy, Check, Ban } from 'lucide-react';
+
+interface FeedToken {
+  id: string;
+  token: string;
+  label: string | null;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+interface CalendarFeedSettingsProps {
+  professionalId: string;
+  professionalName: string;
+}
+
+function feedUrl(token: string) {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ical-feed?token=${token}`;
+}
+
+export default function CalendarFeedSettings({ professionalId, professionalName }: CalendarFeedSettingsProps) {
+  const today = todayString();
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(addDays(today, 30));
+  const [exporting, setExporting] = useState(false);
+  const [tokens, setTokens] = useState<FeedToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [label, setLabel] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTokens();
+  }, [professionalId]);
+
+  async function loadTokens() {
+    try {
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .select('id, token, label, created_at, last_used_at')
+        .eq('professional_id', professionalId)
+        .is('revoked_at', null)
+        .order('created_at');
+
+      if (error) throw error;
+      setTokens(data || []);
+    } catch (error) {
+      console.error('Error loading feed tokens:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function exportCalendar(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setExporting(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('appointments')
+        .select(`
+          id,
+          appointment_date,
+          appointment_time,
+          duration_minutes,
+          status,
+          patient:patient_contacts(full_name),
+          procedure:procedures(name)
+        `)
+        .eq('professional_id', professionalId)
+        .gte('appointment_date', startDate)
+        .lte('appointment_date', endDate)
+        .neq('status', 'cancelled')
+        .order('appointment_date')
+        .order('appointment_time')
+        .overrideTypes<CalendarAppointment[], { merge: false }>();
+
+      if (error) throw error;
+
+      downloadCalendar(
+        buildCalendar(data || [], `Miss Belle - ${professionalName}`),
+        `agenda-${startDate}-${endDate}.ics`
+      );
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao exportar agenda');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function createToken(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const { error } = await supabase.from('calendar_feed_tokens').insert({
+        professional_id: professionalId,
+        label: label || null,
+      });
+
+      if (error) throw error;
+
+      setLabel('');
+      loadTokens();
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao criar link de assinatura');
+    }
+  }
+
+  async function revokeToken(id: string) {
+    if (!confirm('Revogar este link? Calendários que o usam deixarão de ser atualizados.')) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('calendar_feed_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+      loadTokens();
+    } catch (error) {
+      console.error('Error revoking feed token:', error);
+    }
+  }
+
+  async function copyUrl(feedToken: FeedToken) {
+    try {
+      await navigator.clipboard.writeText(feedUrl(feedToken.token));
+      setCopiedId(feedToken.id);
+    } catch (error) {
+      console.error('Error copying feed URL:', error);
+    }
+  }
+
+  const inputClass =
+    'px-2 py-1 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text text-sm';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-sm font-semibold text-text mb-1">Exportar período</h4>
+        <p className="text-xs text-text-muted mb-3">Baixe um arquivo .ics para importar no seu calendário</p>
+        <form onSubmit={exportCalendar} className="flex flex-wrap items-end gap-2">
+          <div>
+            <label className="block text-xs text-text-muted mb-1">De</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-text-muted mb-1">Até</label>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={exporting}
+            className="flex items-center gap-1 px-3 py-1.5 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50 text-sm"
+          >
+            {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Baixar .ics
+          </button>
+        </form>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-text mb-1">Assinatura do calendário</h4>
+        <p className="text-xs text-text-muted mb-3">
+          Adicione o link no seu celular (Google Agenda, Apple Calendário...) para manter a agenda sempre atualizada
+        </p>
+
+        {loading ? (
+          <Loader2 className="w-5 h-5 text-primary animate-spin" />
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-text-muted mb-3">Nenhum link ativo</p>
+        ) : (
+          <ul className="space-y-2 mb-3">
+            {tokens.map((feedToken) => (
+              <li
+                key={feedToken.id}
+                className="flex items-center justify-between gap-3 bg-champagne-nuvem rounded-lg px-3 py-2 border border-accent/20 text-sm"
+              >
+                <div className="min-w-0">
+                  <p className="text-text font-medium">{feedToken.label || 'Link de assinatura'}</p>
+                  <p className="text-xs text-text-muted truncate">{feedUrl(feedToken.token)}</p>
+                  <p className="text-xs text-text-muted">
+                    Criado em {formatDateString(feedToken.created_at.split('T')[0])}
+                    {feedToken.last_used_at &&
+                      ` · último acesso em ${new Date(feedToken.last_used_at).toLocaleString('pt-BR')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => copyUrl(feedToken)}
+                    className="p-1.5 hover:bg-background rounded-lg transition-colors text-text-muted"
+                    title="Copiar link"
+                  >
+                    {copiedId === feedToken.id ? <Check className="w-4 h-4 text-green-700" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => revokeToken(feedToken.id)}
+                    className="p-1.5 hover:bg-background rounded-lg transition-colors text-red-600"
+                    title="Revogar"
+                  >
+                    <Ban className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={createToken} className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[140px]">
+            <label className="block text-xs text-text-muted mb-1">Identificação</label>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              className={`${inputClass} w-full`}
+              placeholder="Meu celular"
+            />
+          </div>
+          <button
+            type="submit"
+            className="flex items-center gap-1 px-3 py-1.5 bg-accent hover:bg-accent/90 text-white rounded-lg transition-colors text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Gerar link
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
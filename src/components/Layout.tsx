@@ -1,6 +1,7 @@
 import { ReactNode, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useRouter } from '../contexts/RouterContext';
+import PatientSearch from './PatientSearch';
 import {
   LayoutDashboard,
   Calendar,
@@ -12,7 +13,13 @@ import {
   Menu,
   X,
   LogOut,
-  ChevronDown
+  ChevronDown,
+  Settings,
+  ListOrdered,
+  SlidersHorizontal,
+  DoorOpen,
+  ClipboardCheck,
+  ClipboardList
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -36,14 +43,21 @@ export default function Layout({ children }: LayoutProps) {
     ? [
         { label: 'Dashboard', icon: LayoutDashboard, path: '/dashboard' },
         { label: 'Agenda Geral', icon: Calendar, path: '/agenda-geral' },
+        { label: 'Hoje', icon: ClipboardCheck, path: '/hoje' },
+        { label: 'Lista de Espera', icon: ListOrdered, path: '/lista-espera' },
         { label: 'Usuários', icon: Users, path: '/usuarios', superAdminOnly: true },
         { label: 'Procedimentos', icon: Scissors, path: '/procedimentos' },
+        { label: 'Salas e Equipamentos', icon: DoorOpen, path: '/recursos', superAdminOnly: true },
+        { label: 'Formulários', icon: ClipboardList, path: '/formularios', superAdminOnly: true },
         { label: 'Pacientes', icon: UserCircle, path: '/pacientes' },
         { label: 'Fechamentos', icon: DollarSign, path: '/fechamentos', superAdminOnly: true },
+        { label: 'Configurações', icon: SlidersHorizontal, path: '/configuracoes', superAdminOnly: true },
       ]
     : [
         { label: 'Dashboard', icon: LayoutDashboard, path: '/dashboard' },
         { label: 'Minha Agenda', icon: Calendar, path: '/minha-agenda' },
+        { label: 'Hoje', icon: ClipboardCheck, path: '/hoje' },
+        { label: 'Lista de Espera', icon: ListOrdered, path: '/lista-espera' },
         { label: 'Pacientes', icon: UserCircle, path: '/pacientes' },
         { label: 'Fechar Caixa', icon: DollarSign, path: '/fechar-caixa' },
       ];
@@ -73,16 +87,18 @@ export default function Layout({ children }: LayoutProps) {
           <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
             {navItems.map((item) => {
               const Icon = item.icon;
+              // Detail pages (e.g. /pacientes/<id>) keep their section highlighted
+              const active = currentRoute === item.path || currentRoute.startsWith(`${item.path}/`);
               return (
                 <button
                   key={item.path}
                   onClick={() => navigate(item.path)}
                   className={`w-full flex items-center gap-3 px-4 py-3 text-text hover:bg-champagne-nuvem rounded-lg transition-colors group ${
-                    currentRoute === item.path ? 'bg-champagne-nuvem' : ''
+                    active ? 'bg-champagne-nuvem' : ''
                   }`}
                 >
                   <Icon className={`w-5 h-5 transition-colors ${
-                    currentRoute === item.path ? 'text-primary' : 'text-text-muted group-hover:text-primary'
+                    active ? 'text-primary' : 'text-text-muted group-hover:text-primary'
                   }`} />
                   <span className="font-medium">{item.label}</span>
                 </button>
@@ -107,6 +123,13 @@ export default function Layout({ children }: LayoutProps) {
 
             {userMenuOpen && (
               <div className="mt-2 space-y-1">
+                <button
+                  onClick={() => navigate('/meu-perfil')}
+                  className="w-full flex items-center gap-3 px-4 py-2 text-text hover:bg-champagne-nuvem rounded-lg transition-colors text-sm"
+                >
+                  <Settings className="w-4 h-4" />
+                  <span>Meu Perfil</span>
+                </button>
                 <button
                   onClick={signOut}
                   className="w-full flex items-center gap-3 px-4 py-2 text-text hover:bg-champagne-nuvem rounded-lg transition-colors text-sm"
@@ -133,6 +156,10 @@ export default function Layout({ children }: LayoutProps) {
             <div className="flex-1 lg:flex-none">
               <h2 className="text-xl font-semibold text-text">Dashboard</h2>
             </div>
+
+            <div className="flex-1 flex justify-end ml-4">
+              <PatientSearch />
+            </div>
           </div>
         </header>
 
@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { DUPLICATE_MATCH_LABELS, findPatientDuplicates, mergePatients, PatientDuplicate } from '../lib/patients';
+import { Loader2 } from 'lucide-react';
+
+// Super admins see every duplicate with its id and name
+type MergeCandidate = PatientDuplicate & { patient_id: string; full_name: string };
+
+interface MergePatientsModalProps {
+  patient: {
+    id: string;
+    full_name: string;
+    phone: string;
+    email: string | null;
+    cpf: string | null;
+  };
+  onClose: () => void;
+  // Receives the record that was kept
+  onMerged: (survivorId: string) => void;
+}
+
+// Super admins only. The chosen record is kept; the other selected ones are
+// merged into it and deleted, with a copy kept in patient_merges.
+export default function MergePatientsModal({ patient, onClose, onMerged }: MergePatientsModalProps) {
+  const [candidates, setCandidates] = useState<MergeCandidate[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [survivorId, setSurvivorId] = useState(patient.id);
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadCandidates();
+  }, [patient.id]);
+
+  async function loadCandidates() {
+    try {
+      const duplicates = await findPatientDuplicates(patient, patient.id);
+      setCandidates(duplicates.filter((duplicate): duplicate is MergeCandidate => duplicate.patient_id !== null));
+    } catch (error) {
+      console.error('Error loading duplicates:', error);
+      setError('Erro ao procurar duplicados');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleSelected(candidateId: string) {
+    if (selectedIds.includes(candidateId)) {
+      setSelectedIds(selectedIds.filter((id) => id !== candidateId));
+      if (survivorId === candidateId) setSurvivorId(patient.id);
+    } else {
+      setSelectedIds([...selectedIds, candidateId]);
+    }
+  }
+
+  const records = [
+    { id: patient.id, full_name: patient.full_name, description: 'Este cadastro' },
+    ...candidates
+      .filter((candidate) => selectedIds.includes(candidate.patient_id))
+      .map((candidate) => ({
+        id: candidate.patient_id,
+        full_name: candidate.full_name,
+        description: candidate.professional_name || 'Sem profissional',
+      })),
+  ];
+  const duplicateIds = records.map((record) => record.id).filter((id) => id !== survivorId);
+
+  async function handleMerge() {
+    const survivor = records.find((record) => record.id === survivorId);
+    if (!survivor || duplicateIds.length === 0) return;
+
+    if (
+      !confirm(
+        `Mesclar ${duplicateIds.length} ${duplicateIds.length === 1 ? 'cadastro' : 'cadastros'} em ${
+          survivor.full_name
+        }? Os agendamentos passam para este cadastro e os demais são excluídos.`
+      )
+    ) {
+      return;
+    }
+
+    setMerging(true);
+    setError('');
+
+    try {
+      await mergePatients(survivorId, duplicateIds);
+      onMerged(survivorId);
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao mesclar pacientes');
+    } finally {
+      setMerging(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-2xl w-full p-6 border border-accent/20 my-8">
+        <h2 className="text-xl font-semibold text-text mb-2">Mesclar Duplicados</h2>
+        <p className="text-sm text-text-muted mb-6">
+          Selecione os cadastros da mesma pessoa e escolha qual deles fica. Campos vazios do cadastro mantido são
+          preenchidos com os dados dos demais.
+        </p>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-sm font-medium text-text mb-2">Possíveis duplicados</h3>
+              {candidates.length === 0 ? (
+                <p className="text-sm text-text-muted">Nenhum cadastro parecido encontrado</p>
+              ) : (
+                <div className="space-y-2">
+                  {candidates.map((candidate) => (
+                    <label
+                      key={candidate.patient_id}
+                      className="flex items-center gap-3 p-3 rounded-lg border border-accent/20 hover:bg-champagne-nuvem cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(candidate.patient_id)}
+                        onChange={() => toggleSelected(candidate.patient_id)}
+                        className="w-4 h-4 text-primary border-accent/30 rounded focus:ring-primary"
+                        disabled={merging}
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-text truncate">
+                          {candidate.full_name}
+                          {candidate.archived && <span className="text-xs text-text-muted font-normal"> · arquivado</span>}
+                        </p>
+                        <p className="text-xs text-text-muted truncate">
+                          {candidate.matched_on.map((match) => DUPLICATE_MATCH_LABELS[match]).join(', ')}
+                          {candidate.professional_name && ` · ${candidate.professional_name}`}
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {selectedIds.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-text mb-2">Cadastro que fica</h3>
+                <div className="space-y-2">
+                  {records.map((record) => (
+                    <label
+                      key={record.id}
+                      className="flex items-center gap-3 p-3 rounded-lg border border-accent/20 hover:bg-champagne-nuvem cursor-pointer"
+                    >
+                      <input
+                        type="radio"
+                        name="survivor"
+                        checked={survivorId === record.id}
+                        onChange={() => setSurvivorId(record.id)}
+                        className="w-4 h-4 text-primary border-accent/30 focus:ring-primary"
+                        disabled={merging}
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-text truncate">{record.full_name}</p>
+                        <p className="text-xs text-text-muted truncate">{record.description}</p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+            disabled={merging}
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleMerge}
+            className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+            disabled={merging || duplicateIds.length === 0}
+          >
+            {merging ? 'Mesclando...' : 'Mesclar'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+import { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useRouter } from '../contexts/RouterContext';
+import { BRAZILIAN_STATES, formatPhone, isValidCpf, maskCep, maskCpf, maskPhone, normalizePhone, onlyDigits } from '../lib/brazil';
+import { lookupCep } from '../lib/cep';
+import { todayString } from '../lib/dates';
+import {
+  DUPLICATE_MATCH_LABELS,
+  findPatientDuplicates,
+  GENDER_LABELS,
+  isDuplicateCpfError,
+  PatientDuplicate,
+  PatientGender,
+  PatientIdentity,
+  PRONOUN_SUGGESTIONS,
+} from '../lib/patients';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+export interface PatientContact extends PatientIdentity {
+  id: string;
+  full_name: string;
+  phone: string;
+  email: string | null;
+}
+
+interface PatientFormModalProps {
+  // Edits the patient when given, creates a new one otherwise
+  patient?: PatientContact;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text';
+
+export default function PatientFormModal({ patient, onClose, onSuccess }: PatientFormModalProps) {
+  const { user } = useAuth();
+  const { navigate } = useRouter();
+  const [fullName, setFullName] = useState(patient?.full_name || '');
+  const [cpf, setCpf] = useState(maskCpf(patient?.cpf || ''));
+  const [birthDate, setBirthDate] = useState(patient?.birth_date || '');
+  const [gender, setGender] = useState<PatientGender | ''>(patient?.gender || '');
+  const [pronouns, setPronouns] = useState(patient?.pronouns || '');
+  const [phone, setPhone] = useState(patient ? formatPhone(patient.phone) : '');
+  const [email, setEmail] = useState(patient?.email || '');
+  const [cep, setCep] = useState(maskCep(patient?.cep || ''));
+  const [street, setStreet] = useState(patient?.street || '');
+  const [addressNumber, setAddressNumber] = useState(patient?.address_number || '');
+  const [addressComplement, setAddressComplement] = useState(patient?.address_complement || '');
+  const [neighborhood, setNeighborhood] = useState(patient?.neighborhood || '');
+  const [city, setCity] = useState(patient?.city || '');
+  const [state, setState] = useState(patient?.state || '');
+  const [lookingUpCep, setLookingUpCep] = useState(false);
+  const [cepMessage, setCepMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [duplicates, setDuplicates] = useState<PatientDuplicate[]>([]);
+  // Data the duplicates were looked up for; saving again with the same data
+  // means the user has seen the warning and wants a new record anyway
+  const [checkedFor, setCheckedFor] = useState('');
+
+  async function changeCep(value: string) {
+    const masked = maskCep(value);
+    setCep(masked);
+    setCepMessage('');
+
+    if (onlyDigits(masked).length !== 8) return;
+
+    setLookingUpCep(true);
+    try {
+      const address = await lookupCep(masked);
+      if (!address) {
+        setCepMessage('CEP não encontrado. Preencha o endereço manualmente.');
+        return;
+      }
+
+      setStreet(address.street);
+      setNeighborhood(address.neighborhood);
+      setCity(address.city);
+      setState(address.state);
+    } catch (error) {
+      console.error('Error looking up CEP:', error);
+      setCepMessage('Não foi possível consultar o CEP. Preencha o endereço manualmente.');
+    } finally {
+      setLookingUpCep(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    const normalizedPhone = normalizePhone(phone);
+    if (!normalizedPhone) {
+      setError('Telefone inválido. Informe DDD e número.');
+      return;
+    }
+
+    if (cpf && !isValidCpf(cpf)) {
+      setError('CPF inválido');
+      return;
+    }
+
+    if (cep && onlyDigits(cep).length !== 8) {
+      setError('CEP inválido');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const contact = {
+        full_name: fullName,
+        phone: normalizedPhone,
+        email: email || null,
+        cpf: onlyDigits(cpf) || null,
+        birth_date: birthDate || null,
+        gender: gender || null,
+        pronouns: pronouns.trim() || null,
+        cep: onlyDigits(cep) || null,
+        street: street.trim() || null,
+        address_number: addressNumber.trim() || null,
+        address_complement: addressComplement.trim() || null,
+        neighborhood: neighborhood.trim() || null,
+        city: city.trim() || null,
+        state: state || null,
+      };
+
+      if (!patient) {
+        const checkKey = [contact.full_name, contact.phone, contact.email, contact.cpf].join('|');
+        if (checkKey !== checkedFor) {
+          const found = await findPatientDuplicates(contact);
+          setCheckedFor(checkKey);
+          setDuplicates(found);
+          if (found.length > 0) return;
+        }
+      }
+
+      const { error: saveError } = patient
+        ? await supabase.from('patients').update(contact).eq('id', patient.id)
+        : await supabase.from('patients').insert({ ...contact, professional_id: user?.id });
+
+      if (saveError) throw saveError;
+
+      onSuccess();
+    } catch (error) {
+      if (isDuplicateCpfError(error)) {
+        setError('Já existe um paciente cadastrado com este CPF');
+      } else {
+        setError((error as Error).message || 'Erro ao salvar paciente');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-2xl w-full p-6 border border-accent/20 my-8">
+        <h2 className="text-xl font-semibold text-text mb-6">{patient ? 'Editar Paciente' : 'Novo Paciente'}</h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">
+              Nome Completo
+            </label>
+            <input
+              type="text"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              className={inputClass}
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">CPF (opcional)</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={cpf}
+                onChange={(e) => setCpf(maskCpf(e.target.value))}
+                className={inputClass}
+                placeholder="000.000.000-00"
+                disabled={loading}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Data de nascimento (opcional)</label>
+              <input
+                type="date"
+                value={birthDate}
+                max={todayString()}
+                onChange={(e) => setBirthDate(e.target.value)}
+                className={inputClass}
+                disabled={loading}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Gênero (opcional)</label>
+              <select
+                value={gender}
+                onChange={(e) => setGender(e.target.value as PatientGender | '')}
+                className={inputClass}
+                disabled={loading}
+              >
+                <option value="">Não informado</option>
+                {Object.entries(GENDER_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Pronomes (opcional)</label>
+              <input
+                type="text"
+                list="patient-pronoun-suggestions"
+                value={pronouns}
+                onChange={(e) => setPronouns(e.target.value)}
+                className={inputClass}
+                placeholder="ela/dela"
+                disabled={loading}
+              />
+              <datalist id="patient-pronoun-suggestions">
+                {PRONOUN_SUGGESTIONS.map((suggestion) => (
+                  <option key={suggestion} value={suggestion} />
+                ))}
+              </datalist>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">
+                Telefone
+              </label>
+              <input
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(maskPhone(e.target.value))}
+                className={inputClass}
+                placeholder="(00) 00000-0000"
+                required
+                disabled={loading}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">
+                E-mail (opcional)
+              </label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={inputClass}
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-lg p-4 border border-accent/20 space-y-3">
+            <p className="text-sm font-medium text-text">Endereço (opcional)</p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-text-muted mb-1">CEP</label>
+                <div className="relative">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={cep}
+                    onChange={(e) => changeCep(e.target.value)}
+                    className={inputClass}
+                    placeholder="00000-000"
+                    disabled={loading}
+                  />
+                  {lookingUpCep && (
+                    <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-primary animate-spin" />
+                  )}
+                </div>
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-xs text-text-muted mb-1">Rua</label>
+                <input
+                  type="text"
+                  value={street}
+                  onChange={(e) => setStreet(e.target.value)}
+                  className={inputClass}
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs text-text-muted mb-1">Número</label>
+                <input
+                  type="text"
+                  value={addressNumber}
+                  onChange={(e) => setAddressNumber(e.target.value)}
+                  className={inputClass}
+                  disabled={loading}
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-xs text-text-muted mb-1">Complemento</label>
+                <input
+                  type="text"
+                  value={addressComplement}
+                  onChange={(e) => setAddressComplement(e.target.value)}
+                  className={inputClass}
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs text-text-muted mb-1">Bairro</label>
+                <input
+                  type="text"
+                  value={neighborhood}
+                  onChange={(e) => setNeighborhood(e.target.value)}
+                  className={inputClass}
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs text-text-muted mb-1">Cidade</label>
+                <input
+                  type="text"
+                  value={city}
+                  onChange={(e) => setCity(e.target.value)}
+                  className={inputClass}
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label className="block text-xs text-text-muted mb-1">UF</label>
+                <select
+                  value={state}
+                  onChange={(e) => setState(e.target.value)}
+                  className={inputClass}
+                  disabled={loading}
+                >
+                  <option value="">-</option>
+                  {BRAZILIAN_STATES.map((uf) => (
+                    <option key={uf} value={uf}>
+                      {uf}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {cepMessage && <p className="text-xs text-text-muted">{cepMessage}</p>}
+          </div>
+
+          {duplicates.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+              <h3 className="text-sm font-semibold text-amber-800 flex items-center gap-2 mb-3">
+                <AlertTriangle className="w-4 h-4" />
+                Possíveis duplicados
+              </h3>
+              <ul className="space-y-2">
+                {duplicates.map((duplicate, index) => (
+                  <li key={duplicate.patient_id || index} className="flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-text truncate">
+                        {duplicate.full_name || 'Paciente de outra equipe'}
+                        {duplicate.archived && <span className="text-xs text-text-muted font-normal"> · arquivado</span>}
+                      </p>
+                      <p className="text-xs text-text-muted truncate">
+                        {duplicate.matched_on.map((match) => DUPLICATE_MATCH_LABELS[match]).join(', ')}
+                        {duplicate.professional_id !== user?.id && ` · paciente de ${duplicate.professional_name || 'outro profissional'}`}
+                      </p>
+                    </div>
+                    {duplicate.patient_id && (
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/pacientes/${duplicate.patient_id}`)}
+                        className="px-3 py-1.5 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg text-xs transition-colors flex-shrink-0"
+                      >
+                        Abrir
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-amber-800 mt-3">
+                Confira se o paciente já está cadastrado. Para criar um novo cadastro mesmo assim, salve novamente.
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+              disabled={loading}
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? 'Salvando...' : duplicates.length > 0 ? 'Salvar mesmo assim' : 'Salvar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
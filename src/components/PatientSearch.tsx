@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useRouter } from '../contexts/RouterContext';
+import { formatPhone, onlyDigits } from '../lib/brazil';
+import { Search } from 'lucide-react';
+
+interface PatientMatch {
+  id: string;
+  full_name: string;
+  phone: string;
+  archived_at: string | null;
+}
+
+const MIN_TERM_LENGTH = 2;
+const MAX_RESULTS = 8;
+
+// Header search that opens the patient detail page. RLS already limits
+// professionals to the patients they may see.
+export default function PatientSearch() {
+  const { navigate } = useRouter();
+  const [term, setTerm] = useState('');
+  const [matches, setMatches] = useState<PatientMatch[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    // Commas and parentheses would break the PostgREST or() filter
+    const cleaned = term.replace(/[,()%]/g, ' ').trim();
+    if (cleaned.length < MIN_TERM_LENGTH) {
+      setMatches([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => searchPatients(cleaned), 250);
+    return () => clearTimeout(timeout);
+  }, [term]);
+
+  async function searchPatients(cleaned: string) {
+    // Phones and CPFs are stored without formatting
+    const digits = onlyDigits(cleaned);
+    const filters = [`full_name.ilike.%${cleaned}%`];
+    if (digits.length >= MIN_TERM_LENGTH) {
+      filters.push(`phone.ilike.%${digits}%`, `cpf.ilike.%${digits}%`);
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('patient_contacts')
+        .select('id, full_name, phone, archived_at')
+        .or(filters.join(','))
+        .order('full_name')
+        .limit(MAX_RESULTS);
+
+      if (error) throw error;
+      setMatches(data || []);
+    } catch (error) {
+      console.error('Error searching patients:', error);
+    }
+  }
+
+  function openPatient(patientId: string) {
+    setTerm('');
+    setMatches([]);
+    setOpen(false);
+    navigate(`/pacientes/${patientId}`);
+  }
+
+  return (
+    <div className="relative w-full max-w-xs">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-muted" />
+      <input
+        type="text"
+        placeholder="Buscar paciente..."
+        value={term}
+        onChange={(e) => {
+          setTerm(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        className="w-full pl-9 pr-4 py-2 bg-background-card border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text placeholder-text-muted text-sm"
+      />
+
+      {open && term.trim().length >= MIN_TERM_LENGTH && (
+        <div className="absolute right-0 left-0 mt-2 bg-background-card rounded-lg shadow-soft-lg border border-accent/20 overflow-hidden">
+          {matches.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-text-muted">Nenhum paciente encontrado</p>
+          ) : (
+            matches.map((patient) => (
+              <button
+                key={patient.id}
+                // Keeps the input focused so the list stays open until the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => openPatient(patient.id)}
+                className="w-full text-left px-4 py-2 hover:bg-champagne-nuvem transition-colors"
+              >
+                <p className="text-sm font-medium text-text">
+                  {patient.full_name}
+                  {patient.archived_at && <span className="text-xs text-text-muted font-normal"> · arquivado</span>}
+                </p>
+                <p className="text-xs text-text-muted">{formatPhone(patient.phone)}</p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
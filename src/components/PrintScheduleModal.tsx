@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchClinicSettings } from '../lib/settings';
+import { buildScheduleHtml, buildSchedulePdf, fetchPrintableSchedule, printHtml } from '../lib/printing';
+import { downloadPdf } from '../lib/pdf';
+import { X, Printer, Download } from 'lucide-react';
+
+interface PrintScheduleModalProps {
+  defaultDate: string;
+  // Empty prints the whole clinic
+  defaultProfessionalId: string;
+  professionals: { id: string; full_name: string }[];
+  onClose: () => void;
+}
+
+export default function PrintScheduleModal({
+  defaultDate,
+  defaultProfessionalId,
+  professionals,
+  onClose,
+}: PrintScheduleModalProps) {
+  const { user, isSuperAdmin } = useAuth();
+  const [date, setDate] = useState(defaultDate);
+  const [professionalId, setProfessionalId] = useState(defaultProfessionalId);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  async function generate(format: 'print' | 'pdf') {
+    setError('');
+    setLoading(true);
+
+    try {
+      const [clinic, appointments] = await Promise.all([
+        fetchClinicSettings(),
+        fetchPrintableSchedule(date, !isSuperAdmin && user ? user.id : professionalId),
+      ]);
+
+      if (format === 'print') {
+        printHtml(buildScheduleHtml(clinic, date, appointments));
+      } else {
+        downloadPdf(buildSchedulePdf(clinic, date, appointments), `agenda-${date}.pdf`);
+      }
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao gerar a agenda para impressão');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
+        <div className="flex items-start justify-between mb-6">
+          <h2 className="text-xl font-semibold text-text">Imprimir Agenda do Dia</h2>
+          <button onClick={onClose} className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors">
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Data</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+              disabled={loading}
+            />
+          </div>
+
+          {isSuperAdmin && (
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Profissional</label>
+              <select
+                value={professionalId}
+                onChange={(e) => setProfessionalId(e.target.value)}
+                className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+                disabled={loading}
+              >
+                <option value="">Toda a clínica (uma página por profissional)</option>
+                {professionals.map((prof) => (
+                  <option key={prof.id} value={prof.id}>
+                    {prof.full_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <p className="text-xs text-text-muted">
+            Inclui telefone do paciente, procedimento, duração e observações do agendamento e do cadastro.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={() => generate('print')}
+              disabled={loading || !date}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Printer className="w-4 h-4" />
+              Imprimir
+            </button>
+            <button
+              onClick={() => generate('pdf')}
+              disabled={loading || !date}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              Baixar PDF
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
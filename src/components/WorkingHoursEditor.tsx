@@ -0,0 +1,368 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { TimeOff, WEEKDAY_LABELS, WorkingHours } from '../lib/availability';
+import { formatDateString, todayString } from '../lib/dates';
+import { Loader2, Plus, Trash2, Check } from 'lucide-react';
+
+interface DayForm {
+  weekday: number;
+  enabled: boolean;
+  start_time: string;
+  end_time: string;
+  has_break: boolean;
+  break_start: string;
+  break_end: string;
+}
+
+interface WorkingHoursEditorProps {
+  professionalId: string;
+}
+
+function defaultDay(weekday: number): DayForm {
+  return {
+    weekday,
+    enabled: false,
+    start_time: '09:00',
+    end_time: '18:00',
+    has_break: true,
+    break_start: '12:00',
+    break_end: '13:00',
+  };
+}
+
+export default function WorkingHoursEditor({ professionalId }: WorkingHoursEditorProps) {
+  const { user } = useAuth();
+  const [days, setDays] = useState<DayForm[]>(WEEKDAY_LABELS.map((_, i) => defaultDay(i)));
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+  const [offStart, setOffStart] = useState('');
+  const [offEnd, setOffEnd] = useState('');
+  const [offReason, setOffReason] = useState('');
+
+  useEffect(() => {
+    loadAvailability();
+  }, [professionalId]);
+
+  async function loadAvailability() {
+    try {
+      setLoading(true);
+      const [hoursResult, timeOffResult] = await Promise.all([
+        supabase
+          .from('professional_working_hours')
+          .select('*')
+          .eq('professional_id', professionalId),
+        supabase
+          .from('professional_time_off')
+          .select('*')
+          .eq('professional_id', professionalId)
+          .gte('end_date', todayString())
+          .order('start_date'),
+      ]);
+
+      if (hoursResult.error) throw hoursResult.error;
+      if (timeOffResult.error) throw timeOffResult.error;
+
+      const hours: WorkingHours[] = hoursResult.data || [];
+      setDays(
+        WEEKDAY_LABELS.map((_, weekday) => {
+          const row = hours.find((h) => h.weekday === weekday);
+          if (!row) return defaultDay(weekday);
+          return {
+            weekday,
+            enabled: true,
+            start_time: row.start_time.substring(0, 5),
+            end_time: row.end_time.substring(0, 5),
+            has_break: !!row.break_start,
+            break_start: row.break_start?.substring(0, 5) || '12:00',
+            break_end: row.break_end?.substring(0, 5) || '13:00',
+          };
+        })
+      );
+      setTimeOff(timeOffResult.data || []);
+    } catch (error) {
+      console.error('Error loading availability:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function updateDay(weekday: number, changes: Partial<DayForm>) {
+    setSaved(false);
+    setDays((current) => current.map((day) => (day.weekday === weekday ? { ...day, ...changes } : day)));
+  }
+
+  async function saveHours() {
+    setError('');
+    setSaving(true);
+
+    try {
+      const enabled = days.filter((day) => day.enabled);
+      const disabledWeekdays = days.filter((day) => !day.enabled).map((day) => day.weekday);
+
+      if (enabled.length > 0) {
+        const { error: upsertError } = await supabase
+          .from('professional_working_hours')
+          .upsert(
+            enabled.map((day) => ({
+              professional_id: professionalId,
+              weekday: day.weekday,
+              start_time: day.start_time,
+              end_time: day.end_time,
+              break_start: day.has_break ? day.break_start : null,
+              break_end: day.has_break ? day.break_end : null,
+            })),
+            { onConflict: 'professional_id,weekday' }
+          );
+
+        if (upsertError) throw upsertError;
+      }
+
+      if (disabledWeekdays.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('professional_working_hours')
+          .delete()
+          .eq('professional_id', professionalId)
+          .in('weekday', disabledWeekdays);
+
+        if (deleteError) throw deleteError;
+      }
+
+      setSaved(true);
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao salvar horários');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function addTimeOff(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    try {
+      const { error: insertError } = await supabase.from('professional_time_off').insert({
+        professional_id: professionalId,
+        start_date: offStart,
+        end_date: offEnd || offStart,
+        reason: offReason || null,
+        created_by: user?.id,
+      });
+
+      if (insertError) throw insertError;
+
+      setOffStart('');
+      setOffEnd('');
+      setOffReason('');
+      loadAvailability();
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao adicionar ausência');
+    }
+  }
+
+  async function deleteTimeOff(id: string) {
+    if (!confirm('Remover esta ausência?')) {
+      return;
+    }
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('professional_time_off')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) throw deleteError;
+      loadAvailability();
+    } catch (error) {
+      console.error('Error deleting time off:', error);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  const inputClass =
+    'px-2 py-1 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text text-sm disabled:opacity-50';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-sm font-semibold text-text mb-3">Horário semanal</h4>
+        <div className="space-y-2">
+          {days.map((day) => (
+            <div
+              key={day.weekday}
+              className="flex flex-wrap items-center gap-3 bg-champagne-nuvem rounded-lg px-3 py-2 border border-accent/20"
+            >
+              <label className="flex items-center gap-2 w-28">
+                <input
+                  type="checkbox"
+                  checked={day.enabled}
+                  onChange={(e) => updateDay(day.weekday, { enabled: e.target.checked })}
+                  className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+                  disabled={saving}
+                />
+                <span className="text-sm font-medium text-text">{WEEKDAY_LABELS[day.weekday]}</span>
+              </label>
+
+              {day.enabled ? (
+                <>
+                  <div className="flex items-center gap-1 text-sm text-text">
+                    <input
+                      type="time"
+                      value={day.start_time}
+                      onChange={(e) => updateDay(day.weekday, { start_time: e.target.value })}
+                      className={inputClass}
+                      disabled={saving}
+                    />
+                    <span>às</span>
+                    <input
+                      type="time"
+                      value={day.end_time}
+                      onChange={(e) => updateDay(day.weekday, { end_time: e.target.value })}
+                      className={inputClass}
+                      disabled={saving}
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-text-muted">
+                    <input
+                      type="checkbox"
+                      checked={day.has_break}
+                      onChange={(e) => updateDay(day.weekday, { has_break: e.target.checked })}
+                      className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+                      disabled={saving}
+                    />
+                    Intervalo
+                  </label>
+                  {day.has_break && (
+                    <div className="flex items-center gap-1 text-sm text-text">
+                      <input
+                        type="time"
+                        value={day.break_start}
+                        onChange={(e) => updateDay(day.weekday, { break_start: e.target.value })}
+                        className={inputClass}
+                        disabled={saving}
+                      />
+                      <span>às</span>
+                      <input
+                        type="time"
+                        value={day.break_end}
+                        onChange={(e) => updateDay(day.weekday, { break_end: e.target.value })}
+                        className={inputClass}
+                        disabled={saving}
+                      />
+                    </div>
+                  )}
+                </>
+              ) : (
+                <span className="text-sm text-text-muted">Não atende</span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-3 mt-3">
+          <button
+            onClick={saveHours}
+            disabled={saving}
+            className="px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50 text-sm"
+          >
+            {saving ? 'Salvando...' : 'Salvar horários'}
+          </button>
+          {saved && (
+            <span className="flex items-center gap-1 text-sm text-green-700">
+              <Check className="w-4 h-4" />
+              Horários salvos
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-text mb-3">Ausências (férias, cursos...)</h4>
+
+        {timeOff.length === 0 ? (
+          <p className="text-sm text-text-muted mb-3">Nenhuma ausência programada</p>
+        ) : (
+          <ul className="space-y-2 mb-3">
+            {timeOff.map((off) => (
+              <li
+                key={off.id}
+                className="flex items-center justify-between bg-champagne-nuvem rounded-lg px-3 py-2 border border-accent/20 text-sm"
+              >
+                <div>
+                  <span className="text-text font-medium">
+                    {formatDateString(off.start_date)}
+                    {off.end_date !== off.start_date && ` a ${formatDateString(off.end_date)}`}
+                  </span>
+                  {off.reason && <span className="text-text-muted"> · {off.reason}</span>}
+                </div>
+                <button
+                  onClick={() => deleteTimeOff(off.id)}
+                  className="p-1.5 hover:bg-background rounded-lg transition-colors text-red-600"
+                  title="Remover"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={addTimeOff} className="flex flex-wrap items-end gap-2">
+          <div>
+            <label className="block text-xs text-text-muted mb-1">Início</label>
+            <input
+              type="date"
+              value={offStart}
+              onChange={(e) => setOffStart(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-text-muted mb-1">Fim</label>
+            <input
+              type="date"
+              value={offEnd}
+              min={offStart}
+              onChange={(e) => setOffEnd(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex-1 min-w-[140px]">
+            <label className="block text-xs text-text-muted mb-1">Motivo</label>
+            <input
+              type="text"
+              value={offReason}
+              onChange={(e) => setOffReason(e.target.value)}
+              className={`${inputClass} w-full`}
+              placeholder="Férias"
+            />
+          </div>
+          <button
+            type="submit"
+            className="flex items-center gap-1 px-3 py-1.5 bg-accent hover:bg-accent/90 text-white rounded-lg transition-colors text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Adicionar
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+
+export type QuestionType = 'text' | 'yes_no' | 'choice' | 'scale';
+
+// Stored as-is in anamnesis_templates.questions; the risk_* fields are read by
+// the database when a response is saved
+export interface AnamnesisQuestion {
+  id: string;
+  type: QuestionType;
+  label: string;
+  required: boolean;
+  options?: string[];
+  scale_min?: number;
+  scale_max?: number;
+  risk_answer?: 'yes' | 'no';
+  risk_options?: string[];
+  risk_from?: number;
+}
+
+// Yes/no answers are 'yes' or 'no', scales a number, the rest the text or option
+export type AnamnesisAnswers = Record<string, string | number>;
+
+export interface AnamnesisTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  questions: AnamnesisQuestion[];
+  version: number;
+  is_active: boolean;
+}
+
+export interface AnamnesisResponse {
+  id: string;
+  template_id: string;
+  template_name: string;
+  template_version: number;
+  questions: AnamnesisQuestion[];
+  answers: AnamnesisAnswers;
+  risky_question_ids: string[];
+  created_at: string;
+  filled_by_profile: { full_name: string } | null;
+}
+
+export const ANAMNESIS_RESPONSE_SELECT =
+  'id, template_id, template_name, template_version, questions, answers, risky_question_ids, created_at, filled_by_profile:profiles(full_name)';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  text: 'Texto',
+  yes_no: 'Sim ou não',
+  choice: 'Múltipla escolha',
+  scale: 'Escala',
+};
+
+export function newQuestion(type: QuestionType = 'yes_no'): AnamnesisQuestion {
+  const question: AnamnesisQuestion = { id: crypto.randomUUID(), type, label: '', required: true };
+  if (type === 'choice') question.options = [];
+  if (type === 'scale') {
+    question.scale_min = 0;
+    question.scale_max = 10;
+  }
+  return question;
+}
+
+export function formatAnswer(question: AnamnesisQuestion, answer: string | number | undefined) {
+  if (answer === undefined || answer === '') return '—';
+  if (question.type === 'yes_no') return answer === 'yes' ? 'Sim' : 'Não';
+  return String(answer);
+}
+
+// Responses come newest first; keeps the newest of each form
+export function latestResponses(responses: AnamnesisResponse[]) {
+  const seen = new Set<string>();
+  return responses.filter((response) => {
+    if (seen.has(response.template_id)) return false;
+    seen.add(response.template_id);
+    return true;
+  });
+}
+
+// Raised when an appointment is started before its required forms are filled
+export function isAnamnesisRequiredError(error: unknown) {
+  return (error as { hint?: string } | null)?.hint === 'anamnesis_required';
+}
+
+export async function fetchAnamnesisResponses(patientId: string) {
+  const { data, error } = await supabase
+    .from('anamnesis_responses')
+    .select(ANAMNESIS_RESPONSE_SELECT)
+    .eq('patient_id', patientId)
+    .order('created_at', { ascending: false })
+    .overrideTypes<AnamnesisResponse[], { merge: false }>();
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Forms linked to the appointment's procedures that still have to be filled
+export async function fetchMissingAnamnesis(appointmentId: string) {
+  const { data, error } = await supabase.rpc('missing_anamnesis_templates', {
+    p_appointment_id: appointmentId,
+  });
+
+  if (error) throw error;
+  return (data || []) as { template_id: string; template_name: string }[];
+}
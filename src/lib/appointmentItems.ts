@@ -0,0 +1,78 @@
+import { supabase } from './supabase';
+import { Discount } from './pricing';
+import { RecurrenceUnit } from './scheduling';
+
+export interface AppointmentItem {
+  id: string;
+  procedure_id: string;
+  position: number;
+  duration_minutes: number;
+  price: number;
+  procedure?: { name: string };
+}
+
+// Procedure chosen for a visit that has not been saved yet
+export interface DraftItem {
+  procedure_id: string;
+  duration_minutes: number;
+  price: number;
+}
+
+export const APPOINTMENT_ITEMS_SELECT =
+  'items:appointment_items(id, procedure_id, position, duration_minutes, price, procedure:procedures(name))';
+
+export function sortItems<T extends { position: number }>(items: T[] | null | undefined) {
+  return [...(items || [])].sort((a, b) => a.position - b.position);
+}
+
+export function itemsDuration(items: { duration_minutes: number }[]) {
+  return items.reduce((sum, item) => sum + item.duration_minutes, 0);
+}
+
+export function itemsTotal(items: { price: number }[]) {
+  return items.reduce((sum, item) => sum + item.price, 0);
+}
+
+export function describeItems(items: AppointmentItem[] | null | undefined) {
+  return sortItems(items)
+    .map((item) => item.procedure?.name)
+    .filter(Boolean)
+    .join(' + ');
+}
+
+export interface NewAppointments {
+  patient_id: string;
+  professional_id: string;
+  dates: string[];
+  appointment_time: string;
+  items: DraftItem[];
+  discount: Discount;
+  // Null for a single visit
+  series: {
+    start_date: string;
+    interval_value: number;
+    interval_unit: RecurrenceUnit;
+    occurrence_count: number | null;
+    end_date: string | null;
+  } | null;
+}
+
+// Creates the appointments (and their series) with the given items in a single
+// transaction, so a conflict on any date leaves nothing behind. Resolves to the
+// new appointment ids.
+export async function createAppointments(draft: NewAppointments) {
+  const { data, error } = await supabase.rpc('create_appointments', {
+    p_patient_id: draft.patient_id,
+    p_professional_id: draft.professional_id,
+    p_dates: draft.dates,
+    p_appointment_time: draft.appointment_time,
+    p_items: draft.items,
+    p_discount_type: draft.discount.discount_type,
+    p_discount_value: draft.discount.discount_value,
+    p_discount_reason: draft.discount.discount_reason,
+    p_series: draft.series,
+  });
+
+  if (error) throw error;
+  return (data || []) as string[];
+}
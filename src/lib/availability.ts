@@ -0,0 +1,225 @@
+import { supabase } from './supabase';
+import { addDays, parseDateString } from './dates';
+import { minutesToTime, ScheduledInterval, timeToMinutes } from './scheduling';
+
+export interface WorkingHours {
+  id: string;
+  professional_id: string;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  break_start: string | null;
+  break_end: string | null;
+}
+
+export interface TimeOff {
+  id: string;
+  professional_id: string;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+}
+
+export interface AvailabilityData {
+  workingHours: WorkingHours[];
+  timeOff: TimeOff[];
+}
+
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+export interface BookedInterval extends ScheduledInterval {
+  professional_id: string;
+  appointment_date: string;
+}
+
+export interface FreeSlot {
+  date: string;
+  time: string;
+  professionalId: string;
+}
+
+export interface SlotSearch {
+  availability: AvailabilityData;
+  appointments: BookedInterval[];
+  professionalIds: string[];
+  startDate: string;
+  endDate: string;
+  durationMinutes: number;
+  // Slots starting before this moment are skipped (usually "now")
+  notBefore?: { date: string; minutes: number };
+  limit?: number;
+}
+
+// Search window for professionals without working hours configured
+export const DEFAULT_SEARCH_WINDOW: TimeWindow = { start: 8 * 60, end: 18 * 60 };
+export const SLOT_STEP_MINUTES = 15;
+
+export const WEEKDAY_LABELS = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+// Loads working hours and time off overlapping [startDate, endDate].
+// Pass `null` to load the availability of every professional.
+export async function fetchAvailability(
+  professionalIds: string[] | null,
+  startDate: string,
+  endDate: string
+): Promise<AvailabilityData> {
+  if (professionalIds && professionalIds.length === 0) {
+    return { workingHours: [], timeOff: [] };
+  }
+
+  let hoursQuery = supabase.from('professional_working_hours').select('*');
+  let timeOffQuery = supabase
+    .from('professional_time_off')
+    .select('*')
+    .lte('start_date', endDate)
+    .gte('end_date', startDate);
+
+  if (professionalIds) {
+    hoursQuery = hoursQuery.in('professional_id', professionalIds);
+    timeOffQuery = timeOffQuery.in('professional_id', professionalIds);
+  }
+
+  const [hoursResult, timeOffResult] = await Promise.all([hoursQuery, timeOffQuery]);
+
+  if (hoursResult.error) throw hoursResult.error;
+  if (timeOffResult.error) throw timeOffResult.error;
+
+  return {
+    workingHours: hoursResult.data || [],
+    timeOff: timeOffResult.data || [],
+  };
+}
+
+// Returns the available windows (in minutes since midnight) of a professional on a date.
+// `null` means the professional has no working hours configured and is not restricted.
+export function getAvailabilityWindows(
+  availability: AvailabilityData,
+  professionalId: string,
+  date: string
+): TimeWindow[] | null {
+  const isOff = availability.timeOff.some(
+    (off) => off.professional_id === professionalId && off.start_date <= date && off.end_date >= date
+  );
+  if (isOff) return [];
+
+  const professionalHours = availability.workingHours.filter(
+    (hours) => hours.professional_id === professionalId
+  );
+  if (professionalHours.length === 0) return null;
+
+  const weekday = parseDateString(date).getUTCDay();
+  const hours = professionalHours.find((h) => h.weekday === weekday);
+  if (!hours) return [];
+
+  const start = timeToMinutes(hours.start_time);
+  const end = timeToMinutes(hours.end_time);
+
+  if (hours.break_start && hours.break_end) {
+    return [
+      { start, end: timeToMinutes(hours.break_start) },
+      { start: timeToMinutes(hours.break_end), end },
+    ];
+  }
+
+  return [{ start, end }];
+}
+
+export function isWithinAvailability(
+  windows: TimeWindow[] | null,
+  time: string,
+  durationMinutes: number
+) {
+  if (windows === null) return true;
+  const start = timeToMinutes(time);
+  const end = start + durationMinutes;
+  return windows.some((window) => start >= window.start && end <= window.end);
+}
+
+// Raised by the appointments trigger when a non-admin books outside availability
+export function isOutsideAvailabilityError(error: unknown) {
+  return (error as { hint?: string } | null)?.hint === 'outside_availability';
+}
+
+export function describeWindows(windows: TimeWindow[] | null) {
+  if (windows === null) return 'sem restrição de horário';
+  if (windows.length === 0) return 'indisponível neste dia';
+  return windows.map((w) => `${minutesToTime(w.start)}–${minutesToTime(w.end)}`).join(', ');
+}
+
+// Parts of `window` not covered by any of the `busy` intervals
+export function subtractIntervals(window: TimeWindow, busy: TimeWindow[]) {
+  const free: TimeWindow[] = [];
+  let cursor = window.start;
+
+  [...busy]
+    .sort((a, b) => a.start - b.start)
+    .forEach((interval) => {
+      if (interval.end <= cursor || interval.start >= window.end) return;
+      if (interval.start > cursor) {
+        free.push({ start: cursor, end: interval.start });
+      }
+      cursor = Math.max(cursor, interval.end);
+    });
+
+  if (cursor < window.end) {
+    free.push({ start: cursor, end: window.end });
+  }
+
+  return free;
+}
+
+// Parts of [start, end) outside the given windows
+export function complementWindows(windows: TimeWindow[], start: number, end: number) {
+  return subtractIntervals({ start, end }, windows);
+}
+
+// Earliest start times, in chronological order, where a procedure of
+// `durationMinutes` fits inside the professional's availability without
+// overlapping any booked appointment.
+export function findFreeSlots({
+  availability,
+  appointments,
+  professionalIds,
+  startDate,
+  endDate,
+  durationMinutes,
+  notBefore,
+  limit = 10,
+}: SlotSearch) {
+  const slots: FreeSlot[] = [];
+
+  for (let date = startDate; date <= endDate && slots.length < limit; date = addDays(date, 1)) {
+    if (notBefore && date < notBefore.date) continue;
+
+    const daySlots: FreeSlot[] = [];
+
+    professionalIds.forEach((professionalId) => {
+      const windows = getAvailabilityWindows(availability, professionalId, date) ?? [DEFAULT_SEARCH_WINDOW];
+      const busy = appointments
+        .filter((apt) => apt.professional_id === professionalId && apt.appointment_date === date)
+        .map((apt) => {
+          const start = timeToMinutes(apt.appointment_time);
+          return { start, end: start + apt.duration_minutes };
+        });
+      const earliest = notBefore && date === notBefore.date ? notBefore.minutes : 0;
+
+      windows
+        .flatMap((window) => subtractIntervals(window, busy))
+        .forEach((free) => {
+          let start = Math.ceil(Math.max(free.start, earliest) / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+          while (start + durationMinutes <= free.end) {
+            daySlots.push({ date, time: minutesToTime(start), professionalId });
+            start += SLOT_STEP_MINUTES;
+          }
+        });
+    });
+
+    daySlots.sort((a, b) => a.time.localeCompare(b.time));
+    slots.push(...daySlots.slice(0, limit - slots.length));
+  }
+
+  return slots;
+}
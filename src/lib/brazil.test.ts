@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { isValidCpf, normalizePhone } from './brazil';
+
+describe('isValidCpf', () => {
+  it('accepts valid check digits, with or without the mask', () => {
+    expect(isValidCpf('529.982.247-25')).toBe(true);
+    expect(isValidCpf('52998224725')).toBe(true);
+    expect(isValidCpf('111.444.777-35')).toBe(true);
+  });
+
+  it('rejects a wrong first or second check digit', () => {
+    expect(isValidCpf('529.982.247-15')).toBe(false);
+    expect(isValidCpf('529.982.247-24')).toBe(false);
+  });
+
+  // These pass the checksum but are not issued
+  it('rejects repeated digits', () => {
+    expect(isValidCpf('000.000.000-00')).toBe(false);
+    expect(isValidCpf('111.111.111-11')).toBe(false);
+    expect(isValidCpf('99999999999')).toBe(false);
+  });
+
+  it('rejects other lengths', () => {
+    expect(isValidCpf('5299822472')).toBe(false);
+    expect(isValidCpf('529982247250')).toBe(false);
+    expect(isValidCpf('')).toBe(false);
+  });
+});
+
+describe('normalizePhone', () => {
+  it('accepts mobiles with nine digits and landlines with eight', () => {
+    expect(normalizePhone('(11) 98765-4321')).toBe('+5511987654321');
+    expect(normalizePhone('(11) 3456-7890')).toBe('+551134567890');
+  });
+
+  it('drops the country code', () => {
+    expect(normalizePhone('+55 11 98765-4321')).toBe('+5511987654321');
+    expect(normalizePhone('55 11 3456-7890')).toBe('+551134567890');
+  });
+
+  it('drops the trunk 0', () => {
+    expect(normalizePhone('011 98765-4321')).toBe('+5511987654321');
+    expect(normalizePhone('011 3456-7890')).toBe('+551134567890');
+  });
+
+  it('rejects mobiles missing a digit and landlines with a wrong length or first digit', () => {
+    expect(normalizePhone('(11) 9876-5432')).toBeNull();
+    expect(normalizePhone('(11) 2345-678')).toBeNull();
+    expect(normalizePhone('(11) 1345-6789')).toBeNull();
+  });
+
+  it('rejects area codes with a zero and numbers too long', () => {
+    expect(normalizePhone('(10) 98765-4321')).toBeNull();
+    expect(normalizePhone('(11) 98765-43210')).toBeNull();
+    expect(normalizePhone('')).toBeNull();
+  });
+});
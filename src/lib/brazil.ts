@@ -0,0 +1,76 @@
+// Brazilian document, phone and address formats. The database applies the same
+// rules (normalize_br_phone, is_valid_cpf); these run first so the form can
+// explain what is wrong before saving.
+
+export const BRAZILIAN_STATES = [
+  'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+  'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO',
+];
+
+export function onlyDigits(value: string) {
+  return value.replace(/\D/g, '');
+}
+
+export function isValidCpf(value: string) {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) return false;
+
+  const digits = cpf.split('').map(Number);
+
+  for (const checkPosition of [9, 10]) {
+    let total = 0;
+    for (let i = 0; i < checkPosition; i++) {
+      total += digits[i] * (checkPosition + 1 - i);
+    }
+    if (((total * 10) % 11) % 10 !== digits[checkPosition]) return false;
+  }
+
+  return true;
+}
+
+// 000.000.000-00, applied as the user types
+export function maskCpf(value: string) {
+  const digits = onlyDigits(value).substring(0, 11);
+  return digits
+    .replace(/^(\d{3})(\d)/, '$1.$2')
+    .replace(/^(\d{3})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/\.(\d{3})(\d{1,2})$/, '.$1-$2');
+}
+
+// 00000-000, applied as the user types
+export function maskCep(value: string) {
+  return onlyDigits(value).substring(0, 8).replace(/^(\d{5})(\d)/, '$1-$2');
+}
+
+// E.164 (+55 area code number) or null when the input is not a Brazilian
+// landline or mobile number. Accepts the country code and the trunk 0.
+export function normalizePhone(value: string) {
+  let digits = onlyDigits(value);
+
+  if ((digits.length === 12 || digits.length === 13) && digits.startsWith('55')) {
+    digits = digits.substring(2);
+  } else if ((digits.length === 11 || digits.length === 12) && digits.startsWith('0')) {
+    digits = digits.substring(1);
+  }
+
+  return /^[1-9]{2}(9\d{8}|[2-8]\d{7})$/.test(digits) ? `+55${digits}` : null;
+}
+
+// (00) 00000-0000 or (00) 0000-0000, applied as the user types
+export function maskPhone(value: string) {
+  let digits = onlyDigits(value);
+  if (digits.length > 11 && digits.startsWith('55')) {
+    digits = digits.substring(2);
+  }
+  digits = digits.substring(0, 11);
+
+  if (digits.length <= 2) return digits.replace(/^(\d+)/, '($1');
+  if (digits.length <= 6) return digits.replace(/^(\d{2})(\d+)/, '($1) $2');
+  if (digits.length <= 10) return digits.replace(/^(\d{2})(\d{4})(\d+)/, '($1) $2-$3');
+  return digits.replace(/^(\d{2})(\d{5})(\d+)/, '($1) $2-$3');
+}
+
+// Displays a stored E.164 phone the way patients write it; anything else as is
+export function formatPhone(phone: string) {
+  return phone.startsWith('+55') ? maskPhone(phone.substring(3)) : phone;
+}
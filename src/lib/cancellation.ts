@@ -0,0 +1,86 @@
+import { supabase } from './supabase';
+import { ClinicSettings } from './settings';
+import { clinicInstant } from './dates';
+
+export type ChargeStatus = 'pending' | 'paid' | 'waived';
+
+export interface PatientCharge {
+  id: string;
+  patient_id: string;
+  appointment_id: string | null;
+  professional_id: string;
+  amount: number;
+  reason: string;
+  status: ChargeStatus;
+  created_at: string;
+  patient?: { full_name: string } | null;
+}
+
+type CancellationPolicy = Pick<
+  ClinicSettings,
+  'cancellation_notice_hours' | 'cancellation_fee_type' | 'cancellation_fee_value'
+>;
+
+// Preview of the fee cancel_appointment will charge; the server has the final word.
+// `price` is the agreed price (after discount) the percent fee applies to.
+export function estimateCancellationFee(
+  policy: CancellationPolicy,
+  appointmentDate: string,
+  appointmentTime: string,
+  price: number,
+  now = new Date()
+) {
+  if (policy.cancellation_notice_hours <= 0 || policy.cancellation_fee_value <= 0) return 0;
+
+  const startsAt = clinicInstant(appointmentDate, appointmentTime);
+  const noticeHours = (startsAt.getTime() - now.getTime()) / 3600000;
+  if (noticeHours >= policy.cancellation_notice_hours) return 0;
+
+  return policy.cancellation_fee_type === 'fixed'
+    ? policy.cancellation_fee_value
+    : Math.round(price * policy.cancellation_fee_value) / 100;
+}
+
+// Cancels applying the clinic policy; resolves to the amount charged to the patient
+export async function cancelAppointment(appointmentId: string, reason: string, waiveFee = false) {
+  const { data, error } = await supabase.rpc('cancel_appointment', {
+    p_appointment_id: appointmentId,
+    p_reason: reason,
+    p_waive_fee: waiveFee,
+  });
+
+  if (error) throw error;
+  return Number(data) || 0;
+}
+
+// Cancels the appointment and the following open occurrences of its series in
+// one transaction; resolves to the total charged
+export async function cancelSeriesFrom(appointmentId: string, reason: string, waiveFee = false) {
+  const { data, error } = await supabase.rpc('cancel_series_from', {
+    p_appointment_id: appointmentId,
+    p_reason: reason,
+    p_waive_fee: waiveFee,
+  });
+
+  if (error) throw error;
+  return Number(data) || 0;
+}
+
+// Online bookings declined by the clinic are cancelled without a fee
+export async function declineOnlineBooking(appointmentId: string) {
+  const { error } = await supabase.rpc('decline_online_booking', { p_appointment_id: appointmentId });
+  if (error) throw error;
+}
+
+export async function fetchPendingCharges(professionalId: string) {
+  const { data, error } = await supabase
+    .from('patient_charges')
+    .select('id, patient_id, appointment_id, professional_id, amount, reason, status, created_at, patient:patient_contacts(full_name)')
+    .eq('professional_id', professionalId)
+    .eq('status', 'pending')
+    .order('created_at')
+    .overrideTypes<PatientCharge[], { merge: false }>();
+
+  if (error) throw error;
+  return data || [];
+}
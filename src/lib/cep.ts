@@ -0,0 +1,64 @@
+// CEP (postal code) lookup. Each source is a small object implementing
+// CepProvider, so switching services only needs a new provider. Set
+// VITE_CEP_PROVIDER=offline to develop without network access.
+import { onlyDigits } from './brazil';
+
+export interface CepAddress {
+  cep: string;
+  street: string;
+  neighborhood: string;
+  city: string;
+  state: string;
+}
+
+export interface CepProvider {
+  name: string;
+  // Resolves to null when the CEP does not exist
+  lookup(cep: string): Promise<CepAddress | null>;
+}
+
+export const viaCepProvider: CepProvider = {
+  name: 'viacep',
+  async lookup(cep) {
+    const response = await fetch(`https://viacep.com.br/ws/${cep}/json/`);
+    if (!response.ok) {
+      throw new Error(`Falha na consulta do CEP (${response.status})`);
+    }
+
+    const data = await response.json();
+    if (data.erro) return null;
+
+    return {
+      cep,
+      street: data.logradouro || '',
+      neighborhood: data.bairro || '',
+      city: data.localidade || '',
+      state: data.uf || '',
+    };
+  },
+};
+
+const OFFLINE_ADDRESSES: CepAddress[] = [
+  { cep: '01310100', street: 'Avenida Paulista', neighborhood: 'Bela Vista', city: 'São Paulo', state: 'SP' },
+  { cep: '20040020', street: 'Avenida Rio Branco', neighborhood: 'Centro', city: 'Rio de Janeiro', state: 'RJ' },
+  { cep: '70040010', street: 'Esplanada dos Ministérios', neighborhood: 'Zona Cívico-Administrativa', city: 'Brasília', state: 'DF' },
+];
+
+// Development stub: knows a handful of CEPs and finds nothing else
+export const offlineCepProvider: CepProvider = {
+  name: 'offline',
+  async lookup(cep) {
+    return OFFLINE_ADDRESSES.find((address) => address.cep === cep) || null;
+  },
+};
+
+export function getCepProvider(): CepProvider {
+  return import.meta.env.VITE_CEP_PROVIDER === 'offline' ? offlineCepProvider : viaCepProvider;
+}
+
+// Only complete CEPs are looked up; anything shorter resolves to null
+export async function lookupCep(value: string, provider = getCepProvider()) {
+  const cep = onlyDigits(value);
+  if (cep.length !== 8) return null;
+  return provider.lookup(cep);
+}
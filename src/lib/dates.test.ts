@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { clinicDateTime, clinicInstant, DEFAULT_TIME_ZONE, setClinicTimeZone, todayString } from './dates';
+import { buildCalendar } from './ical';
+
+afterEach(() => {
+  vi.useRealTimers();
+  setClinicTimeZone(DEFAULT_TIME_ZONE);
+});
+
+describe('todayString', () => {
+  // 21:00–23:59 in São Paulo (UTC-3) is already the next day in UTC
+  it.each(['2025-03-10T00:00:00Z', '2025-03-10T01:30:00Z', '2025-03-10T02:59:00Z'])(
+    'is still the clinic date at %s',
+    (instant) => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(instant));
+      expect(todayString()).toBe('2025-03-09');
+    }
+  );
+
+  it('turns at midnight in the clinic', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-10T03:00:00Z'));
+    expect(todayString()).toBe('2025-03-10');
+  });
+
+  it('follows the clinic timezone', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-10T01:30:00Z'));
+    setClinicTimeZone('Europe/Lisbon');
+    expect(todayString()).toBe('2025-03-10');
+  });
+});
+
+describe('clinicDateTime', () => {
+  it('reads late evening times in São Paulo', () => {
+    expect(clinicDateTime(new Date('2025-03-10T02:59:00Z'))).toEqual({ date: '2025-03-09', time: '23:59' });
+    expect(clinicDateTime(new Date('2025-03-10T00:00:00Z'))).toEqual({ date: '2025-03-09', time: '21:00' });
+  });
+
+  it('reads midnight as 00:00', () => {
+    expect(clinicDateTime(new Date('2025-03-10T03:00:00Z'))).toEqual({ date: '2025-03-10', time: '00:00' });
+  });
+});
+
+describe('clinicInstant', () => {
+  it('converts late evening times in São Paulo', () => {
+    expect(clinicInstant('2025-03-09', '21:00').toISOString()).toBe('2025-03-10T00:00:00.000Z');
+    expect(clinicInstant('2025-03-09', '23:59').toISOString()).toBe('2025-03-10T02:59:00.000Z');
+  });
+
+  it('round-trips through clinicDateTime', () => {
+    for (const time of ['21:00', '22:30', '23:59']) {
+      expect(clinicDateTime(clinicInstant('2025-06-15', time))).toEqual({ date: '2025-06-15', time });
+    }
+  });
+
+  // São Paulo last observed daylight saving time in 2018-2019
+  it('uses the summer offset when São Paulo observed daylight saving time', () => {
+    expect(clinicInstant('2019-01-15', '22:00').toISOString()).toBe('2019-01-16T00:00:00.000Z');
+    expect(clinicInstant('2018-07-15', '22:00').toISOString()).toBe('2018-07-16T01:00:00.000Z');
+  });
+
+  it('settles on the new offset on both sides of a change', () => {
+    // New York springs forward on 2025-03-09 at 02:00 and falls back on 2025-11-02 at 02:00
+    expect(clinicInstant('2025-03-08', '23:30', 'America/New_York').toISOString()).toBe('2025-03-09T04:30:00.000Z');
+    expect(clinicInstant('2025-03-09', '23:30', 'America/New_York').toISOString()).toBe('2025-03-10T03:30:00.000Z');
+    expect(clinicInstant('2025-11-01', '23:30', 'America/New_York').toISOString()).toBe('2025-11-02T03:30:00.000Z');
+    expect(clinicInstant('2025-11-02', '23:30', 'America/New_York').toISOString()).toBe('2025-11-03T04:30:00.000Z');
+  });
+
+  it('moves times skipped by the spring change forward', () => {
+    // 02:30 does not exist on 2025-03-09 in New York, nor 01:30 on 2025-03-30 in Lisbon
+    expect(clinicInstant('2025-03-09', '02:30', 'America/New_York').toISOString()).toBe('2025-03-09T07:30:00.000Z');
+    expect(clinicInstant('2025-03-30', '01:30', 'Europe/Lisbon').toISOString()).toBe('2025-03-30T01:30:00.000Z');
+    // São Paulo skipped from 00:00 to 01:00 on 2018-11-04
+    expect(clinicInstant('2018-11-04', '00:30').toISOString()).toBe('2018-11-04T03:30:00.000Z');
+  });
+
+  it('picks the first of two repeated times when the clocks go back', () => {
+    expect(clinicInstant('2025-11-02', '01:30', 'America/New_York').toISOString()).toBe('2025-11-02T05:30:00.000Z');
+    // São Paulo repeated 23:00–23:59 on 2019-02-16
+    expect(clinicInstant('2019-02-16', '23:30').toISOString()).toBe('2019-02-17T01:30:00.000Z');
+  });
+});
+
+// The calendar export has its own copy of clinicInstant for the Edge Functions
+describe('buildCalendar', () => {
+  function eventStart(date: string, time: string, timeZone: string) {
+    const calendar = buildCalendar(
+      [{ id: '1', appointment_date: date, appointment_time: time, duration_minutes: 60, status: 'scheduled' }],
+      'Agenda',
+      timeZone
+    );
+    return calendar.match(/DTSTART:(\S+)/)?.[1];
+  }
+
+  it('writes late evening São Paulo times on the next UTC day', () => {
+    expect(eventStart('2025-03-09', '23:30:00', DEFAULT_TIME_ZONE)).toBe('20250310T023000Z');
+  });
+
+  it('moves times skipped by the spring change forward', () => {
+    expect(eventStart('2025-03-09', '02:30:00', 'America/New_York')).toBe('20250309T073000Z');
+    expect(eventStart('2018-11-04', '00:30:00', DEFAULT_TIME_ZONE)).toBe('20181104T033000Z');
+  });
+});
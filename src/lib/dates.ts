@@ -0,0 +1,107 @@
+export function parseDateString(dateStr: string) {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function toDateString(date: Date) {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(dateStr: string, days: number) {
+  const date = parseDateString(dateStr);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateString(date);
+}
+
+export function formatDateString(dateStr: string, options?: Intl.DateTimeFormatOptions) {
+  return parseDateString(dateStr).toLocaleDateString('pt-BR', { ...options, timeZone: 'UTC' });
+}
+
+// Appointment dates and times are wall-clock values in the clinic timezone
+// (clinic_settings.timezone); "today" and "now" must be read there too, never
+// from UTC or from the timezone of the browser.
+export const DEFAULT_TIME_ZONE = 'America/Sao_Paulo';
+
+let clinicTimeZone = DEFAULT_TIME_ZONE;
+
+export function setClinicTimeZone(timeZone: string) {
+  clinicTimeZone = timeZone;
+}
+
+export function getClinicTimeZone() {
+  return clinicTimeZone;
+}
+
+// Date (YYYY-MM-DD) and time (HH:MM) shown by a clock in the timezone at an instant
+export function clinicDateTime(instant = new Date(), timeZone = clinicTimeZone) {
+  const parts: Record<string, string> = {};
+  const formatter = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  });
+
+  for (const part of formatter.formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+export function todayString() {
+  return clinicDateTime().date;
+}
+
+function wallClockMs(dateStr: string, time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return parseDateString(dateStr).getTime() + (hours * 60 + (minutes || 0)) * 60000;
+}
+
+// Instant at which the clock in the timezone shows the date and time. The
+// offset is read at a first guess and again at the result, which settles it
+// across daylight saving changes. A time skipped when the clocks go forward
+// has no instant; it is moved forward by the gap, like the clock itself.
+export function clinicInstant(dateStr: string, time: string, timeZone = clinicTimeZone) {
+  const target = wallClockMs(dateStr, time);
+  const settle = (guess: number) => {
+    const shown = clinicDateTime(new Date(guess), timeZone);
+    return guess + target - wallClockMs(shown.date, shown.time);
+  };
+
+  const first = settle(target);
+  const second = settle(first);
+  const shown = clinicDateTime(new Date(second), timeZone);
+
+  if (shown.date === dateStr && shown.time === time) return new Date(second);
+  return new Date(Math.max(first, second));
+}
+
+// Date objects kept by the calendar views hold local midnight; these convert
+// them to and from date strings without going through UTC.
+export function localDateString(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function parseLocalDateString(dateStr: string) {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Sunday of the week of a date string
+export function startOfWeek(dateStr: string) {
+  return addDays(dateStr, -parseDateString(dateStr).getUTCDay());
+}
+
+export function startOfMonth(dateStr: string) {
+  return `${dateStr.substring(0, 7)}-01`;
+}
+
+export function endOfMonth(dateStr: string) {
+  const date = parseDateString(startOfMonth(dateStr));
+  date.setUTCMonth(date.getUTCMonth() + 1, 0);
+  return toDateString(date);
+}
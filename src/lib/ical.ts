@@ -0,0 +1,24 @@
+// The calendar itself is built by the module the ical-feed Edge Function uses,
+// so the downloaded file and the subscribed feed cannot drift apart
+import { buildCalendar as buildSharedCalendar, CalendarAppointment } from '../../supabase/functions/_shared/ical.ts';
+import { getClinicTimeZone } from './dates';
+
+export type { CalendarAppointment };
+
+export function buildCalendar(
+  appointments: CalendarAppointment[],
+  calendarName: string,
+  timeZone = getClinicTimeZone()
+) {
+  return buildSharedCalendar(appointments, calendarName, timeZone);
+}
+
+export function downloadCalendar(content: string, filename: string) {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,96 @@
+import { supabase } from './supabase';
+
+export type PatientGender = 'female' | 'male' | 'non_binary' | 'other';
+
+export const GENDER_LABELS: Record<PatientGender, string> = {
+  female: 'Feminino',
+  male: 'Masculino',
+  non_binary: 'Não binário',
+  other: 'Outro',
+};
+
+export const PRONOUN_SUGGESTIONS = ['ela/dela', 'ele/dele', 'elu/delu'];
+
+export interface PatientIdentity {
+  cpf: string | null;
+  birth_date: string | null;
+  gender: PatientGender | null;
+  pronouns: string | null;
+  cep: string | null;
+  street: string | null;
+  address_number: string | null;
+  address_complement: string | null;
+  neighborhood: string | null;
+  city: string | null;
+  state: string | null;
+}
+
+// Unique index on patients.cpf
+export function isDuplicateCpfError(error: unknown) {
+  const { code, message } = (error as { code?: string; message?: string } | null) || {};
+  return code === '23505' && !!message?.includes('idx_patients_cpf');
+}
+
+export function formatAddress(patient: PatientIdentity) {
+  const street = [patient.street, patient.address_number, patient.address_complement].filter(Boolean).join(', ');
+  const city = [patient.city, patient.state].filter(Boolean).join('/');
+  return [street, patient.neighborhood, city].filter(Boolean).join(' · ');
+}
+
+// Full years on the given date (YYYY-MM-DD)
+export function ageOn(birthDate: string, date: string) {
+  const age = Number(date.substring(0, 4)) - Number(birthDate.substring(0, 4));
+  return date.substring(5) < birthDate.substring(5) ? age - 1 : age;
+}
+
+export type DuplicateMatch = 'cpf' | 'phone' | 'email' | 'name';
+
+export const DUPLICATE_MATCH_LABELS: Record<DuplicateMatch, string> = {
+  cpf: 'mesmo CPF',
+  phone: 'mesmo telefone',
+  email: 'mesmo e-mail',
+  name: 'nome parecido',
+};
+
+// Id, name and archived flag are null for patients outside the user's care teams
+export interface PatientDuplicate {
+  patient_id: string | null;
+  full_name: string | null;
+  professional_id: string;
+  professional_name: string | null;
+  archived: boolean | null;
+  matched_on: DuplicateMatch[];
+}
+
+interface DuplicateQuery {
+  full_name: string;
+  phone: string;
+  email: string | null;
+  cpf: string | null;
+}
+
+// Searches every professional's patients, not only the ones visible to the user;
+// the ones that are not visible come back without id and name
+export async function findPatientDuplicates(patient: DuplicateQuery, excludeId?: string) {
+  const { data, error } = await supabase.rpc('find_patient_duplicates', {
+    p_full_name: patient.full_name,
+    p_phone: patient.phone,
+    p_email: patient.email,
+    p_cpf: patient.cpf,
+    p_exclude_id: excludeId ?? null,
+  });
+
+  if (error) throw error;
+  return (data || []) as PatientDuplicate[];
+}
+
+// Super admins only; resolves to the number of appointments moved to the survivor
+export async function mergePatients(survivorId: string, duplicateIds: string[]) {
+  const { data, error } = await supabase.rpc('merge_patients', {
+    p_survivor_id: survivorId,
+    p_duplicate_ids: duplicateIds,
+  });
+
+  if (error) throw error;
+  return Number(data) || 0;
+}
@@ -0,0 +1,149 @@
+// Minimal text-only PDF writer: A4 pages, built-in Helvetica, automatic paging.
+// Text is encoded as WinAnsi, which covers the Portuguese accents.
+
+export interface PdfLine {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  indent?: number;
+  // Extra space above the line, in points
+  spaceBefore?: number;
+  // Starts a new page before this line (unless the page is still empty)
+  pageBreak?: boolean;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+const DEFAULT_SIZE = 10;
+
+// Code points outside Latin-1 that WinAnsi places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+function encodeText(text: string) {
+  let encoded = '';
+
+  for (const char of text) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+
+    if (char === '\\' || char === '(' || char === ')') {
+      encoded += `\\${char}`;
+    } else if (code >= 0x20 && code < 0x7f) {
+      encoded += char;
+    } else if (code >= 0x80 && code <= 0xff) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += '?';
+    }
+  }
+
+  return encoded;
+}
+
+// Helvetica averages about half an em per character; good enough to wrap plain text
+function wrapText(text: string, size: number, bold: boolean, width: number) {
+  const maxChars = Math.max(10, Math.floor(width / (size * (bold ? 0.56 : 0.5))));
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let current = '';
+
+    for (const word of paragraph.split(' ')) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (candidate.length > maxChars && current) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+export function buildPdf(lines: PdfLine[]) {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE;
+    const indent = line.indent ?? 0;
+    const leading = size * 1.35;
+
+    if (line.pageBreak && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+
+    if (pages[pages.length - 1].length > 0) {
+      y -= line.spaceBefore ?? 0;
+    }
+
+    for (const text of wrapText(line.text, size, !!line.bold, PAGE_WIDTH - 2 * MARGIN - indent)) {
+      if (y - leading < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+
+      pages[pages.length - 1].push(
+        `BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN + indent} ${y.toFixed(1)} Td (${encodeText(text)}) Tj ET`
+      );
+    }
+  }
+
+  // Objects 1-4 are fixed; each page adds a page object and its content stream
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((commands, index) => {
+    const stream = commands.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Everything above is ASCII, so string lengths are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Blob([output], { type: 'application/pdf' });
+}
+
+export function downloadPdf(pdf: Blob, filename: string) {
+  const url = URL.createObjectURL(pdf);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,49 @@
+// 'price' sets the agreed price itself, which may be above the list price
+export type DiscountType = 'percent' | 'fixed' | 'price';
+
+export interface Discount {
+  discount_type: DiscountType | null;
+  discount_value: number;
+  discount_reason: string | null;
+}
+
+export const NO_DISCOUNT: Discount = {
+  discount_type: null,
+  discount_value: 0,
+  discount_reason: null,
+};
+
+export const DISCOUNT_TYPE_LABELS: Record<DiscountType, string> = {
+  percent: 'Percentual (%)',
+  fixed: 'Valor (R$)',
+  price: 'Preço combinado (R$)',
+};
+
+// Mirrors discounted_price() in the database, which stores appointments.agreed_price
+export function applyDiscount(listPrice: number, discount: Pick<Discount, 'discount_type' | 'discount_value'>) {
+  const price =
+    discount.discount_type === 'percent'
+      ? listPrice * (1 - discount.discount_value / 100)
+      : discount.discount_type === 'fixed'
+        ? listPrice - discount.discount_value
+        : discount.discount_type === 'price'
+          ? discount.discount_value
+          : listPrice;
+
+  return Math.max(0, Math.round(price * 100) / 100);
+}
+
+export function describeDiscount(discount: Pick<Discount, 'discount_type' | 'discount_value'>) {
+  if (!discount.discount_type) return '';
+  if (discount.discount_type === 'price') return 'preço combinado';
+  if (discount.discount_value <= 0) return '';
+
+  return discount.discount_type === 'percent'
+    ? `${discount.discount_value}% de desconto`
+    : `R$ ${discount.discount_value.toFixed(2)} de desconto`;
+}
+
+// Raised when the price or items of a completed appointment are changed
+export function isPriceLockedError(error: unknown) {
+  return (error as { hint?: string } | null)?.hint === 'price_locked';
+}
@@ -0,0 +1,299 @@
+import { supabase } from './supabase';
+import { formatDateString } from './dates';
+import { formatPhone } from './brazil';
+import { sortItems } from './appointmentItems';
+import { buildPdf, PdfLine } from './pdf';
+import { ClinicSettings } from './settings';
+
+export interface PrintableAppointment {
+  id: string;
+  appointment_date: string;
+  appointment_time: string;
+  duration_minutes: number;
+  status: string;
+  notes: string | null;
+  patient: { full_name: string; phone: string } | null;
+  professional: { full_name: string } | null;
+  items: {
+    position: number;
+    duration_minutes: number;
+    procedure: { name: string; preparation_instructions: string | null } | null;
+  }[];
+}
+
+const PRINTABLE_APPOINTMENT_SELECT = `
+  id,
+  appointment_date,
+  appointment_time,
+  duration_minutes,
+  status,
+  notes,
+  patient:patient_contacts(full_name, phone),
+  professional:profiles!appointments_professional_id_fkey(full_name),
+  items:appointment_items(position, duration_minutes, procedure:procedures(name, preparation_instructions))
+`;
+
+// Appointments of a day, for one professional or the whole clinic (empty id)
+export async function fetchPrintableSchedule(date: string, professionalId: string) {
+  let query = supabase
+    .from('appointments')
+    .select(PRINTABLE_APPOINTMENT_SELECT)
+    .eq('appointment_date', date)
+    .neq('status', 'cancelled')
+    .order('appointment_time');
+
+  if (professionalId) {
+    query = query.eq('professional_id', professionalId);
+  }
+
+  const { data, error } = await query.overrideTypes<PrintableAppointment[], { merge: false }>();
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchPrintableAppointment(appointmentId: string) {
+  const { data, error } = await supabase
+    .from('appointments')
+    .select(PRINTABLE_APPOINTMENT_SELECT)
+    .eq('id', appointmentId)
+    .single()
+    .overrideTypes<PrintableAppointment, { merge: false }>();
+
+  if (error) throw error;
+  return data;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function procedureNames(appointment: PrintableAppointment) {
+  return (
+    sortItems(appointment.items)
+      .map((item) => item.procedure?.name)
+      .filter(Boolean)
+      .join(' + ') || 'Atendimento'
+  );
+}
+
+function longDate(date: string) {
+  return formatDateString(date, { weekday: 'long', day: '2-digit', month: 'long', year: 'numeric' });
+}
+
+function clinicContact(clinic: ClinicSettings) {
+  return [clinic.clinic_address, clinic.clinic_phone].filter(Boolean).join(' · ');
+}
+
+// One section per professional, in the order of their first appointment
+function groupByProfessional(appointments: PrintableAppointment[]) {
+  const groups = new Map<string, PrintableAppointment[]>();
+
+  for (const appointment of appointments) {
+    const name = appointment.professional?.full_name || 'Sem profissional';
+    groups.set(name, [...(groups.get(name) || []), appointment]);
+  }
+
+  return [...groups.entries()];
+}
+
+// Clinical notes about the patient stay in the app; only the appointment's are printed
+function scheduleNotes(appointment: PrintableAppointment) {
+  return appointment.notes || '';
+}
+
+function preparationInstructions(appointment: PrintableAppointment) {
+  return sortItems(appointment.items).filter((item) => item.procedure?.preparation_instructions?.trim());
+}
+
+function cancellationNotice(clinic: ClinicSettings) {
+  return clinic.cancellation_notice_hours > 0 && clinic.cancellation_fee_value > 0
+    ? `Cancelamentos com menos de ${clinic.cancellation_notice_hours}h de antecedência estão sujeitos a taxa.`
+    : 'Em caso de imprevisto, avise com antecedência.';
+}
+
+const PRINT_STYLES = `
+  @page { size: A4; margin: 14mm; }
+  body { font-family: system-ui, sans-serif; color: #222; font-size: 12px; margin: 0; }
+  header { border-bottom: 2px solid #c9a19b; padding-bottom: 8px; margin-bottom: 16px; }
+  h1 { font-size: 18px; margin: 0; }
+  h2 { font-size: 14px; margin: 0 0 8px; }
+  .muted { color: #666; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px; border-bottom: 1px solid #ddd; vertical-align: top; }
+  th { font-size: 10px; text-transform: uppercase; color: #666; }
+  section + section { page-break-before: always; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 6px 16px; margin: 0 0 16px; }
+  dt { color: #666; }
+  dd { margin: 0; font-weight: 600; }
+`;
+
+function htmlDocument(title: string, body: string) {
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>${PRINT_STYLES}</style>
+</head>
+<body>${body}</body>
+</html>`;
+}
+
+export function buildScheduleHtml(clinic: ClinicSettings, date: string, appointments: PrintableAppointment[]) {
+  const sections = groupByProfessional(appointments).map(
+    ([professional, rows]) => `
+    <section>
+      <header>
+        <h1>${escapeHtml(clinic.clinic_name)}</h1>
+        <p class="muted">Agenda de ${escapeHtml(longDate(date))}</p>
+      </header>
+      <h2>${escapeHtml(professional)} · ${rows.length} ${rows.length === 1 ? 'atendimento' : 'atendimentos'}</h2>
+      <table>
+        <thead>
+          <tr><th>Horário</th><th>Paciente</th><th>Telefone</th><th>Procedimento</th><th>Duração</th><th>Observações</th></tr>
+        </thead>
+        <tbody>
+          ${rows
+            .map(
+              (apt) => `<tr>
+            <td>${apt.appointment_time.substring(0, 5)}</td>
+            <td>${escapeHtml(apt.patient?.full_name || '')}</td>
+            <td>${escapeHtml(formatPhone(apt.patient?.phone || ''))}</td>
+            <td>${escapeHtml(procedureNames(apt))}</td>
+            <td>${apt.duration_minutes} min</td>
+            <td>${escapeHtml(scheduleNotes(apt))}</td>
+          </tr>`
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </section>`
+  );
+
+  return htmlDocument(
+    `Agenda ${formatDateString(date)}`,
+    sections.join('') || `<p class="muted">Nenhum agendamento em ${escapeHtml(longDate(date))}.</p>`
+  );
+}
+
+export function buildSchedulePdf(clinic: ClinicSettings, date: string, appointments: PrintableAppointment[]) {
+  const groups = groupByProfessional(appointments);
+  const lines: PdfLine[] = [];
+
+  if (groups.length === 0) {
+    lines.push({ text: clinic.clinic_name, size: 16, bold: true });
+    lines.push({ text: `Nenhum agendamento em ${longDate(date)}.` });
+  }
+
+  groups.forEach(([professional, rows], index) => {
+    lines.push({ text: clinic.clinic_name, size: 16, bold: true, pageBreak: index > 0 });
+    lines.push({ text: `Agenda de ${longDate(date)}` });
+    lines.push({
+      text: `${professional} · ${rows.length} ${rows.length === 1 ? 'atendimento' : 'atendimentos'}`,
+      size: 12,
+      bold: true,
+      spaceBefore: 12,
+    });
+
+    for (const apt of rows) {
+      lines.push({
+        text: `${apt.appointment_time.substring(0, 5)} · ${apt.duration_minutes} min · ${apt.patient?.full_name || ''}`,
+        bold: true,
+        spaceBefore: 8,
+      });
+      lines.push({ text: `${procedureNames(apt)} · Tel.: ${apt.patient?.phone ? formatPhone(apt.patient.phone) : '-'}`, indent: 12 });
+      if (scheduleNotes(apt)) {
+        lines.push({ text: `Obs.: ${scheduleNotes(apt)}`, indent: 12 });
+      }
+    }
+  });
+
+  return buildPdf(lines);
+}
+
+export function buildSlipHtml(clinic: ClinicSettings, appointment: PrintableAppointment) {
+  const instructions = preparationInstructions(appointment);
+
+  return htmlDocument(
+    'Comprovante de agendamento',
+    `<header>
+      <h1>${escapeHtml(clinic.clinic_name)}</h1>
+      <p class="muted">${escapeHtml(clinicContact(clinic))}</p>
+    </header>
+    <h2>Comprovante de agendamento</h2>
+    <dl>
+      <dt>Paciente</dt><dd>${escapeHtml(appointment.patient?.full_name || '')}</dd>
+      <dt>Data</dt><dd>${escapeHtml(longDate(appointment.appointment_date))}</dd>
+      <dt>Horário</dt><dd>${appointment.appointment_time.substring(0, 5)} (${appointment.duration_minutes} min)</dd>
+      <dt>Procedimento</dt><dd>${escapeHtml(procedureNames(appointment))}</dd>
+      <dt>Profissional</dt><dd>${escapeHtml(appointment.professional?.full_name || '')}</dd>
+    </dl>
+    ${
+      instructions.length > 0
+        ? `<h2>Preparação</h2>${instructions
+            .map(
+              (item) =>
+                `<p><strong>${escapeHtml(item.procedure?.name || '')}:</strong> ${escapeHtml(
+                  item.procedure?.preparation_instructions || ''
+                )}</p>`
+            )
+            .join('')}`
+        : ''
+    }
+    <p class="muted">${escapeHtml(cancellationNotice(clinic))}</p>`
+  );
+}
+
+export function buildSlipPdf(clinic: ClinicSettings, appointment: PrintableAppointment) {
+  const lines: PdfLine[] = [
+    { text: clinic.clinic_name, size: 16, bold: true },
+    { text: clinicContact(clinic) },
+    { text: 'Comprovante de agendamento', size: 12, bold: true, spaceBefore: 16 },
+    { text: `Paciente: ${appointment.patient?.full_name || ''}`, spaceBefore: 8 },
+    { text: `Data: ${longDate(appointment.appointment_date)}` },
+    { text: `Horário: ${appointment.appointment_time.substring(0, 5)} (${appointment.duration_minutes} min)` },
+    { text: `Procedimento: ${procedureNames(appointment)}` },
+    { text: `Profissional: ${appointment.professional?.full_name || ''}` },
+  ];
+
+  const instructions = preparationInstructions(appointment);
+  if (instructions.length > 0) {
+    lines.push({ text: 'Preparação', size: 12, bold: true, spaceBefore: 16 });
+    for (const item of instructions) {
+      lines.push({ text: item.procedure?.name || '', bold: true, spaceBefore: 6 });
+      lines.push({ text: item.procedure?.preparation_instructions || '' });
+    }
+  }
+
+  lines.push({ text: cancellationNotice(clinic), spaceBefore: 16 });
+
+  return buildPdf(lines);
+}
+
+// Prints through a hidden frame so the current page stays as it is
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    return;
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.addEventListener('afterprint', () => frame.remove());
+  frameWindow.focus();
+  frameWindow.print();
+}
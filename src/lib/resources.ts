@@ -0,0 +1,101 @@
+import { supabase } from './supabase';
+import { addDays } from './dates';
+import { minutesToTime, rangesOverlap, timeToMinutes } from './scheduling';
+
+export type ResourceKind = 'room' | 'equipment';
+
+export interface Resource {
+  id: string;
+  name: string;
+  kind: ResourceKind;
+  is_active: boolean;
+}
+
+export interface ResourceAllocation {
+  appointment_id: string;
+  resource_id: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface ResourceConflict {
+  name: string;
+  start: string;
+  end: string;
+}
+
+export const RESOURCE_KIND_LABELS: Record<ResourceKind, string> = {
+  room: 'Sala',
+  equipment: 'Equipamento',
+};
+
+// Raised by the allocation trigger when a required resource is already taken
+export function isResourceBusyError(error: unknown) {
+  return (error as { hint?: string } | null)?.hint === 'resource_busy';
+}
+
+// Active resources required by any of the given procedures
+export async function fetchRequiredResources(procedureIds: string[]): Promise<Resource[]> {
+  if (procedureIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('procedure_resources')
+    .select('resource:resources!inner(id, name, kind, is_active)')
+    .in('procedure_id', procedureIds)
+    .eq('resource.is_active', true)
+    .overrideTypes<{ resource: Resource }[], { merge: false }>();
+
+  if (error) throw error;
+
+  const byId = new Map((data || []).map((row) => [row.resource.id, row.resource]));
+  return [...byId.values()];
+}
+
+// Allocations of the given resources overlapping [startDate, endDate]
+export async function fetchResourceAllocations(
+  resourceIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<ResourceAllocation[]> {
+  if (resourceIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('appointment_resources')
+    .select('appointment_id, resource_id, starts_at, ends_at')
+    .in('resource_id', resourceIds)
+    .lt('starts_at', `${addDays(endDate, 1)}T00:00:00`)
+    .gt('ends_at', `${startDate}T00:00:00`);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// First required resource already held by another appointment during the interval.
+// An allocation ending at midnight has an end time of 00:00 on the next day.
+export function findBusyResource(
+  resources: Resource[],
+  allocations: ResourceAllocation[],
+  date: string,
+  time: string,
+  durationMinutes: number,
+  ignoreAppointmentId?: string
+): ResourceConflict | null {
+  const start = timeToMinutes(time);
+  const end = start + durationMinutes;
+
+  for (const allocation of allocations) {
+    if (allocation.appointment_id === ignoreAppointmentId) continue;
+    if (allocation.starts_at.split('T')[0] !== date) continue;
+
+    const allocationStart = timeToMinutes(allocation.starts_at.substring(11, 16));
+    const allocationEnd = timeToMinutes(allocation.ends_at.substring(11, 16)) || 24 * 60;
+    if (!rangesOverlap(start, end, allocationStart, allocationEnd)) continue;
+
+    const resource = resources.find((r) => r.id === allocation.resource_id);
+    if (resource) {
+      return { name: resource.name, start: minutesToTime(allocationStart), end: minutesToTime(allocationEnd) };
+    }
+  }
+
+  return null;
+}
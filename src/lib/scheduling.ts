@@ -0,0 +1,84 @@
+import { addDays } from './dates';
+
+export interface ScheduledInterval {
+  id: string;
+  appointment_time: string;
+  duration_minutes: number;
+}
+
+export function timeToMinutes(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+export function minutesToTime(totalMinutes: number) {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+export function rangesOverlap(startA: number, endA: number, startB: number, endB: number) {
+  return startA < endB && startB < endA;
+}
+
+// Returns the first appointment of the same day whose time range overlaps
+// the [time, time + duration) range, ignoring `ignoreId` (the appointment being edited).
+export function findOverlappingAppointment<T extends ScheduledInterval>(
+  appointments: T[],
+  time: string,
+  durationMinutes: number,
+  ignoreId?: string
+): T | undefined {
+  const start = timeToMinutes(time);
+  const end = start + durationMinutes;
+
+  return appointments.find((apt) => {
+    if (apt.id === ignoreId) return false;
+    const aptStart = timeToMinutes(apt.appointment_time);
+    return rangesOverlap(start, end, aptStart, aptStart + apt.duration_minutes);
+  });
+}
+
+export function isOverlapError(error: unknown) {
+  return (error as { code?: string } | null)?.code === '23P01';
+}
+
+export type RecurrenceUnit = 'day' | 'week';
+
+export interface RecurrenceRule {
+  startDate: string;
+  intervalValue: number;
+  intervalUnit: RecurrenceUnit;
+  occurrenceCount: number | null;
+  endDate: string | null;
+}
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+export function generateOccurrenceDates(rule: RecurrenceRule) {
+  const step = rule.intervalValue * (rule.intervalUnit === 'week' ? 7 : 1);
+  if (!rule.startDate || step <= 0) {
+    return rule.startDate ? [rule.startDate] : [];
+  }
+
+  const dates: string[] = [];
+  let date = rule.startDate;
+
+  while (dates.length < MAX_SERIES_OCCURRENCES) {
+    if (rule.occurrenceCount !== null && dates.length >= rule.occurrenceCount) break;
+    if (rule.endDate !== null && date > rule.endDate) break;
+    dates.push(date);
+    date = addDays(date, step);
+  }
+
+  return dates;
+}
+
+// True when an end-date series has more sessions than MAX_SERIES_OCCURRENCES,
+// which generateOccurrenceDates stops at
+export function exceedsSeriesLimit(rule: RecurrenceRule, dates: string[]) {
+  if (rule.endDate === null || dates.length < MAX_SERIES_OCCURRENCES) return false;
+
+  const step = rule.intervalValue * (rule.intervalUnit === 'week' ? 7 : 1);
+  return addDays(dates[dates.length - 1], step) <= rule.endDate;
+}
@@ -0,0 +1,78 @@
+import { supabase } from './supabase';
+import { setClinicTimeZone } from './dates';
+
+export type ReminderChannel = 'log' | 'whatsapp' | 'sms' | 'email';
+export type CancellationFeeType = 'percent' | 'fixed';
+
+export interface ClinicSettings {
+  reminder_hours_before: number;
+  reminder_channel: ReminderChannel;
+  public_booking_enabled: boolean;
+  public_booking_requires_approval: boolean;
+  public_booking_days_ahead: number;
+  cancellation_notice_hours: number;
+  cancellation_fee_type: CancellationFeeType;
+  cancellation_fee_value: number;
+  clinic_name: string;
+  clinic_address: string | null;
+  clinic_phone: string | null;
+  timezone: string;
+  share_patient_contacts: boolean;
+}
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  log: 'Somente registro (desenvolvimento)',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+  email: 'E-mail',
+};
+
+export const CANCELLATION_FEE_TYPE_LABELS: Record<CancellationFeeType, string> = {
+  percent: 'Percentual do valor do atendimento',
+  fixed: 'Valor fixo',
+};
+
+// Brazilian IANA zones; the clinic picks the one its appointments are booked in
+export const CLINIC_TIME_ZONES: { value: string; label: string }[] = [
+  { value: 'America/Sao_Paulo', label: 'Brasília (Sul, Sudeste, Goiás, DF)' },
+  { value: 'America/Bahia', label: 'Bahia' },
+  { value: 'America/Fortaleza', label: 'Nordeste (CE, RN, PB, PI, MA)' },
+  { value: 'America/Recife', label: 'Pernambuco' },
+  { value: 'America/Maceio', label: 'Alagoas e Sergipe' },
+  { value: 'America/Belem', label: 'Pará e Amapá' },
+  { value: 'America/Araguaina', label: 'Tocantins' },
+  { value: 'America/Noronha', label: 'Fernando de Noronha' },
+  { value: 'America/Cuiaba', label: 'Mato Grosso' },
+  { value: 'America/Campo_Grande', label: 'Mato Grosso do Sul' },
+  { value: 'America/Manaus', label: 'Amazonas' },
+  { value: 'America/Porto_Velho', label: 'Rondônia' },
+  { value: 'America/Boa_Vista', label: 'Roraima' },
+  { value: 'America/Rio_Branco', label: 'Acre' },
+];
+
+// clinic_settings holds a single row
+export async function fetchClinicSettings(): Promise<ClinicSettings> {
+  const { data, error } = await supabase.from('clinic_settings').select('*').single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateClinicSettings(changes: Partial<ClinicSettings>) {
+  const { error } = await supabase.from('clinic_settings').update(changes).eq('id', true);
+
+  if (error) throw error;
+  if (changes.timezone) {
+    setClinicTimeZone(changes.timezone);
+  }
+}
+
+// Called once after sign-in so every page reads dates in the clinic timezone
+export async function loadClinicTimeZone() {
+  const { data, error } = await supabase.from('clinic_settings').select('timezone').single();
+
+  if (error) throw error;
+  if (data?.timezone) {
+    setClinicTimeZone(data.timezone);
+  }
+}
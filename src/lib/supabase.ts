@@ -47,6 +47,7 @@ export type Database = {
           name: string;
           duration_minutes: number;
           default_price: number;
+          preparation_instructions: string | null;
           is_active: boolean;
           created_by: string | null;
           created_at: string;
@@ -57,6 +58,7 @@ export type Database = {
           name: string;
           duration_minutes: number;
           default_price: number;
+          preparation_instructions?: string | null;
           is_active?: boolean;
           created_by?: string | null;
           created_at?: string;
@@ -67,6 +69,7 @@ export type Database = {
           name?: string;
           duration_minutes?: number;
           default_price?: number;
+          preparation_instructions?: string | null;
           is_active?: boolean;
           created_by?: string | null;
           created_at?: string;
@@ -79,8 +82,19 @@ export type Database = {
           full_name: string;
           phone: string;
           email: string | null;
-          notes: string | null;
           professional_id: string;
+          archived_at: string | null;
+          cpf: string | null;
+          birth_date: string | null;
+          gender: 'female' | 'male' | 'non_binary' | 'other' | null;
+          pronouns: string | null;
+          cep: string | null;
+          street: string | null;
+          address_number: string | null;
+          address_complement: string | null;
+          neighborhood: string | null;
+          city: string | null;
+          state: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -89,8 +103,19 @@ export type Database = {
           full_name: string;
           phone: string;
           email?: string | null;
-          notes?: string | null;
           professional_id: string;
+          archived_at?: string | null;
+          cpf?: string | null;
+          birth_date?: string | null;
+          gender?: 'female' | 'male' | 'non_binary' | 'other' | null;
+          pronouns?: string | null;
+          cep?: string | null;
+          street?: string | null;
+          address_number?: string | null;
+          address_complement?: string | null;
+          neighborhood?: string | null;
+          city?: string | null;
+          state?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -99,8 +124,19 @@ export type Database = {
           full_name?: string;
           phone?: string;
           email?: string | null;
-          notes?: string | null;
           professional_id?: string;
+          archived_at?: string | null;
+          cpf?: string | null;
+          birth_date?: string | null;
+          gender?: 'female' | 'male' | 'non_binary' | 'other' | null;
+          pronouns?: string | null;
+          cep?: string | null;
+          street?: string | null;
+          address_number?: string | null;
+          address_complement?: string | null;
+          neighborhood?: string | null;
+          city?: string | null;
+          state?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -113,8 +149,22 @@ export type Database = {
           professional_id: string;
           appointment_date: string;
           appointment_time: string;
-          status: 'scheduled' | 'confirmed' | 'completed' | 'cancelled';
+          duration_minutes: number;
+          status: 'scheduled' | 'confirmed' | 'checked_in' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
           cancellation_reason: string | null;
+          series_id: string | null;
+          booking_source: 'staff' | 'online';
+          pending_approval: boolean;
+          checked_in_at: string | null;
+          started_at: string | null;
+          completed_at: string | null;
+          notes: string | null;
+          notes_updated_by: string | null;
+          notes_updated_at: string | null;
+          discount_type: 'percent' | 'fixed' | 'price' | null;
+          discount_value: number;
+          discount_reason: string | null;
+          agreed_price: number | null;
           created_by: string | null;
           created_at: string;
           updated_at: string;
@@ -126,8 +176,22 @@ export type Database = {
           professional_id: string;
           appointment_date: string;
           appointment_time: string;
-          status?: 'scheduled' | 'confirmed' | 'completed' | 'cancelled';
+          duration_minutes?: number;
+          status?: 'scheduled' | 'confirmed' | 'checked_in' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
           cancellation_reason?: string | null;
+          series_id?: string | null;
+          booking_source?: 'staff' | 'online';
+          pending_approval?: boolean;
+          checked_in_at?: string | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          notes?: string | null;
+          notes_updated_by?: string | null;
+          notes_updated_at?: string | null;
+          discount_type?: 'percent' | 'fixed' | 'price' | null;
+          discount_value?: number;
+          discount_reason?: string | null;
+          agreed_price?: number | null;
           created_by?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -139,13 +203,693 @@ export type Database = {
           professional_id?: string;
           appointment_date?: string;
           appointment_time?: string;
-          status?: 'scheduled' | 'confirmed' | 'completed' | 'cancelled';
+          duration_minutes?: number;
+          status?: 'scheduled' | 'confirmed' | 'checked_in' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
           cancellation_reason?: string | null;
+          series_id?: string | null;
+          booking_source?: 'staff' | 'online';
+          pending_approval?: boolean;
+          checked_in_at?: string | null;
+          started_at?: string | null;
+          completed_at?: string | null;
+          notes?: string | null;
+          notes_updated_by?: string | null;
+          notes_updated_at?: string | null;
+          discount_type?: 'percent' | 'fixed' | 'price' | null;
+          discount_value?: number;
+          discount_reason?: string | null;
+          agreed_price?: number | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      appointment_series: {
+        Row: {
+          id: string;
+          patient_id: string;
+          procedure_id: string;
+          professional_id: string;
+          start_date: string;
+          appointment_time: string;
+          interval_value: number;
+          interval_unit: 'day' | 'week';
+          occurrence_count: number | null;
+          end_date: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          patient_id: string;
+          procedure_id: string;
+          professional_id: string;
+          start_date: string;
+          appointment_time: string;
+          interval_value: number;
+          interval_unit: 'day' | 'week';
+          occurrence_count?: number | null;
+          end_date?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          patient_id?: string;
+          procedure_id?: string;
+          professional_id?: string;
+          start_date?: string;
+          appointment_time?: string;
+          interval_value?: number;
+          interval_unit?: 'day' | 'week';
+          occurrence_count?: number | null;
+          end_date?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      appointment_history: {
+        Row: {
+          id: string;
+          appointment_id: string;
+          changed_by: string | null;
+          changed_at: string;
+          old_date: string;
+          old_time: string;
+          old_professional_id: string;
+          new_date: string;
+          new_time: string;
+          new_professional_id: string;
+        };
+        Insert: {
+          id?: string;
+          appointment_id: string;
+          changed_by?: string | null;
+          changed_at?: string;
+          old_date: string;
+          old_time: string;
+          old_professional_id: string;
+          new_date: string;
+          new_time: string;
+          new_professional_id: string;
+        };
+        Update: {
+          id?: string;
+          appointment_id?: string;
+          changed_by?: string | null;
+          changed_at?: string;
+          old_date?: string;
+          old_time?: string;
+          old_professional_id?: string;
+          new_date?: string;
+          new_time?: string;
+          new_professional_id?: string;
+        };
+      };
+      waitlist_entries: {
+        Row: {
+          id: string;
+          patient_id: string;
+          procedure_id: string;
+          professional_id: string | null;
+          earliest_date: string;
+          latest_date: string;
+          preferred_start_time: string | null;
+          preferred_end_time: string | null;
+          weekdays: number[] | null;
+          notes: string | null;
+          status: 'waiting' | 'booked' | 'removed';
+          appointment_id: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          patient_id: string;
+          procedure_id: string;
+          professional_id?: string | null;
+          earliest_date: string;
+          latest_date: string;
+          preferred_start_time?: string | null;
+          preferred_end_time?: string | null;
+          weekdays?: number[] | null;
+          notes?: string | null;
+          status?: 'waiting' | 'booked' | 'removed';
+          appointment_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          patient_id?: string;
+          procedure_id?: string;
+          professional_id?: string | null;
+          earliest_date?: string;
+          latest_date?: string;
+          preferred_start_time?: string | null;
+          preferred_end_time?: string | null;
+          weekdays?: number[] | null;
+          notes?: string | null;
+          status?: 'waiting' | 'booked' | 'removed';
+          appointment_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      calendar_feed_tokens: {
+        Row: {
+          id: string;
+          professional_id: string;
+          token: string;
+          label: string | null;
+          created_at: string;
+          last_used_at: string | null;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          professional_id: string;
+          token?: string;
+          label?: string | null;
+          created_at?: string;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          professional_id?: string;
+          token?: string;
+          label?: string | null;
+          created_at?: string;
+          last_used_at?: string | null;
+          revoked_at?: string | null;
+        };
+      };
+      clinic_settings: {
+        Row: {
+          id: boolean;
+          reminder_hours_before: number;
+          reminder_channel: 'log' | 'whatsapp' | 'sms' | 'email';
+          public_booking_enabled: boolean;
+          public_booking_requires_approval: boolean;
+          public_booking_days_ahead: number;
+          cancellation_notice_hours: number;
+          cancellation_fee_type: 'percent' | 'fixed';
+          cancellation_fee_value: number;
+          clinic_name: string;
+          clinic_address: string | null;
+          clinic_phone: string | null;
+          timezone: string;
+          share_patient_contacts: boolean;
+          updated_at: string;
+        };
+        Insert: {
+          id?: boolean;
+          reminder_hours_before?: number;
+          reminder_channel?: 'log' | 'whatsapp' | 'sms' | 'email';
+          public_booking_enabled?: boolean;
+          public_booking_requires_approval?: boolean;
+          public_booking_days_ahead?: number;
+          cancellation_notice_hours?: number;
+          cancellation_fee_type?: 'percent' | 'fixed';
+          cancellation_fee_value?: number;
+          clinic_name?: string;
+          clinic_address?: string | null;
+          clinic_phone?: string | null;
+          timezone?: string;
+          share_patient_contacts?: boolean;
+          updated_at?: string;
+        };
+        Update: {
+          id?: boolean;
+          reminder_hours_before?: number;
+          reminder_channel?: 'log' | 'whatsapp' | 'sms' | 'email';
+          public_booking_enabled?: boolean;
+          public_booking_requires_approval?: boolean;
+          public_booking_days_ahead?: number;
+          cancellation_notice_hours?: number;
+          cancellation_fee_type?: 'percent' | 'fixed';
+          cancellation_fee_value?: number;
+          clinic_name?: string;
+          clinic_address?: string | null;
+          clinic_phone?: string | null;
+          timezone?: string;
+          share_patient_contacts?: boolean;
+          updated_at?: string;
+        };
+      };
+      appointment_reminders: {
+        Row: {
+          id: string;
+          appointment_id: string;
+          send_at: string;
+          status: 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+          channel: string | null;
+          sent_at: string | null;
+          error: string | null;
+          token: string;
+          response: 'confirmed' | 'cancelled' | null;
+          responded_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          appointment_id: string;
+          send_at: string;
+          status?: 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+          channel?: string | null;
+          sent_at?: string | null;
+          error?: string | null;
+          token?: string;
+          response?: 'confirmed' | 'cancelled' | null;
+          responded_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          appointment_id?: string;
+          send_at?: string;
+          status?: 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+          channel?: string | null;
+          sent_at?: string | null;
+          error?: string | null;
+          token?: string;
+          response?: 'confirmed' | 'cancelled' | null;
+          responded_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      public_booking_requests: {
+        Row: {
+          id: string;
+          ip: string;
+          phone: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          ip: string;
+          phone: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          ip?: string;
+          phone?: string;
+          created_at?: string;
+        };
+      };
+      appointment_items: {
+        Row: {
+          id: string;
+          appointment_id: string;
+          procedure_id: string;
+          position: number;
+          duration_minutes: number;
+          price: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          appointment_id: string;
+          procedure_id: string;
+          position?: number;
+          duration_minutes: number;
+          price?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          appointment_id?: string;
+          procedure_id?: string;
+          position?: number;
+          duration_minutes?: number;
+          price?: number;
+          created_at?: string;
+        };
+      };
+      resources: {
+        Row: {
+          id: string;
+          name: string;
+          kind: 'room' | 'equipment';
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          kind?: 'room' | 'equipment';
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          kind?: 'room' | 'equipment';
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      procedure_resources: {
+        Row: {
+          procedure_id: string;
+          resource_id: string;
+        };
+        Insert: {
+          procedure_id: string;
+          resource_id: string;
+        };
+        Update: {
+          procedure_id?: string;
+          resource_id?: string;
+        };
+      };
+      appointment_resources: {
+        Row: {
+          id: string;
+          appointment_id: string;
+          resource_id: string;
+          starts_at: string;
+          ends_at: string;
+        };
+        Insert: {
+          id?: string;
+          appointment_id: string;
+          resource_id: string;
+          starts_at: string;
+          ends_at: string;
+        };
+        Update: {
+          id?: string;
+          appointment_id?: string;
+          resource_id?: string;
+          starts_at?: string;
+          ends_at?: string;
+        };
+      };
+      patient_charges: {
+        Row: {
+          id: string;
+          patient_id: string;
+          appointment_id: string | null;
+          professional_id: string;
+          amount: number;
+          reason: string;
+          status: 'pending' | 'paid' | 'waived';
+          transaction_id: string | null;
+          created_by: string | null;
+          created_at: string;
+          resolved_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          patient_id: string;
+          appointment_id?: string | null;
+          professional_id: string;
+          amount: number;
+          reason: string;
+          status?: 'pending' | 'paid' | 'waived';
+          transaction_id?: string | null;
           created_by?: string | null;
           created_at?: string;
+          resolved_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          patient_id?: string;
+          appointment_id?: string | null;
+          professional_id?: string;
+          amount?: number;
+          reason?: string;
+          status?: 'pending' | 'paid' | 'waived';
+          transaction_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          resolved_at?: string | null;
+        };
+      };
+      patient_merges: {
+        Row: {
+          id: string;
+          survivor_id: string;
+          merged_patient_id: string;
+          merged_patient: Record<string, unknown>;
+          appointment_ids: string[];
+          merged_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          survivor_id: string;
+          merged_patient_id: string;
+          merged_patient: Record<string, unknown>;
+          appointment_ids?: string[];
+          merged_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          survivor_id?: string;
+          merged_patient_id?: string;
+          merged_patient?: Record<string, unknown>;
+          appointment_ids?: string[];
+          merged_by?: string | null;
+          created_at?: string;
+        };
+      };
+      patient_care_team: {
+        Row: {
+          patient_id: string;
+          professional_id: string;
+          added_by: string | null;
+          pending: boolean;
+          created_at: string;
+        };
+        Insert: {
+          patient_id: string;
+          professional_id: string;
+          added_by?: string | null;
+          pending?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          patient_id?: string;
+          professional_id?: string;
+          added_by?: string | null;
+          pending?: boolean;
+          created_at?: string;
+        };
+      };
+      patient_notes: {
+        Row: {
+          id: string;
+          patient_id: string;
+          author_id: string | null;
+          body: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          patient_id: string;
+          author_id?: string | null;
+          body: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          patient_id?: string;
+          author_id?: string | null;
+          body?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      anamnesis_templates: {
+        Row: {
+          id: string;
+          name: string;
+          description: string | null;
+          questions: unknown[];
+          version: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string | null;
+          questions?: unknown[];
+          version?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string | null;
+          questions?: unknown[];
+          version?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      procedure_anamnesis_templates: {
+        Row: {
+          procedure_id: string;
+          template_id: string;
+        };
+        Insert: {
+          procedure_id: string;
+          template_id: string;
+        };
+        Update: {
+          procedure_id?: string;
+          template_id?: string;
+        };
+      };
+      anamnesis_responses: {
+        Row: {
+          id: string;
+          patient_id: string;
+          template_id: string;
+          template_name: string;
+          template_version: number;
+          questions: unknown[];
+          answers: Record<string, string | number>;
+          risky_question_ids: string[];
+          filled_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          patient_id: string;
+          template_id: string;
+          template_name?: string;
+          template_version?: number;
+          questions?: unknown[];
+          answers?: Record<string, string | number>;
+          risky_question_ids?: string[];
+          filled_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          patient_id?: string;
+          template_id?: string;
+          template_name?: string;
+          template_version?: number;
+          questions?: unknown[];
+          answers?: Record<string, string | number>;
+          risky_question_ids?: string[];
+          filled_by?: string | null;
+          created_at?: string;
+        };
+      };
+      appointment_comments: {
+        Row: {
+          id: string;
+          appointment_id: string;
+          author_id: string | null;
+          body: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          appointment_id: string;
+          author_id?: string | null;
+          body: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          appointment_id?: string;
+          author_id?: string | null;
+          body?: string;
+          created_at?: string;
+        };
+      };
+      professional_working_hours: {
+        Row: {
+          id: string;
+          professional_id: string;
+          weekday: number;
+          start_time: string;
+          end_time: string;
+          break_start: string | null;
+          break_end: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          professional_id: string;
+          weekday: number;
+          start_time: string;
+          end_time: string;
+          break_start?: string | null;
+          break_end?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          professional_id?: string;
+          weekday?: number;
+          start_time?: string;
+          end_time?: string;
+          break_start?: string | null;
+          break_end?: string | null;
+          created_at?: string;
           updated_at?: string;
         };
       };
+      professional_time_off: {
+        Row: {
+          id: string;
+          professional_id: string;
+          start_date: string;
+          end_date: string;
+          reason: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          professional_id: string;
+          start_date: string;
+          end_date: string;
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          professional_id?: string;
+          start_date?: string;
+          end_date?: string;
+          reason?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
       cash_register_closings: {
         Row: {
           id: string;
@@ -213,3 +957,5 @@ export type Database = {
     };
   };
 };
+
+export type AppointmentStatus = Database['public']['Tables']['appointments']['Row']['status'];
@@ -0,0 +1,86 @@
+import { supabase } from './supabase';
+import { parseDateString } from './dates';
+import { timeToMinutes } from './scheduling';
+
+export interface WaitlistEntry {
+  id: string;
+  patient_id: string;
+  procedure_id: string;
+  professional_id: string | null;
+  earliest_date: string;
+  latest_date: string;
+  preferred_start_time: string | null;
+  preferred_end_time: string | null;
+  weekdays: number[] | null;
+  notes: string | null;
+  status: 'waiting' | 'booked' | 'removed';
+  appointment_id: string | null;
+  created_at: string;
+  patient?: { full_name: string; phone: string };
+  procedure?: { name: string; duration_minutes: number };
+  professional?: { full_name: string } | null;
+}
+
+export interface OpenSlot {
+  professionalId: string;
+  date: string;
+  time: string;
+  durationMinutes: number;
+}
+
+export const WAITLIST_SELECT = `
+  *,
+  patient:patient_contacts(full_name, phone),
+  procedure:procedures(name, duration_minutes),
+  professional:profiles!waitlist_entries_professional_id_fkey(full_name)
+`;
+
+export function entryMatchesSlot(entry: WaitlistEntry, slot: OpenSlot) {
+  if (entry.status !== 'waiting') return false;
+  if (entry.professional_id && entry.professional_id !== slot.professionalId) return false;
+  if (slot.date < entry.earliest_date || slot.date > entry.latest_date) return false;
+
+  if (entry.weekdays && entry.weekdays.length > 0) {
+    const weekday = parseDateString(slot.date).getUTCDay();
+    if (!entry.weekdays.includes(weekday)) return false;
+  }
+
+  const duration = entry.procedure?.duration_minutes ?? slot.durationMinutes;
+  if (duration > slot.durationMinutes) return false;
+
+  const start = timeToMinutes(slot.time);
+  if (entry.preferred_start_time && start < timeToMinutes(entry.preferred_start_time)) return false;
+  if (entry.preferred_end_time && start + duration > timeToMinutes(entry.preferred_end_time)) return false;
+
+  return true;
+}
+
+// Waiting entries that could take a freed slot, oldest first
+export async function findWaitlistMatches(slot: OpenSlot) {
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .select(WAITLIST_SELECT)
+    .eq('status', 'waiting')
+    .lte('earliest_date', slot.date)
+    .gte('latest_date', slot.date)
+    .or(`professional_id.is.null,professional_id.eq.${slot.professionalId}`)
+    .order('created_at');
+
+  if (error) throw error;
+
+  return ((data || []) as WaitlistEntry[]).filter((entry) => entryMatchesSlot(entry, slot));
+}
+
+// Books the slot for the entry and marks the entry as booked in one transaction;
+// resolves to the new appointment id
+export async function bookWaitlistEntry(entry: WaitlistEntry, slot: OpenSlot) {
+  const { data, error } = await supabase.rpc('book_waitlist_entry', {
+    p_entry_id: entry.id,
+    p_professional_id: slot.professionalId,
+    p_date: slot.date,
+    p_time: slot.time,
+  });
+
+  if (error) throw error;
+  return data as string;
+}
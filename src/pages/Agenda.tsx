@@ -1,7 +1,105 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { useEffect, useRef, useState } from 'react';
+import { AppointmentStatus, supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Plus, Loader2, ChevronLeft, ChevronRight, AlertCircle, X, Clock } from 'lucide-react';
+import { useRouter } from '../contexts/RouterContext';
+import {
+  exceedsSeriesLimit,
+  findOverlappingAppointment,
+  generateOccurrenceDates,
+  isOverlapError,
+  MAX_SERIES_OCCURRENCES,
+  minutesToTime,
+  RecurrenceRule,
+  RecurrenceUnit,
+  timeToMinutes,
+} from '../lib/scheduling';
+import {
+  addDays,
+  clinicDateTime,
+  formatDateString,
+  getClinicTimeZone,
+  localDateString,
+  parseLocalDateString,
+  todayString,
+} from '../lib/dates';
+import {
+  AvailabilityData,
+  complementWindows,
+  describeWindows,
+  fetchAvailability,
+  findFreeSlots,
+  FreeSlot,
+  getAvailabilityWindows,
+  isOutsideAvailabilityError,
+  isWithinAvailability,
+  subtractIntervals,
+  TimeWindow,
+} from '../lib/availability';
+import { bookWaitlistEntry, findWaitlistMatches, OpenSlot, WaitlistEntry } from '../lib/waitlist';
+import {
+  APPOINTMENT_ITEMS_SELECT,
+  AppointmentItem,
+  createAppointments,
+  describeItems,
+  DraftItem,
+  itemsDuration,
+  itemsTotal,
+  sortItems,
+} from '../lib/appointmentItems';
+import {
+  fetchRequiredResources,
+  fetchResourceAllocations,
+  findBusyResource,
+  isResourceBusyError,
+  Resource,
+  ResourceConflict,
+} from '../lib/resources';
+import { cancelAppointment, cancelSeriesFrom, declineOnlineBooking, estimateCancellationFee } from '../lib/cancellation';
+import { ClinicSettings, fetchClinicSettings } from '../lib/settings';
+import { buildSlipHtml, buildSlipPdf, fetchPrintableAppointment, printHtml } from '../lib/printing';
+import { downloadPdf } from '../lib/pdf';
+import {
+  applyDiscount,
+  describeDiscount,
+  Discount,
+  DISCOUNT_TYPE_LABELS,
+  DiscountType,
+  isPriceLockedError,
+  NO_DISCOUNT,
+} from '../lib/pricing';
+import { formatPhone } from '../lib/brazil';
+import {
+  fetchAnamnesisResponses,
+  fetchMissingAnamnesis,
+  formatAnswer,
+  isAnamnesisRequiredError,
+  latestResponses,
+} from '../lib/anamnesis';
+import PrintScheduleModal from '../components/PrintScheduleModal';
+import {
+  Plus,
+  Loader2,
+  ChevronLeft,
+  ChevronRight,
+  AlertCircle,
+  X,
+  Clock,
+  Repeat,
+  CalendarClock,
+  History,
+  Search,
+  Bell,
+  BellOff,
+  CheckCircle2,
+  XCircle,
+  ChevronUp,
+  ChevronDown,
+  Printer,
+  FileDown,
+  MessageSquare,
+  Trash2,
+  ClipboardList,
+} from 'lucide-react';
 
 interface Appointment {
   id: string;
@@ -10,11 +108,35 @@ interface Appointment {
   professional_id: string;
   appointment_date: string;
   appointment_time: string;
-  status: 'scheduled' | 'confirmed' | 'completed' | 'cancelled';
+  duration_minutes: number;
+  status: AppointmentStatus;
   cancellation_reason: string | null;
+  series_id: string | null;
+  booking_source: 'staff' | 'online';
+  pending_approval: boolean;
+  notes: string | null;
+  notes_updated_at: string | null;
+  notes_author?: { full_name: string } | null;
+  comments?: { count: number }[];
+  discount_type: DiscountType | null;
+  discount_value: number;
+  discount_reason: string | null;
+  agreed_price: number | null;
   patient?: { full_name: string };
   procedure?: { name: string; duration_minutes: number };
   professional?: { full_name: string };
+  reminder?: AppointmentReminder | null;
+  items?: AppointmentItem[];
+  resources?: { resource: { name: string } }[];
+}
+
+interface AppointmentReminder {
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+  send_at: string;
+  sent_at: string | null;
+  error: string | null;
+  response: 'confirmed' | 'cancelled' | null;
+  responded_at: string | null;
 }
 
 interface Patient {
@@ -26,6 +148,7 @@ interface Procedure {
   id: string;
   name: string;
   duration_minutes: number;
+  default_price: number;
 }
 
 interface Professional {
@@ -33,17 +156,146 @@ interface Professional {
   full_name: string;
 }
 
-type ViewMode = 'day' | 'week';
+interface TimeRange {
+  start: string;
+  end: string;
+}
+
+interface RescheduleTarget {
+  appointment_date: string;
+  appointment_time: string;
+  professional_id: string;
+}
+
+interface HistoryEntry {
+  id: string;
+  changed_at: string;
+  old_date: string;
+  old_time: string;
+  new_date: string;
+  new_time: string;
+  old_professional_id: string;
+  new_professional_id: string;
+  changed_by_profile: { full_name: string } | null;
+  old_professional: { full_name: string } | null;
+  new_professional: { full_name: string } | null;
+}
+
+type ViewMode = 'day' | 'week' | 'month' | 'timeline';
+
+// How long appointments changed on another device stay highlighted
+const LIVE_HIGHLIGHT_MS = 5000;
+const LIVE_HIGHLIGHT_CLASS = 'ring-2 ring-primary/50';
+
+const VIEW_MODES: { value: ViewMode; label: string }[] = [
+  { value: 'day', label: 'Dia' },
+  { value: 'week', label: 'Semana' },
+  { value: 'month', label: 'Mês' },
+  { value: 'timeline', label: 'Profissionais' },
+];
+
+function canReschedule(appointment: Appointment) {
+  return appointment.status === 'scheduled' || appointment.status === 'confirmed';
+}
+
+// Patient already arrived: the visit can only move forward to checkout
+function isVisitOngoing(appointment: Appointment) {
+  return appointment.status === 'checked_in' || appointment.status === 'in_progress';
+}
+
+function confirmOutsideAvailability() {
+  return confirm('O horário está fora da disponibilidade do profissional. Agendar mesmo assim?');
+}
+
+async function rescheduleAppointment(
+  appointment: Appointment,
+  target: RescheduleTarget,
+  confirmOverride?: () => boolean
+) {
+  const [{ data, error }, availability] = await Promise.all([
+    supabase
+      .from('appointments')
+      .select('id, appointment_time, duration_minutes')
+      .eq('professional_id', target.professional_id)
+      .eq('appointment_date', target.appointment_date)
+      .neq('status', 'cancelled'),
+    fetchAvailability([target.professional_id], target.appointment_date, target.appointment_date),
+  ]);
+
+  if (error) throw error;
+
+  const overlapping = findOverlappingAppointment(
+    data || [],
+    target.appointment_time,
+    appointment.duration_minutes,
+    appointment.id
+  );
+
+  if (overlapping) {
+    const start = timeToMinutes(overlapping.appointment_time);
+    throw new Error(
+      `Conflito de horário com o agendamento das ${minutesToTime(start)} às ${minutesToTime(start + overlapping.duration_minutes)}.`
+    );
+  }
+
+  const windows = getAvailabilityWindows(availability, target.professional_id, target.appointment_date);
+  if (
+    !isWithinAvailability(windows, target.appointment_time, appointment.duration_minutes) &&
+    !confirmOverride?.()
+  ) {
+    throw new Error(`Horário fora da disponibilidade do profissional (${describeWindows(windows)}).`);
+  }
+
+  const resources = await fetchRequiredResources((appointment.items || []).map((item) => item.procedure_id));
+  const allocations = await fetchResourceAllocations(
+    resources.map((resource) => resource.id),
+    target.appointment_date,
+    target.appointment_date
+  );
+  const busyResource = findBusyResource(
+    resources,
+    allocations,
+    target.appointment_date,
+    target.appointment_time,
+    appointment.duration_minutes,
+    appointment.id
+  );
+
+  if (busyResource) {
+    throw new Error(`${busyResource.name} já está reservado das ${busyResource.start} às ${busyResource.end}.`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('appointments')
+    .update(target)
+    .eq('id', appointment.id);
+
+  if (updateError) {
+    if (isOverlapError(updateError)) {
+      throw new Error('Outro agendamento ocupou este intervalo agora há pouco. Escolha outro horário.');
+    }
+    if (isResourceBusyError(updateError)) {
+      throw new Error(updateError.message);
+    }
+    throw updateError;
+  }
+}
 
 export default function Agenda() {
-  const { user, isSuperAdmin } = useAuth();
+  const { user, profile, isSuperAdmin } = useAuth();
   const [viewMode, setViewMode] = useState<ViewMode>('day');
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const [currentDate, setCurrentDate] = useState(() => parseLocalDateString(todayString()));
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [availability, setAvailability] = useState<AvailabilityData>({ workingHours: [], timeOff: [] });
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showPrintModal, setShowPrintModal] = useState(false);
   const [selectedProfessional, setSelectedProfessional] = useState<string>('');
   const [professionals, setProfessionals] = useState<Professional[]>([]);
+  const [highlightedIds, setHighlightedIds] = useState<string[]>([]);
+  // Bumped on every realtime change so open forms re-check their conflicts
+  const [liveVersion, setLiveVersion] = useState(0);
+  const visibleIds = useRef(new Set<string>());
 
   useEffect(() => {
     if (isSuperAdmin) {
@@ -67,41 +319,49 @@ export default function Agenda() {
     }
   }
 
-  async function loadAppointments() {
+  // `showLoading` is off for realtime reloads so the agenda does not flash
+  async function loadAppointments(showLoading = true) {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       let query = supabase
         .from('appointments')
         .select(`
           *,
-          patient:patients(full_name),
+          patient:patient_contacts(full_name),
           procedure:procedures(name, duration_minutes),
-          professional:profiles(full_name)
+          professional:profiles!appointments_professional_id_fkey(full_name),
+          reminder:appointment_reminders(status, send_at, sent_at, error, response, responded_at),
+          ${APPOINTMENT_ITEMS_SELECT},
+          resources:appointment_resources(resource:resources(name)),
+          notes_author:profiles!appointments_notes_updated_by_fkey(full_name),
+          comments:appointment_comments(count)
         `)
         .order('appointment_time');
 
-      const dateStr = currentDate.toISOString().split('T')[0];
+      const { start: rangeStart, end: rangeEnd } = getVisibleRange();
 
-      if (viewMode === 'day') {
-        query = query.eq('appointment_date', dateStr);
+      if (viewMode === 'day' || viewMode === 'timeline') {
+        query = query.eq('appointment_date', rangeStart);
       } else {
-        const startOfWeek = getStartOfWeek(currentDate);
-        const endOfWeek = getEndOfWeek(currentDate);
         query = query
-          .gte('appointment_date', startOfWeek.toISOString().split('T')[0])
-          .lte('appointment_date', endOfWeek.toISOString().split('T')[0]);
+          .gte('appointment_date', rangeStart)
+          .lte('appointment_date', rangeEnd);
       }
 
-      if (!isSuperAdmin && user) {
-        query = query.eq('professional_id', user.id);
-      } else if (selectedProfessional) {
-        query = query.eq('professional_id', selectedProfessional);
+      const professionalFilter = !isSuperAdmin && user ? user.id : selectedProfessional;
+      if (professionalFilter) {
+        query = query.eq('professional_id', professionalFilter);
       }
 
-      const { data, error } = await query;
+      const [{ data, error }, availabilityData] = await Promise.all([
+        query,
+        fetchAvailability(professionalFilter ? [professionalFilter] : null, rangeStart, rangeEnd),
+      ]);
 
       if (error) throw error;
       setAppointments(data || []);
+      setAvailability(availabilityData);
+      visibleIds.current = new Set((data || []).map((apt) => apt.id));
     } catch (error) {
       console.error('Error loading appointments:', error);
     } finally {
@@ -109,6 +369,25 @@ export default function Agenda() {
     }
   }
 
+  function getVisibleRange() {
+    const dateStr = localDateString(currentDate);
+
+    if (viewMode === 'day' || viewMode === 'timeline') {
+      return { start: dateStr, end: dateStr };
+    }
+
+    if (viewMode === 'month') {
+      const startOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
+      const endOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
+      return { start: localDateString(startOfMonth), end: localDateString(endOfMonth) };
+    }
+
+    return {
+      start: localDateString(getStartOfWeek(currentDate)),
+      end: localDateString(getEndOfWeek(currentDate)),
+    };
+  }
+
   function getStartOfWeek(date: Date) {
     const d = new Date(date);
     const day = d.getDay();
@@ -117,14 +396,18 @@ export default function Agenda() {
   }
 
   function getEndOfWeek(date: Date) {
-    const start = getStartOfWeek(date);
-    return new Date(start.getTime() + 6 * 24 * 60 * 60 * 1000);
+    const end = getStartOfWeek(date);
+    end.setDate(end.getDate() + 6);
+    return end;
   }
 
   function navigateDate(direction: 'prev' | 'next') {
     const newDate = new Date(currentDate);
-    if (viewMode === 'day') {
+    if (viewMode === 'day' || viewMode === 'timeline') {
       newDate.setDate(newDate.getDate() + (direction === 'next' ? 1 : -1));
+    } else if (viewMode === 'month') {
+      newDate.setDate(1);
+      newDate.setMonth(newDate.getMonth() + (direction === 'next' ? 1 : -1));
     } else {
       newDate.setDate(newDate.getDate() + (direction === 'next' ? 7 : -7));
     }
@@ -132,7 +415,12 @@ export default function Agenda() {
   }
 
   function goToToday() {
-    setCurrentDate(new Date());
+    setCurrentDate(parseLocalDateString(todayString()));
+  }
+
+  function openDay(date: Date) {
+    setCurrentDate(date);
+    setViewMode('day');
   }
 
   const getStatusColor = (status: string) => {
@@ -141,10 +429,16 @@ export default function Agenda() {
         return 'bg-accent/10 text-accent border-accent/20';
       case 'confirmed':
         return 'bg-primary/10 text-primary border-primary/20';
+      case 'checked_in':
+        return 'bg-amber-50 text-amber-800 border-amber-200';
+      case 'in_progress':
+        return 'bg-blue-50 text-blue-700 border-blue-200';
       case 'completed':
         return 'bg-green-100 text-green-700 border-green-200';
       case 'cancelled':
         return 'bg-gray-100 text-gray-600 border-gray-200';
+      case 'no_show':
+        return 'bg-red-100 text-red-700 border-red-200';
       default:
         return 'bg-gray-100 text-gray-600 border-gray-200';
     }
@@ -156,17 +450,80 @@ export default function Agenda() {
         return 'Marcado';
       case 'confirmed':
         return 'Confirmado';
+      case 'checked_in':
+        return 'Na recepção';
+      case 'in_progress':
+        return 'Em atendimento';
       case 'completed':
         return 'Realizado';
       case 'cancelled':
         return 'Cancelado';
+      case 'no_show':
+        return 'Não compareceu';
       default:
         return status;
     }
   };
 
+  const contextProfessionalId = !isSuperAdmin && user ? user.id : selectedProfessional;
+  const visibleRange = getVisibleRange();
+
+  // Live updates from other devices. Realtime accepts a single filter, so the
+  // professional is filtered by the server and the date range here.
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`agenda-${contextProfessionalId || 'all'}-${visibleRange.start}`)
+      .on<Appointment>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'appointments',
+          ...(contextProfessionalId ? { filter: `professional_id=eq.${contextProfessionalId}` } : {}),
+        },
+        (payload) => {
+          // With RLS enabled the old record only carries the id
+          const oldId = 'id' in payload.old ? payload.old.id : undefined;
+          const updated = 'id' in payload.new ? payload.new : null;
+          const wasVisible = !!oldId && visibleIds.current.has(oldId);
+          const isVisible =
+            !!updated &&
+            updated.appointment_date >= visibleRange.start &&
+            updated.appointment_date <= visibleRange.end;
+
+          setLiveVersion((version) => version + 1);
+          if (!wasVisible && !isVisible) return;
+
+          if (updated && isVisible) {
+            highlightAppointment(updated.id);
+          }
+          loadAppointments(false);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, contextProfessionalId, visibleRange.start, visibleRange.end]);
+
+  function highlightAppointment(id: string) {
+    setHighlightedIds((ids) => [...ids.filter((highlighted) => highlighted !== id), id]);
+    setTimeout(() => {
+      setHighlightedIds((ids) => ids.filter((highlighted) => highlighted !== id));
+    }, LIVE_HIGHLIGHT_MS);
+  }
+
+  const timelineProfessionals = isSuperAdmin
+    ? professionals.filter((prof) => !selectedProfessional || prof.id === selectedProfessional)
+    : profile
+      ? [{ id: profile.id, full_name: profile.full_name }]
+      : [];
+
   const groupedAppointments = viewMode === 'day'
-    ? { [currentDate.toISOString().split('T')[0]]: appointments }
+    ? { [localDateString(currentDate)]: appointments }
     : appointments.reduce((acc, apt) => {
         if (!acc[apt.appointment_date]) {
           acc[apt.appointment_date] = [];
@@ -196,39 +553,41 @@ export default function Agenda() {
               : 'Gerencie seus agendamentos'}
           </p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors shadow-soft"
-        >
-          <Plus className="w-5 h-5" />
-          Novo Agendamento
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowPrintModal(true)}
+            className="flex items-center gap-2 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+          >
+            <Printer className="w-5 h-5" />
+            Imprimir
+          </button>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors shadow-soft"
+          >
+            <Plus className="w-5 h-5" />
+            Novo Agendamento
+          </button>
+        </div>
       </div>
 
       <div className="bg-background-card rounded-xl border border-accent/20 shadow-card">
         <div className="p-6 border-b border-accent/20 space-y-4">
           <div className="flex flex-wrap items-center gap-4">
             <div className="flex gap-2 bg-champagne-nuvem rounded-lg p-1 border border-accent/20">
-              <button
-                onClick={() => setViewMode('day')}
-                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                  viewMode === 'day'
-                    ? 'bg-primary text-white'
-                    : 'text-text hover:bg-background-card'
-                }`}
-              >
-                Dia
-              </button>
-              <button
-                onClick={() => setViewMode('week')}
-                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                  viewMode === 'week'
-                    ? 'bg-primary text-white'
-                    : 'text-text hover:bg-background-card'
-                }`}
-              >
-                Semana
-              </button>
+              {VIEW_MODES.map((mode) => (
+                <button
+                  key={mode.value}
+                  onClick={() => setViewMode(mode.value)}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    viewMode === mode.value
+                      ? 'bg-primary text-white'
+                      : 'text-text hover:bg-background-card'
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
             </div>
 
             <div className="flex items-center gap-2">
@@ -253,7 +612,9 @@ export default function Agenda() {
             </div>
 
             <div className="text-text font-semibold">
-              {viewMode === 'day'
+              {viewMode === 'month'
+                ? currentDate.toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' })
+                : viewMode === 'day' || viewMode === 'timeline'
                 ? currentDate.toLocaleDateString('pt-BR', {
                     weekday: 'long',
                     day: '2-digit',
@@ -301,6 +662,24 @@ export default function Agenda() {
             {viewMode === 'day' ? (
               <DayView
                 appointments={appointments}
+                highlightedIds={highlightedIds}
+                getStatusColor={getStatusColor}
+                getStatusLabel={getStatusLabel}
+                onRefresh={loadAppointments}
+              />
+            ) : viewMode === 'month' ? (
+              <MonthView
+                currentDate={currentDate}
+                groupedAppointments={groupedAppointments}
+                onSelectDay={openDay}
+              />
+            ) : viewMode === 'timeline' ? (
+              <TimelineView
+                date={localDateString(currentDate)}
+                professionals={timelineProfessionals}
+                appointments={appointments}
+                availability={availability}
+                highlightedIds={highlightedIds}
                 getStatusColor={getStatusColor}
                 getStatusLabel={getStatusLabel}
                 onRefresh={loadAppointments}
@@ -309,6 +688,9 @@ export default function Agenda() {
               <WeekView
                 weekDays={weekDays}
                 groupedAppointments={groupedAppointments}
+                availability={availability}
+                professionalId={contextProfessionalId}
+                highlightedIds={highlightedIds}
                 getStatusColor={getStatusColor}
                 getStatusLabel={getStatusLabel}
                 onRefresh={loadAppointments}
@@ -320,8 +702,9 @@ export default function Agenda() {
 
       {showCreateModal && (
         <CreateAppointmentModal
-          defaultDate={currentDate.toISOString().split('T')[0]}
+          defaultDate={localDateString(currentDate)}
           defaultProfessionalId={selectedProfessional || user?.id || ''}
+          liveVersion={liveVersion}
           onClose={() => setShowCreateModal(false)}
           onSuccess={() => {
             setShowCreateModal(false);
@@ -329,18 +712,28 @@ export default function Agenda() {
           }}
         />
       )}
+
+      {showPrintModal && (
+        <PrintScheduleModal
+          defaultDate={localDateString(currentDate)}
+          defaultProfessionalId={selectedProfessional}
+          professionals={professionals}
+          onClose={() => setShowPrintModal(false)}
+        />
+      )}
     </div>
   );
 }
 
 interface DayViewProps {
   appointments: Appointment[];
+  highlightedIds: string[];
   getStatusColor: (status: string) => string;
   getStatusLabel: (status: string) => string;
   onRefresh: () => void;
 }
 
-function DayView({ appointments, getStatusColor, getStatusLabel, onRefresh }: DayViewProps) {
+function DayView({ appointments, highlightedIds, getStatusColor, getStatusLabel, onRefresh }: DayViewProps) {
   if (appointments.length === 0) {
     return (
       <div className="text-center py-12">
@@ -355,6 +748,7 @@ function DayView({ appointments, getStatusColor, getStatusLabel, onRefresh }: Da
         <AppointmentCard
           key={apt.id}
           appointment={apt}
+          highlighted={highlightedIds.includes(apt.id)}
           getStatusColor={getStatusColor}
           getStatusLabel={getStatusLabel}
           onRefresh={onRefresh}
@@ -367,24 +761,83 @@ function DayView({ appointments, getStatusColor, getStatusLabel, onRefresh }: Da
 interface WeekViewProps {
   weekDays: Date[];
   groupedAppointments: Record<string, Appointment[]>;
+  availability: AvailabilityData;
+  professionalId: string;
+  highlightedIds: string[];
   getStatusColor: (status: string) => string;
   getStatusLabel: (status: string) => string;
   onRefresh: () => void;
 }
 
-function WeekView({ weekDays, groupedAppointments, getStatusColor, getStatusLabel }: WeekViewProps) {
+function WeekView({
+  weekDays,
+  groupedAppointments,
+  availability,
+  professionalId,
+  highlightedIds,
+  getStatusColor,
+  getStatusLabel,
+  onRefresh,
+}: WeekViewProps) {
+  const { isSuperAdmin } = useAuth();
+  const [draggedAppointment, setDraggedAppointment] = useState<Appointment | null>(null);
+  const [dropTarget, setDropTarget] = useState('');
+
+  async function handleDrop(dateStr: string) {
+    const appointment = draggedAppointment;
+    setDraggedAppointment(null);
+    setDropTarget('');
+
+    if (!appointment || appointment.appointment_date === dateStr) return;
+
+    try {
+      await rescheduleAppointment(
+        appointment,
+        {
+          appointment_date: dateStr,
+          appointment_time: appointment.appointment_time,
+          professional_id: appointment.professional_id,
+        },
+        isSuperAdmin ? confirmOutsideAvailability : undefined
+      );
+      onRefresh();
+    } catch (error) {
+      console.error('Error rescheduling appointment:', error);
+      alert((error as Error).message || 'Erro ao remarcar agendamento');
+    }
+  }
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-7 gap-4">
       {weekDays.map((day) => {
-        const dateStr = day.toISOString().split('T')[0];
+        const dateStr = localDateString(day);
         const dayAppointments = groupedAppointments[dateStr] || [];
-        const isToday = dateStr === new Date().toISOString().split('T')[0];
+        const isToday = dateStr === todayString();
+        const windows = professionalId
+          ? getAvailabilityWindows(availability, professionalId, dateStr)
+          : null;
+        const isUnavailable = windows !== null && windows.length === 0;
 
         return (
           <div
             key={dateStr}
-            className={`bg-champagne-nuvem rounded-lg p-4 border ${
-              isToday ? 'border-primary' : 'border-accent/20'
+            title={windows !== null ? describeWindows(windows) : undefined}
+            onDragOver={(e) => {
+              if (!draggedAppointment) return;
+              e.preventDefault();
+              setDropTarget(dateStr);
+            }}
+            onDragLeave={() => setDropTarget('')}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(dateStr);
+            }}
+            className={`rounded-lg p-4 border transition-colors ${
+              isUnavailable ? 'bg-gray-100 opacity-70' : 'bg-champagne-nuvem'
+            } ${
+              dropTarget === dateStr
+                ? 'border-primary ring-2 ring-primary/40'
+                : isToday ? 'border-primary' : 'border-accent/20'
             }`}
           >
             <div className="mb-3">
@@ -411,10 +864,22 @@ function WeekView({ weekDays, groupedAppointments, getStatusColor, getStatusLabe
                 {dayAppointments.map((apt) => (
                   <div
                     key={apt.id}
-                    className="bg-background rounded-lg p-2 border border-accent/20 text-xs"
+                    draggable={canReschedule(apt)}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggedAppointment(apt);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedAppointment(null);
+                      setDropTarget('');
+                    }}
+                    className={`bg-background rounded-lg p-2 border border-accent/20 text-xs transition-shadow ${
+                      canReschedule(apt) ? 'cursor-grab active:cursor-grabbing' : ''
+                    } ${highlightedIds.includes(apt.id) ? LIVE_HIGHLIGHT_CLASS : ''}`}
                   >
-                    <div className="font-medium text-text truncate">
-                      {apt.appointment_time.substring(0, 5)}
+                    <div className="flex items-center justify-between gap-1 font-medium text-text">
+                      <span className="truncate">{apt.appointment_time.substring(0, 5)}</span>
+                      <ReminderIndicator reminder={apt.reminder} />
                     </div>
                     <div className="text-text-muted truncate">
                       {apt.patient?.full_name}
@@ -433,172 +898,1902 @@ function WeekView({ weekDays, groupedAppointments, getStatusColor, getStatusLabe
   );
 }
 
-interface AppointmentCardProps {
-  appointment: Appointment;
+interface MonthViewProps {
+  currentDate: Date;
+  groupedAppointments: Record<string, Appointment[]>;
+  onSelectDay: (date: Date) => void;
+}
+
+function MonthView({ currentDate, groupedAppointments, onSelectDay }: MonthViewProps) {
+  const firstDay = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
+  const daysInMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0).getDate();
+  const today = todayString();
+  const weekdayLabels = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+  const cells: (Date | null)[] = [
+    ...Array.from({ length: firstDay.getDay() }, () => null),
+    ...Array.from(
+      { length: daysInMonth },
+      (_, i) => new Date(currentDate.getFullYear(), currentDate.getMonth(), i + 1)
+    ),
+  ];
+
+  return (
+    <div>
+      <div className="grid grid-cols-7 gap-2 mb-2">
+        {weekdayLabels.map((label) => (
+          <div key={label} className="text-center text-xs font-medium text-text-muted uppercase">
+            {label}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 gap-2">
+        {cells.map((day, index) => {
+          if (!day) {
+            return <div key={`empty-${index}`} />;
+          }
+
+          const dateStr = localDateString(day);
+          const dayAppointments = (groupedAppointments[dateStr] || []).filter(
+            (apt) => apt.status !== 'cancelled'
+          );
+          const isToday = dateStr === today;
+
+          return (
+            <button
+              key={dateStr}
+              onClick={() => onSelectDay(day)}
+              className={`min-h-[80px] bg-champagne-nuvem rounded-lg p-2 border text-left hover:shadow-soft transition-all ${
+                isToday ? 'border-primary' : 'border-accent/20'
+              }`}
+            >
+              <div className={`text-sm font-semibold ${isToday ? 'text-primary' : 'text-text'}`}>
+                {day.getDate()}
+              </div>
+              {dayAppointments.length > 0 && (
+                <div className="mt-2 inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-primary/10 text-primary border border-primary/20">
+                  {dayAppointments.length} {dayAppointments.length === 1 ? 'agendamento' : 'agendamentos'}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const TIMELINE_START_MINUTES = 7 * 60;
+const TIMELINE_END_MINUTES = 21 * 60;
+const TIMELINE_PIXELS_PER_MINUTE = 1.2;
+const TIMELINE_MIN_GAP_MINUTES = 15;
+const TIMELINE_SNAP_MINUTES = 15;
+
+interface TimelineViewProps {
+  date: string;
+  professionals: Professional[];
+  appointments: Appointment[];
+  availability: AvailabilityData;
+  highlightedIds: string[];
   getStatusColor: (status: string) => string;
   getStatusLabel: (status: string) => string;
   onRefresh: () => void;
 }
 
-function AppointmentCard({ appointment, getStatusColor, getStatusLabel, onRefresh }: AppointmentCardProps) {
-  const [showDetails, setShowDetails] = useState(false);
+function TimelineView({
+  date,
+  professionals,
+  appointments,
+  availability,
+  highlightedIds,
+  getStatusColor,
+  getStatusLabel,
+  onRefresh,
+}: TimelineViewProps) {
+  const { isSuperAdmin } = useAuth();
+  const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
+  const [draggedAppointment, setDraggedAppointment] = useState<Appointment | null>(null);
+  const dragOffsetY = useRef(0);
+
+  async function handleDrop(e: React.DragEvent<HTMLDivElement>, professionalId: string) {
+    e.preventDefault();
+    const appointment = draggedAppointment;
+    setDraggedAppointment(null);
+    if (!appointment) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offsetMinutes = (e.clientY - rect.top - dragOffsetY.current) / TIMELINE_PIXELS_PER_MINUTE;
+    const snapped = Math.round((dayStart + offsetMinutes) / TIMELINE_SNAP_MINUTES) * TIMELINE_SNAP_MINUTES;
+    const start = Math.min(Math.max(snapped, dayStart), dayEnd - appointment.duration_minutes);
+    const newTime = minutesToTime(start);
+
+    if (
+      professionalId === appointment.professional_id &&
+      newTime === appointment.appointment_time.substring(0, 5)
+    ) {
+      return;
+    }
+
+    try {
+      await rescheduleAppointment(
+        appointment,
+        {
+          appointment_date: appointment.appointment_date,
+          appointment_time: newTime,
+          professional_id: professionalId,
+        },
+        isSuperAdmin ? confirmOutsideAvailability : undefined
+      );
+      onRefresh();
+    } catch (error) {
+      console.error('Error rescheduling appointment:', error);
+      alert((error as Error).message || 'Erro ao remarcar agendamento');
+    }
+  }
+
+  const activeAppointments = appointments.filter((apt) => apt.status !== 'cancelled');
+  const dayStart = Math.min(
+    TIMELINE_START_MINUTES,
+    ...activeAppointments.map((apt) => Math.floor(timeToMinutes(apt.appointment_time) / 60) * 60)
+  );
+  const dayEnd = Math.max(
+    TIMELINE_END_MINUTES,
+    ...activeAppointments.map((apt) => Math.ceil((timeToMinutes(apt.appointment_time) + apt.duration_minutes) / 60) * 60)
+  );
+  const hours = Array.from({ length: (dayEnd - dayStart) / 60 }, (_, i) => dayStart + i * 60);
+  const height = (dayEnd - dayStart) * TIMELINE_PIXELS_PER_MINUTE;
+
+  if (professionals.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-text-muted">Nenhum profissional ativo</p>
+      </div>
+    );
+  }
 
   return (
-    <>
-      <div
-        onClick={() => setShowDetails(true)}
-        className="bg-champagne-nuvem rounded-lg p-4 border border-accent/20 hover:shadow-soft transition-all cursor-pointer"
-      >
-        <div className="flex items-start justify-between">
-          <div className="flex-1">
-            <div className="flex items-center gap-3 mb-2">
-              <div className="flex items-center gap-2 text-text font-semibold">
-                <Clock className="w-4 h-4" />
-                {appointment.appointment_time.substring(0, 5)}
+    <div className="overflow-x-auto">
+      <div className="flex min-w-fit">
+        <div className="w-14 flex-shrink-0 pt-10">
+          <div className="relative" style={{ height }}>
+            {hours.map((minutes) => (
+              <div
+                key={minutes}
+                className="absolute left-0 right-2 text-xs text-text-muted text-right -translate-y-2"
+                style={{ top: (minutes - dayStart) * TIMELINE_PIXELS_PER_MINUTE }}
+              >
+                {minutesToTime(minutes)}
               </div>
-              <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(appointment.status)}`}>
-                {getStatusLabel(appointment.status)}
-              </span>
-            </div>
-            <h4 className="text-text font-semibold mb-1">{appointment.patient?.full_name}</h4>
-            <p className="text-text-muted text-sm">{appointment.procedure?.name}</p>
-            {appointment.professional && (
-              <p className="text-text-muted text-sm">
-                Profissional: {appointment.professional.full_name}
-              </p>
-            )}
+            ))}
           </div>
         </div>
+
+        {professionals.map((prof) => {
+          const columnAppointments = activeAppointments
+            .filter((apt) => apt.professional_id === prof.id)
+            .sort((a, b) => a.appointment_time.localeCompare(b.appointment_time));
+
+          const windows: TimeWindow[] = getAvailabilityWindows(availability, prof.id, date) ?? [
+            { start: dayStart, end: dayEnd },
+          ];
+          const unavailable = complementWindows(windows, dayStart, dayEnd);
+          const busy = columnAppointments.map((apt) => {
+            const start = timeToMinutes(apt.appointment_time);
+            return { start, end: start + apt.duration_minutes };
+          });
+          const gaps: TimeRange[] = windows
+            .flatMap((window) => subtractIntervals(window, busy))
+            .filter((gap) => gap.end - gap.start >= TIMELINE_MIN_GAP_MINUTES)
+            .map((gap) => ({ start: minutesToTime(gap.start), end: minutesToTime(gap.end) }));
+
+          return (
+            <div key={prof.id} className="flex-1 min-w-[180px] border-l border-accent/20">
+              <div className="h-10 px-2 flex items-center justify-center text-sm font-semibold text-text truncate">
+                {prof.full_name}
+              </div>
+              <div
+                className={`relative transition-colors ${draggedAppointment ? 'bg-primary/5' : ''}`}
+                style={{ height }}
+                onDragOver={(e) => {
+                  if (draggedAppointment) e.preventDefault();
+                }}
+                onDrop={(e) => handleDrop(e, prof.id)}
+              >
+                {hours.map((minutes) => (
+                  <div
+                    key={minutes}
+                    className="absolute left-0 right-0 border-t border-accent/20"
+                    style={{ top: (minutes - dayStart) * TIMELINE_PIXELS_PER_MINUTE }}
+                  />
+                ))}
+
+                {unavailable.map((range) => (
+                  <div
+                    key={`off-${range.start}`}
+                    className="absolute left-0 right-0 bg-gray-200/70"
+                    style={{
+                      top: (range.start - dayStart) * TIMELINE_PIXELS_PER_MINUTE,
+                      height: (range.end - range.start) * TIMELINE_PIXELS_PER_MINUTE,
+                      backgroundImage:
+                        'repeating-linear-gradient(135deg, transparent, transparent 6px, rgba(138, 125, 129, 0.12) 6px, rgba(138, 125, 129, 0.12) 12px)',
+                    }}
+                    title="Indisponível"
+                  />
+                ))}
+
+                {gaps.map((gap) => {
+                  const start = timeToMinutes(gap.start);
+                  const end = timeToMinutes(gap.end);
+                  return (
+                    <div
+                      key={gap.start}
+                      className="absolute left-1 right-1 rounded-md border border-dashed border-green-300 bg-green-50/60 px-2 py-1 text-[11px] text-green-700 overflow-hidden"
+                      style={{
+                        top: (start - dayStart) * TIMELINE_PIXELS_PER_MINUTE + 1,
+                        height: (end - start) * TIMELINE_PIXELS_PER_MINUTE - 2,
+                      }}
+                    >
+                      Livre {gap.start}–{gap.end}
+                    </div>
+                  );
+                })}
+
+                {columnAppointments.map((apt) => {
+                  const start = timeToMinutes(apt.appointment_time);
+                  return (
+                    <button
+                      key={apt.id}
+                      onClick={() => setSelectedAppointment(apt)}
+                      draggable={canReschedule(apt)}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        dragOffsetY.current = e.clientY - e.currentTarget.getBoundingClientRect().top;
+                        setDraggedAppointment(apt);
+                      }}
+                      onDragEnd={() => setDraggedAppointment(null)}
+                      className={`absolute left-1 right-1 rounded-md bg-primary-light border border-primary/40 px-2 py-1 text-left text-xs shadow-soft hover:shadow-soft-lg transition-shadow overflow-hidden ${
+                        highlightedIds.includes(apt.id) ? LIVE_HIGHLIGHT_CLASS : ''
+                      }`}
+                      style={{
+                        top: (start - dayStart) * TIMELINE_PIXELS_PER_MINUTE + 1,
+                        height: apt.duration_minutes * TIMELINE_PIXELS_PER_MINUTE - 2,
+                      }}
+                    >
+                      <div className="flex items-center justify-between gap-1">
+                        <span className="font-semibold text-text">
+                          {apt.appointment_time.substring(0, 5)}–{minutesToTime(start + apt.duration_minutes)}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <NotesIndicator appointment={apt} />
+                          <ReminderIndicator reminder={apt.reminder} />
+                          <span className={`px-1.5 rounded-full border text-[10px] ${getStatusColor(apt.status)}`}>
+                            {getStatusLabel(apt.status)}
+                          </span>
+                        </span>
+                      </div>
+                      <div className="text-text truncate">{apt.patient?.full_name}</div>
+                      <div className="text-text-muted truncate">{describeItems(apt.items) || apt.procedure?.name}</div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
       </div>
 
-      {showDetails && (
+      {selectedAppointment && (
         <AppointmentDetailsModal
-          appointment={appointment}
-          onClose={() => setShowDetails(false)}
+          appointment={selectedAppointment}
+          onClose={() => setSelectedAppointment(null)}
           onRefresh={onRefresh}
           getStatusColor={getStatusColor}
           getStatusLabel={getStatusLabel}
         />
       )}
-    </>
+    </div>
   );
 }
 
-interface AppointmentDetailsModalProps {
+function describeReminder(reminder: AppointmentReminder) {
+  const formatTimestamp = (value: string) =>
+    new Date(value).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short', timeZone: getClinicTimeZone() });
+
+  if (reminder.response === 'confirmed' && reminder.responded_at) {
+    return `Paciente confirmou em ${formatTimestamp(reminder.responded_at)}`;
+  }
+  if (reminder.response === 'cancelled' && reminder.responded_at) {
+    return `Paciente cancelou em ${formatTimestamp(reminder.responded_at)}`;
+  }
+  switch (reminder.status) {
+    case 'sent':
+      return `Lembrete enviado em ${formatTimestamp(reminder.sent_at || reminder.send_at)}, sem resposta`;
+    case 'failed':
+      return `Falha ao enviar lembrete: ${reminder.error || 'erro desconhecido'}`;
+    case 'pending':
+      return `Lembrete programado para ${formatTimestamp(reminder.send_at)}`;
+    case 'sending':
+      return 'Enviando lembrete';
+    default:
+      return 'Lembrete cancelado';
+  }
+}
+
+interface ReminderIndicatorProps {
+  reminder?: AppointmentReminder | null;
+}
+
+function ReminderIndicator({ reminder }: ReminderIndicatorProps) {
+  if (!reminder || reminder.status === 'pending' || reminder.status === 'sending' || reminder.status === 'cancelled') {
+    return null;
+  }
+
+  const { Icon, color } =
+    reminder.response === 'confirmed'
+      ? { Icon: CheckCircle2, color: 'text-green-600' }
+      : reminder.response === 'cancelled'
+        ? { Icon: XCircle, color: 'text-red-600' }
+        : reminder.status === 'failed'
+          ? { Icon: BellOff, color: 'text-red-600' }
+          : { Icon: Bell, color: 'text-accent' };
+
+  return (
+    <span title={describeReminder(reminder)} className="flex-shrink-0">
+      <Icon className={`w-4 h-4 ${color}`} />
+    </span>
+  );
+}
+
+interface NotesIndicatorProps {
   appointment: Appointment;
-  onClose: () => void;
-  onRefresh: () => void;
-  getStatusColor: (status: string) => string;
-  getStatusLabel: (status: string) => string;
 }
 
-function AppointmentDetailsModal({
-  appointment,
-  onClose,
-  onRefresh,
-  getStatusColor,
-  getStatusLabel,
-}: AppointmentDetailsModalProps) {
-  const [updating, setUpdating] = useState(false);
+function NotesIndicator({ appointment }: NotesIndicatorProps) {
+  const commentCount = appointment.comments?.[0]?.count || 0;
+  if (!appointment.notes && commentCount === 0) {
+    return null;
+  }
+
+  const title = [
+    appointment.notes,
+    commentCount > 0 && `${commentCount} ${commentCount === 1 ? 'comentário' : 'comentários'}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <span title={title} className="flex items-center gap-0.5 flex-shrink-0 text-accent">
+      <MessageSquare className="w-4 h-4" />
+      {commentCount > 0 && <span className="text-[10px] font-medium">{commentCount}</span>}
+    </span>
+  );
+}
+
+interface AppointmentNotesProps {
+  appointment: Appointment;
+  onChanged: () => void;
+}
+
+interface AppointmentComment {
+  id: string;
+  author_id: string | null;
+  body: string;
+  created_at: string;
+  author?: { full_name: string } | null;
+}
+
+function formatNoteTimestamp(value: string) {
+  return new Date(value).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short', timeZone: getClinicTimeZone() });
+}
+
+function AppointmentNotes({ appointment, onChanged }: AppointmentNotesProps) {
+  const { user } = useAuth();
+  const [notes, setNotes] = useState(appointment.notes || '');
+  const [comments, setComments] = useState<AppointmentComment[]>([]);
+  const [newComment, setNewComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadComments();
+  }, [appointment.id]);
+
+  async function loadComments() {
+    try {
+      const { data, error } = await supabase
+        .from('appointment_comments')
+        .select('id, author_id, body, created_at, author:profiles(full_name)')
+        .eq('appointment_id', appointment.id)
+        .order('created_at')
+        .overrideTypes<AppointmentComment[], { merge: false }>();
+
+      if (error) throw error;
+      setComments(data || []);
+    } catch (error) {
+      console.error('Error loading comments:', error);
+    }
+  }
+
+  async function saveNotes() {
+    setError('');
+    setSaving(true);
 
-  async function updateStatus(newStatus: 'scheduled' | 'confirmed' | 'completed' | 'cancelled') {
-    setUpdating(true);
     try {
       const { error } = await supabase
         .from('appointments')
-        .update({ status: newStatus })
+        .update({ notes: notes.trim() || null })
         .eq('id', appointment.id);
 
       if (error) throw error;
-
-      onRefresh();
-      onClose();
+      onChanged();
     } catch (error) {
-      console.error('Error updating status:', error);
+      setError((error as Error).message || 'Erro ao salvar observações');
     } finally {
-      setUpdating(false);
+      setSaving(false);
     }
   }
 
-  return (
-    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50">
-      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
-        <div className="flex items-start justify-between mb-6">
-          <h2 className="text-xl font-semibold text-text">Detalhes do Agendamento</h2>
-          <button onClick={onClose} className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors">
-            <X className="w-5 h-5 text-text-muted" />
-          </button>
-        </div>
+  async function addComment(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
 
-        <div className="space-y-4">
-          <div>
-            <label className="text-sm text-text-muted">Status</label>
-            <div className="mt-1">
-              <span className={`inline-block px-3 py-1 rounded-full text-sm font-medium border ${getStatusColor(appointment.status)}`}>
+    try {
+      const { error } = await supabase.from('appointment_comments').insert({
+        appointment_id: appointment.id,
+        author_id: user?.id,
+        body: newComment.trim(),
+      });
+
+      if (error) throw error;
+      setNewComment('');
+      loadComments();
+      onChanged();
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao adicionar comentário');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteComment(commentId: string) {
+    if (!confirm('Excluir este comentário?')) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('appointment_comments').delete().eq('id', commentId);
+
+      if (error) throw error;
+      loadComments();
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+    }
+  }
+
+  return (
+    <div className="pt-4 border-t border-accent/20 space-y-3">
+      <label className="text-sm font-medium text-text flex items-center gap-2">
+        <MessageSquare className="w-4 h-4" />
+        Observações
+      </label>
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={2}
+        className="w-full px-3 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text text-sm resize-none"
+        placeholder="Ex: Paciente alérgica a lidocaína, trazer exames anteriores"
+        disabled={saving}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-text-muted">
+          {appointment.notes_updated_at &&
+            `Atualizado por ${appointment.notes_author?.full_name || 'Sistema'} em ${formatNoteTimestamp(
+              appointment.notes_updated_at
+            )}`}
+        </p>
+        <button
+          onClick={saveNotes}
+          disabled={saving || notes.trim() === (appointment.notes || '')}
+          className="px-3 py-1.5 bg-accent hover:bg-accent/90 text-white rounded-lg text-xs transition-colors disabled:opacity-50 flex-shrink-0"
+        >
+          Salvar observações
+        </button>
+      </div>
+
+      {comments.length > 0 && (
+        <ul className="space-y-2 max-h-40 overflow-y-auto">
+          {comments.map((comment) => (
+            <li key={comment.id} className="bg-champagne-nuvem rounded-lg px-3 py-2 border border-accent/20 text-xs">
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-text whitespace-pre-wrap">{comment.body}</p>
+                {comment.author_id === user?.id && (
+                  <button
+                    onClick={() => deleteComment(comment.id)}
+                    className="p-0.5 text-text-muted hover:text-red-600 transition-colors flex-shrink-0"
+                    title="Excluir comentário"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              <p className="text-text-muted mt-1">
+                {comment.author?.full_name || 'Usuário removido'} em {formatNoteTimestamp(comment.created_at)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={addComment} className="flex gap-2">
+        <input
+          type="text"
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          className="flex-1 px-3 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text text-sm"
+          placeholder="Adicionar comentário interno..."
+          disabled={saving}
+        />
+        <button
+          type="submit"
+          disabled={saving || !newComment.trim()}
+          className="px-3 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+        >
+          Enviar
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-xs">{error}</div>
+      )}
+    </div>
+  );
+}
+
+interface DiscountFieldsProps {
+  discount: Discount;
+  listPrice: number;
+  onChange: (discount: Discount) => void;
+  disabled: boolean;
+}
+
+function DiscountFields({ discount, listPrice, onChange, disabled }: DiscountFieldsProps) {
+  const inputClass =
+    'px-3 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text text-sm';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <select
+          value={discount.discount_type || ''}
+          onChange={(e) =>
+            onChange(
+              e.target.value
+                ? { ...discount, discount_type: e.target.value as DiscountType }
+                : NO_DISCOUNT
+            )
+          }
+          className={`flex-1 ${inputClass}`}
+          disabled={disabled}
+        >
+          <option value="">Sem desconto</option>
+          {(Object.keys(DISCOUNT_TYPE_LABELS) as DiscountType[]).map((type) => (
+            <option key={type} value={type}>
+              {DISCOUNT_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        {discount.discount_type && (
+          <input
+            type="number"
+            min="0"
+            max={discount.discount_type === 'percent' ? '100' : undefined}
+            step="0.01"
+            value={discount.discount_value}
+            onChange={(e) => onChange({ ...discount, discount_value: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className={`w-28 ${inputClass}`}
+            disabled={disabled}
+          />
+        )}
+      </div>
+      {discount.discount_type && (
+        <input
+          type="text"
+          value={discount.discount_reason || ''}
+          onChange={(e) => onChange({ ...discount, discount_reason: e.target.value })}
+          className={`w-full ${inputClass}`}
+          placeholder={discount.discount_type === 'price' ? 'Motivo do preço combinado' : 'Motivo do desconto'}
+          required
+          disabled={disabled}
+        />
+      )}
+      <p className="text-xs text-text-muted">
+        Valor combinado: <span className="font-medium text-text">R$ {applyDiscount(listPrice, discount).toFixed(2)}</span>
+        {describeDiscount(discount) && ` (tabela R$ ${listPrice.toFixed(2)})`}
+      </p>
+    </div>
+  );
+}
+
+// A discount without value is saved as no discount; a custom price of zero is kept
+function normalizeDiscount(discount: Discount): Discount {
+  if (!discount.discount_type || (discount.discount_type !== 'price' && discount.discount_value <= 0)) {
+    return NO_DISCOUNT;
+  }
+  return { ...discount, discount_reason: discount.discount_reason?.trim() || null };
+}
+
+interface AppointmentPricingProps {
+  appointment: Appointment;
+  onChanged: () => void;
+}
+
+function AppointmentPricing({ appointment, onChanged }: AppointmentPricingProps) {
+  const [editing, setEditing] = useState(false);
+  const [discount, setDiscount] = useState<Discount>({
+    discount_type: appointment.discount_type,
+    discount_value: appointment.discount_value,
+    discount_reason: appointment.discount_reason,
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const listPrice = itemsTotal(appointment.items || []);
+  const agreedPrice = appointment.agreed_price ?? listPrice;
+  const editable = canReschedule(appointment) || isVisitOngoing(appointment);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    const changes = normalizeDiscount(discount);
+
+    if (changes.discount_type && !changes.discount_reason) {
+      setError('Informe o motivo do desconto.');
+      return;
+    }
+
+    setError('');
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.from('appointments').update(changes).eq('id', appointment.id);
+
+      if (error) throw error;
+      setEditing(false);
+      onChanged();
+    } catch (error) {
+      setError(
+        isPriceLockedError(error)
+          ? 'O atendimento já foi concluído; o valor não pode mais ser alterado.'
+          : (error as Error).message || 'Erro ao salvar valor'
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm text-text-muted">Valor combinado</label>
+        {editable && !editing && (
+          <button onClick={() => setEditing(true)} className="text-xs text-primary hover:underline">
+            Alterar valor
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <form onSubmit={save} className="mt-1 space-y-2">
+          <DiscountFields discount={discount} listPrice={listPrice} onChange={setDiscount} disabled={saving} />
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-xs">{error}</div>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              disabled={saving}
+              className="flex-1 px-3 py-1.5 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg text-xs transition-colors"
+            >
+              Voltar
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-3 py-1.5 bg-accent hover:bg-accent/90 text-white rounded-lg text-xs transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Salvando...' : 'Salvar valor'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <p className="text-text font-medium">R$ {agreedPrice.toFixed(2)}</p>
+          {appointment.discount_type && (
+            <p className="text-xs text-text-muted">
+              Tabela R$ {listPrice.toFixed(2)} · {describeDiscount(appointment)}
+              {appointment.discount_reason && ` · ${appointment.discount_reason}`}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface AppointmentCardProps {
+  appointment: Appointment;
+  highlighted: boolean;
+  getStatusColor: (status: string) => string;
+  getStatusLabel: (status: string) => string;
+  onRefresh: () => void;
+}
+
+function AppointmentCard({ appointment, highlighted, getStatusColor, getStatusLabel, onRefresh }: AppointmentCardProps) {
+  const { navigate } = useRouter();
+  const [showDetails, setShowDetails] = useState(false);
+
+  return (
+    <>
+      <div
+        onClick={() => setShowDetails(true)}
+        className={`bg-champagne-nuvem rounded-lg p-4 border border-accent/20 hover:shadow-soft transition-all cursor-pointer ${
+          highlighted ? LIVE_HIGHLIGHT_CLASS : ''
+        }`}
+      >
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <div className="flex items-center gap-3 mb-2">
+              <div className="flex items-center gap-2 text-text font-semibold">
+                <Clock className="w-4 h-4" />
+                {appointment.appointment_time.substring(0, 5)}
+              </div>
+              <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(appointment.status)}`}>
                 {getStatusLabel(appointment.status)}
               </span>
+              <ReminderIndicator reminder={appointment.reminder} />
+              <NotesIndicator appointment={appointment} />
+              {appointment.pending_approval && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium border bg-amber-50 text-amber-800 border-amber-200">
+                  Aguardando aprovação
+                </span>
+              )}
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                navigate(`/pacientes/${appointment.patient_id}`);
+              }}
+              className="block text-left text-text font-semibold mb-1 hover:text-primary hover:underline transition-colors"
+            >
+              {appointment.patient?.full_name}
+            </button>
+            <p className="text-text-muted text-sm">{describeItems(appointment.items) || appointment.procedure?.name}</p>
+            {appointment.professional && (
+              <p className="text-text-muted text-sm">
+                Profissional: {appointment.professional.full_name}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showDetails && (
+        <AppointmentDetailsModal
+          appointment={appointment}
+          onClose={() => setShowDetails(false)}
+          onRefresh={onRefresh}
+          getStatusColor={getStatusColor}
+          getStatusLabel={getStatusLabel}
+        />
+      )}
+    </>
+  );
+}
+
+interface AppointmentDetailsModalProps {
+  appointment: Appointment;
+  onClose: () => void;
+  onRefresh: () => void;
+  getStatusColor: (status: string) => string;
+  getStatusLabel: (status: string) => string;
+}
+
+function AppointmentDetailsModal({
+  appointment,
+  onClose,
+  onRefresh,
+  getStatusColor,
+  getStatusLabel,
+}: AppointmentDetailsModalProps) {
+  const { navigate } = useRouter();
+  const [updating, setUpdating] = useState(false);
+  const [seriesTime, setSeriesTime] = useState(appointment.appointment_time.substring(0, 5));
+  const [seriesError, setSeriesError] = useState('');
+  const [showReschedule, setShowReschedule] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [waitlistMatches, setWaitlistMatches] = useState<WaitlistEntry[]>([]);
+  const [cancelScope, setCancelScope] = useState<CancelScope | null>(null);
+  const [anamnesisAlerts, setAnamnesisAlerts] = useState<{ id: string; label: string; answer: string }[]>([]);
+  const [missingAnamnesis, setMissingAnamnesis] = useState<string[]>([]);
+  const items = sortItems(appointment.items);
+
+  useEffect(() => {
+    loadHistory();
+    loadAnamnesis();
+  }, [appointment.id]);
+
+  async function loadHistory() {
+    try {
+      const { data, error } = await supabase
+        .from('appointment_history')
+        .select(`
+          *,
+          changed_by_profile:profiles!appointment_history_changed_by_fkey(full_name),
+          old_professional:profiles!appointment_history_old_professional_id_fkey(full_name),
+          new_professional:profiles!appointment_history_new_professional_id_fkey(full_name)
+        `)
+        .eq('appointment_id', appointment.id)
+        .order('changed_at', { ascending: false });
+
+      if (error) throw error;
+      setHistory(data || []);
+    } catch (error) {
+      console.error('Error loading history:', error);
+    }
+  }
+
+  // Risky answers are only readable by the patient's care team; for anyone
+  // else the list stays empty
+  async function loadAnamnesis() {
+    try {
+      const [responses, missing] = await Promise.all([
+        fetchAnamnesisResponses(appointment.patient_id),
+        fetchMissingAnamnesis(appointment.id),
+      ]);
+
+      setAnamnesisAlerts(
+        latestResponses(responses).flatMap((response) =>
+          response.questions
+            .filter((question) => response.risky_question_ids.includes(question.id))
+            .map((question) => ({
+              id: `${response.id}-${question.id}`,
+              label: question.label,
+              answer: formatAnswer(question, response.answers[question.id]),
+            }))
+        )
+      );
+      setMissingAnamnesis(missing.map((template) => template.template_name));
+    } catch (error) {
+      console.error('Error loading anamnesis:', error);
+    }
+  }
+
+  async function loadFollowingOccurrences() {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('id, appointment_date, duration_minutes')
+      .eq('series_id', appointment.series_id)
+      .gte('appointment_date', appointment.appointment_date)
+      .in('status', ['scheduled', 'confirmed'])
+      .order('appointment_date');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async function cancelFollowing(reason: string, waiveFee: boolean) {
+    await cancelSeriesFrom(appointment.id, reason, waiveFee);
+
+    onRefresh();
+    onClose();
+  }
+
+  async function rescheduleFollowing() {
+    setUpdating(true);
+    setSeriesError('');
+    try {
+      const following = await loadFollowingOccurrences();
+      const followingIds = following.map((apt) => apt.id);
+      const dates = following.map((apt) => apt.appointment_date);
+
+      const { data: existing, error: existingError } = await supabase
+        .from('appointments')
+        .select('id, appointment_date, appointment_time, duration_minutes')
+        .eq('professional_id', appointment.professional_id)
+        .in('appointment_date', dates)
+        .neq('status', 'cancelled');
+
+      if (existingError) throw existingError;
+
+      // Each occurrence keeps its own length, which may have been edited
+      const others = (existing || []).filter((apt) => !followingIds.includes(apt.id));
+      const conflictingDates = following
+        .filter((occurrence) =>
+          findOverlappingAppointment(
+            others.filter((apt) => apt.appointment_date === occurrence.appointment_date),
+            seriesTime,
+            occurrence.duration_minutes
+          )
+        )
+        .map((occurrence) => occurrence.appointment_date);
+
+      if (conflictingDates.length > 0) {
+        setSeriesError(
+          `Conflito de horário em: ${conflictingDates.map((date) => formatDateString(date)).join(', ')}`
+        );
+        return;
+      }
+
+      const { error } = await supabase
+        .from('appointments')
+        .update({ appointment_time: seriesTime })
+        .in('id', followingIds);
+
+      if (error) throw error;
+
+      onRefresh();
+      onClose();
+    } catch (error) {
+      console.error('Error rescheduling series:', error);
+      setSeriesError(
+        isOverlapError(error)
+          ? 'Uma das sessões entrou em conflito com outro agendamento.'
+          : (error as Error).message || 'Erro ao alterar a série'
+      );
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  const freedSlot: OpenSlot = {
+    professionalId: appointment.professional_id,
+    date: appointment.appointment_date,
+    time: appointment.appointment_time.substring(0, 5),
+    durationMinutes: appointment.duration_minutes,
+  };
+
+  async function reviewOnlineBooking(approve: boolean) {
+    setUpdating(true);
+    try {
+      if (!approve) {
+        await declineOnlineBooking(appointment.id);
+        onRefresh();
+        await offerFreedSlot();
+        return;
+      }
+
+      const { error } = await supabase
+        .from('appointments')
+        .update({ pending_approval: false })
+        .eq('id', appointment.id);
+
+      if (error) throw error;
+
+      onRefresh();
+      onClose();
+    } catch (error) {
+      console.error('Error reviewing online booking:', error);
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  async function printSlip(format: 'print' | 'pdf') {
+    try {
+      const [clinic, printable] = await Promise.all([
+        fetchClinicSettings(),
+        fetchPrintableAppointment(appointment.id),
+      ]);
+
+      if (format === 'print') {
+        printHtml(buildSlipHtml(clinic, printable));
+      } else {
+        downloadPdf(buildSlipPdf(clinic, printable), `agendamento-${appointment.appointment_date}.pdf`);
+      }
+    } catch (error) {
+      console.error('Error printing slip:', error);
+      alert('Erro ao gerar o comprovante');
+    }
+  }
+
+  async function updateStatus(newStatus: AppointmentStatus) {
+    setUpdating(true);
+    try {
+      const { error } = await supabase
+        .from('appointments')
+        .update({ status: newStatus })
+        .eq('id', appointment.id);
+
+      if (error) throw error;
+
+      onRefresh();
+      onClose();
+    } catch (error) {
+      console.error('Error updating status:', error);
+      if (isAnamnesisRequiredError(error)) {
+        alert((error as Error).message);
+      }
+    } finally {
+      setUpdating(false);
+    }
+  }
+
+  async function cancelSingle(reason: string, waiveFee: boolean) {
+    await cancelAppointment(appointment.id, reason, waiveFee);
+    setCancelScope(null);
+    onRefresh();
+    await offerFreedSlot();
+  }
+
+  // Offers the slot of a cancelled or declined visit to the waitlist
+  async function offerFreedSlot() {
+    if (appointment.appointment_date >= todayString()) {
+      const matches = await findWaitlistMatches(freedSlot);
+      if (matches.length > 0) {
+        setWaitlistMatches(matches);
+        return;
+      }
+    }
+
+    onClose();
+  }
+
+  if (waitlistMatches.length > 0) {
+    return (
+      <WaitlistOfferModal
+        slot={freedSlot}
+        entries={waitlistMatches}
+        onClose={onClose}
+        onBooked={() => {
+          onRefresh();
+          onClose();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
+        <div className="flex items-start justify-between mb-6">
+          <h2 className="text-xl font-semibold text-text">Detalhes do Agendamento</h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => printSlip('print')}
+              className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors"
+              title="Imprimir comprovante para o paciente"
+            >
+              <Printer className="w-5 h-5 text-text-muted" />
+            </button>
+            <button
+              onClick={() => printSlip('pdf')}
+              className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors"
+              title="Baixar comprovante em PDF"
+            >
+              <FileDown className="w-5 h-5 text-text-muted" />
+            </button>
+            <button onClick={onClose} className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors">
+              <X className="w-5 h-5 text-text-muted" />
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm text-text-muted">Status</label>
+            <div className="mt-1">
+              <span className={`inline-block px-3 py-1 rounded-full text-sm font-medium border ${getStatusColor(appointment.status)}`}>
+                {getStatusLabel(appointment.status)}
+              </span>
+              {appointment.booking_source === 'online' && (
+                <span className="inline-block ml-2 px-3 py-1 rounded-full text-sm border bg-background text-text-muted border-accent/20">
+                  Agendado online
+                </span>
+              )}
+            </div>
+          </div>
+
+          {appointment.status === 'cancelled' && appointment.cancellation_reason && (
+            <div>
+              <label className="text-sm text-text-muted">Motivo do cancelamento</label>
+              <p className="text-text text-sm">{appointment.cancellation_reason}</p>
+            </div>
+          )}
+
+          {appointment.pending_approval && canReschedule(appointment) && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm space-y-3">
+              <p>Este agendamento foi feito pelo paciente na internet e aguarda aprovação.</p>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => reviewOnlineBooking(true)}
+                  disabled={updating}
+                  className="px-3 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  Aprovar
+                </button>
+                <button
+                  onClick={() => reviewOnlineBooking(false)}
+                  disabled={updating}
+                  className="px-3 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  Recusar
+                </button>
+              </div>
+            </div>
+          )}
+
+          {anamnesisAlerts.length > 0 && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              <p className="font-medium flex items-center gap-2 mb-1">
+                <AlertCircle className="w-4 h-4" />
+                Alertas da anamnese
+              </p>
+              <ul className="space-y-0.5">
+                {anamnesisAlerts.map((risk) => (
+                  <li key={risk.id}>
+                    {risk.label}: <span className="font-medium">{risk.answer}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {missingAnamnesis.length > 0 && (canReschedule(appointment) || appointment.status === 'checked_in') && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm flex gap-2">
+              <ClipboardList className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <p>
+                Anamnese pendente: {missingAnamnesis.join(', ')}. Preencha na{' '}
+                <button
+                  onClick={() => navigate(`/pacientes/${appointment.patient_id}`)}
+                  className="font-medium underline hover:text-amber-900"
+                >
+                  página do paciente
+                </button>{' '}
+                antes de iniciar o atendimento.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="text-sm text-text-muted">Paciente</label>
+            <button
+              onClick={() => navigate(`/pacientes/${appointment.patient_id}`)}
+              className="block text-left text-text font-medium hover:text-primary hover:underline transition-colors"
+            >
+              {appointment.patient?.full_name}
+            </button>
+          </div>
+
+          {items.length > 1 ? (
+            <div>
+              <label className="text-sm text-text-muted">Procedimentos</label>
+              <ul className="mt-1 space-y-1">
+                {items.map((item) => (
+                  <li key={item.id} className="flex items-center justify-between text-sm text-text">
+                    <span className="font-medium">{item.procedure?.name}</span>
+                    <span className="text-text-muted">
+                      {item.duration_minutes} min · R$ {item.price.toFixed(2)}
+                    </span>
+                  </li>
+                ))}
+                <li className="flex items-center justify-between text-sm text-text border-t border-accent/20 pt-1">
+                  <span>Total</span>
+                  <span className="font-medium">
+                    {itemsDuration(items)} min · R$ {itemsTotal(items).toFixed(2)}
+                  </span>
+                </li>
+              </ul>
+            </div>
+          ) : (
+            <div>
+              <label className="text-sm text-text-muted">Procedimento</label>
+              <p className="text-text font-medium">{appointment.procedure?.name}</p>
+            </div>
+          )}
+
+          <AppointmentPricing appointment={appointment} onChanged={onRefresh} />
+
+          <div>
+            <label className="text-sm text-text-muted">Data e Hora</label>
+            <p className="text-text font-medium">
+              {formatDateString(appointment.appointment_date)} às{' '}
+              {appointment.appointment_time.substring(0, 5)}
+            </p>
+          </div>
+
+          {appointment.professional && (
+            <div>
+              <label className="text-sm text-text-muted">Profissional</label>
+              <p className="text-text font-medium">{appointment.professional.full_name}</p>
+            </div>
+          )}
+
+          {appointment.resources && appointment.resources.length > 0 && (
+            <div>
+              <label className="text-sm text-text-muted">Sala / Equipamento</label>
+              <p className="text-text font-medium">
+                {appointment.resources.map((allocation) => allocation.resource.name).join(', ')}
+              </p>
+            </div>
+          )}
+
+          {appointment.reminder && (
+            <div>
+              <label className="text-sm text-text-muted">Lembrete</label>
+              <p className="flex items-center gap-2 text-text text-sm">
+                <ReminderIndicator reminder={appointment.reminder} />
+                {describeReminder(appointment.reminder)}
+              </p>
+            </div>
+          )}
+
+          <div className="pt-4 border-t border-accent/20">
+            <label className="text-sm font-medium text-text mb-3 block">Alterar Status</label>
+            <div className="grid grid-cols-2 gap-2">
+              {canReschedule(appointment) && (
+                <button
+                  onClick={() => setShowReschedule(true)}
+                  disabled={updating}
+                  className="flex items-center justify-center gap-2 px-3 py-2 bg-accent hover:bg-accent/90 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  <CalendarClock className="w-4 h-4" />
+                  Remarcar
+                </button>
+              )}
+              {appointment.status === 'scheduled' && (
+                <button
+                  onClick={() => updateStatus('confirmed')}
+                  disabled={updating}
+                  className="px-3 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  Confirmar
+                </button>
+              )}
+              {canReschedule(appointment) && appointment.appointment_date === todayString() && (
+                <button
+                  onClick={() => updateStatus('checked_in')}
+                  disabled={updating}
+                  className="px-3 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  Check-in
+                </button>
+              )}
+              {appointment.status === 'checked_in' && (
+                <button
+                  onClick={() => updateStatus('in_progress')}
+                  disabled={updating}
+                  className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  Iniciar atendimento
+                </button>
+              )}
+              {(canReschedule(appointment) || isVisitOngoing(appointment)) && (
+                <button
+                  onClick={() => updateStatus('completed')}
+                  disabled={updating}
+                  className="px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  Concluir
+                </button>
+              )}
+              {canReschedule(appointment) && (
+                <button
+                  onClick={() => updateStatus('no_show')}
+                  disabled={updating}
+                  className="px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  Não compareceu
+                </button>
+              )}
+              {canReschedule(appointment) && (
+                <button
+                  onClick={() => setCancelScope('single')}
+                  disabled={updating}
+                  className="px-3 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  Cancelar
+                </button>
+              )}
+              {appointment.status === 'no_show' && (
+                <button
+                  onClick={() => updateStatus('completed')}
+                  disabled={updating}
+                  className="px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  Marcar como realizado
+                </button>
+              )}
+            </div>
+          </div>
+
+          {appointment.series_id && canReschedule(appointment) && (
+            <div className="pt-4 border-t border-accent/20">
+              <label className="text-sm font-medium text-text mb-1 flex items-center gap-2">
+                <Repeat className="w-4 h-4" />
+                Sessão recorrente
+              </label>
+              <p className="text-xs text-text-muted mb-3">
+                As ações abaixo valem para esta sessão e as próximas da série.
+              </p>
+              <div className="flex gap-2 mb-2">
+                <input
+                  type="time"
+                  value={seriesTime}
+                  onChange={(e) => setSeriesTime(e.target.value)}
+                  className="flex-1 px-3 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text text-sm"
+                  disabled={updating}
+                />
+                <button
+                  onClick={rescheduleFollowing}
+                  disabled={updating || !seriesTime}
+                  className="px-3 py-2 bg-accent hover:bg-accent/90 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                >
+                  Alterar horário
+                </button>
+              </div>
+              <button
+                onClick={() => setCancelScope('following')}
+                disabled={updating}
+                className="w-full px-3 py-2 border border-gray-300 text-gray-600 hover:bg-gray-100 rounded-lg text-sm transition-colors disabled:opacity-50"
+              >
+                Cancelar esta e as próximas
+              </button>
+              {seriesError && (
+                <div className="mt-3 bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-xs">
+                  {seriesError}
+                </div>
+              )}
+            </div>
+          )}
+
+          <AppointmentNotes appointment={appointment} onChanged={onRefresh} />
+
+          {history.length > 0 && (
+            <div className="pt-4 border-t border-accent/20">
+              <label className="text-sm font-medium text-text mb-3 flex items-center gap-2">
+                <History className="w-4 h-4" />
+                Histórico de remarcações
+              </label>
+              <ul className="space-y-2 max-h-40 overflow-y-auto">
+                {history.map((entry) => (
+                  <li key={entry.id} className="bg-champagne-nuvem rounded-lg px-3 py-2 border border-accent/20 text-xs">
+                    <p className="text-text">
+                      {formatDateString(entry.old_date)} {entry.old_time.substring(0, 5)}
+                      {' → '}
+                      {formatDateString(entry.new_date)} {entry.new_time.substring(0, 5)}
+                    </p>
+                    {entry.old_professional_id !== entry.new_professional_id && (
+                      <p className="text-text-muted">
+                        {entry.old_professional?.full_name} → {entry.new_professional?.full_name}
+                      </p>
+                    )}
+                    <p className="text-text-muted">
+                      {entry.changed_by_profile?.full_name || 'Sistema'} em{' '}
+                      {new Date(entry.changed_at).toLocaleString('pt-BR', {
+                        day: '2-digit',
+                        month: '2-digit',
+                        year: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                        timeZone: getClinicTimeZone(),
+                      })}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showReschedule && (
+        <RescheduleModal
+          appointment={appointment}
+          onClose={() => setShowReschedule(false)}
+          onSuccess={() => {
+            setShowReschedule(false);
+            onRefresh();
+            onClose();
+          }}
+        />
+      )}
+
+      {cancelScope && (
+        <CancelAppointmentModal
+          appointment={appointment}
+          scope={cancelScope}
+          onClose={() => setCancelScope(null)}
+          onConfirm={cancelScope === 'single' ? cancelSingle : cancelFollowing}
+        />
+      )}
+    </div>
+  );
+}
+
+type CancelScope = 'single' | 'following';
+
+interface CancelAppointmentModalProps {
+  appointment: Appointment;
+  scope: CancelScope;
+  onClose: () => void;
+  onConfirm: (reason: string, waiveFee: boolean) => Promise<void>;
+}
+
+function CancelAppointmentModal({ appointment, scope, onClose, onConfirm }: CancelAppointmentModalProps) {
+  const { isSuperAdmin } = useAuth();
+  const [policy, setPolicy] = useState<ClinicSettings | null>(null);
+  const [reason, setReason] = useState('');
+  const [waiveFee, setWaiveFee] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchClinicSettings()
+      .then(setPolicy)
+      .catch((error) => console.error('Error loading cancellation policy:', error));
+  }, []);
+
+  const fee = policy
+    ? estimateCancellationFee(
+        policy,
+        appointment.appointment_date,
+        appointment.appointment_time,
+        appointment.agreed_price ?? itemsTotal(appointment.items || [])
+      )
+    : 0;
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await onConfirm(reason.trim(), waiveFee);
+    } catch (error) {
+      console.error('Error cancelling appointment:', error);
+      setError((error as Error).message || 'Erro ao cancelar agendamento');
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
+        <div className="flex items-start justify-between mb-6">
+          <h2 className="text-xl font-semibold text-text">
+            {scope === 'single' ? 'Cancelar Agendamento' : 'Cancelar Sessões'}
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors">
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-text-muted">
+            {appointment.patient?.full_name} · {formatDateString(appointment.appointment_date)} às{' '}
+            {appointment.appointment_time.substring(0, 5)}
+            {scope === 'following' && ' e as próximas sessões da série'}
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Motivo do cancelamento</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text resize-none"
+              placeholder="Ex: Paciente pediu para desmarcar"
+              required
+              disabled={loading}
+            />
+          </div>
+
+          {fee > 0 && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm space-y-2">
+              <p>
+                Cancelamento com menos de {policy?.cancellation_notice_hours}h de antecedência: será gerada uma
+                cobrança de R$ {fee.toFixed(2)} para o paciente
+                {scope === 'following' && ' nesta sessão'}.
+              </p>
+              {isSuperAdmin && (
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={waiveFee}
+                    onChange={(e) => setWaiveFee(e.target.checked)}
+                    className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+                    disabled={loading}
+                  />
+                  Isentar taxa
+                </label>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+              disabled={loading}
+            >
+              Voltar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors disabled:opacity-50"
+              disabled={loading || !reason.trim()}
+            >
+              {loading ? 'Cancelando...' : 'Cancelar agendamento'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface WaitlistOfferModalProps {
+  slot: OpenSlot;
+  entries: WaitlistEntry[];
+  onClose: () => void;
+  onBooked: () => void;
+}
+
+function WaitlistOfferModal({ slot, entries, onClose, onBooked }: WaitlistOfferModalProps) {
+  const [bookingId, setBookingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  async function book(entry: WaitlistEntry) {
+    setError('');
+    setBookingId(entry.id);
+
+    try {
+      await bookWaitlistEntry(entry, slot);
+      onBooked();
+    } catch (error) {
+      setError(
+        isOverlapError(error)
+          ? 'O horário já foi ocupado por outro agendamento.'
+          : (error as Error).message || 'Erro ao agendar paciente da lista de espera'
+      );
+    } finally {
+      setBookingId(null);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
+        <div className="flex items-start justify-between mb-2">
+          <h2 className="text-xl font-semibold text-text">Horário liberado</h2>
+          <button onClick={onClose} className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors">
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+        <p className="text-sm text-text-muted mb-4">
+          {formatDateString(slot.date)} às {slot.time} · {entries.length}{' '}
+          {entries.length === 1 ? 'paciente aguarda' : 'pacientes aguardam'} na lista de espera
+        </p>
+
+        <ul className="space-y-2 max-h-80 overflow-y-auto">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-center justify-between gap-3 bg-champagne-nuvem rounded-lg px-3 py-2 border border-accent/20"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-text truncate">{entry.patient?.full_name}</p>
+                <p className="text-xs text-text-muted truncate">
+                  {entry.procedure?.name} · {entry.patient?.phone && formatPhone(entry.patient.phone)}
+                </p>
+              </div>
+              <button
+                onClick={() => book(entry)}
+                disabled={bookingId !== null}
+                className="px-3 py-1.5 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm transition-colors disabled:opacity-50 flex-shrink-0"
+              >
+                {bookingId === entry.id ? 'Agendando...' : 'Agendar'}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full mt-4 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+        >
+          Deixar horário livre
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface RescheduleModalProps {
+  appointment: Appointment;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function RescheduleModal({ appointment, onClose, onSuccess }: RescheduleModalProps) {
+  const { isSuperAdmin } = useAuth();
+  const [appointmentDate, setAppointmentDate] = useState(appointment.appointment_date);
+  const [appointmentTime, setAppointmentTime] = useState(appointment.appointment_time.substring(0, 5));
+  const [professionalId, setProfessionalId] = useState(appointment.professional_id);
+  const [professionals, setProfessionals] = useState<Professional[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isSuperAdmin) {
+      loadProfessionals();
+    }
+  }, [isSuperAdmin]);
+
+  async function loadProfessionals() {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name')
+        .eq('is_active', true)
+        .order('full_name');
+
+      if (error) throw error;
+      setProfessionals(data || []);
+    } catch (error) {
+      console.error('Error loading professionals:', error);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await rescheduleAppointment(
+        appointment,
+        {
+          appointment_date: appointmentDate,
+          appointment_time: appointmentTime,
+          professional_id: professionalId,
+        },
+        isSuperAdmin ? confirmOutsideAvailability : undefined
+      );
+      onSuccess();
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao remarcar agendamento');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
+        <div className="flex items-start justify-between mb-6">
+          <h3 className="text-lg font-semibold text-text">Remarcar Agendamento</h3>
+          <button onClick={onClose} className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors">
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {isSuperAdmin && (
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Profissional</label>
+              <select
+                value={professionalId}
+                onChange={(e) => setProfessionalId(e.target.value)}
+                className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+                required
+                disabled={loading}
+              >
+                {professionals.map((prof) => (
+                  <option key={prof.id} value={prof.id}>
+                    {prof.full_name}
+                  </option>
+                ))}
+              </select>
             </div>
-          </div>
-
-          <div>
-            <label className="text-sm text-text-muted">Paciente</label>
-            <p className="text-text font-medium">{appointment.patient?.full_name}</p>
-          </div>
+          )}
 
           <div>
-            <label className="text-sm text-text-muted">Procedimento</label>
-            <p className="text-text font-medium">{appointment.procedure?.name}</p>
+            <label className="block text-sm font-medium text-text mb-2">Nova Data</label>
+            <input
+              type="date"
+              value={appointmentDate}
+              onChange={(e) => setAppointmentDate(e.target.value)}
+              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+              required
+              disabled={loading}
+            />
           </div>
 
           <div>
-            <label className="text-sm text-text-muted">Data e Hora</label>
-            <p className="text-text font-medium">
-              {new Date(appointment.appointment_date).toLocaleDateString('pt-BR')} às{' '}
-              {appointment.appointment_time.substring(0, 5)}
-            </p>
+            <label className="block text-sm font-medium text-text mb-2">Novo Horário</label>
+            <input
+              type="time"
+              value={appointmentTime}
+              onChange={(e) => setAppointmentTime(e.target.value)}
+              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+              required
+              disabled={loading}
+            />
           </div>
 
-          {appointment.professional && (
-            <div>
-              <label className="text-sm text-text-muted">Profissional</label>
-              <p className="text-text font-medium">{appointment.professional.full_name}</p>
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start gap-2">
+              <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <span>{error}</span>
             </div>
           )}
 
-          <div className="pt-4 border-t border-accent/20">
-            <label className="text-sm font-medium text-text mb-3 block">Alterar Status</label>
-            <div className="grid grid-cols-2 gap-2">
-              {appointment.status !== 'confirmed' && appointment.status !== 'completed' && appointment.status !== 'cancelled' && (
-                <button
-                  onClick={() => updateStatus('confirmed')}
-                  disabled={updating}
-                  className="px-3 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm transition-colors disabled:opacity-50"
-                >
-                  Confirmar
-                </button>
-              )}
-              {appointment.status !== 'completed' && appointment.status !== 'cancelled' && (
-                <button
-                  onClick={() => updateStatus('completed')}
-                  disabled={updating}
-                  className="px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
-                >
-                  Concluir
-                </button>
-              )}
-              {appointment.status !== 'cancelled' && appointment.status !== 'completed' && (
-                <button
-                  onClick={() => updateStatus('cancelled')}
-                  disabled={updating}
-                  className="px-3 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
-                >
-                  Cancelar
-                </button>
-              )}
-            </div>
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+              disabled={loading}
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? 'Salvando...' : 'Remarcar'}
+            </button>
           </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+const SLOT_SEARCH_DEFAULT_DAYS = 14;
+const SLOT_SEARCH_MAX_DAYS = 60;
+
+interface SlotFinderProps {
+  durationMinutes: number;
+  professionalIds: string[];
+  professionals: Professional[];
+  defaultStartDate: string;
+  onSelect: (slot: FreeSlot) => void;
+}
+
+function SlotFinder({ durationMinutes, professionalIds, professionals, defaultStartDate, onSelect }: SlotFinderProps) {
+  const [startDate, setStartDate] = useState(defaultStartDate);
+  const [endDate, setEndDate] = useState(addDays(defaultStartDate, SLOT_SEARCH_DEFAULT_DAYS));
+  const [slots, setSlots] = useState<FreeSlot[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+
+  async function searchSlots() {
+    if (endDate < startDate) {
+      setError('A data final deve ser posterior à inicial.');
+      return;
+    }
+
+    if (endDate > addDays(startDate, SLOT_SEARCH_MAX_DAYS)) {
+      setError(`Busque em um período de até ${SLOT_SEARCH_MAX_DAYS} dias.`);
+      return;
+    }
+
+    setError('');
+    setSearching(true);
+
+    try {
+      const [{ data, error: appointmentsError }, availability] = await Promise.all([
+        supabase
+          .from('appointments')
+          .select('id, professional_id, appointment_date, appointment_time, duration_minutes')
+          .in('professional_id', professionalIds)
+          .gte('appointment_date', startDate)
+          .lte('appointment_date', endDate)
+          .neq('status', 'cancelled'),
+        fetchAvailability(professionalIds, startDate, endDate),
+      ]);
+
+      if (appointmentsError) throw appointmentsError;
+
+      const now = clinicDateTime();
+      setSlots(
+        findFreeSlots({
+          availability,
+          appointments: data || [],
+          professionalIds,
+          startDate,
+          endDate,
+          durationMinutes,
+          notBefore: { date: now.date, minutes: timeToMinutes(now.time) },
+        })
+      );
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao buscar horários');
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  function professionalName(id: string) {
+    return professionals.find((prof) => prof.id === id)?.full_name;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-2 text-sm">
+        <div>
+          <label className="block text-xs text-text-muted mb-1">De</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-2 py-1 bg-background border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-text-muted mb-1">Até</label>
+          <input
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-2 py-1 bg-background border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text"
+          />
         </div>
+        <button
+          type="button"
+          onClick={searchSlots}
+          disabled={searching || professionalIds.length === 0}
+          className="flex items-center gap-1 px-3 py-1.5 bg-accent hover:bg-accent/90 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+          Buscar
+        </button>
       </div>
+
+      {error && <p className="text-xs text-red-700">{error}</p>}
+
+      {slots !== null &&
+        (slots.length === 0 ? (
+          <p className="text-xs text-text-muted">Nenhum horário livre neste período</p>
+        ) : (
+          <ul className="max-h-40 overflow-y-auto space-y-1">
+            {slots.map((slot) => (
+              <li key={`${slot.professionalId}-${slot.date}-${slot.time}`}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(slot)}
+                  className="w-full flex items-center justify-between px-3 py-1.5 rounded-md text-xs border bg-background border-accent/20 text-text hover:border-primary hover:bg-primary/10 transition-colors"
+                >
+                  <span>
+                    {formatDateString(slot.date, { weekday: 'short', day: '2-digit', month: '2-digit' })} às{' '}
+                    {slot.time}
+                  </span>
+                  {professionalIds.length > 1 && (
+                    <span className="text-text-muted">{professionalName(slot.professionalId)}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        ))}
     </div>
   );
 }
@@ -606,6 +2801,7 @@ function AppointmentDetailsModal({
 interface CreateAppointmentModalProps {
   defaultDate: string;
   defaultProfessionalId: string;
+  liveVersion: number;
   onClose: () => void;
   onSuccess: () => void;
 }
@@ -613,18 +2809,32 @@ interface CreateAppointmentModalProps {
 function CreateAppointmentModal({
   defaultDate,
   defaultProfessionalId,
+  liveVersion,
   onClose,
   onSuccess,
 }: CreateAppointmentModalProps) {
-  const { user, isSuperAdmin } = useAuth();
+  const { isSuperAdmin } = useAuth();
   const [patientId, setPatientId] = useState('');
-  const [procedureId, setProcedureId] = useState('');
+  const [items, setItems] = useState<DraftItem[]>([]);
+  const [discount, setDiscount] = useState<Discount>(NO_DISCOUNT);
   const [professionalId, setProfessionalId] = useState(defaultProfessionalId);
   const [appointmentDate, setAppointmentDate] = useState(defaultDate);
   const [appointmentTime, setAppointmentTime] = useState('09:00');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [conflict, setConflict] = useState(false);
+  const [conflicts, setConflicts] = useState<Record<string, TimeRange>>({});
+  const [unavailableDates, setUnavailableDates] = useState<Record<string, string>>({});
+  const [overrideAvailability, setOverrideAvailability] = useState(false);
+  const [requiredResources, setRequiredResources] = useState<Resource[]>([]);
+  const [resourceConflicts, setResourceConflicts] = useState<Record<string, ResourceConflict>>({});
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [intervalValue, setIntervalValue] = useState(4);
+  const [intervalUnit, setIntervalUnit] = useState<RecurrenceUnit>('week');
+  const [endType, setEndType] = useState<'count' | 'date'>('count');
+  const [occurrenceCount, setOccurrenceCount] = useState(6);
+  const [seriesEndDate, setSeriesEndDate] = useState('');
+  const [showSlotFinder, setShowSlotFinder] = useState(false);
+  const [noShowCount, setNoShowCount] = useState(0);
 
   const [patients, setPatients] = useState<Patient[]>([]);
   const [procedures, setProcedures] = useState<Procedure[]>([]);
@@ -638,21 +2848,56 @@ function CreateAppointmentModal({
     }
   }, [isSuperAdmin]);
 
+  const recurrence: RecurrenceRule = {
+    startDate: appointmentDate,
+    intervalValue,
+    intervalUnit,
+    occurrenceCount: endType === 'count' ? occurrenceCount : null,
+    endDate: endType === 'date' ? seriesEndDate || null : null,
+  };
+  const occurrenceDates = isRecurring ? generateOccurrenceDates(recurrence) : [appointmentDate];
+  // The series would be cut at the session limit before reaching the end date
+  const seriesTooLong = isRecurring && exceedsSeriesLimit(recurrence, occurrenceDates);
+  const occurrenceKey = occurrenceDates.join(',');
+  const freeDates = occurrenceDates.filter(
+    (date) => !conflicts[date] && !resourceConflicts[date] && (overrideAvailability || !unavailableDates[date])
+  );
+  const conflict = isRecurring ? null : conflicts[appointmentDate] || null;
+  const resourceConflict = isRecurring ? null : resourceConflicts[appointmentDate] || null;
+  const outsideAvailability = isRecurring ? null : unavailableDates[appointmentDate] || null;
+  const totalDuration = itemsDuration(items);
+  const itemsKey = items.map((item) => `${item.procedure_id}:${item.duration_minutes}`).join(',');
+  const procedureIdsKey = items.map((item) => item.procedure_id).join(',');
+  // Without a chosen professional, super admins search across the whole team
+  const slotProfessionalIds = professionalId ? [professionalId] : professionals.map((prof) => prof.id);
+
+  useEffect(() => {
+    if (patientId) {
+      loadNoShowCount();
+    } else {
+      setNoShowCount(0);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    loadRequiredResources();
+  }, [procedureIdsKey]);
+
   useEffect(() => {
-    if (patientId && procedureId && professionalId && appointmentDate && appointmentTime) {
+    if (patientId && items.length > 0 && professionalId && appointmentDate && appointmentTime) {
       checkConflict();
     }
-  }, [patientId, procedureId, professionalId, appointmentDate, appointmentTime]);
+  }, [patientId, itemsKey, professionalId, occurrenceKey, appointmentTime, requiredResources, liveVersion]);
 
   async function loadPatients() {
     try {
-      let query = supabase.from('patients').select('id, full_name').order('full_name');
-
-      if (!isSuperAdmin && user) {
-        query = query.eq('professional_id', user.id);
-      }
+      // patient_contacts decides which patients each professional can book
+      const { data, error } = await supabase
+        .from('patient_contacts')
+        .select('id, full_name')
+        .is('archived_at', null)
+        .order('full_name');
 
-      const { data, error } = await query;
       if (error) throw error;
       setPatients(data || []);
     } catch (error) {
@@ -660,11 +2905,26 @@ function CreateAppointmentModal({
     }
   }
 
+  async function loadNoShowCount() {
+    try {
+      const { count, error } = await supabase
+        .from('appointments')
+        .select('id', { count: 'exact', head: true })
+        .eq('patient_id', patientId)
+        .eq('status', 'no_show');
+
+      if (error) throw error;
+      setNoShowCount(count || 0);
+    } catch (error) {
+      console.error('Error loading no-show count:', error);
+    }
+  }
+
   async function loadProcedures() {
     try {
       const { data, error } = await supabase
         .from('procedures')
-        .select('id, name, duration_minutes')
+        .select('id, name, duration_minutes, default_price')
         .eq('is_active', true)
         .order('name');
 
@@ -690,28 +2950,151 @@ function CreateAppointmentModal({
     }
   }
 
+  async function loadRequiredResources() {
+    try {
+      setRequiredResources(await fetchRequiredResources(items.map((item) => item.procedure_id)));
+    } catch (error) {
+      console.error('Error loading required resources:', error);
+    }
+  }
+
   async function checkConflict() {
+    if (totalDuration <= 0 || occurrenceDates.length === 0) return;
+
+    const rangeStart = occurrenceDates[0];
+    const rangeEnd = occurrenceDates[occurrenceDates.length - 1];
+
     try {
-      const { data, error } = await supabase
-        .from('appointments')
-        .select('id')
-        .eq('professional_id', professionalId)
-        .eq('appointment_date', appointmentDate)
-        .eq('appointment_time', appointmentTime)
-        .neq('status', 'cancelled');
+      const [{ data, error }, availability, allocations] = await Promise.all([
+        supabase
+          .from('appointments')
+          .select('id, appointment_date, appointment_time, duration_minutes')
+          .eq('professional_id', professionalId)
+          .gte('appointment_date', rangeStart)
+          .lte('appointment_date', rangeEnd)
+          .neq('status', 'cancelled'),
+        fetchAvailability([professionalId], rangeStart, rangeEnd),
+        fetchResourceAllocations(
+          requiredResources.map((resource) => resource.id),
+          rangeStart,
+          rangeEnd
+        ),
+      ]);
 
       if (error) throw error;
-      setConflict((data || []).length > 0);
+
+      const found: Record<string, TimeRange> = {};
+      const unavailable: Record<string, string> = {};
+      const busyResources: Record<string, ResourceConflict> = {};
+      occurrenceDates.forEach((date) => {
+        // Resources are shared by the whole team, so they can be busy even when the professional is free
+        const busyResource = findBusyResource(requiredResources, allocations, date, appointmentTime, totalDuration);
+        if (busyResource) {
+          busyResources[date] = busyResource;
+        }
+
+        const windows = getAvailabilityWindows(availability, professionalId, date);
+        if (!isWithinAvailability(windows, appointmentTime, totalDuration)) {
+          unavailable[date] = describeWindows(windows);
+        }
+
+        const overlapping = findOverlappingAppointment(
+          (data || []).filter((apt) => apt.appointment_date === date),
+          appointmentTime,
+          totalDuration
+        );
+
+        if (overlapping) {
+          const start = timeToMinutes(overlapping.appointment_time);
+          found[date] = {
+            start: minutesToTime(start),
+            end: minutesToTime(start + overlapping.duration_minutes),
+          };
+        }
+      });
+
+      setConflicts(found);
+      setUnavailableDates(unavailable);
+      setResourceConflicts(busyResources);
     } catch (error) {
       console.error('Error checking conflict:', error);
     }
   }
 
+  function addItem(procedureId: string) {
+    const procedure = procedures.find((p) => p.id === procedureId);
+    if (!procedure) return;
+
+    setItems([
+      ...items,
+      {
+        procedure_id: procedure.id,
+        duration_minutes: procedure.duration_minutes,
+        price: procedure.default_price,
+      },
+    ]);
+  }
+
+  function updateItem(index: number, changes: Partial<DraftItem>) {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  }
+
+  function moveItem(index: number, offset: number) {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setItems(reordered);
+  }
+
+  function removeItem(index: number) {
+    setItems(items.filter((_, i) => i !== index));
+  }
+
+  function selectSlot(slot: FreeSlot) {
+    setAppointmentDate(slot.date);
+    setAppointmentTime(slot.time);
+    setProfessionalId(slot.professionalId);
+    setShowSlotFinder(false);
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
 
+    if (items.length === 0) {
+      setError('Adicione ao menos um procedimento.');
+      return;
+    }
+
     if (conflict) {
-      setError('Já existe um agendamento para este horário. Escolha outro horário.');
+      setError('Já existe um agendamento neste intervalo. Escolha outro horário.');
+      return;
+    }
+
+    if (resourceConflict) {
+      setError(`${resourceConflict.name} já está reservado neste intervalo. Escolha outro horário.`);
+      return;
+    }
+
+    if (outsideAvailability && !overrideAvailability) {
+      setError('O horário escolhido está fora da disponibilidade do profissional.');
+      return;
+    }
+
+    if (seriesTooLong) {
+      setError(`A série passa do limite de ${MAX_SERIES_OCCURRENCES} sessões. Escolha uma data final mais próxima.`);
+      return;
+    }
+
+    if (isRecurring && freeDates.length === 0) {
+      setError('Todas as datas da série estão em conflito. Ajuste a recorrência ou o horário.');
+      return;
+    }
+
+    const appliedDiscount = normalizeDiscount(discount);
+    if (appliedDiscount.discount_type && !appliedDiscount.discount_reason) {
+      setError('Informe o motivo do desconto.');
       return;
     }
 
@@ -719,21 +3102,38 @@ function CreateAppointmentModal({
     setLoading(true);
 
     try {
-      const { error: insertError } = await supabase.from('appointments').insert({
+      await createAppointments({
         patient_id: patientId,
-        procedure_id: procedureId,
         professional_id: professionalId,
-        appointment_date: appointmentDate,
+        dates: freeDates,
         appointment_time: appointmentTime,
-        status: 'scheduled',
-        created_by: user?.id,
+        items,
+        discount: appliedDiscount,
+        series: isRecurring
+          ? {
+              start_date: appointmentDate,
+              interval_value: intervalValue,
+              interval_unit: intervalUnit,
+              occurrence_count: endType === 'count' ? occurrenceCount : null,
+              end_date: endType === 'date' ? seriesEndDate : null,
+            }
+          : null,
       });
 
-      if (insertError) throw insertError;
-
       onSuccess();
-    } catch (error: any) {
-      setError(error.message || 'Erro ao criar agendamento');
+    } catch (error) {
+      if (isOverlapError(error)) {
+        checkConflict();
+        setError('Outro agendamento ocupou este intervalo agora há pouco. Escolha outro horário.');
+      } else if (isOutsideAvailabilityError(error)) {
+        checkConflict();
+        setError('O horário escolhido está fora da disponibilidade do profissional.');
+      } else if (isResourceBusyError(error)) {
+        checkConflict();
+        setError((error as Error).message);
+      } else {
+        setError((error as Error).message || 'Erro ao criar agendamento');
+      }
     } finally {
       setLoading(false);
     }
@@ -766,26 +3166,126 @@ function CreateAppointmentModal({
                 </option>
               ))}
             </select>
+            {noShowCount > 0 && (
+              <p className="flex items-center gap-1 mt-2 text-xs text-red-700">
+                <AlertCircle className="w-3 h-3" />
+                Este paciente faltou {noShowCount === 1 ? '1 vez' : `${noShowCount} vezes`} sem avisar
+              </p>
+            )}
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-text mb-2">Procedimento</label>
+            <label className="block text-sm font-medium text-text mb-2">Procedimentos</label>
+            {items.length > 0 && (
+              <ul className="space-y-2 mb-2">
+                {items.map((item, index) => (
+                  <li
+                    key={`${item.procedure_id}-${index}`}
+                    className="bg-champagne-nuvem rounded-lg p-3 border border-accent/20 text-sm"
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <span className="font-medium text-text truncate">
+                        {index + 1}. {procedures.find((p) => p.id === item.procedure_id)?.name}
+                      </span>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => moveItem(index, -1)}
+                          disabled={loading || index === 0}
+                          className="p-1 hover:bg-background rounded transition-colors text-text-muted disabled:opacity-30"
+                          title="Mover para cima"
+                        >
+                          <ChevronUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveItem(index, 1)}
+                          disabled={loading || index === items.length - 1}
+                          className="p-1 hover:bg-background rounded transition-colors text-text-muted disabled:opacity-30"
+                          title="Mover para baixo"
+                        >
+                          <ChevronDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeItem(index)}
+                          disabled={loading}
+                          className="p-1 hover:bg-background rounded transition-colors text-red-600"
+                          title="Remover"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 text-text">
+                      <label className="flex items-center gap-1">
+                        <input
+                          type="number"
+                          min="5"
+                          step="5"
+                          value={item.duration_minutes}
+                          onChange={(e) =>
+                            updateItem(index, { duration_minutes: Math.max(5, parseInt(e.target.value) || 5) })
+                          }
+                          className="w-16 px-2 py-1 bg-background border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text"
+                          disabled={loading}
+                        />
+                        <span className="text-text-muted">min</span>
+                      </label>
+                      <label className="flex items-center gap-1">
+                        <span className="text-text-muted">R$</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.price}
+                          onChange={(e) => updateItem(index, { price: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          className="w-24 px-2 py-1 bg-background border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text"
+                          disabled={loading}
+                        />
+                      </label>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
             <select
-              value={procedureId}
-              onChange={(e) => setProcedureId(e.target.value)}
+              value=""
+              onChange={(e) => addItem(e.target.value)}
               className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
-              required
               disabled={loading}
             >
-              <option value="">Selecione um procedimento</option>
+              <option value="">{items.length === 0 ? 'Selecione um procedimento' : 'Adicionar outro procedimento'}</option>
               {procedures.map((procedure) => (
                 <option key={procedure.id} value={procedure.id}>
                   {procedure.name} ({procedure.duration_minutes} min)
                 </option>
               ))}
             </select>
+            {items.length > 1 && (
+              <p className="mt-2 text-xs text-text-muted">
+                Total: {totalDuration} min · R$ {itemsTotal(items).toFixed(2)}
+              </p>
+            )}
+            {requiredResources.length > 0 && (
+              <p className="mt-1 text-xs text-text-muted">
+                Usa: {requiredResources.map((resource) => resource.name).join(', ')}
+              </p>
+            )}
           </div>
 
+          {items.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Desconto ou preço combinado</label>
+              <DiscountFields
+                discount={discount}
+                listPrice={itemsTotal(items)}
+                onChange={setDiscount}
+                disabled={loading}
+              />
+            </div>
+          )}
+
           {isSuperAdmin && (
             <div>
               <label className="block text-sm font-medium text-text mb-2">Profissional</label>
@@ -806,6 +3306,32 @@ function CreateAppointmentModal({
             </div>
           )}
 
+          <div className="bg-champagne-nuvem rounded-lg p-4 border border-accent/20 space-y-3">
+            <button
+              type="button"
+              onClick={() => setShowSlotFinder(!showSlotFinder)}
+              disabled={loading || items.length === 0}
+              className="flex items-center gap-2 text-sm font-medium text-text disabled:opacity-50"
+            >
+              <Search className="w-4 h-4 text-text-muted" />
+              Buscar horários livres
+            </button>
+
+            {items.length === 0 && (
+              <p className="text-xs text-text-muted">Selecione um procedimento para buscar horários</p>
+            )}
+
+            {showSlotFinder && items.length > 0 && (
+              <SlotFinder
+                durationMinutes={totalDuration}
+                professionalIds={slotProfessionalIds}
+                professionals={professionals}
+                defaultStartDate={appointmentDate}
+                onSelect={selectSlot}
+              />
+            )}
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-text mb-2">Data</label>
             <input
@@ -830,16 +3356,187 @@ function CreateAppointmentModal({
             />
           </div>
 
+          <div className="bg-champagne-nuvem rounded-lg p-4 border border-accent/20 space-y-3">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={isRecurring}
+                onChange={(e) => setIsRecurring(e.target.checked)}
+                className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+                disabled={loading}
+              />
+              <Repeat className="w-4 h-4 text-text-muted" />
+              <span className="text-sm font-medium text-text">Repetir agendamento</span>
+            </label>
+
+            {isRecurring && (
+              <>
+                <div className="flex items-center gap-2 text-sm text-text">
+                  <span>A cada</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={intervalValue}
+                    onChange={(e) => setIntervalValue(Math.max(1, parseInt(e.target.value) || 1))}
+                    className="w-16 px-2 py-1 bg-background border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text"
+                    disabled={loading}
+                  />
+                  <select
+                    value={intervalUnit}
+                    onChange={(e) => setIntervalUnit(e.target.value as RecurrenceUnit)}
+                    className="px-2 py-1 bg-background border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text"
+                    disabled={loading}
+                  >
+                    <option value="day">dias</option>
+                    <option value="week">semanas</option>
+                  </select>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 text-sm text-text">
+                  <span>Termina</span>
+                  <select
+                    value={endType}
+                    onChange={(e) => setEndType(e.target.value as 'count' | 'date')}
+                    className="px-2 py-1 bg-background border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text"
+                    disabled={loading}
+                  >
+                    <option value="count">após</option>
+                    <option value="date">em</option>
+                  </select>
+                  {endType === 'count' ? (
+                    <>
+                      <input
+                        type="number"
+                        min="2"
+                        max={MAX_SERIES_OCCURRENCES}
+                        value={occurrenceCount}
+                        onChange={(e) =>
+                          setOccurrenceCount(
+                            Math.min(MAX_SERIES_OCCURRENCES, Math.max(1, parseInt(e.target.value) || 1))
+                          )
+                        }
+                        className="w-16 px-2 py-1 bg-background border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text"
+                        disabled={loading}
+                      />
+                      <span>sessões</span>
+                    </>
+                  ) : (
+                    <input
+                      type="date"
+                      value={seriesEndDate}
+                      min={appointmentDate}
+                      onChange={(e) => setSeriesEndDate(e.target.value)}
+                      className="px-2 py-1 bg-background border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text"
+                      required
+                      disabled={loading}
+                    />
+                  )}
+                </div>
+
+                {occurrenceDates.length > 0 && (
+                  <div>
+                    <p className="text-xs text-text-muted mb-2">
+                      {occurrenceDates.length} sessões
+                      {occurrenceDates.length > freeDates.length &&
+                        ` · ${occurrenceDates.length - freeDates.length} em conflito ou fora da disponibilidade serão ignoradas`}
+                    </p>
+                    {seriesTooLong && (
+                      <p className="flex items-center gap-1 text-xs text-red-700 mb-2">
+                        <AlertCircle className="w-3 h-3" />
+                        Limite de {MAX_SERIES_OCCURRENCES} sessões: a data final escolhida não seria alcançada. Antecipe a
+                        data final ou crie uma nova série depois.
+                      </p>
+                    )}
+                    <ul className="max-h-40 overflow-y-auto space-y-1">
+                      {occurrenceDates.map((date) => (
+                        <li
+                          key={date}
+                          className={`flex items-center justify-between px-3 py-1.5 rounded-md text-xs border ${
+                            conflicts[date] || resourceConflicts[date]
+                              ? 'bg-red-50 border-red-200 text-red-700'
+                              : unavailableDates[date] && !overrideAvailability
+                                ? 'bg-gray-100 border-gray-200 text-text-muted'
+                                : 'bg-background border-accent/20 text-text'
+                          }`}
+                        >
+                          <span>
+                            {formatDateString(date, { weekday: 'short', day: '2-digit', month: '2-digit', year: 'numeric' })}{' '}
+                            às {appointmentTime}
+                          </span>
+                          {conflicts[date] ? (
+                            <span className="flex items-center gap-1">
+                              <AlertCircle className="w-3 h-3" />
+                              {conflicts[date].start}–{conflicts[date].end}
+                            </span>
+                          ) : resourceConflicts[date] ? (
+                            <span className="flex items-center gap-1">
+                              <AlertCircle className="w-3 h-3" />
+                              {resourceConflicts[date].name} ocupado
+                            </span>
+                          ) : (
+                            unavailableDates[date] && (
+                              <span className="flex items-center gap-1" title={unavailableDates[date]}>
+                                <Clock className="w-3 h-3" />
+                                Indisponível
+                              </span>
+                            )
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
           {conflict && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start gap-2">
               <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
               <div>
                 <strong>Conflito de horário!</strong>
-                <p>Já existe um agendamento para este profissional neste horário.</p>
+                <p>
+                  Este profissional já tem um agendamento das {conflict.start} às {conflict.end}.
+                </p>
               </div>
             </div>
           )}
 
+          {resourceConflict && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm flex items-start gap-2">
+              <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <div>
+                <strong>Recurso ocupado!</strong>
+                <p>
+                  {resourceConflict.name} já está reservado das {resourceConflict.start} às {resourceConflict.end}.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {outsideAvailability && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm flex items-start gap-2">
+              <Clock className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <div>
+                <strong>Fora da disponibilidade</strong>
+                <p>Horário de atendimento neste dia: {outsideAvailability}.</p>
+              </div>
+            </div>
+          )}
+
+          {isSuperAdmin && (outsideAvailability || (isRecurring && Object.keys(unavailableDates).length > 0)) && (
+            <label className="flex items-center gap-2 text-sm text-text">
+              <input
+                type="checkbox"
+                checked={overrideAvailability}
+                onChange={(e) => setOverrideAvailability(e.target.checked)}
+                className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+                disabled={loading}
+              />
+              Agendar mesmo fora da disponibilidade
+            </label>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
               {error}
@@ -858,9 +3555,20 @@ function CreateAppointmentModal({
             <button
               type="submit"
               className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
-              disabled={loading || conflict}
+              disabled={
+                loading ||
+                !!conflict ||
+                !!resourceConflict ||
+                (!!outsideAvailability && !overrideAvailability) ||
+                seriesTooLong ||
+                freeDates.length === 0
+              }
             >
-              {loading ? 'Salvando...' : 'Agendar'}
+              {loading
+                ? 'Salvando...'
+                : isRecurring
+                  ? `Agendar ${freeDates.length} sessões`
+                  : 'Agendar'}
             </button>
           </div>
         </form>
@@ -0,0 +1,623 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  AnamnesisQuestion,
+  AnamnesisTemplate,
+  newQuestion,
+  QUESTION_TYPE_LABELS,
+  QuestionType,
+} from '../lib/anamnesis';
+import { Plus, Edit2, Loader2, Search, Power, Scissors, ClipboardList, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+
+interface TemplateWithProcedures extends AnamnesisTemplate {
+  procedures: { procedure: { id: string; name: string } }[];
+}
+
+interface ProcedureOption {
+  id: string;
+  name: string;
+}
+
+export default function AnamnesisTemplates() {
+  const [templates, setTemplates] = useState<TemplateWithProcedures[]>([]);
+  const [procedures, setProcedures] = useState<ProcedureOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<TemplateWithProcedures | null>(null);
+
+  useEffect(() => {
+    loadTemplates();
+    loadProcedures();
+  }, []);
+
+  async function loadTemplates() {
+    try {
+      const { data, error } = await supabase
+        .from('anamnesis_templates')
+        .select('*, procedures:procedure_anamnesis_templates(procedure:procedures(id, name))')
+        .order('name')
+        .overrideTypes<TemplateWithProcedures[], { merge: false }>();
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error loading anamnesis templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadProcedures() {
+    try {
+      const { data, error } = await supabase
+        .from('procedures')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      setProcedures(data || []);
+    } catch (error) {
+      console.error('Error loading procedures:', error);
+    }
+  }
+
+  async function handleToggleStatus(template: AnamnesisTemplate) {
+    try {
+      const { error } = await supabase
+        .from('anamnesis_templates')
+        .update({ is_active: !template.is_active })
+        .eq('id', template.id);
+
+      if (error) throw error;
+      loadTemplates();
+    } catch (error) {
+      console.error('Error toggling anamnesis template status:', error);
+      alert('Erro ao alterar status do formulário');
+    }
+  }
+
+  const filteredTemplates = templates.filter((template) =>
+    template.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-text">Formulários de Anamnese</h1>
+          <p className="text-text-muted mt-1">
+            Formulários ligados a um procedimento precisam ser preenchidos antes do primeiro atendimento dele
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors shadow-soft"
+        >
+          <Plus className="w-5 h-5" />
+          Novo Formulário
+        </button>
+      </div>
+
+      <div className="bg-background-card rounded-xl border border-accent/20 shadow-card">
+        <div className="p-6 border-b border-accent/20">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-text-muted" />
+            <input
+              type="text"
+              placeholder="Buscar formulário..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text placeholder-text-muted"
+            />
+          </div>
+        </div>
+
+        {filteredTemplates.length === 0 ? (
+          <div className="p-12 text-center">
+            <p className="text-text-muted">
+              {searchTerm ? 'Nenhum formulário encontrado' : 'Nenhum formulário cadastrado'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-6">
+            {filteredTemplates.map((template) => (
+              <div
+                key={template.id}
+                className={`bg-champagne-nuvem rounded-lg p-5 border border-accent/20 hover:shadow-soft transition-all ${
+                  template.is_active ? '' : 'opacity-60'
+                }`}
+              >
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <h3 className="font-semibold text-text text-lg">{template.name}</h3>
+                    <div className="flex items-center gap-1 text-text-muted text-sm">
+                      <ClipboardList className="w-4 h-4" />
+                      {template.questions.length} {template.questions.length === 1 ? 'pergunta' : 'perguntas'} · versão{' '}
+                      {template.version}
+                      {!template.is_active && ' · inativo'}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => setEditingTemplate(template)}
+                      className="p-1.5 hover:bg-background-card rounded-lg transition-colors"
+                      title="Editar"
+                    >
+                      <Edit2 className="w-4 h-4 text-text-muted" />
+                    </button>
+                    <button
+                      onClick={() => handleToggleStatus(template)}
+                      className="p-1.5 hover:bg-background-card rounded-lg transition-colors"
+                      title={template.is_active ? 'Desativar' : 'Ativar'}
+                    >
+                      <Power className={`w-4 h-4 ${template.is_active ? 'text-green-700' : 'text-text-muted'}`} />
+                    </button>
+                  </div>
+                </div>
+
+                {template.description && <p className="text-sm text-text-muted mb-2">{template.description}</p>}
+
+                <div className="flex items-start gap-2 text-text-muted">
+                  <Scissors className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span className="text-sm">
+                    {template.procedures.length === 0
+                      ? 'Nenhum procedimento exige este formulário'
+                      : template.procedures.map((link) => link.procedure.name).join(', ')}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {(showCreateModal || editingTemplate) && (
+        <TemplateModal
+          template={editingTemplate}
+          procedures={procedures}
+          onClose={() => {
+            setShowCreateModal(false);
+            setEditingTemplate(null);
+          }}
+          onSuccess={() => {
+            setShowCreateModal(false);
+            setEditingTemplate(null);
+            loadTemplates();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface TemplateModalProps {
+  template: TemplateWithProcedures | null;
+  procedures: ProcedureOption[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text';
+
+function TemplateModal({ template, procedures, onClose, onSuccess }: TemplateModalProps) {
+  const [name, setName] = useState(template?.name || '');
+  const [description, setDescription] = useState(template?.description || '');
+  const [questions, setQuestions] = useState<AnamnesisQuestion[]>(template?.questions || [newQuestion()]);
+  const [procedureIds, setProcedureIds] = useState<string[]>(
+    template?.procedures.map((link) => link.procedure.id) || []
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  function toggleProcedure(id: string) {
+    setProcedureIds(
+      procedureIds.includes(id) ? procedureIds.filter((procedureId) => procedureId !== id) : [...procedureIds, id]
+    );
+  }
+
+  function updateQuestion(index: number, changes: Partial<AnamnesisQuestion>) {
+    setQuestions(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  }
+
+  // Type-specific settings do not carry over to another type
+  function changeType(index: number, type: QuestionType) {
+    const { id, label, required } = questions[index];
+    setQuestions(questions.map((question, i) => (i === index ? { ...newQuestion(type), id, label, required } : question)));
+  }
+
+  function moveQuestion(index: number, offset: number) {
+    const reordered = [...questions];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    setQuestions(reordered);
+  }
+
+  function validate() {
+    if (questions.length === 0) return 'Adicione ao menos uma pergunta';
+    if (questions.some((question) => !question.label.trim())) return 'Preencha o texto de todas as perguntas';
+    if (questions.some((question) => question.type === 'choice' && (question.options || []).length < 2)) {
+      return 'Perguntas de múltipla escolha precisam de ao menos duas opções';
+    }
+    if (questions.some((question) => question.type === 'scale' && (question.scale_min ?? 0) >= (question.scale_max ?? 0))) {
+      return 'O máximo da escala precisa ser maior que o mínimo';
+    }
+    return '';
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    const validationError = validate();
+    setError(validationError);
+    if (validationError) return;
+
+    setLoading(true);
+
+    try {
+      const values = {
+        name: name.trim(),
+        description: description.trim() || null,
+        questions: questions.map((question) => ({ ...question, label: question.label.trim() })),
+      };
+      let templateId = template?.id;
+
+      if (templateId) {
+        const { error: updateError } = await supabase
+          .from('anamnesis_templates')
+          .update(values)
+          .eq('id', templateId);
+
+        if (updateError) throw updateError;
+      } else {
+        const { data, error: insertError } = await supabase
+          .from('anamnesis_templates')
+          .insert(values)
+          .select('id')
+          .single();
+
+        if (insertError) throw insertError;
+        templateId = data.id;
+      }
+
+      const { error: deleteError } = await supabase
+        .from('procedure_anamnesis_templates')
+        .delete()
+        .eq('template_id', templateId);
+
+      if (deleteError) throw deleteError;
+
+      if (procedureIds.length > 0) {
+        const { error: linkError } = await supabase
+          .from('procedure_anamnesis_templates')
+          .insert(procedureIds.map((procedureId) => ({ procedure_id: procedureId, template_id: templateId })));
+
+        if (linkError) throw linkError;
+      }
+
+      onSuccess();
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao salvar formulário');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-2xl w-full p-6 border border-accent/20 my-8">
+        <h2 className="text-xl font-semibold text-text mb-6">{template ? 'Editar Formulário' : 'Novo Formulário'}</h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Nome</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+              placeholder="Ex: Anamnese facial"
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Descrição (opcional)</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-text">Perguntas</label>
+            {questions.map((question, index) => (
+              <QuestionEditor
+                key={question.id}
+                question={question}
+                isFirst={index === 0}
+                isLast={index === questions.length - 1}
+                onChange={(changes) => updateQuestion(index, changes)}
+                onChangeType={(type) => changeType(index, type)}
+                onMove={(offset) => moveQuestion(index, offset)}
+                onRemove={() => setQuestions(questions.filter((_, i) => i !== index))}
+                disabled={loading}
+              />
+            ))}
+            <button
+              type="button"
+              onClick={() => setQuestions([...questions, newQuestion()])}
+              className="flex items-center gap-2 text-sm text-primary hover:text-primary-hover transition-colors"
+              disabled={loading}
+            >
+              <Plus className="w-4 h-4" />
+              Adicionar pergunta
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Procedimentos que exigem este formulário</label>
+            {procedures.length === 0 ? (
+              <p className="text-sm text-text-muted">Nenhum procedimento cadastrado</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto space-y-1 bg-champagne-nuvem rounded-lg p-3 border border-accent/30">
+                {procedures.map((procedure) => (
+                  <label key={procedure.id} className="flex items-center gap-2 text-sm text-text">
+                    <input
+                      type="checkbox"
+                      checked={procedureIds.includes(procedure.id)}
+                      onChange={() => toggleProcedure(procedure.id)}
+                      className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+                      disabled={loading}
+                    />
+                    {procedure.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {template && (
+            <p className="text-xs text-text-muted">
+              Alterar as perguntas cria uma nova versão. Respostas já preenchidas continuam com a versão em que foram
+              respondidas.
+            </p>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+              disabled={loading}
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface QuestionEditorProps {
+  question: AnamnesisQuestion;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (changes: Partial<AnamnesisQuestion>) => void;
+  onChangeType: (type: QuestionType) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+  disabled: boolean;
+}
+
+function QuestionEditor({
+  question,
+  isFirst,
+  isLast,
+  onChange,
+  onChangeType,
+  onMove,
+  onRemove,
+  disabled,
+}: QuestionEditorProps) {
+  const smallInputClass =
+    'w-full px-3 py-1.5 bg-background-card border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text text-sm';
+  const options = question.options || [];
+  const riskOptions = question.risk_options || [];
+
+  function changeOptions(value: string) {
+    const nextOptions = value.split('\n').map((option) => option.trim()).filter(Boolean);
+    onChange({
+      options: nextOptions,
+      risk_options: riskOptions.filter((option) => nextOptions.includes(option)),
+    });
+  }
+
+  function toggleRiskOption(option: string) {
+    onChange({
+      risk_options: riskOptions.includes(option)
+        ? riskOptions.filter((riskOption) => riskOption !== option)
+        : [...riskOptions, option],
+    });
+  }
+
+  return (
+    <div className="bg-champagne-nuvem rounded-lg p-4 border border-accent/20 space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={question.label}
+          onChange={(e) => onChange({ label: e.target.value })}
+          className={smallInputClass}
+          placeholder="Ex: Está grávida ou amamentando?"
+          disabled={disabled}
+        />
+        <div className="flex items-center flex-shrink-0">
+          <button
+            type="button"
+            onClick={() => onMove(-1)}
+            disabled={disabled || isFirst}
+            className="p-1 text-text-muted hover:text-primary disabled:opacity-30 transition-colors"
+            title="Mover para cima"
+          >
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onMove(1)}
+            disabled={disabled || isLast}
+            className="p-1 text-text-muted hover:text-primary disabled:opacity-30 transition-colors"
+            title="Mover para baixo"
+          >
+            <ArrowDown className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={onRemove}
+            disabled={disabled}
+            className="p-1 text-text-muted hover:text-red-600 transition-colors"
+            title="Remover pergunta"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          value={question.type}
+          onChange={(e) => onChangeType(e.target.value as QuestionType)}
+          className="px-3 py-1.5 bg-background-card border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text text-sm"
+          disabled={disabled}
+        >
+          {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((type) => (
+            <option key={type} value={type}>
+              {QUESTION_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-text">
+          <input
+            type="checkbox"
+            checked={question.required}
+            onChange={(e) => onChange({ required: e.target.checked })}
+            className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+            disabled={disabled}
+          />
+          Obrigatória
+        </label>
+      </div>
+
+      {question.type === 'yes_no' && (
+        <label className="flex items-center gap-2 text-sm text-text">
+          Alertar quando a resposta for
+          <select
+            value={question.risk_answer || ''}
+            onChange={(e) => onChange({ risk_answer: (e.target.value || undefined) as 'yes' | 'no' | undefined })}
+            className="px-3 py-1.5 bg-background-card border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-text text-sm"
+            disabled={disabled}
+          >
+            <option value="">Nunca</option>
+            <option value="yes">Sim</option>
+            <option value="no">Não</option>
+          </select>
+        </label>
+      )}
+
+      {question.type === 'choice' && (
+        <div className="space-y-2">
+          <textarea
+            defaultValue={options.join('\n')}
+            onBlur={(e) => changeOptions(e.target.value)}
+            rows={3}
+            className={`${smallInputClass} resize-none`}
+            placeholder="Uma opção por linha"
+            disabled={disabled}
+          />
+          {options.length > 0 && (
+            <div className="text-sm text-text">
+              <p className="text-xs text-text-muted mb-1">Alertar para as opções:</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {options.map((option) => (
+                  <label key={option} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={riskOptions.includes(option)}
+                      onChange={() => toggleRiskOption(option)}
+                      className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+                      disabled={disabled}
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {question.type === 'scale' && (
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="block text-xs text-text-muted mb-1">Mínimo</label>
+            <input
+              type="number"
+              value={question.scale_min ?? 0}
+              onChange={(e) => onChange({ scale_min: parseInt(e.target.value) || 0 })}
+              className={smallInputClass}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-text-muted mb-1">Máximo</label>
+            <input
+              type="number"
+              value={question.scale_max ?? 10}
+              onChange={(e) => onChange({ scale_max: parseInt(e.target.value) || 0 })}
+              className={smallInputClass}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-text-muted mb-1">Alertar a partir de</label>
+            <input
+              type="number"
+              value={question.risk_from ?? ''}
+              onChange={(e) => onChange({ risk_from: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+              className={smallInputClass}
+              placeholder="Nunca"
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
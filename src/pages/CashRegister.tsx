@@ -1,7 +1,11 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Plus, Loader2, DollarSign, X, Check, Calendar, TrendingUp, Trash2 } from 'lucide-react';
+import { APPOINTMENT_ITEMS_SELECT, AppointmentItem, describeItems } from '../lib/appointmentItems';
+import { fetchPendingCharges, PatientCharge } from '../lib/cancellation';
+import { formatDateString, todayString } from '../lib/dates';
+import AddTransactionModal from '../components/AddTransactionModal';
+import { Plus, Loader2, DollarSign, X, Check, Calendar, TrendingUp, Trash2, Receipt } from 'lucide-react';
 
 interface CashRegisterClosing {
   id: string;
@@ -26,6 +30,7 @@ interface Transaction {
   appointment?: {
     patient: { full_name: string };
     procedure: { name: string };
+    items?: AppointmentItem[];
   };
 }
 
@@ -96,7 +101,7 @@ export default function CashRegister() {
   }
 
   async function createClosing() {
-    const today = new Date().toISOString().split('T')[0];
+    const today = todayString();
 
     try {
       const { data: existing } = await supabase
@@ -246,7 +251,7 @@ export default function CashRegister() {
                     <div className="flex items-center gap-2">
                       <Calendar className="w-5 h-5 text-text-muted" />
                       <span className="font-semibold text-text">
-                        {new Date(closing.closing_date).toLocaleDateString('pt-BR')}
+                        {formatDateString(closing.closing_date)}
                       </span>
                     </div>
                     {closing.is_finalized ? (
@@ -306,14 +311,44 @@ interface TransactionsModalProps {
 }
 
 function TransactionsModal({ closing, onClose, onUpdate }: TransactionsModalProps) {
+  const { isSuperAdmin } = useAuth();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [charges, setCharges] = useState<PatientCharge[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddTransaction, setShowAddTransaction] = useState(false);
+  const [collectingCharge, setCollectingCharge] = useState<PatientCharge | null>(null);
 
   useEffect(() => {
     loadTransactions();
+    loadCharges();
   }, [closing.id]);
 
+  async function loadCharges() {
+    try {
+      setCharges(await fetchPendingCharges(closing.professional_id));
+    } catch (error) {
+      console.error('Error loading charges:', error);
+    }
+  }
+
+  async function waiveCharge(charge: PatientCharge) {
+    if (!confirm(`Perdoar a cobrança de R$ ${charge.amount.toFixed(2)} de ${charge.patient?.full_name}?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('patient_charges')
+        .update({ status: 'waived', resolved_at: new Date().toISOString() })
+        .eq('id', charge.id);
+
+      if (error) throw error;
+      loadCharges();
+    } catch (error) {
+      console.error('Error waiving charge:', error);
+    }
+  }
+
   async function loadTransactions() {
     try {
       setLoading(true);
@@ -322,8 +357,9 @@ function TransactionsModal({ closing, onClose, onUpdate }: TransactionsModalProp
         .select(`
           *,
           appointment:appointments(
-            patient:patients(full_name),
-            procedure:procedures(name)
+            patient:patient_contacts(full_name),
+            procedure:procedures(name),
+            ${APPOINTMENT_ITEMS_SELECT}
           )
         `)
         .eq('closing_id', closing.id)
@@ -344,6 +380,14 @@ function TransactionsModal({ closing, onClose, onUpdate }: TransactionsModalProp
     }
 
     try {
+      // A charge received by this transaction goes back to pending
+      const { error: chargeError } = await supabase
+        .from('patient_charges')
+        .update({ status: 'pending', transaction_id: null, resolved_at: null })
+        .eq('transaction_id', transactionId);
+
+      if (chargeError) throw chargeError;
+
       const { error } = await supabase
         .from('cash_register_transactions')
         .delete()
@@ -353,6 +397,7 @@ function TransactionsModal({ closing, onClose, onUpdate }: TransactionsModalProp
 
       await updateTotal();
       loadTransactions();
+      loadCharges();
       onUpdate();
     } catch (error) {
       console.error('Error deleting transaction:', error);
@@ -402,7 +447,7 @@ function TransactionsModal({ closing, onClose, onUpdate }: TransactionsModalProp
           <div>
             <h2 className="text-xl font-semibold text-text">Fechamento de Caixa</h2>
             <p className="text-text-muted mt-1">
-              {new Date(closing.closing_date).toLocaleDateString('pt-BR', {
+              {formatDateString(closing.closing_date, {
                 weekday: 'long',
                 day: '2-digit',
                 month: 'long',
@@ -453,6 +498,45 @@ function TransactionsModal({ closing, onClose, onUpdate }: TransactionsModalProp
           </div>
         )}
 
+        {!closing.is_finalized && charges.length > 0 && (
+          <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <h3 className="text-sm font-semibold text-amber-800 flex items-center gap-2 mb-3">
+              <Receipt className="w-4 h-4" />
+              Cobranças pendentes
+            </h3>
+            <ul className="space-y-2">
+              {charges.map((charge) => (
+                <li key={charge.id} className="flex items-center justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-text truncate">
+                      {charge.patient?.full_name} · R$ {charge.amount.toFixed(2)}
+                    </p>
+                    <p className="text-xs text-text-muted truncate">
+                      {charge.reason} · {new Date(charge.created_at).toLocaleDateString('pt-BR')}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => setCollectingCharge(charge)}
+                      className="px-3 py-1.5 bg-primary hover:bg-primary-hover text-white rounded-lg text-xs transition-colors"
+                    >
+                      Receber
+                    </button>
+                    {isSuperAdmin && (
+                      <button
+                        onClick={() => waiveCharge(charge)}
+                        className="px-3 py-1.5 border border-gray-300 text-gray-600 hover:bg-gray-100 rounded-lg text-xs transition-colors"
+                      >
+                        Perdoar
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {loading ? (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="w-8 h-8 text-primary animate-spin" />
@@ -481,7 +565,8 @@ function TransactionsModal({ closing, onClose, onUpdate }: TransactionsModalProp
                     </div>
                     {transaction.appointment && (
                       <p className="text-sm text-text-muted">
-                        {transaction.appointment.patient.full_name} - {transaction.appointment.procedure.name}
+                        {transaction.appointment.patient.full_name} -{' '}
+                        {describeItems(transaction.appointment.items) || transaction.appointment.procedure.name}
                       </p>
                     )}
                     {transaction.notes && (
@@ -514,179 +599,21 @@ function TransactionsModal({ closing, onClose, onUpdate }: TransactionsModalProp
             }}
           />
         )}
-      </div>
-    </div>
-  );
-}
-
-interface AddTransactionModalProps {
-  closingId: string;
-  professionalId: string;
-  onClose: () => void;
-  onSuccess: () => void;
-}
-
-function AddTransactionModal({ closingId, professionalId, onClose, onSuccess }: AddTransactionModalProps) {
-  const [amount, setAmount] = useState('');
-  const [paymentMethod, setPaymentMethod] = useState('Dinheiro');
-  const [notes, setNotes] = useState('');
-  const [appointmentId, setAppointmentId] = useState('');
-  const [appointments, setAppointments] = useState<any[]>([]);
-  const [loading, setLoading] = useState(false);
-
-  useEffect(() => {
-    loadTodayAppointments();
-  }, [professionalId]);
-
-  async function loadTodayAppointments() {
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      const { data, error } = await supabase
-        .from('appointments')
-        .select('id, patient:patients(full_name), procedure:procedures(name)')
-        .eq('professional_id', professionalId)
-        .eq('appointment_date', today)
-        .eq('status', 'completed');
-
-      if (error) throw error;
-      setAppointments(data || []);
-    } catch (error) {
-      console.error('Error loading appointments:', error);
-    }
-  }
-
-  async function handleSubmit(e: React.FormEvent) {
-    e.preventDefault();
-    setLoading(true);
-
-    try {
-      const { error: transactionError } = await supabase
-        .from('cash_register_transactions')
-        .insert({
-          closing_id: closingId,
-          appointment_id: appointmentId || null,
-          amount: parseFloat(amount),
-          payment_method: paymentMethod,
-          notes: notes || null,
-        });
 
-      if (transactionError) throw transactionError;
-
-      const { data: transactions } = await supabase
-        .from('cash_register_transactions')
-        .select('amount')
-        .eq('closing_id', closingId);
-
-      const total = (transactions || []).reduce((sum, t) => sum + t.amount, 0) + parseFloat(amount);
-
-      const { error: updateError } = await supabase
-        .from('cash_register_closings')
-        .update({ total_amount: total })
-        .eq('id', closingId);
-
-      if (updateError) throw updateError;
-
-      onSuccess();
-    } catch (error: any) {
-      console.error('Error adding transaction:', error);
-      alert(error.message || 'Erro ao adicionar transação');
-    } finally {
-      setLoading(false);
-    }
-  }
-
-  return (
-    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-[60]">
-      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
-        <div className="flex items-start justify-between mb-6">
-          <h3 className="text-lg font-semibold text-text">Nova Transação</h3>
-          <button onClick={onClose} className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors">
-            <X className="w-5 h-5 text-text-muted" />
-          </button>
-        </div>
-
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-text mb-2">Valor (R$)</label>
-            <input
-              type="number"
-              step="0.01"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
-              placeholder="0.00"
-              required
-              disabled={loading}
-              min="0"
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-text mb-2">Forma de Pagamento</label>
-            <select
-              value={paymentMethod}
-              onChange={(e) => setPaymentMethod(e.target.value)}
-              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
-              disabled={loading}
-            >
-              <option>Dinheiro</option>
-              <option>Cartão de Crédito</option>
-              <option>Cartão de Débito</option>
-              <option>PIX</option>
-              <option>Transferência</option>
-            </select>
-          </div>
-
-          {appointments.length > 0 && (
-            <div>
-              <label className="block text-sm font-medium text-text mb-2">
-                Atendimento (opcional)
-              </label>
-              <select
-                value={appointmentId}
-                onChange={(e) => setAppointmentId(e.target.value)}
-                className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
-                disabled={loading}
-              >
-                <option value="">Não vincular</option>
-                {appointments.map((apt) => (
-                  <option key={apt.id} value={apt.id}>
-                    {apt.patient.full_name} - {apt.procedure.name}
-                  </option>
-                ))}
-              </select>
-            </div>
-          )}
-
-          <div>
-            <label className="block text-sm font-medium text-text mb-2">Observações (opcional)</label>
-            <textarea
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text resize-none"
-              rows={2}
-              disabled={loading}
-            />
-          </div>
-
-          <div className="flex gap-3 pt-2">
-            <button
-              type="button"
-              onClick={onClose}
-              className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
-              disabled={loading}
-            >
-              Cancelar
-            </button>
-            <button
-              type="submit"
-              className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
-              disabled={loading}
-            >
-              {loading ? 'Salvando...' : 'Adicionar'}
-            </button>
-          </div>
-        </form>
+        {collectingCharge && !closing.is_finalized && (
+          <AddTransactionModal
+            closingId={closing.id}
+            professionalId={closing.professional_id}
+            charge={collectingCharge}
+            onClose={() => setCollectingCharge(null)}
+            onSuccess={() => {
+              setCollectingCharge(null);
+              loadTransactions();
+              loadCharges();
+              onUpdate();
+            }}
+          />
+        )}
       </div>
     </div>
   );
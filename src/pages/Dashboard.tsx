@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import { addDays, clinicDateTime, endOfMonth, startOfMonth, startOfWeek, todayString } from '../lib/dates';
 import { Calendar, Users, TrendingUp, DollarSign, Clock, Loader2 } from 'lucide-react';
 
 type Period = 'day' | 'week' | 'month';
@@ -58,30 +59,17 @@ export default function Dashboard() {
   }
 
   function getDateRange() {
-    const now = new Date();
-    const today = now.toISOString().split('T')[0];
+    const today = todayString();
 
     switch (period) {
       case 'day':
         return { start: today, end: today };
       case 'week': {
-        const weekStart = new Date(now);
-        weekStart.setDate(now.getDate() - now.getDay());
-        const weekEnd = new Date(weekStart);
-        weekEnd.setDate(weekStart.getDate() + 6);
-        return {
-          start: weekStart.toISOString().split('T')[0],
-          end: weekEnd.toISOString().split('T')[0],
-        };
-      }
-      case 'month': {
-        const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-        const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-        return {
-          start: monthStart.toISOString().split('T')[0],
-          end: monthEnd.toISOString().split('T')[0],
-        };
+        const weekStart = startOfWeek(today);
+        return { start: weekStart, end: addDays(weekStart, 6) };
       }
+      case 'month':
+        return { start: startOfMonth(today), end: endOfMonth(today) };
     }
   }
 
@@ -102,8 +90,11 @@ export default function Dashboard() {
       if (appointmentsError) throw appointmentsError;
 
       const completed = appointments?.filter((a) => a.status === 'completed').length || 0;
+      const noShows = appointments?.filter((a) => a.status === 'no_show').length || 0;
       const total = appointments?.filter((a) => a.status !== 'cancelled').length || 0;
-      const rate = total > 0 ? Math.round((completed / total) * 100) : 0;
+      // Only appointments whose outcome is known count towards attendance
+      const attended = completed + noShows;
+      const rate = attended > 0 ? Math.round((completed / attended) * 100) : 0;
 
       let revenueQuery = supabase
         .from('cash_register_closings')
@@ -133,17 +124,16 @@ export default function Dashboard() {
 
   async function loadUpcomingAppointments() {
     try {
-      const today = new Date().toISOString().split('T')[0];
-      const now = new Date().toTimeString().split(' ')[0];
+      const { date: today, time: now } = clinicDateTime();
 
       let query = supabase
         .from('appointments')
         .select(`
           id,
           appointment_time,
-          patient:patients(full_name),
+          patient:patient_contacts(full_name),
           procedure:procedures(name),
-          professional:profiles(full_name)
+          professional:profiles!appointments_professional_id_fkey(full_name)
         `)
         .eq('appointment_date', today)
         .gte('appointment_time', now)
@@ -167,22 +157,23 @@ export default function Dashboard() {
   async function loadTopProcedures() {
     try {
       const { start, end } = getDateRange();
+      // Each procedure of a combined visit counts on its own
       let query = supabase
-        .from('appointments')
-        .select('procedure_id')
-        .eq('status', 'completed')
-        .gte('appointment_date', start)
-        .lte('appointment_date', end);
+        .from('appointment_items')
+        .select('procedure_id, appointment:appointments!inner(id)')
+        .eq('appointment.status', 'completed')
+        .gte('appointment.appointment_date', start)
+        .lte('appointment.appointment_date', end);
 
       if (!isSuperAdmin && user) {
-        query = query.eq('professional_id', user.id);
+        query = query.eq('appointment.professional_id', user.id);
       }
 
-      const { data: appointments, error: appointmentsError } = await query;
-      if (appointmentsError) throw appointmentsError;
+      const { data: items, error: itemsError } = await query;
+      if (itemsError) throw itemsError;
 
-      const procedureCounts = (appointments || []).reduce((acc, apt) => {
-        acc[apt.procedure_id] = (acc[apt.procedure_id] || 0) + 1;
+      const procedureCounts = (items || []).reduce((acc, item) => {
+        acc[item.procedure_id] = (acc[item.procedure_id] || 0) + 1;
         return acc;
       }, {} as Record<string, number>);
 
@@ -0,0 +1,994 @@
+import { useEffect, useState } from 'react';
+import { AppointmentStatus, supabase } from '../lib/supabase';
+import { useRouter } from '../contexts/RouterContext';
+import { useAuth } from '../contexts/AuthContext';
+import { APPOINTMENT_ITEMS_SELECT, AppointmentItem, describeItems } from '../lib/appointmentItems';
+import { formatDateString, getClinicTimeZone, todayString } from '../lib/dates';
+import PatientFormModal from '../components/PatientFormModal';
+import MergePatientsModal from '../components/MergePatientsModal';
+import AnamnesisFormModal from '../components/AnamnesisFormModal';
+import { AnamnesisResponse, fetchAnamnesisResponses, formatAnswer, latestResponses } from '../lib/anamnesis';
+import { formatPhone, maskCep, maskCpf } from '../lib/brazil';
+import { ageOn, formatAddress, GENDER_LABELS, PatientIdentity } from '../lib/patients';
+import {
+  ArrowLeft,
+  Loader2,
+  Edit2,
+  Archive,
+  ArchiveRestore,
+  Phone,
+  Mail,
+  Contact2,
+  MapPin,
+  Cake,
+  Calendar,
+  CheckCircle2,
+  XCircle,
+  DollarSign,
+  Clock,
+  GitMerge,
+  Users,
+  Stethoscope,
+  Trash2,
+  X,
+  Check,
+  ClipboardList,
+  AlertTriangle,
+} from 'lucide-react';
+
+interface PatientRecord extends PatientIdentity {
+  id: string;
+  full_name: string;
+  phone: string;
+  email: string | null;
+  archived_at: string | null;
+  created_at: string;
+}
+
+// Identity fields of a patient read through patient_contacts
+const NO_IDENTITY: PatientIdentity = {
+  cpf: null,
+  birth_date: null,
+  gender: null,
+  pronouns: null,
+  cep: null,
+  street: null,
+  address_number: null,
+  address_complement: null,
+  neighborhood: null,
+  city: null,
+  state: null,
+};
+
+interface PatientPayment {
+  id: string;
+  amount: number;
+  payment_method: string;
+  created_at: string;
+}
+
+interface PatientAppointment {
+  id: string;
+  appointment_date: string;
+  appointment_time: string;
+  duration_minutes: number;
+  status: AppointmentStatus;
+  cancellation_reason: string | null;
+  agreed_price: number | null;
+  professional: { full_name: string } | null;
+  procedure: { name: string } | null;
+  items: AppointmentItem[];
+  transactions: PatientPayment[];
+}
+
+interface PatientMerge {
+  id: string;
+  merged_patient: { full_name: string };
+  appointment_ids: string[];
+  created_at: string;
+  merged_by_profile: { full_name: string } | null;
+}
+
+// Pending members joined by being booked with the patient and have no
+// clinical access until a member confirms them
+interface CareTeamMember {
+  professional_id: string;
+  pending: boolean;
+  created_at: string;
+  professional: { full_name: string } | null;
+}
+
+interface PatientNote {
+  id: string;
+  author_id: string | null;
+  body: string;
+  created_at: string;
+  author: { full_name: string } | null;
+}
+
+interface PatientDetailProps {
+  patientId: string;
+}
+
+const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: 'Marcado',
+  confirmed: 'Confirmado',
+  checked_in: 'Na recepção',
+  in_progress: 'Em atendimento',
+  completed: 'Realizado',
+  cancelled: 'Cancelado',
+  no_show: 'Não compareceu',
+};
+
+const STATUS_COLORS: Record<AppointmentStatus, string> = {
+  scheduled: 'bg-accent/10 text-accent border-accent/20',
+  confirmed: 'bg-primary/10 text-primary border-primary/20',
+  checked_in: 'bg-amber-50 text-amber-800 border-amber-200',
+  in_progress: 'bg-blue-50 text-blue-700 border-blue-200',
+  completed: 'bg-green-100 text-green-700 border-green-200',
+  cancelled: 'bg-gray-100 text-gray-600 border-gray-200',
+  no_show: 'bg-red-100 text-red-700 border-red-200',
+};
+
+function formatTimestampDate(value: string) {
+  return new Date(value).toLocaleDateString('pt-BR', { timeZone: getClinicTimeZone() });
+}
+
+function formatNoteTimestamp(value: string) {
+  return new Date(value).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short', timeZone: getClinicTimeZone() });
+}
+
+function isUpcoming(appointment: PatientAppointment) {
+  return (
+    (appointment.status === 'scheduled' || appointment.status === 'confirmed') &&
+    appointment.appointment_date >= todayString()
+  );
+}
+
+// Rendered at /pacientes/<id>
+export default function PatientDetail({ patientId }: PatientDetailProps) {
+  const { navigate } = useRouter();
+  const { user, isSuperAdmin } = useAuth();
+  const [patient, setPatient] = useState<PatientRecord | null>(null);
+  const [appointments, setAppointments] = useState<PatientAppointment[]>([]);
+  const [careTeam, setCareTeam] = useState<CareTeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [archiving, setArchiving] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [merges, setMerges] = useState<PatientMerge[]>([]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadPatient();
+  }, [patientId]);
+
+  useEffect(() => {
+    if (isSuperAdmin) loadMerges();
+  }, [patientId, isSuperAdmin]);
+
+  async function loadPatient() {
+    try {
+      const [patientResult, appointmentsResult, careTeamResult] = await Promise.all([
+        supabase
+          .from('patients')
+          .select('*')
+          .eq('id', patientId)
+          .maybeSingle(),
+        supabase
+          .from('appointments')
+          .select(`
+            id,
+            appointment_date,
+            appointment_time,
+            duration_minutes,
+            status,
+            cancellation_reason,
+            agreed_price,
+            professional:profiles!appointments_professional_id_fkey(full_name),
+            procedure:procedures(name),
+            ${APPOINTMENT_ITEMS_SELECT},
+            transactions:cash_register_transactions(id, amount, payment_method, created_at)
+          `)
+          .eq('patient_id', patientId)
+          .order('appointment_date', { ascending: false })
+          .order('appointment_time', { ascending: false })
+          .overrideTypes<PatientAppointment[], { merge: false }>(),
+        supabase
+          .from('patient_care_team')
+          .select('professional_id, pending, created_at, professional:profiles!patient_care_team_professional_id_fkey(full_name)')
+          .eq('patient_id', patientId)
+          .order('created_at')
+          .overrideTypes<CareTeamMember[], { merge: false }>(),
+      ]);
+
+      if (patientResult.error) throw patientResult.error;
+      if (appointmentsResult.error) throw appointmentsResult.error;
+      if (careTeamResult.error) throw careTeamResult.error;
+
+      // Outside the care team only the contact data can be read
+      let record: PatientRecord | null = patientResult.data;
+      if (!record) {
+        const { data: contact, error: contactError } = await supabase
+          .from('patient_contacts')
+          .select('id, full_name, phone, email, archived_at, created_at')
+          .eq('id', patientId)
+          .maybeSingle();
+
+        if (contactError) throw contactError;
+        record = contact && { ...NO_IDENTITY, ...contact };
+      }
+
+      setPatient(record);
+      setAppointments(appointmentsResult.data || []);
+      setCareTeam(careTeamResult.data || []);
+    } catch (error) {
+      console.error('Error loading patient:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadMerges() {
+    try {
+      const { data, error } = await supabase
+        .from('patient_merges')
+        .select('id, merged_patient, appointment_ids, created_at, merged_by_profile:profiles(full_name)')
+        .eq('survivor_id', patientId)
+        .order('created_at', { ascending: false })
+        .overrideTypes<PatientMerge[], { merge: false }>();
+
+      if (error) throw error;
+      setMerges(data || []);
+    } catch (error) {
+      console.error('Error loading patient merges:', error);
+    }
+  }
+
+  async function toggleArchived() {
+    if (!patient) return;
+
+    if (!patient.archived_at) {
+      const upcoming = appointments.filter(isUpcoming).length;
+      const message =
+        upcoming > 0
+          ? `Arquivar ${patient.full_name}? O cadastro tem ${upcoming} ${
+              upcoming === 1 ? 'agendamento futuro, que continua' : 'agendamentos futuros, que continuam'
+            } na agenda.`
+          : `Arquivar ${patient.full_name}? O cadastro deixa de aparecer na lista e nos agendamentos.`;
+
+      if (!confirm(message)) return;
+    }
+
+    setArchiving(true);
+
+    try {
+      const { error } = await supabase
+        .from('patients')
+        .update({ archived_at: patient.archived_at ? null : new Date().toISOString() })
+        .eq('id', patient.id);
+
+      if (error) throw error;
+      await loadPatient();
+    } catch (error) {
+      alert((error as Error).message || 'Erro ao arquivar paciente');
+    } finally {
+      setArchiving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (!patient) {
+    return (
+      <div className="space-y-6">
+        <button
+          onClick={() => navigate('/pacientes')}
+          className="flex items-center gap-2 text-sm text-text-muted hover:text-primary transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Pacientes
+        </button>
+        <div className="bg-background-card rounded-xl border border-accent/20 shadow-card p-12 text-center">
+          <p className="text-text-muted">Paciente não encontrado</p>
+        </div>
+      </div>
+    );
+  }
+
+  const payments = appointments
+    .flatMap((appointment) => appointment.transactions.map((payment) => ({ ...payment, appointment })))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const lifetimeSpend = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const completedCount = appointments.filter((appointment) => appointment.status === 'completed').length;
+  const missedCount = appointments.filter(
+    (appointment) => appointment.status === 'cancelled' || appointment.status === 'no_show'
+  ).length;
+  // Newest first, so the next one is the last upcoming
+  const upcoming = appointments.filter(isUpcoming);
+  const nextAppointment = upcoming[upcoming.length - 1];
+
+  // Contact data may be shared clinic-wide; editing and clinical notes are not
+  const inCareTeam =
+    isSuperAdmin || careTeam.some((member) => member.professional_id === user?.id && !member.pending);
+
+  const statCards = [
+    { label: 'Agendamentos', value: appointments.length.toString(), icon: Calendar, color: 'bg-primary' },
+    { label: 'Realizados', value: completedCount.toString(), icon: CheckCircle2, color: 'bg-accent' },
+    { label: 'Cancelados ou faltas', value: missedCount.toString(), icon: XCircle, color: 'bg-primary' },
+    { label: 'Total gasto', value: `R$ ${lifetimeSpend.toFixed(2)}`, icon: DollarSign, color: 'bg-accent' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <button
+        onClick={() => navigate('/pacientes')}
+        className="flex items-center gap-2 text-sm text-text-muted hover:text-primary transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Pacientes
+      </button>
+
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-text">{patient.full_name}</h1>
+            {patient.archived_at && (
+              <span className="px-3 py-1 rounded-full text-xs font-medium border bg-gray-100 text-gray-600 border-gray-200">
+                Arquivado
+              </span>
+            )}
+          </div>
+          <p className="text-text-muted mt-1">
+            Paciente desde {formatTimestampDate(patient.created_at)}
+            {nextAppointment &&
+              ` · próximo atendimento em ${formatDateString(nextAppointment.appointment_date)} às ${nextAppointment.appointment_time.substring(0, 5)}`}
+          </p>
+        </div>
+        {inCareTeam && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowEditModal(true)}
+              className="flex items-center gap-2 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+            >
+              <Edit2 className="w-4 h-4" />
+              Editar
+            </button>
+            {isSuperAdmin && (
+              <button
+                onClick={() => setShowMergeModal(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+              >
+                <GitMerge className="w-4 h-4" />
+                Mesclar
+              </button>
+            )}
+            <button
+              onClick={toggleArchived}
+              disabled={archiving}
+              className="flex items-center gap-2 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors disabled:opacity-50"
+            >
+              {patient.archived_at ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+              {patient.archived_at ? 'Restaurar' : 'Arquivar'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {statCards.map((stat) => {
+          const Icon = stat.icon;
+          return (
+            <div key={stat.label} className="bg-background-card rounded-xl p-6 border border-accent/20 shadow-card">
+              <div className={`${stat.color} w-12 h-12 rounded-lg flex items-center justify-center mb-4`}>
+                <Icon className="w-6 h-6 text-white" />
+              </div>
+              <h3 className="text-text-muted text-sm mb-1">{stat.label}</h3>
+              <p className="text-2xl font-bold text-text">{stat.value}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <div className="bg-background-card rounded-xl p-6 border border-accent/20 shadow-card space-y-3">
+            <h3 className="text-lg font-semibold text-text">Contato</h3>
+            <div className="flex items-center gap-2 text-text-muted">
+              <Phone className="w-4 h-4" />
+              <span className="text-sm">{formatPhone(patient.phone)}</span>
+            </div>
+            {patient.email && (
+              <div className="flex items-center gap-2 text-text-muted">
+                <Mail className="w-4 h-4" />
+                <span className="text-sm">{patient.email}</span>
+              </div>
+            )}
+            {patient.cpf && (
+              <div className="flex items-center gap-2 text-text-muted">
+                <Contact2 className="w-4 h-4" />
+                <span className="text-sm">CPF {maskCpf(patient.cpf)}</span>
+              </div>
+            )}
+            {patient.birth_date && (
+              <div className="flex items-center gap-2 text-text-muted">
+                <Cake className="w-4 h-4" />
+                <span className="text-sm">
+                  {formatDateString(patient.birth_date)} ({ageOn(patient.birth_date, todayString())} anos)
+                </span>
+              </div>
+            )}
+            {(patient.gender || patient.pronouns) && (
+              <p className="text-sm text-text-muted">
+                {[patient.gender && GENDER_LABELS[patient.gender], patient.pronouns].filter(Boolean).join(' · ')}
+              </p>
+            )}
+            {(formatAddress(patient) || patient.cep) && (
+              <div className="flex items-start gap-2 text-text-muted">
+                <MapPin className="w-4 h-4 mt-0.5" />
+                <span className="text-sm">
+                  {formatAddress(patient)}
+                  {patient.cep && ` · CEP ${maskCep(patient.cep)}`}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-background-card rounded-xl p-6 border border-accent/20 shadow-card">
+            <h3 className="text-lg font-semibold text-text mb-4">Pagamentos</h3>
+            {payments.length === 0 ? (
+              <p className="text-sm text-text-muted">Nenhum pagamento vinculado aos agendamentos</p>
+            ) : (
+              <div className="space-y-3">
+                {payments.map((payment) => (
+                  <div key={payment.id} className="bg-champagne-nuvem rounded-lg p-3 border border-accent/20">
+                    <div className="flex items-center justify-between">
+                      <span className="font-semibold text-text">R$ {payment.amount.toFixed(2)}</span>
+                      <span className="text-xs text-text-muted">{formatTimestampDate(payment.created_at)}</span>
+                    </div>
+                    <p className="text-xs text-text-muted mt-1">
+                      {payment.payment_method} ·{' '}
+                      {describeItems(payment.appointment.items) || payment.appointment.procedure?.name || 'Atendimento'} de{' '}
+                      {formatDateString(payment.appointment.appointment_date)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <CareTeamCard patientId={patient.id} members={careTeam} canManage={inCareTeam} onChanged={loadPatient} />
+
+          {merges.length > 0 && (
+            <div className="bg-background-card rounded-xl p-6 border border-accent/20 shadow-card">
+              <h3 className="text-lg font-semibold text-text mb-4">Cadastros Mesclados</h3>
+              <div className="space-y-3">
+                {merges.map((merge) => (
+                  <div key={merge.id} className="bg-champagne-nuvem rounded-lg p-3 border border-accent/20">
+                    <p className="font-medium text-text text-sm">{merge.merged_patient.full_name}</p>
+                    <p className="text-xs text-text-muted mt-1">
+                      {formatTimestampDate(merge.created_at)}
+                      {merge.merged_by_profile && ` por ${merge.merged_by_profile.full_name}`} ·{' '}
+                      {merge.appointment_ids.length}{' '}
+                      {merge.appointment_ids.length === 1 ? 'agendamento transferido' : 'agendamentos transferidos'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          <AnamnesisCard patientId={patient.id} canView={inCareTeam} />
+
+          <ClinicalNotesCard patientId={patient.id} canView={inCareTeam} />
+
+          <div className="bg-background-card rounded-xl p-6 border border-accent/20 shadow-card">
+            <h3 className="text-lg font-semibold text-text mb-4">Histórico de Atendimentos</h3>
+            {appointments.length === 0 ? (
+              <p className="text-sm text-text-muted">Nenhum agendamento</p>
+            ) : (
+              <div className="space-y-3">
+                {appointments.map((appointment) => {
+                  const paid = appointment.transactions.reduce((sum, payment) => sum + payment.amount, 0);
+
+                  return (
+                    <div key={appointment.id} className="bg-champagne-nuvem rounded-lg p-4 border border-accent/20">
+                      <div className="flex flex-wrap items-center gap-3 mb-2">
+                        <div className="flex items-center gap-2 text-text font-semibold">
+                          <Clock className="w-4 h-4" />
+                          {formatDateString(appointment.appointment_date)} às {appointment.appointment_time.substring(0, 5)}
+                        </div>
+                        <span className={`px-3 py-1 rounded-full text-xs font-medium border ${STATUS_COLORS[appointment.status]}`}>
+                          {STATUS_LABELS[appointment.status]}
+                        </span>
+                      </div>
+                      <p className="text-text text-sm">
+                        {describeItems(appointment.items) || appointment.procedure?.name} · {appointment.duration_minutes} min
+                      </p>
+                      {appointment.professional && (
+                        <p className="text-text-muted text-sm">Profissional: {appointment.professional.full_name}</p>
+                      )}
+                      {appointment.cancellation_reason && (
+                        <p className="text-text-muted text-sm">Motivo do cancelamento: {appointment.cancellation_reason}</p>
+                      )}
+                      {(appointment.agreed_price !== null || paid > 0) && (
+                        <p className="text-text-muted text-sm">
+                          {appointment.agreed_price !== null && `Valor combinado R$ ${appointment.agreed_price.toFixed(2)}`}
+                          {appointment.agreed_price !== null && paid > 0 && ' · '}
+                          {paid > 0 && `Pago R$ ${paid.toFixed(2)}`}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showEditModal && (
+        <PatientFormModal
+          patient={patient}
+          onClose={() => setShowEditModal(false)}
+          onSuccess={() => {
+            setShowEditModal(false);
+            loadPatient();
+          }}
+        />
+      )}
+
+      {showMergeModal && (
+        <MergePatientsModal
+          patient={patient}
+          onClose={() => setShowMergeModal(false)}
+          onMerged={(survivorId) => {
+            setShowMergeModal(false);
+            if (survivorId === patient.id) {
+              loadPatient();
+              loadMerges();
+            } else {
+              navigate(`/pacientes/${survivorId}`);
+            }
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CareTeamCardProps {
+  patientId: string;
+  members: CareTeamMember[];
+  canManage: boolean;
+  onChanged: () => void;
+}
+
+// Professionals join on their own when they register or book the patient;
+// this card covers the rest, like a colleague brought in for a consultation
+function CareTeamCard({ patientId, members, canManage, onChanged }: CareTeamCardProps) {
+  const [professionals, setProfessionals] = useState<{ id: string; full_name: string }[]>([]);
+  const [professionalId, setProfessionalId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (canManage) loadProfessionals();
+  }, [canManage]);
+
+  async function loadProfessionals() {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name')
+        .eq('is_active', true)
+        .order('full_name');
+
+      if (error) throw error;
+      setProfessionals(data || []);
+    } catch (error) {
+      console.error('Error loading professionals:', error);
+    }
+  }
+
+  async function addMember(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('patient_care_team')
+        .insert({ patient_id: patientId, professional_id: professionalId });
+
+      if (error) throw error;
+      setProfessionalId('');
+      onChanged();
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao adicionar profissional');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function confirmMember(member: CareTeamMember) {
+    try {
+      const { error } = await supabase
+        .from('patient_care_team')
+        .update({ pending: false })
+        .eq('patient_id', patientId)
+        .eq('professional_id', member.professional_id);
+
+      if (error) throw error;
+      onChanged();
+    } catch (error) {
+      console.error('Error confirming care team member:', error);
+    }
+  }
+
+  async function removeMember(member: CareTeamMember) {
+    if (!confirm(`Remover ${member.professional?.full_name || 'este profissional'} da equipe de cuidado?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('patient_care_team')
+        .delete()
+        .eq('patient_id', patientId)
+        .eq('professional_id', member.professional_id);
+
+      if (error) throw error;
+      onChanged();
+    } catch (error) {
+      console.error('Error removing care team member:', error);
+    }
+  }
+
+  const available = professionals.filter(
+    (professional) => !members.some((member) => member.professional_id === professional.id)
+  );
+  const confirmedCount = members.filter((member) => !member.pending).length;
+
+  return (
+    <div className="bg-background-card rounded-xl p-6 border border-accent/20 shadow-card space-y-3">
+      <h3 className="text-lg font-semibold text-text flex items-center gap-2">
+        <Users className="w-5 h-5 text-primary" />
+        Equipe de Cuidado
+      </h3>
+
+      {members.length === 0 ? (
+        <p className="text-sm text-text-muted">Nenhum profissional na equipe</p>
+      ) : (
+        <ul className="space-y-2">
+          {members.map((member) => (
+            <li key={member.professional_id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-text">
+                {member.professional?.full_name || 'Usuário removido'}
+                {member.pending && <span className="text-xs text-text-muted"> · aguardando confirmação</span>}
+              </span>
+              <div className="flex items-center gap-1">
+                {canManage && member.pending && (
+                  <button
+                    onClick={() => confirmMember(member)}
+                    className="p-0.5 text-text-muted hover:text-green-600 transition-colors"
+                    title="Confirmar na equipe"
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                )}
+                {/* The last confirmed member stays, or nobody could manage the team anymore */}
+                {canManage && (member.pending || confirmedCount > 1) && (
+                  <button
+                    onClick={() => removeMember(member)}
+                    className="p-0.5 text-text-muted hover:text-red-600 transition-colors"
+                    title="Remover da equipe"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManage && available.length > 0 && (
+        <form onSubmit={addMember} className="flex gap-2 pt-3 border-t border-accent/20">
+          <select
+            value={professionalId}
+            onChange={(e) => setProfessionalId(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text text-sm"
+            disabled={saving}
+          >
+            <option value="">Adicionar profissional...</option>
+            {available.map((professional) => (
+              <option key={professional.id} value={professional.id}>
+                {professional.full_name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={saving || !professionalId}
+            className="px-3 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            Adicionar
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-xs">{error}</div>
+      )}
+    </div>
+  );
+}
+
+interface ClinicalNotesCardProps {
+  patientId: string;
+  canView: boolean;
+}
+
+function ClinicalNotesCard({ patientId, canView }: ClinicalNotesCardProps) {
+  const { user } = useAuth();
+  const [notes, setNotes] = useState<PatientNote[]>([]);
+  const [newNote, setNewNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (canView) loadNotes();
+  }, [patientId, canView]);
+
+  async function loadNotes() {
+    try {
+      const { data, error } = await supabase
+        .from('patient_notes')
+        .select('id, author_id, body, created_at, author:profiles(full_name)')
+        .eq('patient_id', patientId)
+        .order('created_at', { ascending: false })
+        .overrideTypes<PatientNote[], { merge: false }>();
+
+      if (error) throw error;
+      setNotes(data || []);
+    } catch (error) {
+      console.error('Error loading patient notes:', error);
+    }
+  }
+
+  async function addNote(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.from('patient_notes').insert({
+        patient_id: patientId,
+        author_id: user?.id,
+        body: newNote.trim(),
+      });
+
+      if (error) throw error;
+      setNewNote('');
+      loadNotes();
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao salvar nota');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteNote(noteId: string) {
+    if (!confirm('Excluir esta nota clínica?')) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('patient_notes').delete().eq('id', noteId);
+
+      if (error) throw error;
+      loadNotes();
+    } catch (error) {
+      console.error('Error deleting patient note:', error);
+    }
+  }
+
+  return (
+    <div className="bg-background-card rounded-xl p-6 border border-accent/20 shadow-card space-y-4">
+      <h3 className="text-lg font-semibold text-text flex items-center gap-2">
+        <Stethoscope className="w-5 h-5 text-primary" />
+        Notas Clínicas
+      </h3>
+
+      {!canView ? (
+        <p className="text-sm text-text-muted">Apenas a equipe de cuidado do paciente vê as notas clínicas.</p>
+      ) : (
+        <>
+          <form onSubmit={addNote} className="space-y-2">
+            <textarea
+              value={newNote}
+              onChange={(e) => setNewNote(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text text-sm resize-none"
+              placeholder="Evolução, conduta, intercorrências..."
+              disabled={saving}
+            />
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving || !newNote.trim()}
+                className="px-3 py-1.5 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+              >
+                Adicionar nota
+              </button>
+            </div>
+          </form>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-xs">{error}</div>
+          )}
+
+          {notes.length === 0 ? (
+            <p className="text-sm text-text-muted">Nenhuma nota clínica</p>
+          ) : (
+            <ul className="space-y-3">
+              {notes.map((note) => (
+                <li key={note.id} className="bg-champagne-nuvem rounded-lg p-3 border border-accent/20">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-sm text-text whitespace-pre-wrap">{note.body}</p>
+                    {note.author_id === user?.id && (
+                      <button
+                        onClick={() => deleteNote(note.id)}
+                        className="p-0.5 text-text-muted hover:text-red-600 transition-colors flex-shrink-0"
+                        title="Excluir nota"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-xs text-text-muted mt-1">
+                    {note.author?.full_name || 'Usuário removido'} em {formatNoteTimestamp(note.created_at)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface AnamnesisCardProps {
+  patientId: string;
+  canView: boolean;
+}
+
+function AnamnesisCard({ patientId, canView }: AnamnesisCardProps) {
+  const [responses, setResponses] = useState<AnamnesisResponse[]>([]);
+  // Older fillings picked in the history, by form
+  const [selectedIds, setSelectedIds] = useState<Record<string, string>>({});
+  const [fillingTemplateId, setFillingTemplateId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (canView) loadResponses();
+  }, [patientId, canView]);
+
+  async function loadResponses() {
+    try {
+      setResponses(await fetchAnamnesisResponses(patientId));
+    } catch (error) {
+      console.error('Error loading anamnesis:', error);
+    }
+  }
+
+  const latest = latestResponses(responses);
+
+  return (
+    <div className="bg-background-card rounded-xl p-6 border border-accent/20 shadow-card space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-text flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-primary" />
+          Anamnese
+        </h3>
+        {canView && (
+          <button
+            onClick={() => setFillingTemplateId('')}
+            className="px-3 py-1.5 bg-primary hover:bg-primary-hover text-white rounded-lg text-sm transition-colors"
+          >
+            Preencher
+          </button>
+        )}
+      </div>
+
+      {!canView ? (
+        <p className="text-sm text-text-muted">Apenas a equipe de cuidado do paciente vê a anamnese.</p>
+      ) : latest.length === 0 ? (
+        <p className="text-sm text-text-muted">Nenhum formulário preenchido</p>
+      ) : (
+        <div className="space-y-4">
+          {latest.map((current) => {
+            const history = responses.filter((response) => response.template_id === current.template_id);
+            const shown = history.find((response) => response.id === selectedIds[current.template_id]) || current;
+
+            return (
+              <div key={current.template_id} className="bg-champagne-nuvem rounded-lg p-4 border border-accent/20 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold text-text">{shown.template_name}</p>
+                    <p className="text-xs text-text-muted">
+                      {formatNoteTimestamp(shown.created_at)}
+                      {shown.filled_by_profile && ` por ${shown.filled_by_profile.full_name}`} · versão{' '}
+                      {shown.template_version}
+                      {shown.id !== current.id && ' · preenchimento anterior'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {history.length > 1 && (
+                      <select
+                        value={shown.id}
+                        onChange={(e) => setSelectedIds({ ...selectedIds, [current.template_id]: e.target.value })}
+                        className="px-2 py-1 bg-background-card border border-accent/30 rounded-lg text-xs text-text focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        {history.map((response) => (
+                          <option key={response.id} value={response.id}>
+                            {formatNoteTimestamp(response.created_at)}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={() => setFillingTemplateId(current.template_id)}
+                      className="px-3 py-1 border border-accent/30 text-text hover:bg-background-card rounded-lg text-xs transition-colors"
+                    >
+                      Atualizar
+                    </button>
+                  </div>
+                </div>
+
+                <dl className="space-y-2">
+                  {shown.questions.map((question) => {
+                    const risky = shown.risky_question_ids.includes(question.id);
+
+                    return (
+                      <div key={question.id} className={`text-sm ${risky ? 'text-red-700' : ''}`}>
+                        <dt className={`flex items-center gap-1 ${risky ? 'font-medium' : 'text-text-muted'}`}>
+                          {risky && <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />}
+                          {question.label}
+                        </dt>
+                        <dd className={risky ? '' : 'text-text'}>{formatAnswer(question, shown.answers[question.id])}</dd>
+                      </div>
+                    );
+                  })}
+                </dl>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {fillingTemplateId !== null && (
+        <AnamnesisFormModal
+          patientId={patientId}
+          latest={latest}
+          initialTemplateId={fillingTemplateId || undefined}
+          onClose={() => setFillingTemplateId(null)}
+          onSuccess={() => {
+            setFillingTemplateId(null);
+            setSelectedIds({});
+            loadResponses();
+          }}
+        />
+      )}
+    </div>
+  );
+}
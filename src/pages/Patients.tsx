@@ -1,24 +1,36 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Plus, Edit2, Loader2, Search, Phone, Mail, FileText } from 'lucide-react';
+import { useRouter } from '../contexts/RouterContext';
+import PatientFormModal, { PatientContact } from '../components/PatientFormModal';
+import { formatPhone, onlyDigits } from '../lib/brazil';
+import { Plus, Edit2, Loader2, Search, Phone, Mail, Archive, Users } from 'lucide-react';
 
+// A row of patient_contacts; cpf is only filled in for the user's care teams
 interface Patient {
   id: string;
   full_name: string;
   phone: string;
   email: string | null;
-  notes: string | null;
+  cpf: string | null;
   professional_id: string;
+  archived_at: string | null;
   created_at: string;
+  care_team: { professional_id: string; pending: boolean }[];
 }
 
 export default function Patients() {
   const { user, isSuperAdmin } = useAuth();
+  const { navigate } = useRouter();
   const [patients, setPatients] = useState<Patient[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  // Professionals start on their own care team; with contact sharing on they
+  // can switch to every patient of the clinic
+  const [onlyCareTeam, setOnlyCareTeam] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingPatient, setEditingPatient] = useState<PatientContact | null>(null);
 
   useEffect(() => {
     loadPatients();
@@ -26,13 +38,10 @@ export default function Patients() {
 
   async function loadPatients() {
     try {
-      let query = supabase.from('patients').select('*').order('full_name');
-
-      if (!isSuperAdmin && user) {
-        query = query.eq('professional_id', user.id);
-      }
-
-      const { data, error } = await query;
+      const { data, error } = await supabase
+        .from('patient_contacts')
+        .select('*, care_team:patient_care_team(professional_id, pending)')
+        .order('full_name');
 
       if (error) throw error;
       setPatients(data || []);
@@ -43,10 +52,33 @@ export default function Patients() {
     }
   }
 
-  const filteredPatients = patients.filter((patient) =>
-    patient.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    patient.phone.includes(searchTerm) ||
-    (patient.email && patient.email.toLowerCase().includes(searchTerm.toLowerCase()))
+  // The list only has contact data; the form needs the full record
+  async function editPatient(patientId: string) {
+    try {
+      const { data, error } = await supabase.from('patients').select('*').eq('id', patientId).single();
+
+      if (error) throw error;
+      setEditingPatient(data);
+    } catch (error) {
+      console.error('Error loading patient:', error);
+    }
+  }
+
+  const inCareTeam = (patient: Patient) => patient.care_team.some((member) => member.professional_id === user?.id);
+  // Pending members cannot edit the patient until the team confirms them
+  const canEdit = (patient: Patient) =>
+    isSuperAdmin || patient.care_team.some((member) => member.professional_id === user?.id && !member.pending);
+  const filterByCareTeam = !isSuperAdmin && onlyCareTeam;
+  const scopedPatients = filterByCareTeam ? patients.filter(inCareTeam) : patients;
+  const archivedCount = scopedPatients.filter((patient) => patient.archived_at).length;
+  const searchDigits = onlyDigits(searchTerm);
+
+  const filteredPatients = scopedPatients.filter((patient) =>
+    !!patient.archived_at === showArchived && (
+      patient.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (searchDigits && (patient.phone.includes(searchDigits) || patient.cpf?.includes(searchDigits))) ||
+      (patient.email && patient.email.toLowerCase().includes(searchTerm.toLowerCase()))
+    )
   );
 
   if (loading) {
@@ -63,7 +95,7 @@ export default function Patients() {
         <div>
           <h1 className="text-2xl font-bold text-text">Pacientes</h1>
           <p className="text-text-muted mt-1">
-            {isSuperAdmin ? 'Todos os pacientes da clínica' : 'Seus pacientes'}
+            {filterByCareTeam ? 'Pacientes da sua equipe de cuidado' : 'Todos os pacientes da clínica'}
           </p>
         </div>
         <button
@@ -76,23 +108,51 @@ export default function Patients() {
       </div>
 
       <div className="bg-background-card rounded-xl border border-accent/20 shadow-card">
-        <div className="p-6 border-b border-accent/20">
-          <div className="relative">
+        <div className="p-6 border-b border-accent/20 flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-text-muted" />
             <input
               type="text"
-              placeholder="Buscar por nome, telefone ou e-mail..."
+              placeholder="Buscar por nome, telefone, CPF ou e-mail..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full pl-10 pr-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text placeholder-text-muted"
             />
           </div>
+          {!isSuperAdmin && (
+            <button
+              onClick={() => setOnlyCareTeam(!onlyCareTeam)}
+              className={`flex items-center justify-center gap-2 px-4 py-2 border rounded-lg transition-colors text-sm ${
+                onlyCareTeam
+                  ? 'bg-primary/10 text-primary border-primary/20'
+                  : 'border-accent/30 text-text-muted hover:bg-champagne-nuvem'
+              }`}
+            >
+              <Users className="w-4 h-4" />
+              Minha equipe
+            </button>
+          )}
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className={`flex items-center justify-center gap-2 px-4 py-2 border rounded-lg transition-colors text-sm ${
+              showArchived
+                ? 'bg-primary/10 text-primary border-primary/20'
+                : 'border-accent/30 text-text-muted hover:bg-champagne-nuvem'
+            }`}
+          >
+            <Archive className="w-4 h-4" />
+            Arquivados ({archivedCount})
+          </button>
         </div>
 
         {filteredPatients.length === 0 ? (
           <div className="p-12 text-center">
             <p className="text-text-muted">
-              {searchTerm ? 'Nenhum paciente encontrado' : 'Nenhum paciente cadastrado'}
+              {searchTerm
+                ? 'Nenhum paciente encontrado'
+                : showArchived
+                  ? 'Nenhum paciente arquivado'
+                  : 'Nenhum paciente cadastrado'}
             </p>
           </div>
         ) : (
@@ -100,21 +160,30 @@ export default function Patients() {
             {filteredPatients.map((patient) => (
               <div
                 key={patient.id}
-                className="bg-champagne-nuvem rounded-lg p-5 border border-accent/20 hover:shadow-soft transition-all"
+                onClick={() => navigate(`/pacientes/${patient.id}`)}
+                className="bg-champagne-nuvem rounded-lg p-5 border border-accent/20 hover:shadow-soft transition-all cursor-pointer"
               >
                 <div className="flex items-start justify-between mb-3">
                   <div>
                     <h3 className="font-semibold text-text text-lg">{patient.full_name}</h3>
                   </div>
-                  <button className="p-1.5 hover:bg-background-card rounded-lg transition-colors">
-                    <Edit2 className="w-4 h-4 text-text-muted" />
-                  </button>
+                  {canEdit(patient) && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        editPatient(patient.id);
+                      }}
+                      className="p-1.5 hover:bg-background-card rounded-lg transition-colors"
+                    >
+                      <Edit2 className="w-4 h-4 text-text-muted" />
+                    </button>
+                  )}
                 </div>
 
                 <div className="space-y-2">
                   <div className="flex items-center gap-2 text-text-muted">
                     <Phone className="w-4 h-4" />
-                    <span className="text-sm">{patient.phone}</span>
+                    <span className="text-sm">{formatPhone(patient.phone)}</span>
                   </div>
                   {patient.email && (
                     <div className="flex items-center gap-2 text-text-muted">
@@ -122,12 +191,6 @@ export default function Patients() {
                       <span className="text-sm">{patient.email}</span>
                     </div>
                   )}
-                  {patient.notes && (
-                    <div className="flex items-start gap-2 text-text-muted mt-3 pt-3 border-t border-accent/20">
-                      <FileText className="w-4 h-4 mt-0.5" />
-                      <span className="text-sm">{patient.notes}</span>
-                    </div>
-                  )}
                 </div>
               </div>
             ))}
@@ -135,11 +198,16 @@ export default function Patients() {
         )}
       </div>
 
-      {showCreateModal && (
-        <CreatePatientModal
-          onClose={() => setShowCreateModal(false)}
+      {(showCreateModal || editingPatient) && (
+        <PatientFormModal
+          patient={editingPatient || undefined}
+          onClose={() => {
+            setShowCreateModal(false);
+            setEditingPatient(null);
+          }}
           onSuccess={() => {
             setShowCreateModal(false);
+            setEditingPatient(null);
             loadPatients();
           }}
         />
@@ -147,133 +215,3 @@ export default function Patients() {
     </div>
   );
 }
-
-interface CreatePatientModalProps {
-  onClose: () => void;
-  onSuccess: () => void;
-}
-
-function CreatePatientModal({ onClose, onSuccess }: CreatePatientModalProps) {
-  const { user } = useAuth();
-  const [fullName, setFullName] = useState('');
-  const [phone, setPhone] = useState('');
-  const [email, setEmail] = useState('');
-  const [notes, setNotes] = useState('');
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
-
-  async function handleSubmit(e: React.FormEvent) {
-    e.preventDefault();
-    setError('');
-    setLoading(true);
-
-    try {
-      const { error: insertError } = await supabase
-        .from('patients')
-        .insert({
-          full_name: fullName,
-          phone,
-          email: email || null,
-          notes: notes || null,
-          professional_id: user?.id,
-        });
-
-      if (insertError) throw insertError;
-
-      onSuccess();
-    } catch (error: any) {
-      setError(error.message || 'Erro ao criar paciente');
-    } finally {
-      setLoading(false);
-    }
-  }
-
-  return (
-    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50">
-      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
-        <h2 className="text-xl font-semibold text-text mb-6">Novo Paciente</h2>
-
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-text mb-2">
-              Nome Completo
-            </label>
-            <input
-              type="text"
-              value={fullName}
-              onChange={(e) => setFullName(e.target.value)}
-              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
-              required
-              disabled={loading}
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-text mb-2">
-              Telefone
-            </label>
-            <input
-              type="tel"
-              value={phone}
-              onChange={(e) => setPhone(e.target.value)}
-              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
-              placeholder="(00) 00000-0000"
-              required
-              disabled={loading}
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-text mb-2">
-              E-mail (opcional)
-            </label>
-            <input
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
-              disabled={loading}
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-text mb-2">
-              Observações (opcional)
-            </label>
-            <textarea
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text resize-none"
-              rows={3}
-              disabled={loading}
-            />
-          </div>
-
-          {error && (
-            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
-              {error}
-            </div>
-          )}
-
-          <div className="flex gap-3 pt-2">
-            <button
-              type="button"
-              onClick={onClose}
-              className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
-              disabled={loading}
-            >
-              Cancelar
-            </button>
-            <button
-              type="submit"
-              className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
-              disabled={loading}
-            >
-              {loading ? 'Salvando...' : 'Salvar'}
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
-}
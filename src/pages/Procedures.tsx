@@ -8,6 +8,7 @@ interface Procedure {
   name: string;
   duration_minutes: number;
   default_price: number;
+  preparation_instructions: string | null;
   is_active: boolean;
   created_at: string;
 }
@@ -18,6 +19,7 @@ export default function Procedures() {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingProcedure, setEditingProcedure] = useState<Procedure | null>(null);
 
   useEffect(() => {
     loadProcedures();
@@ -102,7 +104,11 @@ export default function Procedures() {
                 <div className="flex items-start justify-between mb-3">
                   <h3 className="font-semibold text-text text-lg">{procedure.name}</h3>
                   {isSuperAdmin && (
-                    <button className="p-1.5 hover:bg-background-card rounded-lg transition-colors">
+                    <button
+                      onClick={() => setEditingProcedure(procedure)}
+                      className="p-1.5 hover:bg-background-card rounded-lg transition-colors"
+                      title="Editar"
+                    >
                       <Edit2 className="w-4 h-4 text-text-muted" />
                     </button>
                   )}
@@ -126,11 +132,16 @@ export default function Procedures() {
         )}
       </div>
 
-      {showCreateModal && isSuperAdmin && (
-        <CreateProcedureModal
-          onClose={() => setShowCreateModal(false)}
+      {(showCreateModal || editingProcedure) && isSuperAdmin && (
+        <ProcedureModal
+          procedure={editingProcedure}
+          onClose={() => {
+            setShowCreateModal(false);
+            setEditingProcedure(null);
+          }}
           onSuccess={() => {
             setShowCreateModal(false);
+            setEditingProcedure(null);
             loadProcedures();
           }}
         />
@@ -139,16 +150,18 @@ export default function Procedures() {
   );
 }
 
-interface CreateProcedureModalProps {
+interface ProcedureModalProps {
+  procedure: Procedure | null;
   onClose: () => void;
   onSuccess: () => void;
 }
 
-function CreateProcedureModal({ onClose, onSuccess }: CreateProcedureModalProps) {
+function ProcedureModal({ procedure, onClose, onSuccess }: ProcedureModalProps) {
   const { user } = useAuth();
-  const [name, setName] = useState('');
-  const [durationMinutes, setDurationMinutes] = useState('30');
-  const [defaultPrice, setDefaultPrice] = useState('');
+  const [name, setName] = useState(procedure?.name || '');
+  const [durationMinutes, setDurationMinutes] = useState(procedure ? String(procedure.duration_minutes) : '30');
+  const [defaultPrice, setDefaultPrice] = useState(procedure ? procedure.default_price.toFixed(2) : '');
+  const [preparationInstructions, setPreparationInstructions] = useState(procedure?.preparation_instructions || '');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -158,20 +171,22 @@ function CreateProcedureModal({ onClose, onSuccess }: CreateProcedureModalProps)
     setLoading(true);
 
     try {
-      const { error: insertError } = await supabase
-        .from('procedures')
-        .insert({
-          name,
-          duration_minutes: parseInt(durationMinutes),
-          default_price: parseFloat(defaultPrice),
-          created_by: user?.id,
-        });
+      const values = {
+        name,
+        duration_minutes: parseInt(durationMinutes),
+        default_price: parseFloat(defaultPrice),
+        preparation_instructions: preparationInstructions.trim() || null,
+      };
 
-      if (insertError) throw insertError;
+      const { error: saveError } = procedure
+        ? await supabase.from('procedures').update(values).eq('id', procedure.id)
+        : await supabase.from('procedures').insert({ ...values, created_by: user?.id });
+
+      if (saveError) throw saveError;
 
       onSuccess();
     } catch (error: any) {
-      setError(error.message || 'Erro ao criar procedimento');
+      setError(error.message || 'Erro ao salvar procedimento');
     } finally {
       setLoading(false);
     }
@@ -180,7 +195,9 @@ function CreateProcedureModal({ onClose, onSuccess }: CreateProcedureModalProps)
   return (
     <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50">
       <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
-        <h2 className="text-xl font-semibold text-text mb-6">Novo Procedimento</h2>
+        <h2 className="text-xl font-semibold text-text mb-6">
+          {procedure ? 'Editar Procedimento' : 'Novo Procedimento'}
+        </h2>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
@@ -230,6 +247,21 @@ function CreateProcedureModal({ onClose, onSuccess }: CreateProcedureModalProps)
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">
+              Instruções de preparo (opcional)
+            </label>
+            <textarea
+              value={preparationInstructions}
+              onChange={(e) => setPreparationInstructions(e.target.value)}
+              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text resize-none"
+              placeholder="Ex: Vir sem maquiagem e evitar exposição ao sol 48h antes"
+              rows={3}
+              disabled={loading}
+            />
+            <p className="text-xs text-text-muted mt-1">Impressas no comprovante de agendamento do paciente</p>
+          </div>
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
               {error}
@@ -0,0 +1,53 @@
+import { useAuth } from '../contexts/AuthContext';
+import WorkingHoursEditor from '../components/WorkingHoursEditor';
+import CalendarFeedSettings from '../components/CalendarFeedSettings';
+import { UserCircle, Mail, Clock, CalendarDays } from 'lucide-react';
+
+export default function Profile() {
+  const { profile, isSuperAdmin } = useAuth();
+
+  if (!profile) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-text">Meu Perfil</h1>
+        <p className="text-text-muted mt-1">Seus dados e sua disponibilidade de atendimento</p>
+      </div>
+
+      <div className="bg-background-card rounded-xl border border-accent/20 shadow-card p-6">
+        <div className="flex items-center gap-4">
+          <div className="w-14 h-14 bg-primary/20 rounded-full flex items-center justify-center">
+            <UserCircle className="w-8 h-8 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-text">{profile.full_name}</h3>
+            <p className="flex items-center gap-2 text-sm text-text-muted">
+              <Mail className="w-4 h-4" />
+              {profile.email}
+            </p>
+            <p className="text-xs text-text-muted mt-1">{isSuperAdmin ? 'Super Admin' : 'Profissional'}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-background-card rounded-xl border border-accent/20 shadow-card p-6">
+        <h3 className="text-lg font-semibold text-text mb-4 flex items-center gap-2">
+          <Clock className="w-5 h-5 text-primary" />
+          Horários de Atendimento
+        </h3>
+        <WorkingHoursEditor professionalId={profile.id} />
+      </div>
+
+      <div className="bg-background-card rounded-xl border border-accent/20 shadow-card p-6">
+        <h3 className="text-lg font-semibold text-text mb-4 flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-primary" />
+          Agenda no Celular
+        </h3>
+        <CalendarFeedSettings professionalId={profile.id} professionalName={profile.full_name} />
+      </div>
+    </div>
+  );
+}
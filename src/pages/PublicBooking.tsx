@@ -0,0 +1,336 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { addDays, formatDateString, setClinicTimeZone, todayString } from '../lib/dates';
+import { maskPhone } from '../lib/brazil';
+import { Heart, Loader2, CheckCircle2, ChevronLeft } from 'lucide-react';
+
+interface BookingProcedure {
+  id: string;
+  name: string;
+  duration_minutes: number;
+  price: number;
+}
+
+interface BookingProfessional {
+  id: string;
+  full_name: string;
+}
+
+interface BookingOptions {
+  procedures: BookingProcedure[];
+  professionals: BookingProfessional[];
+  days_ahead: number;
+  requires_approval: boolean;
+}
+
+interface BookingSlot {
+  slot_professional_id: string;
+  professional_name: string;
+  slot_time: string;
+}
+
+interface BookingResult {
+  appointment_id: string;
+  pending_approval: boolean;
+}
+
+// Rendered outside the authenticated app, at /agendar. Everything goes through
+// SECURITY DEFINER RPCs, so the anon key never reads the tables directly.
+export default function PublicBooking() {
+  const today = todayString();
+  const [options, setOptions] = useState<BookingOptions | null>(null);
+  const [loadingOptions, setLoadingOptions] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [procedureId, setProcedureId] = useState('');
+  const [professionalId, setProfessionalId] = useState('');
+  const [date, setDate] = useState(today);
+  const [slots, setSlots] = useState<BookingSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
+  const [fullName, setFullName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<BookingResult | null>(null);
+
+  useEffect(() => {
+    loadOptions();
+  }, []);
+
+  useEffect(() => {
+    setSelectedSlot(null);
+    if (procedureId && date) {
+      loadSlots();
+    } else {
+      setSlots([]);
+    }
+  }, [procedureId, professionalId, date]);
+
+  async function loadOptions() {
+    try {
+      const [{ data, error }, { data: timeZone, error: timeZoneError }] = await Promise.all([
+        supabase.rpc('public_booking_options'),
+        supabase.rpc('clinic_timezone'),
+      ]);
+      if (error) throw error;
+      if (timeZoneError) throw timeZoneError;
+
+      // The first render guessed today with the default timezone
+      setClinicTimeZone(timeZone);
+      setDate(todayString());
+      setOptions(data);
+    } catch (error) {
+      console.error('Error loading booking options:', error);
+      setUnavailable(true);
+    } finally {
+      setLoadingOptions(false);
+    }
+  }
+
+  async function loadSlots() {
+    setLoadingSlots(true);
+    setError('');
+
+    try {
+      const { data, error } = await supabase.rpc('public_booking_slots', {
+        p_procedure_id: procedureId,
+        p_date: date,
+        p_professional_id: professionalId || null,
+      });
+
+      if (error) throw error;
+      setSlots(data || []);
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao buscar horários');
+    } finally {
+      setLoadingSlots(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!selectedSlot) return;
+
+    setError('');
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase.rpc('public_book_appointment', {
+        p_procedure_id: procedureId,
+        p_professional_id: selectedSlot.slot_professional_id,
+        p_date: date,
+        p_time: selectedSlot.slot_time,
+        p_full_name: fullName,
+        p_phone: phone,
+      });
+
+      if (error) throw error;
+      setResult(data);
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao agendar');
+      loadSlots();
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const procedure = options?.procedures.find((p) => p.id === procedureId);
+  const inputClass =
+    'w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text';
+
+  function renderContent() {
+    if (loadingOptions) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 text-primary animate-spin" />
+        </div>
+      );
+    }
+
+    if (unavailable || !options) {
+      return (
+        <p className="text-center text-text-muted py-8">
+          O agendamento online não está disponível no momento. Entre em contato com a clínica.
+        </p>
+      );
+    }
+
+    if (result) {
+      return (
+        <div className="text-center py-6 space-y-3">
+          <CheckCircle2 className="w-12 h-12 text-green-600 mx-auto" />
+          <h2 className="text-xl font-semibold text-text">
+            {result.pending_approval ? 'Solicitação enviada!' : 'Agendamento confirmado!'}
+          </h2>
+          <p className="text-text-muted">
+            {procedure?.name} em {formatDateString(date)} às {selectedSlot?.slot_time.substring(0, 5)}
+            {selectedSlot && ` com ${selectedSlot.professional_name}`}.
+          </p>
+          {result.pending_approval && (
+            <p className="text-sm text-text-muted">
+              A clínica vai revisar seu pedido e entrar em contato para confirmar.
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    if (selectedSlot) {
+      return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <button
+            type="button"
+            onClick={() => setSelectedSlot(null)}
+            className="flex items-center gap-1 text-sm text-text-muted hover:text-text"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            Escolher outro horário
+          </button>
+
+          <div className="bg-champagne-nuvem rounded-lg p-4 border border-accent/20 text-sm text-text">
+            <p className="font-semibold">{procedure?.name}</p>
+            <p>
+              {formatDateString(date, { weekday: 'long', day: '2-digit', month: 'long' })} às{' '}
+              {selectedSlot.slot_time.substring(0, 5)}
+            </p>
+            <p className="text-text-muted">{selectedSlot.professional_name}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Nome completo</label>
+            <input
+              type="text"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              className={inputClass}
+              required
+              minLength={3}
+              disabled={submitting}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Telefone (WhatsApp)</label>
+            <input
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(maskPhone(e.target.value))}
+              className={inputClass}
+              placeholder="(00) 00000-0000"
+              required
+              disabled={submitting}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            className="w-full px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+            disabled={submitting}
+          >
+            {submitting ? 'Agendando...' : options.requires_approval ? 'Solicitar agendamento' : 'Confirmar agendamento'}
+          </button>
+        </form>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-text mb-2">Procedimento</label>
+          <select value={procedureId} onChange={(e) => setProcedureId(e.target.value)} className={inputClass}>
+            <option value="">Selecione um procedimento</option>
+            {options.procedures.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name} ({p.duration_minutes} min)
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-text mb-2">Profissional</label>
+          <select value={professionalId} onChange={(e) => setProfessionalId(e.target.value)} className={inputClass}>
+            <option value="">Sem preferência</option>
+            {options.professionals.map((prof) => (
+              <option key={prof.id} value={prof.id}>
+                {prof.full_name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-text mb-2">Data</label>
+          <input
+            type="date"
+            value={date}
+            min={today}
+            max={addDays(today, options.days_ahead)}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        {procedureId && (
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Horários disponíveis</label>
+            {loadingSlots ? (
+              <Loader2 className="w-5 h-5 text-primary animate-spin" />
+            ) : slots.length === 0 ? (
+              <p className="text-sm text-text-muted">Nenhum horário livre nesta data. Tente outro dia.</p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto">
+                {slots.map((slot) => (
+                  <button
+                    key={`${slot.slot_professional_id}-${slot.slot_time}`}
+                    type="button"
+                    onClick={() => setSelectedSlot(slot)}
+                    className="px-2 py-2 rounded-lg border border-accent/30 bg-champagne-nuvem hover:border-primary hover:bg-primary/10 text-sm text-text transition-colors"
+                    title={slot.professional_name}
+                  >
+                    {slot.slot_time.substring(0, 5)}
+                    {!professionalId && (
+                      <span className="block text-[10px] text-text-muted truncate">
+                        {slot.professional_name.split(' ')[0]}
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-primary rounded-full mb-4">
+            <Heart className="w-8 h-8 text-white" fill="white" />
+          </div>
+          <h1 className="text-3xl font-bold text-text mb-2">Miss Belle</h1>
+          <p className="text-text-muted">Agende seu horário</p>
+        </div>
+
+        <div className="bg-background-card rounded-2xl shadow-soft-lg p-8 border border-accent/20">
+          {renderContent()}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Resource, RESOURCE_KIND_LABELS, ResourceKind } from '../lib/resources';
+import { Plus, Edit2, Loader2, Search, Power, DoorOpen, Cpu, Scissors } from 'lucide-react';
+
+interface ResourceWithProcedures extends Resource {
+  procedures: { procedure: { id: string; name: string } }[];
+}
+
+interface ProcedureOption {
+  id: string;
+  name: string;
+}
+
+export default function Resources() {
+  const [resources, setResources] = useState<ResourceWithProcedures[]>([]);
+  const [procedures, setProcedures] = useState<ProcedureOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingResource, setEditingResource] = useState<ResourceWithProcedures | null>(null);
+
+  useEffect(() => {
+    loadResources();
+    loadProcedures();
+  }, []);
+
+  async function loadResources() {
+    try {
+      const { data, error } = await supabase
+        .from('resources')
+        .select('*, procedures:procedure_resources(procedure:procedures(id, name))')
+        .order('name')
+        .overrideTypes<ResourceWithProcedures[], { merge: false }>();
+
+      if (error) throw error;
+      setResources(data || []);
+    } catch (error) {
+      console.error('Error loading resources:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function loadProcedures() {
+    try {
+      const { data, error } = await supabase
+        .from('procedures')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      setProcedures(data || []);
+    } catch (error) {
+      console.error('Error loading procedures:', error);
+    }
+  }
+
+  async function handleToggleStatus(resource: Resource) {
+    try {
+      const { error } = await supabase
+        .from('resources')
+        .update({ is_active: !resource.is_active })
+        .eq('id', resource.id);
+
+      if (error) throw error;
+      loadResources();
+    } catch (error) {
+      console.error('Error toggling resource status:', error);
+      alert('Erro ao alterar status do recurso');
+    }
+  }
+
+  const filteredResources = resources.filter((resource) =>
+    resource.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-text">Salas e Equipamentos</h1>
+          <p className="text-text-muted mt-1">
+            Recursos exigidos pelos procedimentos não podem ser reservados por dois atendimentos ao mesmo tempo
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors shadow-soft"
+        >
+          <Plus className="w-5 h-5" />
+          Novo Recurso
+        </button>
+      </div>
+
+      <div className="bg-background-card rounded-xl border border-accent/20 shadow-card">
+        <div className="p-6 border-b border-accent/20">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-text-muted" />
+            <input
+              type="text"
+              placeholder="Buscar recurso..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text placeholder-text-muted"
+            />
+          </div>
+        </div>
+
+        {filteredResources.length === 0 ? (
+          <div className="p-12 text-center">
+            <p className="text-text-muted">
+              {searchTerm ? 'Nenhum recurso encontrado' : 'Nenhum recurso cadastrado'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-6">
+            {filteredResources.map((resource) => {
+              const KindIcon = resource.kind === 'room' ? DoorOpen : Cpu;
+
+              return (
+                <div
+                  key={resource.id}
+                  className={`bg-champagne-nuvem rounded-lg p-5 border border-accent/20 hover:shadow-soft transition-all ${
+                    resource.is_active ? '' : 'opacity-60'
+                  }`}
+                >
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <h3 className="font-semibold text-text text-lg">{resource.name}</h3>
+                      <div className="flex items-center gap-1 text-text-muted text-sm">
+                        <KindIcon className="w-4 h-4" />
+                        {RESOURCE_KIND_LABELS[resource.kind]}
+                        {!resource.is_active && ' · inativo'}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => setEditingResource(resource)}
+                        className="p-1.5 hover:bg-background-card rounded-lg transition-colors"
+                        title="Editar"
+                      >
+                        <Edit2 className="w-4 h-4 text-text-muted" />
+                      </button>
+                      <button
+                        onClick={() => handleToggleStatus(resource)}
+                        className="p-1.5 hover:bg-background-card rounded-lg transition-colors"
+                        title={resource.is_active ? 'Desativar' : 'Ativar'}
+                      >
+                        <Power className={`w-4 h-4 ${resource.is_active ? 'text-green-700' : 'text-text-muted'}`} />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="flex items-start gap-2 text-text-muted">
+                    <Scissors className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span className="text-sm">
+                      {resource.procedures.length === 0
+                        ? 'Nenhum procedimento exige este recurso'
+                        : resource.procedures.map((link) => link.procedure.name).join(', ')}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {(showCreateModal || editingResource) && (
+        <ResourceModal
+          resource={editingResource}
+          procedures={procedures}
+          onClose={() => {
+            setShowCreateModal(false);
+            setEditingResource(null);
+          }}
+          onSuccess={() => {
+            setShowCreateModal(false);
+            setEditingResource(null);
+            loadResources();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface ResourceModalProps {
+  resource: ResourceWithProcedures | null;
+  procedures: ProcedureOption[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function ResourceModal({ resource, procedures, onClose, onSuccess }: ResourceModalProps) {
+  const [name, setName] = useState(resource?.name || '');
+  const [kind, setKind] = useState<ResourceKind>(resource?.kind || 'room');
+  const [procedureIds, setProcedureIds] = useState<string[]>(
+    resource?.procedures.map((link) => link.procedure.id) || []
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  function toggleProcedure(id: string) {
+    setProcedureIds(
+      procedureIds.includes(id) ? procedureIds.filter((procedureId) => procedureId !== id) : [...procedureIds, id]
+    );
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      let resourceId = resource?.id;
+
+      if (resourceId) {
+        const { error: updateError } = await supabase
+          .from('resources')
+          .update({ name, kind })
+          .eq('id', resourceId);
+
+        if (updateError) throw updateError;
+      } else {
+        const { data, error: insertError } = await supabase
+          .from('resources')
+          .insert({ name, kind })
+          .select('id')
+          .single();
+
+        if (insertError) throw insertError;
+        resourceId = data.id;
+      }
+
+      const { error: deleteError } = await supabase
+        .from('procedure_resources')
+        .delete()
+        .eq('resource_id', resourceId);
+
+      if (deleteError) throw deleteError;
+
+      if (procedureIds.length > 0) {
+        const { error: linkError } = await supabase
+          .from('procedure_resources')
+          .insert(procedureIds.map((procedureId) => ({ procedure_id: procedureId, resource_id: resourceId })));
+
+        if (linkError) throw linkError;
+      }
+
+      onSuccess();
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao salvar recurso');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20">
+        <h2 className="text-xl font-semibold text-text mb-6">{resource ? 'Editar Recurso' : 'Novo Recurso'}</h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Nome</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+              placeholder="Ex: Sala 2, Laser"
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Tipo</label>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as ResourceKind)}
+              className="w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+              disabled={loading}
+            >
+              {(Object.keys(RESOURCE_KIND_LABELS) as ResourceKind[]).map((value) => (
+                <option key={value} value={value}>
+                  {RESOURCE_KIND_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Procedimentos que exigem este recurso</label>
+            {procedures.length === 0 ? (
+              <p className="text-sm text-text-muted">Nenhum procedimento cadastrado</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto space-y-1 bg-champagne-nuvem rounded-lg p-3 border border-accent/30">
+                {procedures.map((procedure) => (
+                  <label key={procedure.id} className="flex items-center gap-2 text-sm text-text">
+                    <input
+                      type="checkbox"
+                      checked={procedureIds.includes(procedure.id)}
+                      onChange={() => toggleProcedure(procedure.id)}
+                      className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+                      disabled={loading}
+                    />
+                    {procedure.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+              disabled={loading}
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
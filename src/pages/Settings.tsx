@@ -0,0 +1,362 @@
+import { useEffect, useState } from 'react';
+import {
+  CANCELLATION_FEE_TYPE_LABELS,
+  CancellationFeeType,
+  CLINIC_TIME_ZONES,
+  ClinicSettings,
+  fetchClinicSettings,
+  REMINDER_CHANNEL_LABELS,
+  ReminderChannel,
+  updateClinicSettings,
+} from '../lib/settings';
+import { Loader2, Bell, Check, Globe, CalendarX, Building2, Users } from 'lucide-react';
+
+export default function Settings() {
+  const [settings, setSettings] = useState<ClinicSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  async function loadSettings() {
+    try {
+      setSettings(await fetchClinicSettings());
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function updateField<K extends keyof ClinicSettings>(field: K, value: ClinicSettings[K]) {
+    setSaved(false);
+    setSettings((current) => (current ? { ...current, [field]: value } : current));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!settings) return;
+
+    setError('');
+    setSaving(true);
+
+    try {
+      await updateClinicSettings({
+        reminder_hours_before: settings.reminder_hours_before,
+        reminder_channel: settings.reminder_channel,
+        public_booking_enabled: settings.public_booking_enabled,
+        public_booking_requires_approval: settings.public_booking_requires_approval,
+        public_booking_days_ahead: settings.public_booking_days_ahead,
+        cancellation_notice_hours: settings.cancellation_notice_hours,
+        cancellation_fee_type: settings.cancellation_fee_type,
+        cancellation_fee_value: settings.cancellation_fee_value,
+        clinic_name: settings.clinic_name.trim(),
+        clinic_address: settings.clinic_address?.trim() || null,
+        clinic_phone: settings.clinic_phone?.trim() || null,
+        timezone: settings.timezone,
+        share_patient_contacts: settings.share_patient_contacts,
+      });
+      setSaved(true);
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao salvar configurações');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (!settings) {
+    return <p className="text-text-muted">Não foi possível carregar as configurações.</p>;
+  }
+
+  const inputClass =
+    'w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-text">Configurações</h1>
+        <p className="text-text-muted mt-1">Preferências gerais da clínica</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="bg-background-card rounded-xl border border-accent/20 shadow-card p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-text flex items-center gap-2">
+            <Building2 className="w-5 h-5 text-primary" />
+            Dados da Clínica
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Nome</label>
+              <input
+                type="text"
+                value={settings.clinic_name}
+                onChange={(e) => updateField('clinic_name', e.target.value)}
+                className={inputClass}
+                required
+                disabled={saving}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Telefone</label>
+              <input
+                type="tel"
+                value={settings.clinic_phone || ''}
+                onChange={(e) => updateField('clinic_phone', e.target.value)}
+                className={inputClass}
+                disabled={saving}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Endereço</label>
+            <input
+              type="text"
+              value={settings.clinic_address || ''}
+              onChange={(e) => updateField('clinic_address', e.target.value)}
+              className={inputClass}
+              placeholder="Rua, número, bairro, cidade"
+              disabled={saving}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Fuso horário</label>
+            <select
+              value={settings.timezone}
+              onChange={(e) => updateField('timezone', e.target.value)}
+              className={inputClass}
+              disabled={saving}
+            >
+              {CLINIC_TIME_ZONES.map((zone) => (
+                <option key={zone.value} value={zone.value}>
+                  {zone.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-text-muted">
+            Nome, telefone e endereço são impressos na agenda do dia e nos comprovantes. Os horários dos agendamentos, o
+            dia de hoje e os lembretes seguem o fuso horário da clínica.
+          </p>
+        </div>
+
+        <div className="bg-background-card rounded-xl border border-accent/20 shadow-card p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-text flex items-center gap-2">
+            <Bell className="w-5 h-5 text-primary" />
+            Lembretes
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Enviar com antecedência de (horas)</label>
+              <input
+                type="number"
+                min="1"
+                value={settings.reminder_hours_before}
+                onChange={(e) => updateField('reminder_hours_before', Math.max(1, parseInt(e.target.value) || 1))}
+                className={inputClass}
+                required
+                disabled={saving}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Canal de envio</label>
+              <select
+                value={settings.reminder_channel}
+                onChange={(e) => updateField('reminder_channel', e.target.value as ReminderChannel)}
+                className={inputClass}
+                disabled={saving}
+              >
+                {Object.entries(REMINDER_CHANNEL_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <p className="text-xs text-text-muted">
+            O paciente recebe um link para confirmar ou cancelar o agendamento. A mudança de antecedência vale
+            para os próximos agendamentos criados ou remarcados.
+          </p>
+        </div>
+
+        <div className="bg-background-card rounded-xl border border-accent/20 shadow-card p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-text flex items-center gap-2">
+            <Globe className="w-5 h-5 text-primary" />
+            Agendamento Online
+          </h3>
+
+          <label className="flex items-center gap-2 text-sm text-text">
+            <input
+              type="checkbox"
+              checked={settings.public_booking_enabled}
+              onChange={(e) => updateField('public_booking_enabled', e.target.checked)}
+              className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+              disabled={saving}
+            />
+            Permitir que pacientes agendem pela internet
+          </label>
+
+          {settings.public_booking_enabled && (
+            <>
+              <p className="text-sm text-text-muted">
+                Link para os pacientes:{' '}
+                <span className="font-medium text-text select-all">{window.location.origin}/agendar</span>
+              </p>
+
+              <label className="flex items-center gap-2 text-sm text-text">
+                <input
+                  type="checkbox"
+                  checked={settings.public_booking_requires_approval}
+                  onChange={(e) => updateField('public_booking_requires_approval', e.target.checked)}
+                  className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+                  disabled={saving}
+                />
+                Exigir aprovação da equipe para agendamentos online
+              </label>
+
+              <div className="max-w-xs">
+                <label className="block text-sm font-medium text-text mb-2">Agendar com até (dias de antecedência)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={settings.public_booking_days_ahead}
+                  onChange={(e) => updateField('public_booking_days_ahead', Math.max(1, parseInt(e.target.value) || 1))}
+                  className={inputClass}
+                  required
+                  disabled={saving}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="bg-background-card rounded-xl border border-accent/20 shadow-card p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-text flex items-center gap-2">
+            <CalendarX className="w-5 h-5 text-primary" />
+            Política de Cancelamento
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Antecedência mínima (horas)</label>
+              <input
+                type="number"
+                min="0"
+                value={settings.cancellation_notice_hours}
+                onChange={(e) => updateField('cancellation_notice_hours', Math.max(0, parseInt(e.target.value) || 0))}
+                className={inputClass}
+                required
+                disabled={saving}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Tipo de taxa</label>
+              <select
+                value={settings.cancellation_fee_type}
+                onChange={(e) => updateField('cancellation_fee_type', e.target.value as CancellationFeeType)}
+                className={inputClass}
+                disabled={saving}
+              >
+                {Object.entries(CANCELLATION_FEE_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">
+                {settings.cancellation_fee_type === 'percent' ? 'Taxa (%)' : 'Taxa (R$)'}
+              </label>
+              <input
+                type="number"
+                min="0"
+                max={settings.cancellation_fee_type === 'percent' ? '100' : undefined}
+                step="0.01"
+                value={settings.cancellation_fee_value}
+                onChange={(e) => updateField('cancellation_fee_value', Math.max(0, parseFloat(e.target.value) || 0))}
+                className={inputClass}
+                required
+                disabled={saving}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-text-muted">
+            Cancelamentos feitos com menos antecedência geram uma cobrança pendente para o paciente, que aparece no
+            caixa do profissional. Deixe a antecedência ou a taxa em zero para não cobrar.
+          </p>
+        </div>
+
+        <div className="bg-background-card rounded-xl border border-accent/20 shadow-card p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-text flex items-center gap-2">
+            <Users className="w-5 h-5 text-primary" />
+            Pacientes
+          </h3>
+
+          <label className="flex items-center gap-2 text-sm text-text">
+            <input
+              type="checkbox"
+              checked={settings.share_patient_contacts}
+              onChange={(e) => updateField('share_patient_contacts', e.target.checked)}
+              className="w-4 h-4 text-primary bg-champagne-nuvem border-accent/30 rounded focus:ring-2 focus:ring-primary"
+              disabled={saving}
+            />
+            Todos os profissionais veem os dados de contato de todos os pacientes
+          </label>
+
+          <p className="text-xs text-text-muted">
+            Desligado, cada profissional vê apenas os pacientes de cuja equipe de cuidado faz parte. Ligado, os demais
+            veem só nome, telefone e e-mail. CPF, nascimento, endereço e notas clínicas ficam sempre restritos à equipe
+            de cuidado do paciente, formada por quem o cadastrou e por quem a equipe adicionar ou confirmar. Quem agenda
+            um paciente de fora da sua equipe entra como pendente até ser confirmado.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Salvando...' : 'Salvar configurações'}
+          </button>
+          {saved && (
+            <span className="flex items-center gap-1 text-sm text-green-700">
+              <Check className="w-4 h-4" />
+              Configurações salvas
+            </span>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,445 @@
+import { useEffect, useState } from 'react';
+import { AppointmentStatus, supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { clinicDateTime, formatDateString, todayString } from '../lib/dates';
+import { APPOINTMENT_ITEMS_SELECT, AppointmentItem, describeItems } from '../lib/appointmentItems';
+import AddTransactionModal from '../components/AddTransactionModal';
+import { Loader2, Clock, LogIn, Play, LogOut, DollarSign, CheckCircle2 } from 'lucide-react';
+
+interface BoardAppointment {
+  id: string;
+  professional_id: string;
+  appointment_time: string;
+  status: AppointmentStatus;
+  checked_in_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  patient?: { full_name: string };
+  procedure?: { name: string };
+  professional?: { full_name: string };
+  items?: AppointmentItem[];
+}
+
+interface Professional {
+  id: string;
+  full_name: string;
+}
+
+interface PaymentTarget {
+  closingId: string;
+  appointment: BoardAppointment;
+}
+
+interface BoardColumn {
+  title: string;
+  statuses: AppointmentStatus[];
+}
+
+const BOARD_COLUMNS: BoardColumn[] = [
+  { title: 'Aguardando chegada', statuses: ['scheduled', 'confirmed'] },
+  { title: 'Na recepção', statuses: ['checked_in'] },
+  { title: 'Em atendimento', statuses: ['in_progress'] },
+  { title: 'Finalizados', statuses: ['completed'] },
+];
+
+function minutesBetween(start: string | null, end: string | Date | null) {
+  if (!start || !end) return null;
+  return Math.max(0, Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000));
+}
+
+function formatClock(timestamp: string) {
+  return clinicDateTime(new Date(timestamp)).time;
+}
+
+function average(values: (number | null)[]) {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) return null;
+  return Math.round(present.reduce((sum, value) => sum + value, 0) / present.length);
+}
+
+export default function TodayBoard() {
+  const { user, isSuperAdmin } = useAuth();
+  const [appointments, setAppointments] = useState<BoardAppointment[]>([]);
+  const [paidIds, setPaidIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [selectedProfessional, setSelectedProfessional] = useState('');
+  const [professionals, setProfessionals] = useState<Professional[]>([]);
+  const [paymentTarget, setPaymentTarget] = useState<PaymentTarget | null>(null);
+  const [now, setNow] = useState(new Date());
+  const today = todayString();
+  const professionalFilter = !isSuperAdmin && user ? user.id : selectedProfessional;
+
+  useEffect(() => {
+    if (isSuperAdmin) {
+      loadProfessionals();
+    }
+    loadBoard();
+  }, [user, isSuperAdmin, selectedProfessional]);
+
+  // Keeps the waiting and in-service timers moving
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`today-board-${professionalFilter || 'all'}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'appointments',
+          ...(professionalFilter ? { filter: `professional_id=eq.${professionalFilter}` } : {}),
+        },
+        () => loadBoard(false)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, professionalFilter]);
+
+  async function loadProfessionals() {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name')
+        .eq('is_active', true)
+        .order('full_name');
+
+      if (error) throw error;
+      setProfessionals(data || []);
+    } catch (error) {
+      console.error('Error loading professionals:', error);
+    }
+  }
+
+  async function loadBoard(showLoading = true) {
+    try {
+      if (showLoading) setLoading(true);
+      let query = supabase
+        .from('appointments')
+        .select(`
+          id,
+          professional_id,
+          appointment_time,
+          status,
+          checked_in_at,
+          started_at,
+          completed_at,
+          patient:patient_contacts(full_name),
+          procedure:procedures(name),
+          professional:profiles!appointments_professional_id_fkey(full_name),
+          ${APPOINTMENT_ITEMS_SELECT}
+        `)
+        .eq('appointment_date', today)
+        .not('status', 'in', '(cancelled,no_show)')
+        .order('appointment_time');
+
+      if (professionalFilter) {
+        query = query.eq('professional_id', professionalFilter);
+      }
+
+      const { data, error } = await query.overrideTypes<BoardAppointment[], { merge: false }>();
+      if (error) throw error;
+
+      const completedIds = (data || []).filter((apt) => apt.status === 'completed').map((apt) => apt.id);
+      const { data: payments, error: paymentsError } = completedIds.length
+        ? await supabase.from('cash_register_transactions').select('appointment_id').in('appointment_id', completedIds)
+        : { data: [], error: null };
+
+      if (paymentsError) throw paymentsError;
+
+      setAppointments(data || []);
+      setPaidIds((payments || []).map((payment) => payment.appointment_id));
+    } catch (error) {
+      console.error('Error loading today board:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function updateStatus(appointment: BoardAppointment, status: AppointmentStatus) {
+    setUpdatingId(appointment.id);
+    try {
+      const { error } = await supabase
+        .from('appointments')
+        .update({ status })
+        .eq('id', appointment.id);
+
+      if (error) throw error;
+
+      await loadBoard(false);
+      if (status === 'completed') {
+        await openPayment(appointment);
+      }
+    } catch (error) {
+      console.error('Error updating status:', error);
+      alert((error as Error).message || 'Erro ao atualizar atendimento');
+    } finally {
+      setUpdatingId(null);
+    }
+  }
+
+  // Finds or opens today's cash register closing of the appointment's professional
+  async function openPayment(appointment: BoardAppointment) {
+    try {
+      const { data: existing, error: existingError } = await supabase
+        .from('cash_register_closings')
+        .select('id, is_finalized')
+        .eq('professional_id', appointment.professional_id)
+        .eq('closing_date', today)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+
+      if (existing?.is_finalized) {
+        alert('O caixa de hoje deste profissional já foi finalizado.');
+        return;
+      }
+
+      let closingId = existing?.id;
+      if (!closingId) {
+        const { data, error } = await supabase
+          .from('cash_register_closings')
+          .insert({
+            professional_id: appointment.professional_id,
+            closing_date: today,
+            total_amount: 0,
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        closingId = data.id as string;
+      }
+
+      setPaymentTarget({ closingId, appointment });
+    } catch (error) {
+      console.error('Error opening payment:', error);
+      alert((error as Error).message || 'Erro ao abrir o caixa');
+    }
+  }
+
+  const professionalStats = Object.values(
+    appointments.reduce((acc, apt) => {
+      const key = apt.professional_id;
+      acc[key] = acc[key] || { name: apt.professional?.full_name || '', visits: [] };
+      acc[key].visits.push(apt);
+      return acc;
+    }, {} as Record<string, { name: string; visits: BoardAppointment[] }>)
+  ).map(({ name, visits }) => ({
+    name,
+    completed: visits.filter((apt) => apt.status === 'completed').length,
+    averageWait: average(visits.map((apt) => minutesBetween(apt.checked_in_at, apt.started_at))),
+    averageService: average(visits.map((apt) => minutesBetween(apt.started_at, apt.completed_at))),
+  }));
+
+  function renderTimes(appointment: BoardAppointment) {
+    switch (appointment.status) {
+      case 'checked_in':
+        return (
+          appointment.checked_in_at &&
+          `Chegou às ${formatClock(appointment.checked_in_at)} · aguardando há ${minutesBetween(appointment.checked_in_at, now)} min`
+        );
+      case 'in_progress':
+        return (
+          appointment.started_at &&
+          `Início às ${formatClock(appointment.started_at)} · ${minutesBetween(appointment.started_at, now)} min em atendimento`
+        );
+      case 'completed': {
+        const wait = minutesBetween(appointment.checked_in_at, appointment.started_at);
+        const service = minutesBetween(appointment.started_at, appointment.completed_at);
+        return [wait !== null && `Espera ${wait} min`, service !== null && `Atendimento ${service} min`]
+          .filter(Boolean)
+          .join(' · ');
+      }
+      default:
+        return null;
+    }
+  }
+
+  function renderActions(appointment: BoardAppointment) {
+    const disabled = updatingId === appointment.id;
+    const buttonClass =
+      'flex items-center gap-1 px-2 py-1 text-white rounded-lg text-xs transition-colors disabled:opacity-50';
+
+    switch (appointment.status) {
+      case 'scheduled':
+      case 'confirmed':
+        return (
+          <button
+            onClick={() => updateStatus(appointment, 'checked_in')}
+            disabled={disabled}
+            className={`${buttonClass} bg-amber-500 hover:bg-amber-600`}
+          >
+            <LogIn className="w-3 h-3" />
+            Check-in
+          </button>
+        );
+      case 'checked_in':
+        return (
+          <button
+            onClick={() => updateStatus(appointment, 'in_progress')}
+            disabled={disabled}
+            className={`${buttonClass} bg-blue-600 hover:bg-blue-700`}
+          >
+            <Play className="w-3 h-3" />
+            Iniciar
+          </button>
+        );
+      case 'in_progress':
+        return (
+          <button
+            onClick={() => updateStatus(appointment, 'completed')}
+            disabled={disabled}
+            className={`${buttonClass} bg-green-600 hover:bg-green-700`}
+          >
+            <LogOut className="w-3 h-3" />
+            Checkout
+          </button>
+        );
+      case 'completed':
+        return paidIds.includes(appointment.id) ? (
+          <span className="flex items-center gap-1 text-xs text-green-700">
+            <CheckCircle2 className="w-3 h-3" />
+            Pago
+          </span>
+        ) : (
+          <button
+            onClick={() => openPayment(appointment)}
+            disabled={disabled}
+            className={`${buttonClass} bg-primary hover:bg-primary-hover`}
+          >
+            <DollarSign className="w-3 h-3" />
+            Registrar pagamento
+          </button>
+        );
+      default:
+        return null;
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-text">Hoje</h1>
+          <p className="text-text-muted mt-1">
+            {formatDateString(today, { weekday: 'long', day: '2-digit', month: 'long' })}
+          </p>
+        </div>
+        {isSuperAdmin && (
+          <select
+            value={selectedProfessional}
+            onChange={(e) => setSelectedProfessional(e.target.value)}
+            className="px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text"
+          >
+            <option value="">Todos os profissionais</option>
+            {professionals.map((prof) => (
+              <option key={prof.id} value={prof.id}>
+                {prof.full_name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {BOARD_COLUMNS.map((column) => {
+          const columnAppointments = appointments.filter((apt) => column.statuses.includes(apt.status));
+
+          return (
+            <div key={column.title} className="bg-background-card rounded-xl border border-accent/20 shadow-card p-4">
+              <h2 className="flex items-center justify-between text-sm font-semibold text-text mb-3">
+                {column.title}
+                <span className="px-2 py-0.5 rounded-full bg-champagne-nuvem text-xs text-text-muted">
+                  {columnAppointments.length}
+                </span>
+              </h2>
+
+              {columnAppointments.length === 0 ? (
+                <p className="text-xs text-text-muted">Nenhum paciente</p>
+              ) : (
+                <div className="space-y-2">
+                  {columnAppointments.map((apt) => (
+                    <div key={apt.id} className="bg-champagne-nuvem rounded-lg p-3 border border-accent/20 text-sm">
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <span className="flex items-center gap-1 font-semibold text-text">
+                          <Clock className="w-3 h-3" />
+                          {apt.appointment_time.substring(0, 5)}
+                        </span>
+                        {renderActions(apt)}
+                      </div>
+                      <p className="font-medium text-text">{apt.patient?.full_name}</p>
+                      <p className="text-xs text-text-muted truncate">
+                        {describeItems(apt.items) || apt.procedure?.name}
+                        {isSuperAdmin && apt.professional && ` · ${apt.professional.full_name}`}
+                      </p>
+                      {renderTimes(apt) && <p className="text-xs text-text-muted mt-1">{renderTimes(apt)}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {professionalStats.length > 0 && (
+        <div className="bg-background-card rounded-xl border border-accent/20 shadow-card p-6">
+          <h2 className="text-lg font-semibold text-text mb-4">Tempos do dia por profissional</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-text-muted border-b border-accent/20">
+                  <th className="pb-2 font-medium">Profissional</th>
+                  <th className="pb-2 font-medium">Atendidos</th>
+                  <th className="pb-2 font-medium">Espera média</th>
+                  <th className="pb-2 font-medium">Atendimento médio</th>
+                </tr>
+              </thead>
+              <tbody>
+                {professionalStats.map((stat) => (
+                  <tr key={stat.name} className="border-b border-accent/10 last:border-0 text-text">
+                    <td className="py-2">{stat.name}</td>
+                    <td className="py-2">{stat.completed}</td>
+                    <td className="py-2">{stat.averageWait !== null ? `${stat.averageWait} min` : '—'}</td>
+                    <td className="py-2">{stat.averageService !== null ? `${stat.averageService} min` : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {paymentTarget && (
+        <AddTransactionModal
+          closingId={paymentTarget.closingId}
+          professionalId={paymentTarget.appointment.professional_id}
+          defaultAppointmentId={paymentTarget.appointment.id}
+          onClose={() => setPaymentTarget(null)}
+          onSuccess={() => {
+            setPaymentTarget(null);
+            loadBoard(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
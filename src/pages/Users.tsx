@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
-import { Plus, Edit2, Loader2, Search, Power, Trash2 } from 'lucide-react';
+import WorkingHoursEditor from '../components/WorkingHoursEditor';
+import { Plus, Edit2, Loader2, Search, Power, Trash2, Clock, X } from 'lucide-react';
 
 interface Profile {
   id: string;
@@ -18,6 +19,7 @@ export default function Users() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingUser, setEditingUser] = useState<Profile | null>(null);
   const [deletingUser, setDeletingUser] = useState<Profile | null>(null);
+  const [scheduleUser, setScheduleUser] = useState<Profile | null>(null);
 
   useEffect(() => {
     loadUsers();
@@ -178,6 +180,13 @@ export default function Users() {
                           <Edit2 className="w-4 h-4" />
                           Editar
                         </button>
+                        <button
+                          onClick={() => setScheduleUser(user)}
+                          className="inline-flex items-center gap-2 px-3 py-1.5 text-sm text-text hover:bg-background rounded-lg transition-colors"
+                          title="Horários de atendimento"
+                        >
+                          <Clock className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => handleToggleStatus(user.id, user.is_active)}
                           className="inline-flex items-center gap-2 px-3 py-1.5 text-sm text-text hover:bg-background rounded-lg transition-colors"
@@ -223,6 +232,13 @@ export default function Users() {
         />
       )}
 
+      {scheduleUser && (
+        <WorkingHoursModal
+          user={scheduleUser}
+          onClose={() => setScheduleUser(null)}
+        />
+      )}
+
       {deletingUser && (
         <DeleteConfirmModal
           user={deletingUser}
@@ -379,6 +395,31 @@ function EditUserModal({ user, onClose, onSuccess }: EditUserModalProps) {
   );
 }
 
+interface WorkingHoursModalProps {
+  user: Profile;
+  onClose: () => void;
+}
+
+function WorkingHoursModal({ user, onClose }: WorkingHoursModalProps) {
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-2xl w-full p-6 border border-accent/20 my-8">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-text">Horários de Atendimento</h2>
+            <p className="text-text-muted mt-1">{user.full_name}</p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-champagne-nuvem rounded-lg transition-colors">
+            <X className="w-5 h-5 text-text-muted" />
+          </button>
+        </div>
+
+        <WorkingHoursEditor professionalId={user.id} />
+      </div>
+    </div>
+  );
+}
+
 interface DeleteConfirmModalProps {
   user: Profile;
   onClose: () => void;
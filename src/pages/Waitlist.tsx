@@ -0,0 +1,474 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { WAITLIST_SELECT, WaitlistEntry } from '../lib/waitlist';
+import { WEEKDAY_LABELS } from '../lib/availability';
+import { addDays, formatDateString, todayString } from '../lib/dates';
+import { formatPhone } from '../lib/brazil';
+import { Plus, Loader2, Search, Phone, Clock, Calendar, Trash2, FileText } from 'lucide-react';
+
+interface Option {
+  id: string;
+  full_name: string;
+}
+
+interface ProcedureOption {
+  id: string;
+  name: string;
+  duration_minutes: number;
+}
+
+type StatusFilter = 'waiting' | 'booked' | 'removed';
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'waiting', label: 'Aguardando' },
+  { value: 'booked', label: 'Agendados' },
+  { value: 'removed', label: 'Removidos' },
+];
+
+export default function Waitlist() {
+  const { user, isSuperAdmin } = useAuth();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('waiting');
+  const [showCreateModal, setShowCreateModal] = useState(false);
+
+  useEffect(() => {
+    loadEntries();
+  }, [user, isSuperAdmin, statusFilter]);
+
+  async function loadEntries() {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('waitlist_entries')
+        .select(WAITLIST_SELECT)
+        .eq('status', statusFilter)
+        .order('created_at');
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error loading waitlist:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function removeEntry(id: string) {
+    if (!confirm('Remover este paciente da lista de espera?')) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('waitlist_entries')
+        .update({ status: 'removed' })
+        .eq('id', id);
+
+      if (error) throw error;
+      loadEntries();
+    } catch (error) {
+      console.error('Error removing waitlist entry:', error);
+    }
+  }
+
+  const filteredEntries = entries.filter((entry) =>
+    (entry.patient?.full_name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (entry.procedure?.name || '').toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-text">Lista de Espera</h1>
+          <p className="text-text-muted mt-1">Pacientes aguardando um horário livre</p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors shadow-soft"
+        >
+          <Plus className="w-5 h-5" />
+          Adicionar
+        </button>
+      </div>
+
+      <div className="bg-background-card rounded-xl border border-accent/20 shadow-card">
+        <div className="p-6 border-b border-accent/20 flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-text-muted" />
+            <input
+              type="text"
+              placeholder="Buscar por paciente ou procedimento..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text placeholder-text-muted"
+            />
+          </div>
+          <div className="flex rounded-lg border border-accent/30 overflow-hidden">
+            {STATUS_FILTERS.map((filter) => (
+              <button
+                key={filter.value}
+                onClick={() => setStatusFilter(filter.value)}
+                className={`px-4 py-2 text-sm transition-colors ${
+                  statusFilter === filter.value
+                    ? 'bg-primary text-white'
+                    : 'bg-champagne-nuvem text-text hover:bg-background'
+                }`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          <div className="p-12 text-center">
+            <p className="text-text-muted">
+              {searchTerm ? 'Nenhum paciente encontrado' : 'Nenhum paciente na lista'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-6">
+            {filteredEntries.map((entry) => (
+              <div
+                key={entry.id}
+                className="bg-champagne-nuvem rounded-lg p-5 border border-accent/20 hover:shadow-soft transition-all"
+              >
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <h3 className="font-semibold text-text text-lg">{entry.patient?.full_name}</h3>
+                    <p className="text-sm text-text-muted">
+                      {entry.procedure?.name} · {entry.professional?.full_name || 'Qualquer profissional'}
+                    </p>
+                  </div>
+                  {entry.status === 'waiting' && (
+                    <button
+                      onClick={() => removeEntry(entry.id)}
+                      className="p-1.5 hover:bg-background-card rounded-lg transition-colors text-red-600"
+                      title="Remover da lista"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                <div className="space-y-2 text-sm text-text-muted">
+                  {entry.patient?.phone && (
+                    <div className="flex items-center gap-2">
+                      <Phone className="w-4 h-4" />
+                      <span>{formatPhone(entry.patient.phone)}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <Calendar className="w-4 h-4" />
+                    <span>
+                      {formatDateString(entry.earliest_date)} a {formatDateString(entry.latest_date)}
+                      {entry.weekdays &&
+                        entry.weekdays.length > 0 &&
+                        ` · ${entry.weekdays.map((day) => WEEKDAY_LABELS[day].substring(0, 3)).join(', ')}`}
+                    </span>
+                  </div>
+                  {(entry.preferred_start_time || entry.preferred_end_time) && (
+                    <div className="flex items-center gap-2">
+                      <Clock className="w-4 h-4" />
+                      <span>
+                        {entry.preferred_start_time ? entry.preferred_start_time.substring(0, 5) : '—'} às{' '}
+                        {entry.preferred_end_time ? entry.preferred_end_time.substring(0, 5) : '—'}
+                      </span>
+                    </div>
+                  )}
+                  {entry.notes && (
+                    <div className="flex items-start gap-2 mt-3 pt-3 border-t border-accent/20">
+                      <FileText className="w-4 h-4 mt-0.5" />
+                      <span>{entry.notes}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showCreateModal && (
+        <CreateWaitlistEntryModal
+          onClose={() => setShowCreateModal(false)}
+          onSuccess={() => {
+            setShowCreateModal(false);
+            loadEntries();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CreateWaitlistEntryModalProps {
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+function CreateWaitlistEntryModal({ onClose, onSuccess }: CreateWaitlistEntryModalProps) {
+  const { user, isSuperAdmin } = useAuth();
+  const today = todayString();
+  const [patientId, setPatientId] = useState('');
+  const [procedureId, setProcedureId] = useState('');
+  const [professionalId, setProfessionalId] = useState(isSuperAdmin ? '' : user?.id || '');
+  const [earliestDate, setEarliestDate] = useState(today);
+  const [latestDate, setLatestDate] = useState(addDays(today, 30));
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const [patients, setPatients] = useState<Option[]>([]);
+  const [procedures, setProcedures] = useState<ProcedureOption[]>([]);
+  const [professionals, setProfessionals] = useState<Option[]>([]);
+
+  useEffect(() => {
+    loadOptions();
+  }, [isSuperAdmin]);
+
+  async function loadOptions() {
+    try {
+      const [patientsResult, proceduresResult, professionalsResult] = await Promise.all([
+        supabase.from('patient_contacts').select('id, full_name').is('archived_at', null).order('full_name'),
+        supabase.from('procedures').select('id, name, duration_minutes').eq('is_active', true).order('name'),
+        supabase.from('profiles').select('id, full_name').eq('is_active', true).order('full_name'),
+      ]);
+
+      if (patientsResult.error) throw patientsResult.error;
+      if (proceduresResult.error) throw proceduresResult.error;
+      if (professionalsResult.error) throw professionalsResult.error;
+
+      setPatients(patientsResult.data || []);
+      setProcedures(proceduresResult.data || []);
+      setProfessionals(professionalsResult.data || []);
+    } catch (error) {
+      console.error('Error loading waitlist options:', error);
+    }
+  }
+
+  function toggleWeekday(weekday: number) {
+    setWeekdays((current) =>
+      current.includes(weekday) ? current.filter((day) => day !== weekday) : [...current, weekday].sort((a, b) => a - b)
+    );
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (startTime && endTime && startTime >= endTime) {
+      setError('O horário final deve ser posterior ao inicial.');
+      return;
+    }
+
+    setError('');
+    setLoading(true);
+
+    try {
+      const { error: insertError } = await supabase.from('waitlist_entries').insert({
+        patient_id: patientId,
+        procedure_id: procedureId,
+        professional_id: professionalId || null,
+        earliest_date: earliestDate,
+        latest_date: latestDate,
+        preferred_start_time: startTime || null,
+        preferred_end_time: endTime || null,
+        weekdays: weekdays.length > 0 ? weekdays : null,
+        notes: notes || null,
+        created_by: user?.id,
+      });
+
+      if (insertError) throw insertError;
+
+      onSuccess();
+    } catch (error) {
+      setError((error as Error).message || 'Erro ao adicionar à lista de espera');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const inputClass =
+    'w-full px-4 py-2 bg-champagne-nuvem border border-accent/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-text';
+
+  return (
+    <div className="fixed inset-0 bg-grafite-rosado/50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-background-card rounded-2xl shadow-soft-lg max-w-md w-full p-6 border border-accent/20 my-8">
+        <h2 className="text-xl font-semibold text-text mb-6">Adicionar à Lista de Espera</h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Paciente</label>
+            <select
+              value={patientId}
+              onChange={(e) => setPatientId(e.target.value)}
+              className={inputClass}
+              required
+              disabled={loading}
+            >
+              <option value="">Selecione um paciente</option>
+              {patients.map((patient) => (
+                <option key={patient.id} value={patient.id}>
+                  {patient.full_name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Procedimento</label>
+            <select
+              value={procedureId}
+              onChange={(e) => setProcedureId(e.target.value)}
+              className={inputClass}
+              required
+              disabled={loading}
+            >
+              <option value="">Selecione um procedimento</option>
+              {procedures.map((procedure) => (
+                <option key={procedure.id} value={procedure.id}>
+                  {procedure.name} ({procedure.duration_minutes} min)
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Profissional preferido</label>
+            <select
+              value={professionalId}
+              onChange={(e) => setProfessionalId(e.target.value)}
+              className={inputClass}
+              disabled={loading}
+            >
+              <option value="">Qualquer profissional</option>
+              {professionals
+                .filter((prof) => isSuperAdmin || prof.id === user?.id)
+                .map((prof) => (
+                  <option key={prof.id} value={prof.id}>
+                    {prof.full_name}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">A partir de</label>
+              <input
+                type="date"
+                value={earliestDate}
+                onChange={(e) => setEarliestDate(e.target.value)}
+                className={inputClass}
+                required
+                disabled={loading}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Até</label>
+              <input
+                type="date"
+                value={latestDate}
+                min={earliestDate}
+                onChange={(e) => setLatestDate(e.target.value)}
+                className={inputClass}
+                required
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Das (opcional)</label>
+              <input
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className={inputClass}
+                disabled={loading}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-text mb-2">Até (opcional)</label>
+              <input
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className={inputClass}
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Dias da semana (opcional)</label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <button
+                  key={weekday}
+                  type="button"
+                  onClick={() => toggleWeekday(weekday)}
+                  className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                    weekdays.includes(weekday)
+                      ? 'bg-primary text-white border-primary'
+                      : 'bg-champagne-nuvem text-text border-accent/30 hover:bg-background'
+                  }`}
+                  disabled={loading}
+                >
+                  {label.substring(0, 3)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text mb-2">Observações (opcional)</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className={`${inputClass} resize-none`}
+              rows={2}
+              disabled={loading}
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-accent/30 text-text hover:bg-champagne-nuvem rounded-lg transition-colors"
+              disabled={loading}
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-primary hover:bg-primary-hover text-white rounded-lg transition-colors disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+// Calendar export shared by the ical-feed Edge Function and the app, which
+// re-exports it from src/lib/ical.ts. Keep it free of Deno and browser APIs so
+// both can import it.
+
+export interface CalendarAppointment {
+  id: string;
+  appointment_date: string;
+  appointment_time: string;
+  duration_minutes: number;
+  status: string;
+  patient?: { full_name: string } | null;
+  procedure?: { name: string } | null;
+}
+
+// Same as the helpers in src/lib/dates.ts; the Edge Functions cannot import from src/
+function wallClockMs(dateStr: string, time: string) {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes || 0);
+}
+
+function zonedDateTime(instant: Date, timeZone: string) {
+  const parts: Record<string, string> = {};
+  const formatter = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  });
+
+  for (const part of formatter.formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+// Instant at which the clock in the timezone shows the date and time; a time
+// skipped when the clocks go forward is moved forward by the gap
+function clinicInstant(dateStr: string, time: string, timeZone: string) {
+  const target = wallClockMs(dateStr, time);
+  const settle = (guess: number) => {
+    const shown = zonedDateTime(new Date(guess), timeZone);
+    return guess + target - wallClockMs(shown.date, shown.time);
+  };
+
+  const first = settle(target);
+  const second = settle(first);
+  const shown = zonedDateTime(new Date(second), timeZone);
+
+  if (shown.date === dateStr && shown.time === time) return new Date(second);
+  return new Date(Math.max(first, second));
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets must be folded (RFC 5545, 3.1)
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+}
+
+function eventStatus(status: string) {
+  switch (status) {
+    case 'confirmed':
+    case 'checked_in':
+    case 'in_progress':
+    case 'completed':
+      return 'CONFIRMED';
+    case 'cancelled':
+    case 'no_show':
+      return 'CANCELLED';
+    default:
+      return 'TENTATIVE';
+  }
+}
+
+// Events are written in UTC, so calendar apps place them right whatever the
+// clinic timezone is
+export function buildCalendar(appointments: CalendarAppointment[], calendarName: string, timeZone: string) {
+  const stamp = formatUtc(new Date());
+
+  const events = appointments.flatMap((apt) => {
+    const start = clinicInstant(apt.appointment_date, apt.appointment_time, timeZone);
+    const end = new Date(start.getTime() + apt.duration_minutes * 60000);
+    const firstName = apt.patient?.full_name.split(' ')[0] || 'Paciente';
+    const procedure = apt.procedure?.name || 'Atendimento';
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${apt.id}@missbelle`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(start)}`,
+      `DTEND:${formatUtc(end)}`,
+      `SUMMARY:${escapeText(`${procedure} - ${firstName}`)}`,
+      `DESCRIPTION:${escapeText(`Paciente: ${firstName}\nProcedimento: ${procedure}\nDuração: ${apt.duration_minutes} min`)}`,
+      `STATUS:${eventStatus(apt.status)}`,
+      'END:VEVENT',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Miss Belle//Agenda//PT-BR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...events,
+    'END:VCALENDAR',
+  ]
+    .map(foldLine)
+    .join('\r\n') + '\r\n';
+}
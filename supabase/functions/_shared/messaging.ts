@@ -0,0 +1,69 @@
+// Channel adapters used to deliver patient messages. Each channel is a small
+// object implementing ChannelAdapter, so a new provider only needs a new adapter.
+
+export type ChannelName = 'log' | 'whatsapp' | 'sms' | 'email';
+
+export interface OutgoingMessage {
+  to: { name: string; phone: string | null; email: string | null };
+  subject: string;
+  body: string;
+}
+
+export interface ChannelAdapter {
+  name: ChannelName;
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+// Development adapter: only writes the message to the function logs
+export const logAdapter: ChannelAdapter = {
+  name: 'log',
+  async send(message) {
+    console.log(`[messaging] to ${message.to.name}: ${message.subject}\n${message.body}`);
+  },
+};
+
+// Posts the message to a provider gateway (MESSAGING_WEBHOOK_URL), which is
+// responsible for the actual WhatsApp/SMS/email delivery.
+export function createWebhookAdapter(
+  channel: Exclude<ChannelName, 'log'>,
+  url: string,
+  apiKey?: string
+): ChannelAdapter {
+  return {
+    name: channel,
+    async send(message) {
+      const recipient = channel === 'email' ? message.to.email : message.to.phone;
+      if (!recipient) {
+        throw new Error(`Paciente sem ${channel === 'email' ? 'e-mail' : 'telefone'} cadastrado`);
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          channel,
+          to: recipient,
+          name: message.to.name,
+          subject: message.subject,
+          body: message.body,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Falha no envio (${response.status}): ${await response.text()}`);
+      }
+    },
+  };
+}
+
+// Falls back to the log adapter when no provider is configured
+export function getChannelAdapter(channel: ChannelName): ChannelAdapter {
+  const url = Deno.env.get('MESSAGING_WEBHOOK_URL');
+  if (channel === 'log' || !url) {
+    return logAdapter;
+  }
+  return createWebhookAdapter(channel, url, Deno.env.get('MESSAGING_WEBHOOK_API_KEY'));
+}
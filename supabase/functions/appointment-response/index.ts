@@ -0,0 +1,149 @@
+// Confirm/cancel page linked from the reminder messages.
+//   GET  ?token=...                 shows the appointment and the two options
+//   POST token=...&action=confirm   records the patient answer
+// Link previews fetch the GET page only, so nothing changes until the patient
+// presses a button. Deploy with --no-verify-jwt: patients have no session.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+interface ReminderWithAppointment {
+  id: string;
+  response: string | null;
+  appointment: {
+    id: string;
+    appointment_date: string;
+    appointment_time: string;
+    status: string;
+    patient: { full_name: string } | null;
+    procedure: { name: string } | null;
+  } | null;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDate(date: string) {
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+function page(title: string, content: string, status = 200) {
+  return new Response(
+    `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)} - Miss Belle</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #faf6f4; color: #4a3f42; margin: 0; padding: 24px; }
+    main { max-width: 420px; margin: 40px auto; background: #fff; border-radius: 16px; padding: 24px; box-shadow: 0 4px 16px rgba(0,0,0,.06); }
+    h1 { font-size: 20px; margin-top: 0; }
+    button { width: 100%; padding: 12px; border: 0; border-radius: 8px; font-size: 16px; margin-top: 12px; cursor: pointer; }
+    .confirm { background: #c9a19b; color: #fff; }
+    .cancel { background: #eee; color: #4a3f42; }
+  </style>
+</head>
+<body><main><h1>${escapeHtml(title)}</h1>${content}</main></body>
+</html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
+
+Deno.serve(async (req) => {
+  const params = req.method === 'POST'
+    ? new URLSearchParams(await req.text())
+    : new URL(req.url).searchParams;
+  const token = params.get('token');
+
+  if (!token) {
+    return page('Link inválido', '<p>O link está incompleto.</p>', 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data, error } = await supabase
+    .from('appointment_reminders')
+    .select(`
+      id,
+      response,
+      appointment:appointments(
+        id,
+        appointment_date,
+        appointment_time,
+        status,
+        patient:patients(full_name),
+        procedure:procedures(name)
+      )
+    `)
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading reminder:', error);
+    return page('Erro', '<p>Não foi possível carregar o agendamento. Tente novamente.</p>', 500);
+  }
+
+  const reminder = data as unknown as ReminderWithAppointment | null;
+  const appointment = reminder?.appointment;
+  if (!reminder || !appointment) {
+    return page('Link inválido', '<p>Este link não é mais válido.</p>', 404);
+  }
+
+  const details = `<p>${escapeHtml(appointment.procedure?.name || 'Atendimento')} em
+    <strong>${formatDate(appointment.appointment_date)} às ${appointment.appointment_time.substring(0, 5)}</strong></p>`;
+
+  if (appointment.status !== 'scheduled' && appointment.status !== 'confirmed') {
+    return page('Agendamento encerrado', `${details}<p>Este agendamento não pode mais ser alterado por aqui.</p>`);
+  }
+
+  if (req.method !== 'POST') {
+    const firstName = escapeHtml(appointment.patient?.full_name.split(' ')[0] || '');
+    return page(
+      `Olá, ${firstName}!`,
+      `${details}
+      <form method="post">
+        <input type="hidden" name="token" value="${escapeHtml(token)}">
+        <button class="confirm" name="action" value="confirm">Confirmar presença</button>
+        <button class="cancel" name="action" value="cancel">Cancelar agendamento</button>
+      </form>`
+    );
+  }
+
+  const action = params.get('action');
+  if (action !== 'confirm' && action !== 'cancel') {
+    return page('Link inválido', '<p>Opção desconhecida.</p>', 400);
+  }
+
+  // Cancelling goes through cancel_appointment so late answers are charged per the clinic policy
+  const { error: updateError } = action === 'confirm'
+    ? await supabase.from('appointments').update({ status: 'confirmed' }).eq('id', appointment.id)
+    : await supabase.rpc('cancel_appointment', {
+      p_appointment_id: appointment.id,
+      p_reason: 'Cancelado pelo paciente (lembrete)',
+    });
+
+  if (updateError) {
+    console.error('Error updating appointment:', updateError);
+    return page('Erro', '<p>Não foi possível registrar sua resposta. Tente novamente.</p>', 500);
+  }
+
+  await supabase
+    .from('appointment_reminders')
+    .update({
+      response: action === 'confirm' ? 'confirmed' : 'cancelled',
+      responded_at: new Date().toISOString(),
+    })
+    .eq('id', reminder.id);
+
+  return action === 'confirm'
+    ? page('Presença confirmada', `${details}<p>Obrigada! Esperamos você.</p>`)
+    : page('Agendamento cancelado', `${details}<p>Seu agendamento foi cancelado. Entre em contato para remarcar.</p>`);
+});
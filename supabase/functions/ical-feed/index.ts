@@ -0,0 +1,86 @@
+// Serves a professional's appointments as an iCalendar subscription feed:
+//   GET /functions/v1/ical-feed?token=<calendar_feed_tokens.token>
+// Calendar apps cannot send a Supabase JWT, so deploy with --no-verify-jwt.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { buildCalendar } from '../_shared/ical.ts';
+
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 180;
+
+// Days from today, with today read on the clinic clock
+function offsetDate(days: number, timeZone: string) {
+  const [year, month, day] = new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date()).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) {
+    return new Response('Missing token', { status: 400 });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data: feedToken, error: tokenError } = await supabase
+    .from('calendar_feed_tokens')
+    .select('id, professional_id, revoked_at, professional:profiles(full_name)')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (tokenError) {
+    console.error('Error loading feed token:', tokenError);
+    return new Response('Internal error', { status: 500 });
+  }
+
+  if (!feedToken || feedToken.revoked_at) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const { data: settings } = await supabase.from('clinic_settings').select('timezone').single();
+  const timeZone = settings?.timezone || 'America/Sao_Paulo';
+
+  const { data: appointments, error: appointmentsError } = await supabase
+    .from('appointments')
+    .select(`
+      id,
+      appointment_date,
+      appointment_time,
+      duration_minutes,
+      status,
+      patient:patients(full_name),
+      procedure:procedures(name)
+    `)
+    .eq('professional_id', feedToken.professional_id)
+    .gte('appointment_date', offsetDate(-PAST_DAYS, timeZone))
+    .lte('appointment_date', offsetDate(FUTURE_DAYS, timeZone))
+    .order('appointment_date')
+    .order('appointment_time');
+
+  if (appointmentsError) {
+    console.error('Error loading appointments:', appointmentsError);
+    return new Response('Internal error', { status: 500 });
+  }
+
+  await supabase
+    .from('calendar_feed_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', feedToken.id);
+
+  const professional = feedToken.professional as { full_name: string } | null;
+  const calendar = buildCalendar(
+    appointments || [],
+    `Miss Belle - ${professional?.full_name || 'Agenda'}`,
+    timeZone
+  );
+
+  return new Response(calendar, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="agenda.ics"',
+      'Cache-Control': 'no-cache',
+    },
+  });
+});
@@ -0,0 +1,122 @@
+// Sends the appointment reminders that are due. Meant to be called every few
+// minutes by a scheduler (e.g. pg_cron + pg_net) with the service role key.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { ChannelName, getChannelAdapter } from '../_shared/messaging.ts';
+
+const BATCH_SIZE = 50;
+
+interface DueReminder {
+  id: string;
+  token: string;
+  appointment: {
+    appointment_date: string;
+    appointment_time: string;
+    patient: { full_name: string; phone: string | null; email: string | null } | null;
+    procedure: { name: string } | null;
+    professional: { full_name: string } | null;
+  } | null;
+}
+
+function formatDate(date: string) {
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+Deno.serve(async () => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: settings } = await supabase
+    .from('clinic_settings')
+    .select('reminder_channel')
+    .maybeSingle();
+
+  const adapter = getChannelAdapter((settings?.reminder_channel as ChannelName) || 'log');
+
+  // Claiming marks the batch as 'sending', so a run that overlaps this one
+  // cannot pick the same reminders
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_due_reminders', {
+    p_limit: BATCH_SIZE,
+  });
+
+  if (claimError) {
+    console.error('Error claiming due reminders:', claimError);
+    return new Response(JSON.stringify({ error: claimError.message }), { status: 500 });
+  }
+
+  const claimedIds = ((claimed || []) as { id: string }[]).map((reminder) => reminder.id);
+
+  const { data, error } = await supabase
+    .from('appointment_reminders')
+    .select(`
+      id,
+      token,
+      appointment:appointments(
+        appointment_date,
+        appointment_time,
+        patient:patients(full_name, phone, email),
+        procedure:procedures(name),
+        professional:profiles!appointments_professional_id_fkey(full_name)
+      )
+    `)
+    .in('id', claimedIds)
+    .order('send_at');
+
+  if (error) {
+    console.error('Error loading due reminders:', error);
+    return new Response(JSON.stringify({ error: error.message }), { status: 500 });
+  }
+
+  const reminders = (data || []) as unknown as DueReminder[];
+  let sent = 0;
+  let failed = 0;
+
+  for (const reminder of reminders) {
+    const appointment = reminder.appointment;
+    if (!appointment?.patient) {
+      await supabase
+        .from('appointment_reminders')
+        .update({ status: 'failed', error: 'Agendamento sem paciente' })
+        .eq('id', reminder.id);
+      failed++;
+      continue;
+    }
+
+    const responseUrl = `${supabaseUrl}/functions/v1/appointment-response?token=${reminder.token}`;
+    const firstName = appointment.patient.full_name.split(' ')[0];
+
+    try {
+      await adapter.send({
+        to: {
+          name: appointment.patient.full_name,
+          phone: appointment.patient.phone,
+          email: appointment.patient.email,
+        },
+        subject: 'Lembrete de agendamento - Miss Belle',
+        body: [
+          `Olá, ${firstName}!`,
+          `Lembramos do seu horário de ${appointment.procedure?.name || 'atendimento'} em ` +
+            `${formatDate(appointment.appointment_date)} às ${appointment.appointment_time.substring(0, 5)}` +
+            (appointment.professional ? ` com ${appointment.professional.full_name}.` : '.'),
+          `Confirme ou cancele sua presença: ${responseUrl}`,
+        ].join('\n\n'),
+      });
+
+      await supabase
+        .from('appointment_reminders')
+        .update({ status: 'sent', channel: adapter.name, sent_at: new Date().toISOString(), error: null })
+        .eq('id', reminder.id);
+      sent++;
+    } catch (sendError) {
+      await supabase
+        .from('appointment_reminders')
+        .update({ status: 'failed', channel: adapter.name, error: (sendError as Error).message })
+        .eq('id', reminder.id);
+      failed++;
+    }
+  }
+
+  return new Response(JSON.stringify({ sent, failed }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+});
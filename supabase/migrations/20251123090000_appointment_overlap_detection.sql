@@ -0,0 +1,119 @@
+/*
+  # Duration-aware appointment overlap detection
+
+  1. Changes
+    - Add `duration_minutes` to `appointments`, filled from the procedure when not provided
+    - Backfill `duration_minutes` for existing appointments
+    - Replace the UNIQUE (professional_id, appointment_date, appointment_time) constraint
+      with an exclusion constraint on the appointment time range, so two appointments of
+      the same professional can never overlap, even when created at the same moment
+
+  2. Notes
+    - Cancelled appointments do not take part in the overlap check
+    - Double bookings that already exist would make the constraint fail, so they
+      are resolved first: completed appointments win, then the one booked first.
+      The others are cancelled with the reason "Conflito de horário" and the
+      number of cancelled appointments is reported as a NOTICE. Review them with
+      `SELECT * FROM appointments WHERE cancellation_reason LIKE 'Conflito de horário%'`.
+    - Overlap violations raise SQLSTATE 23P01 (exclusion_violation)
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS duration_minutes integer CHECK (duration_minutes > 0);
+
+UPDATE appointments
+SET duration_minutes = procedures.duration_minutes
+FROM procedures
+WHERE procedures.id = appointments.procedure_id
+AND appointments.duration_minutes IS NULL;
+
+ALTER TABLE appointments
+  ALTER COLUMN duration_minutes SET NOT NULL;
+
+-- Fill duration from the procedure when the client does not send it
+CREATE OR REPLACE FUNCTION set_appointment_duration()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.duration_minutes IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.procedure_id IS DISTINCT FROM OLD.procedure_id
+        AND NEW.duration_minutes = OLD.duration_minutes) THEN
+    SELECT duration_minutes INTO NEW.duration_minutes
+    FROM procedures
+    WHERE id = NEW.procedure_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_appointments_duration BEFORE INSERT OR UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION set_appointment_duration();
+
+-- Drop the exact-time unique constraint (its generated name may be truncated)
+DO $$
+DECLARE
+  constraint_name text;
+BEGIN
+  FOR constraint_name IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'appointments'::regclass
+    AND contype = 'u'
+  LOOP
+    EXECUTE format('ALTER TABLE appointments DROP CONSTRAINT %I', constraint_name);
+  END LOOP;
+END;
+$$;
+
+-- Resolve existing double bookings before adding the constraint
+DO $$
+DECLARE
+  apt record;
+  kept_ids uuid[] := '{}';
+  cancelled_count integer := 0;
+BEGIN
+  FOR apt IN
+    SELECT id, professional_id, appointment_date, appointment_time, duration_minutes
+    FROM appointments
+    WHERE status <> 'cancelled'
+    ORDER BY (status = 'completed') DESC, created_at, id
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM appointments other
+      WHERE other.id = ANY(kept_ids)
+      AND other.professional_id = apt.professional_id
+      AND tsrange(
+        other.appointment_date + other.appointment_time,
+        other.appointment_date + other.appointment_time + other.duration_minutes * interval '1 minute'
+      ) && tsrange(
+        apt.appointment_date + apt.appointment_time,
+        apt.appointment_date + apt.appointment_time + apt.duration_minutes * interval '1 minute'
+      )
+    ) THEN
+      UPDATE appointments
+      SET status = 'cancelled',
+          cancellation_reason = 'Conflito de horário: sobreposto a outro agendamento do profissional'
+      WHERE id = apt.id;
+      cancelled_count := cancelled_count + 1;
+    ELSE
+      kept_ids := array_append(kept_ids, apt.id);
+    END IF;
+  END LOOP;
+
+  IF cancelled_count > 0 THEN
+    RAISE NOTICE 'Cancelled % overlapping appointments before adding appointments_no_overlap', cancelled_count;
+  END IF;
+END;
+$$;
+
+ALTER TABLE appointments
+  ADD CONSTRAINT appointments_no_overlap
+  EXCLUDE USING gist (
+    professional_id WITH =,
+    tsrange(
+      appointment_date + appointment_time,
+      appointment_date + appointment_time + duration_minutes * interval '1 minute'
+    ) WITH &&
+  )
+  WHERE (status <> 'cancelled');
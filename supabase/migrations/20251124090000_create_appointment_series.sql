@@ -0,0 +1,104 @@
+/*
+  # Recurring appointment series
+
+  1. New Tables
+    - `appointment_series`
+      - `id` (uuid, PK)
+      - `patient_id` (uuid, FK to patients)
+      - `procedure_id` (uuid, FK to procedures)
+      - `professional_id` (uuid, FK to profiles)
+      - `start_date` (date)
+      - `appointment_time` (time)
+      - `interval_value` (integer, repeat every N units)
+      - `interval_unit` (text: 'day' or 'week')
+      - `occurrence_count` (integer, optional)
+      - `end_date` (date, optional)
+      - `created_by` (uuid, FK to profiles)
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `series_id` to `appointments`, linking each generated occurrence to its series
+
+  3. Security
+    - Same access rules as `appointments`: professionals manage their own series,
+      super admins manage all of them
+*/
+
+CREATE TABLE IF NOT EXISTS appointment_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid REFERENCES patients(id) NOT NULL,
+  procedure_id uuid REFERENCES procedures(id) NOT NULL,
+  professional_id uuid REFERENCES profiles(id) NOT NULL,
+  start_date date NOT NULL,
+  appointment_time time NOT NULL,
+  interval_value integer NOT NULL CHECK (interval_value > 0),
+  interval_unit text NOT NULL CHECK (interval_unit IN ('day', 'week')),
+  occurrence_count integer CHECK (occurrence_count > 0),
+  end_date date,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (occurrence_count IS NOT NULL OR end_date IS NOT NULL)
+);
+
+ALTER TABLE appointment_series ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES appointment_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointment_series_professional ON appointment_series(professional_id);
+CREATE INDEX IF NOT EXISTS idx_appointments_series ON appointments(series_id);
+
+-- RLS Policies for appointment_series
+CREATE POLICY "Users can view own series"
+  ON appointment_series FOR SELECT
+  TO authenticated
+  USING (professional_id = auth.uid());
+
+CREATE POLICY "Super admins can view all series"
+  ON appointment_series FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE POLICY "Users can create own series"
+  ON appointment_series FOR INSERT
+  TO authenticated
+  WITH CHECK (professional_id = auth.uid() AND created_by = auth.uid());
+
+CREATE POLICY "Super admins can create any series"
+  ON appointment_series FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE POLICY "Users can update own series"
+  ON appointment_series FOR UPDATE
+  TO authenticated
+  USING (professional_id = auth.uid())
+  WITH CHECK (professional_id = auth.uid());
+
+CREATE POLICY "Super admins can update any series"
+  ON appointment_series FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE TRIGGER update_appointment_series_updated_at BEFORE UPDATE ON appointment_series
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,97 @@
+/*
+  # Appointment reschedule history
+
+  1. New Tables
+    - `appointment_history`
+      - `id` (uuid, PK)
+      - `appointment_id` (uuid, FK to appointments)
+      - `changed_by` (uuid, FK to profiles)
+      - `changed_at` (timestamptz)
+      - `old_date`, `old_time`, `old_professional_id` (values before the change)
+      - `new_date`, `new_time`, `new_professional_id` (values after the change)
+
+  2. Changes
+    - Trigger on `appointments` records a history row whenever the date, time or
+      professional of an appointment changes
+
+  3. Security
+    - History rows are written only by the trigger
+    - Users can view the history of appointments they can see
+*/
+
+CREATE TABLE IF NOT EXISTS appointment_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid REFERENCES appointments(id) ON DELETE CASCADE NOT NULL,
+  changed_by uuid REFERENCES profiles(id),
+  changed_at timestamptz DEFAULT now(),
+  old_date date NOT NULL,
+  old_time time NOT NULL,
+  old_professional_id uuid REFERENCES profiles(id) NOT NULL,
+  new_date date NOT NULL,
+  new_time time NOT NULL,
+  new_professional_id uuid REFERENCES profiles(id) NOT NULL
+);
+
+ALTER TABLE appointment_history ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_appointment_history_appointment ON appointment_history(appointment_id);
+
+-- RLS Policies for appointment_history
+CREATE POLICY "Users can view history of own appointments"
+  ON appointment_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.id = appointment_id
+      AND appointments.professional_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Super admins can view all history"
+  ON appointment_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- Record date/time/professional changes
+CREATE OR REPLACE FUNCTION record_appointment_reschedule()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.appointment_date IS DISTINCT FROM OLD.appointment_date
+    OR NEW.appointment_time IS DISTINCT FROM OLD.appointment_time
+    OR NEW.professional_id IS DISTINCT FROM OLD.professional_id THEN
+    INSERT INTO appointment_history (
+      appointment_id,
+      changed_by,
+      old_date,
+      old_time,
+      old_professional_id,
+      new_date,
+      new_time,
+      new_professional_id
+    ) VALUES (
+      NEW.id,
+      auth.uid(),
+      OLD.appointment_date,
+      OLD.appointment_time,
+      OLD.professional_id,
+      NEW.appointment_date,
+      NEW.appointment_time,
+      NEW.professional_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_appointments_reschedule AFTER UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION record_appointment_reschedule();
@@ -0,0 +1,218 @@
+/*
+  # Professional working hours and time off
+
+  1. New Tables
+    - `professional_working_hours`
+      - `id` (uuid, PK)
+      - `professional_id` (uuid, FK to profiles)
+      - `weekday` (smallint, 0 = Sunday ... 6 = Saturday)
+      - `start_time`, `end_time` (time)
+      - `break_start`, `break_end` (time, optional lunch break)
+      - `created_at`, `updated_at` (timestamptz)
+    - `professional_time_off`
+      - `id` (uuid, PK)
+      - `professional_id` (uuid, FK to profiles)
+      - `start_date`, `end_date` (date, inclusive)
+      - `reason` (text, optional: vacation, course...)
+      - `created_by` (uuid, FK to profiles)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Trigger on `appointments` refuses appointments outside the professional's
+      availability. Super admins may override it.
+    - Professionals without any working hours configured are not restricted, so
+      existing agendas keep working until hours are set up.
+
+  3. Security
+    - All authenticated users can read availability (needed to find free slots)
+    - Professionals manage their own availability, super admins manage everyone's
+*/
+
+CREATE TABLE IF NOT EXISTS professional_working_hours (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  professional_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  break_start time,
+  break_end time,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (professional_id, weekday),
+  CHECK (start_time < end_time),
+  CHECK (
+    (break_start IS NULL AND break_end IS NULL)
+    OR (break_start < break_end AND break_start >= start_time AND break_end <= end_time)
+  )
+);
+
+ALTER TABLE professional_working_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS professional_time_off (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  professional_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  CHECK (start_date <= end_date)
+);
+
+ALTER TABLE professional_time_off ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_working_hours_professional ON professional_working_hours(professional_id);
+CREATE INDEX IF NOT EXISTS idx_time_off_professional_dates ON professional_time_off(professional_id, start_date, end_date);
+
+-- RLS Policies for professional_working_hours
+CREATE POLICY "Authenticated users can view working hours"
+  ON professional_working_hours FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can manage own working hours"
+  ON professional_working_hours FOR ALL
+  TO authenticated
+  USING (professional_id = auth.uid())
+  WITH CHECK (professional_id = auth.uid());
+
+CREATE POLICY "Super admins can manage all working hours"
+  ON professional_working_hours FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- RLS Policies for professional_time_off
+CREATE POLICY "Authenticated users can view time off"
+  ON professional_time_off FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can manage own time off"
+  ON professional_time_off FOR ALL
+  TO authenticated
+  USING (professional_id = auth.uid())
+  WITH CHECK (professional_id = auth.uid());
+
+CREATE POLICY "Super admins can manage all time off"
+  ON professional_time_off FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE TRIGGER update_professional_working_hours_updated_at BEFORE UPDATE ON professional_working_hours
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Availability check used by the appointments trigger and booking functions
+CREATE OR REPLACE FUNCTION is_within_availability(
+  p_professional_id uuid,
+  p_date date,
+  p_time time,
+  p_duration_minutes integer
+)
+RETURNS boolean
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hours professional_working_hours%ROWTYPE;
+  end_time time := p_time + p_duration_minutes * interval '1 minute';
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM professional_time_off
+    WHERE professional_id = p_professional_id
+    AND p_date BETWEEN start_date AND end_date
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM professional_working_hours
+    WHERE professional_id = p_professional_id
+  ) THEN
+    RETURN true;
+  END IF;
+
+  SELECT * INTO hours
+  FROM professional_working_hours
+  WHERE professional_id = p_professional_id
+  AND weekday = EXTRACT(DOW FROM p_date);
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- Appointments crossing midnight never fit a working day
+  IF end_time <= p_time THEN
+    RETURN false;
+  END IF;
+
+  IF p_time < hours.start_time OR end_time > hours.end_time THEN
+    RETURN false;
+  END IF;
+
+  IF hours.break_start IS NOT NULL
+    AND p_time < hours.break_end
+    AND end_time > hours.break_start THEN
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION validate_appointment_availability()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('cancelled', 'completed') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.appointment_date IS NOT DISTINCT FROM OLD.appointment_date
+    AND NEW.appointment_time IS NOT DISTINCT FROM OLD.appointment_time
+    AND NEW.professional_id IS NOT DISTINCT FROM OLD.professional_id
+    AND NEW.duration_minutes IS NOT DISTINCT FROM OLD.duration_minutes THEN
+    RETURN NEW;
+  END IF;
+
+  -- Super admins may book outside availability; service calls have no auth user
+  IF auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_within_availability(
+    NEW.professional_id,
+    NEW.appointment_date,
+    NEW.appointment_time,
+    NEW.duration_minutes
+  ) THEN
+    RAISE EXCEPTION 'Horário fora da disponibilidade do profissional'
+      USING HINT = 'outside_availability';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named so it runs after set_appointments_duration (triggers fire alphabetically)
+CREATE TRIGGER validate_appointments_availability BEFORE INSERT OR UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION validate_appointment_availability();
@@ -0,0 +1,18 @@
+/*
+  # No-show appointment status
+
+  1. Changes
+    - `appointments.status` accepts `no_show`, for patients who did not attend
+      without cancelling. Keeps them out of the cancellation numbers.
+
+  2. Notes
+    - No-shows keep occupying their slot in the overlap constraint, like any
+      other non-cancelled appointment
+*/
+
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_status_check;
+
+ALTER TABLE appointments ADD CONSTRAINT appointments_status_check
+  CHECK (status IN ('scheduled', 'confirmed', 'completed', 'cancelled', 'no_show'));
+
+CREATE INDEX IF NOT EXISTS idx_appointments_patient_status ON appointments(patient_id, status);
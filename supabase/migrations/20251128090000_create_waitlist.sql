@@ -0,0 +1,91 @@
+/*
+  # Waitlist for fully booked days
+
+  1. New Tables
+    - `waitlist_entries`
+      - `id` (uuid, PK)
+      - `patient_id` (uuid, FK to patients)
+      - `procedure_id` (uuid, FK to procedures)
+      - `professional_id` (uuid, FK to profiles, null = any professional)
+      - `earliest_date`, `latest_date` (date, acceptable date range)
+      - `preferred_start_time`, `preferred_end_time` (time, optional time of day window)
+      - `weekdays` (smallint[], optional acceptable weekdays, 0 = Sunday)
+      - `notes` (text)
+      - `status` (text: waiting, booked, removed)
+      - `appointment_id` (uuid, FK to appointments, set when the entry is booked)
+      - `created_by` (uuid, FK to profiles)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Users can manage entries for themselves or that they created
+    - Entries without a preferred professional are visible to every professional,
+      so any freed slot can be offered to them
+    - Super admins can manage all entries
+*/
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid REFERENCES patients(id) ON DELETE CASCADE NOT NULL,
+  procedure_id uuid REFERENCES procedures(id) ON DELETE CASCADE NOT NULL,
+  professional_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  earliest_date date NOT NULL,
+  latest_date date NOT NULL,
+  preferred_start_time time,
+  preferred_end_time time,
+  weekdays smallint[],
+  notes text,
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'booked', 'removed')),
+  appointment_id uuid REFERENCES appointments(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (earliest_date <= latest_date),
+  CHECK (
+    preferred_start_time IS NULL
+    OR preferred_end_time IS NULL
+    OR preferred_start_time < preferred_end_time
+  )
+);
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_status_dates ON waitlist_entries(status, earliest_date, latest_date);
+CREATE INDEX IF NOT EXISTS idx_waitlist_professional ON waitlist_entries(professional_id);
+
+-- RLS Policies for waitlist_entries
+CREATE POLICY "Users can view own waitlist entries"
+  ON waitlist_entries FOR SELECT
+  TO authenticated
+  USING (
+    professional_id = auth.uid()
+    OR professional_id IS NULL
+    OR created_by = auth.uid()
+  );
+
+CREATE POLICY "Users can create waitlist entries"
+  ON waitlist_entries FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update own waitlist entries"
+  ON waitlist_entries FOR UPDATE
+  TO authenticated
+  USING (
+    professional_id = auth.uid()
+    OR professional_id IS NULL
+    OR created_by = auth.uid()
+  );
+
+CREATE POLICY "Super admins can manage all waitlist entries"
+  ON waitlist_entries FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,48 @@
+/*
+  # Calendar feed tokens
+
+  1. New Tables
+    - `calendar_feed_tokens`
+      - `id` (uuid, PK)
+      - `professional_id` (uuid, FK to profiles)
+      - `token` (text, unique, secret part of the subscription URL)
+      - `label` (text, e.g. "iPhone")
+      - `created_at` (timestamptz)
+      - `last_used_at` (timestamptz, updated by the ical-feed function)
+      - `revoked_at` (timestamptz, revoked tokens stop serving the feed)
+
+  2. Security
+    - Users manage their own tokens
+    - The ical-feed Edge Function reads tokens with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  professional_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  label text,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_professional ON calendar_feed_tokens(professional_id);
+
+-- RLS Policies for calendar_feed_tokens
+CREATE POLICY "Users can view own feed tokens"
+  ON calendar_feed_tokens FOR SELECT
+  TO authenticated
+  USING (professional_id = auth.uid());
+
+CREATE POLICY "Users can create own feed tokens"
+  ON calendar_feed_tokens FOR INSERT
+  TO authenticated
+  WITH CHECK (professional_id = auth.uid());
+
+CREATE POLICY "Users can revoke own feed tokens"
+  ON calendar_feed_tokens FOR UPDATE
+  TO authenticated
+  USING (professional_id = auth.uid())
+  WITH CHECK (professional_id = auth.uid());
@@ -0,0 +1,162 @@
+/*
+  # Appointment reminders and patient confirmation
+
+  1. New Tables
+    - `clinic_settings` (single row)
+      - `id` (boolean, PK, always true)
+      - `reminder_hours_before` (integer, how long before the appointment reminders go out)
+      - `reminder_channel` (text: log, whatsapp, sms, email)
+      - `updated_at` (timestamptz)
+    - `appointment_reminders`
+      - `id` (uuid, PK)
+      - `appointment_id` (uuid, FK to appointments, one reminder per appointment)
+      - `send_at` (timestamptz, when the reminder is due)
+      - `status` (text: pending, sent, failed, cancelled)
+      - `channel` (text, adapter that delivered the message)
+      - `sent_at` (timestamptz)
+      - `error` (text, last delivery error)
+      - `token` (text, unique, secret for the confirm/cancel link)
+      - `response` (text: confirmed, cancelled; patient answer)
+      - `responded_at` (timestamptz)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - Trigger on `appointments` queues a reminder for scheduled/confirmed
+      appointments, moves it when the appointment is rescheduled and cancels it
+      when the appointment is cancelled, completed or marked as no-show
+    - Reminders are sent by the send-reminders Edge Function and answered via
+      the appointment-response Edge Function
+
+  3. Security
+    - Everyone can read clinic settings, only super admins can change them
+    - Users can view reminders of their own appointments, super admins all
+    - Reminders are written only by the trigger and the Edge Functions
+*/
+
+CREATE TABLE IF NOT EXISTS clinic_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  reminder_hours_before integer NOT NULL DEFAULT 24 CHECK (reminder_hours_before > 0),
+  reminder_channel text NOT NULL DEFAULT 'log' CHECK (reminder_channel IN ('log', 'whatsapp', 'sms', 'email')),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE clinic_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO clinic_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS appointment_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid UNIQUE REFERENCES appointments(id) ON DELETE CASCADE NOT NULL,
+  send_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'cancelled')),
+  channel text,
+  sent_at timestamptz,
+  error text,
+  token text UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  response text CHECK (response IN ('confirmed', 'cancelled')),
+  responded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_due ON appointment_reminders(status, send_at);
+
+-- RLS Policies for clinic_settings
+CREATE POLICY "Authenticated users can view clinic settings"
+  ON clinic_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Super admins can update clinic settings"
+  ON clinic_settings FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- RLS Policies for appointment_reminders
+CREATE POLICY "Users can view reminders of own appointments"
+  ON appointment_reminders FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.id = appointment_id
+      AND appointments.professional_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Super admins can view all reminders"
+  ON appointment_reminders FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE TRIGGER update_clinic_settings_updated_at BEFORE UPDATE ON clinic_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_appointment_reminders_updated_at BEFORE UPDATE ON appointment_reminders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Queue, move or cancel the reminder of an appointment
+CREATE OR REPLACE FUNCTION queue_appointment_reminder()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hours_before integer;
+  due timestamptz;
+BEGIN
+  IF NEW.status NOT IN ('scheduled', 'confirmed') THEN
+    UPDATE appointment_reminders
+    SET status = 'cancelled'
+    WHERE appointment_id = NEW.id
+    AND status = 'pending';
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status IN ('scheduled', 'confirmed')
+    AND NEW.appointment_date IS NOT DISTINCT FROM OLD.appointment_date
+    AND NEW.appointment_time IS NOT DISTINCT FROM OLD.appointment_time THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT reminder_hours_before INTO hours_before FROM clinic_settings WHERE id;
+
+  due := ((NEW.appointment_date + NEW.appointment_time) AT TIME ZONE 'America/Sao_Paulo')
+    - make_interval(hours => COALESCE(hours_before, 24));
+
+  -- Too late to remind: the appointment is sooner than the reminder window
+  IF due < now() AND TG_OP = 'INSERT' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO appointment_reminders (appointment_id, send_at)
+  VALUES (NEW.id, due)
+  ON CONFLICT (appointment_id) DO UPDATE
+  SET send_at = EXCLUDED.send_at,
+      status = 'pending',
+      sent_at = NULL,
+      error = NULL,
+      response = NULL,
+      responded_at = NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER queue_appointments_reminder AFTER INSERT OR UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION queue_appointment_reminder();
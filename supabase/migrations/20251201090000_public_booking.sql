@@ -0,0 +1,285 @@
+/*
+  # Public online booking
+
+  1. New Tables
+    - `public_booking_requests`
+      - `id` (uuid, PK)
+      - `ip` (text, client address from x-forwarded-for)
+      - `phone` (text, digits only)
+      - `created_at` (timestamptz)
+      Used only for rate limiting the public booking function.
+
+  2. Changes
+    - `clinic_settings`
+      - `public_booking_enabled` (boolean, default false)
+      - `public_booking_requires_approval` (boolean, default false)
+      - `public_booking_days_ahead` (integer, how far ahead patients can book)
+    - `appointments`
+      - `booking_source` (text: staff, online)
+      - `pending_approval` (boolean, online bookings waiting for staff review;
+        they keep the slot reserved meanwhile)
+
+  3. Functions (callable by anon)
+    - `public_booking_options()` active procedures and professionals
+    - `public_booking_slots(procedure, date, professional)` free start times
+    - `public_book_appointment(...)` matches or creates the patient by phone
+      and books the appointment. Limited to 5 bookings per IP per hour and
+      3 per phone per day.
+
+  4. Security
+    - The anon role gets no table access; everything goes through the
+      SECURITY DEFINER functions above
+*/
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS public_booking_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS public_booking_requires_approval boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS public_booking_days_ahead integer NOT NULL DEFAULT 30 CHECK (public_booking_days_ahead > 0);
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS booking_source text NOT NULL DEFAULT 'staff' CHECK (booking_source IN ('staff', 'online')),
+  ADD COLUMN IF NOT EXISTS pending_approval boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_pending_approval ON appointments(pending_approval) WHERE pending_approval;
+
+CREATE TABLE IF NOT EXISTS public_booking_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ip text NOT NULL,
+  phone text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public_booking_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_public_booking_requests_ip ON public_booking_requests(ip, created_at);
+CREATE INDEX IF NOT EXISTS idx_public_booking_requests_phone ON public_booking_requests(phone, created_at);
+
+-- Procedures and professionals offered on the booking page
+CREATE OR REPLACE FUNCTION public_booking_options()
+RETURNS jsonb
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings clinic_settings%ROWTYPE;
+BEGIN
+  SELECT * INTO settings FROM clinic_settings WHERE id;
+
+  IF NOT COALESCE(settings.public_booking_enabled, false) THEN
+    RAISE EXCEPTION 'Agendamento online indisponível'
+      USING HINT = 'public_booking_disabled';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'procedures', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('id', id, 'name', name, 'duration_minutes', duration_minutes, 'price', default_price)
+        ORDER BY name
+      )
+      FROM procedures
+      WHERE is_active
+    ), '[]'::jsonb),
+    'professionals', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'full_name', full_name) ORDER BY full_name)
+      FROM profiles
+      WHERE is_active
+    ), '[]'::jsonb),
+    'days_ahead', settings.public_booking_days_ahead,
+    'requires_approval', settings.public_booking_requires_approval
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Free start times (15 minute steps) on a date. Professionals without working
+-- hours are offered from 08:00 to 18:00.
+CREATE OR REPLACE FUNCTION public_booking_slots(
+  p_procedure_id uuid,
+  p_date date,
+  p_professional_id uuid DEFAULT NULL
+)
+RETURNS TABLE (slot_professional_id uuid, professional_name text, slot_time time)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings clinic_settings%ROWTYPE;
+  v_duration integer;
+  local_now timestamp := now() AT TIME ZONE 'America/Sao_Paulo';
+BEGIN
+  SELECT * INTO settings FROM clinic_settings WHERE id;
+
+  IF NOT COALESCE(settings.public_booking_enabled, false) THEN
+    RAISE EXCEPTION 'Agendamento online indisponível'
+      USING HINT = 'public_booking_disabled';
+  END IF;
+
+  IF p_date < local_now::date OR p_date > local_now::date + settings.public_booking_days_ahead THEN
+    RETURN;
+  END IF;
+
+  SELECT duration_minutes INTO v_duration
+  FROM procedures
+  WHERE id = p_procedure_id
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Procedimento não encontrado';
+  END IF;
+
+  RETURN QUERY
+  SELECT prof.id, prof.full_name, candidate.slot::time
+  FROM profiles prof
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(wh.start_time, time '08:00') AS day_start,
+      COALESCE(wh.end_time, time '18:00') AS day_end
+    FROM (SELECT 1) AS one
+    LEFT JOIN professional_working_hours wh
+      ON wh.professional_id = prof.id
+      AND wh.weekday = EXTRACT(DOW FROM p_date)
+  ) hours
+  CROSS JOIN LATERAL generate_series(
+    p_date + hours.day_start,
+    p_date + hours.day_end - v_duration * interval '1 minute',
+    interval '15 minutes'
+  ) AS candidate(slot)
+  WHERE prof.is_active
+    AND (p_professional_id IS NULL OR prof.id = p_professional_id)
+    AND candidate.slot > local_now
+    AND is_within_availability(prof.id, p_date, candidate.slot::time, v_duration)
+    AND NOT EXISTS (
+      SELECT 1 FROM appointments a
+      WHERE a.professional_id = prof.id
+      AND a.appointment_date = p_date
+      AND a.status <> 'cancelled'
+      AND tsrange(
+        a.appointment_date + a.appointment_time,
+        a.appointment_date + a.appointment_time + a.duration_minutes * interval '1 minute'
+      ) && tsrange(candidate.slot, candidate.slot + v_duration * interval '1 minute')
+    )
+  ORDER BY candidate.slot, prof.full_name;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public_book_appointment(
+  p_procedure_id uuid,
+  p_professional_id uuid,
+  p_date date,
+  p_time time,
+  p_full_name text,
+  p_phone text
+)
+RETURNS jsonb
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings clinic_settings%ROWTYPE;
+  phone_digits text := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+  client_ip text;
+  v_duration integer;
+  v_patient_id uuid;
+  v_appointment_id uuid;
+BEGIN
+  SELECT * INTO settings FROM clinic_settings WHERE id;
+
+  IF NOT COALESCE(settings.public_booking_enabled, false) THEN
+    RAISE EXCEPTION 'Agendamento online indisponível'
+      USING HINT = 'public_booking_disabled';
+  END IF;
+
+  IF length(trim(COALESCE(p_full_name, ''))) < 3 THEN
+    RAISE EXCEPTION 'Informe seu nome completo'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  IF length(phone_digits) NOT BETWEEN 10 AND 13 THEN
+    RAISE EXCEPTION 'Telefone inválido'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  client_ip := trim(split_part(
+    COALESCE(current_setting('request.headers', true)::json ->> 'x-forwarded-for', 'unknown'),
+    ',',
+    1
+  ));
+
+  IF (
+    SELECT count(*) FROM public_booking_requests
+    WHERE ip = client_ip
+    AND created_at > now() - interval '1 hour'
+  ) >= 5 OR (
+    SELECT count(*) FROM public_booking_requests
+    WHERE phone = phone_digits
+    AND created_at > now() - interval '1 day'
+  ) >= 3 THEN
+    RAISE EXCEPTION 'Muitas tentativas de agendamento. Tente novamente mais tarde.'
+      USING HINT = 'rate_limited';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public_booking_slots(p_procedure_id, p_date, p_professional_id) s
+    WHERE s.slot_professional_id = p_professional_id
+    AND s.slot_time = p_time
+  ) THEN
+    RAISE EXCEPTION 'Este horário não está mais disponível'
+      USING HINT = 'slot_unavailable';
+  END IF;
+
+  INSERT INTO public_booking_requests (ip, phone) VALUES (client_ip, phone_digits);
+
+  SELECT duration_minutes INTO v_duration FROM procedures WHERE id = p_procedure_id;
+
+  -- Returning patients are matched by phone, preferring the chosen professional's record
+  SELECT id INTO v_patient_id
+  FROM patients
+  WHERE regexp_replace(phone, '\D', '', 'g') = phone_digits
+  ORDER BY (professional_id = p_professional_id) DESC, created_at
+  LIMIT 1;
+
+  IF v_patient_id IS NULL THEN
+    INSERT INTO patients (full_name, phone, professional_id)
+    VALUES (trim(p_full_name), trim(p_phone), p_professional_id)
+    RETURNING id INTO v_patient_id;
+  END IF;
+
+  BEGIN
+    INSERT INTO appointments (
+      patient_id,
+      procedure_id,
+      professional_id,
+      appointment_date,
+      appointment_time,
+      duration_minutes,
+      status,
+      booking_source,
+      pending_approval
+    ) VALUES (
+      v_patient_id,
+      p_procedure_id,
+      p_professional_id,
+      p_date,
+      p_time,
+      v_duration,
+      'scheduled',
+      'online',
+      settings.public_booking_requires_approval
+    )
+    RETURNING id INTO v_appointment_id;
+  EXCEPTION WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'Este horário não está mais disponível'
+      USING HINT = 'slot_unavailable';
+  END;
+
+  RETURN jsonb_build_object(
+    'appointment_id', v_appointment_id,
+    'pending_approval', settings.public_booking_requires_approval
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public_booking_options() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public_booking_slots(uuid, date, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public_book_appointment(uuid, uuid, date, time, text, text) TO anon, authenticated;
@@ -0,0 +1,186 @@
+/*
+  # Multiple procedures per appointment
+
+  1. New Tables
+    - `appointment_items`
+      - `id` (uuid, PK)
+      - `appointment_id` (uuid, FK to appointments)
+      - `procedure_id` (uuid, FK to procedures)
+      - `position` (integer, order of the procedure within the visit)
+      - `duration_minutes` (integer)
+      - `price` (numeric)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - Every existing appointment gets one item for its procedure
+    - New appointments get a default item for `procedure_id`; the client replaces
+      it when the visit combines several procedures
+    - Item changes keep `appointments.duration_minutes` equal to the sum of the
+      item durations, so the overlap constraint and availability trigger see the
+      whole visit, and `appointments.procedure_id` pointing at the first item
+    - `set_appointment_duration` no longer resets the duration when
+      `procedure_id` changes, since the items now own it
+
+  3. Security
+    - Users can manage items of their own appointments
+    - Super admins can manage all items
+*/
+
+CREATE TABLE IF NOT EXISTS appointment_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid REFERENCES appointments(id) ON DELETE CASCADE NOT NULL,
+  procedure_id uuid REFERENCES procedures(id) NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+  price numeric(10,2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE appointment_items ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_appointment_items_appointment ON appointment_items(appointment_id, position);
+CREATE INDEX IF NOT EXISTS idx_appointment_items_procedure ON appointment_items(procedure_id);
+
+INSERT INTO appointment_items (appointment_id, procedure_id, position, duration_minutes, price)
+SELECT appointments.id, appointments.procedure_id, 0, appointments.duration_minutes, procedures.default_price
+FROM appointments
+JOIN procedures ON procedures.id = appointments.procedure_id;
+
+-- RLS Policies for appointment_items
+CREATE POLICY "Users can view items of own appointments"
+  ON appointment_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.id = appointment_id
+      AND appointments.professional_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert items of own appointments"
+  ON appointment_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.id = appointment_id
+      AND appointments.professional_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update items of own appointments"
+  ON appointment_items FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.id = appointment_id
+      AND appointments.professional_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.id = appointment_id
+      AND appointments.professional_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete items of own appointments"
+  ON appointment_items FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.id = appointment_id
+      AND appointments.professional_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Super admins can manage all appointment items"
+  ON appointment_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- Only fill the duration when the client does not send it
+CREATE OR REPLACE FUNCTION set_appointment_duration()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.duration_minutes IS NULL THEN
+    SELECT duration_minutes INTO NEW.duration_minutes
+    FROM procedures
+    WHERE id = NEW.procedure_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Default item for appointments created with a single procedure
+CREATE OR REPLACE FUNCTION create_default_appointment_item()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO appointment_items (appointment_id, procedure_id, position, duration_minutes, price)
+  SELECT NEW.id, NEW.procedure_id, 0, NEW.duration_minutes, procedures.default_price
+  FROM procedures
+  WHERE procedures.id = NEW.procedure_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER create_appointments_default_item AFTER INSERT ON appointments
+  FOR EACH ROW EXECUTE FUNCTION create_default_appointment_item();
+
+-- Keep the appointment's total duration and main procedure in sync with its items.
+-- Runs with the caller's rights so the availability trigger still applies to them.
+CREATE OR REPLACE FUNCTION sync_appointment_from_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_id uuid := COALESCE(NEW.appointment_id, OLD.appointment_id);
+  total_minutes integer;
+  first_procedure_id uuid;
+BEGIN
+  SELECT SUM(duration_minutes) INTO total_minutes
+  FROM appointment_items
+  WHERE appointment_id = target_id;
+
+  -- Items are being replaced; wait for the new ones
+  IF total_minutes IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT procedure_id INTO first_procedure_id
+  FROM appointment_items
+  WHERE appointment_id = target_id
+  ORDER BY position, created_at
+  LIMIT 1;
+
+  UPDATE appointments
+  SET duration_minutes = total_minutes,
+      procedure_id = first_procedure_id
+  WHERE id = target_id
+  AND (duration_minutes IS DISTINCT FROM total_minutes
+       OR procedure_id IS DISTINCT FROM first_procedure_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_appointment_items AFTER INSERT OR UPDATE OR DELETE ON appointment_items
+  FOR EACH ROW EXECUTE FUNCTION sync_appointment_from_items();
@@ -0,0 +1,185 @@
+/*
+  # Rooms and equipment as bookable resources
+
+  1. New Tables
+    - `resources`
+      - `id` (uuid, PK)
+      - `name` (text)
+      - `kind` (text: room or equipment)
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+    - `procedure_resources`
+      - `procedure_id` (uuid, FK to procedures)
+      - `resource_id` (uuid, FK to resources)
+    - `appointment_resources`
+      - `id` (uuid, PK)
+      - `appointment_id` (uuid, FK to appointments)
+      - `resource_id` (uuid, FK to resources)
+      - `starts_at`, `ends_at` (timestamp, copied from the appointment)
+
+  2. Changes
+    - Allocations are rebuilt by triggers whenever an appointment's date, time,
+      duration, status or procedures change. Each resource required by any of the
+      appointment's procedures is held for the whole visit.
+    - An exclusion constraint prevents two active appointments from holding the
+      same resource at the same time, independently of the professional. The
+      violation is re-raised with the `resource_busy` hint and the resource name.
+    - Changing which procedures require a resource only affects appointments
+      booked or changed afterwards
+
+  3. Security
+    - All authenticated users can read resources and allocations (needed to check
+      conflicts against other professionals' appointments)
+    - Only super admins manage resources and procedure requirements
+    - Allocations are written only by the triggers
+*/
+
+CREATE TABLE IF NOT EXISTS resources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  kind text NOT NULL DEFAULT 'room' CHECK (kind IN ('room', 'equipment')),
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE resources ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS procedure_resources (
+  procedure_id uuid REFERENCES procedures(id) ON DELETE CASCADE NOT NULL,
+  resource_id uuid REFERENCES resources(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (procedure_id, resource_id)
+);
+
+ALTER TABLE procedure_resources ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS appointment_resources (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid REFERENCES appointments(id) ON DELETE CASCADE NOT NULL,
+  resource_id uuid REFERENCES resources(id) ON DELETE CASCADE NOT NULL,
+  starts_at timestamp NOT NULL,
+  ends_at timestamp NOT NULL,
+  CHECK (starts_at < ends_at),
+  CONSTRAINT appointment_resources_no_overlap EXCLUDE USING gist (
+    resource_id WITH =,
+    tsrange(starts_at, ends_at) WITH &&
+  )
+);
+
+ALTER TABLE appointment_resources ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_procedure_resources_resource ON procedure_resources(resource_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_resources_appointment ON appointment_resources(appointment_id);
+
+CREATE TRIGGER update_resources_updated_at BEFORE UPDATE ON resources
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS Policies for resources
+CREATE POLICY "Authenticated users can view resources"
+  ON resources FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Super admins can manage resources"
+  ON resources FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- RLS Policies for procedure_resources
+CREATE POLICY "Authenticated users can view procedure resources"
+  ON procedure_resources FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Super admins can manage procedure resources"
+  ON procedure_resources FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- RLS Policies for appointment_resources
+CREATE POLICY "Authenticated users can view resource allocations"
+  ON appointment_resources FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Rebuilds the resource allocations of one appointment
+CREATE OR REPLACE FUNCTION allocate_appointment_resources(p_appointment_id uuid)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  apt appointments%ROWTYPE;
+  apt_start timestamp;
+  apt_end timestamp;
+  busy_name text;
+BEGIN
+  DELETE FROM appointment_resources WHERE appointment_id = p_appointment_id;
+
+  SELECT * INTO apt FROM appointments WHERE id = p_appointment_id;
+  IF NOT FOUND OR apt.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  apt_start := apt.appointment_date + apt.appointment_time;
+  apt_end := apt_start + apt.duration_minutes * interval '1 minute';
+
+  BEGIN
+    INSERT INTO appointment_resources (appointment_id, resource_id, starts_at, ends_at)
+    SELECT DISTINCT apt.id, procedure_resources.resource_id, apt_start, apt_end
+    FROM appointment_items
+    JOIN procedure_resources ON procedure_resources.procedure_id = appointment_items.procedure_id
+    JOIN resources ON resources.id = procedure_resources.resource_id
+    WHERE appointment_items.appointment_id = apt.id
+    AND resources.is_active = true;
+  EXCEPTION WHEN exclusion_violation THEN
+    SELECT resources.name INTO busy_name
+    FROM appointment_resources
+    JOIN resources ON resources.id = appointment_resources.resource_id
+    JOIN procedure_resources ON procedure_resources.resource_id = appointment_resources.resource_id
+    JOIN appointment_items ON appointment_items.procedure_id = procedure_resources.procedure_id
+    WHERE appointment_items.appointment_id = apt.id
+    AND appointment_resources.appointment_id <> apt.id
+    AND tsrange(appointment_resources.starts_at, appointment_resources.ends_at) && tsrange(apt_start, apt_end)
+    LIMIT 1;
+
+    RAISE EXCEPTION '% já está reservado neste horário', COALESCE(busy_name, 'O recurso')
+      USING HINT = 'resource_busy';
+  END;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION allocate_resources_for_appointment()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM allocate_appointment_resources(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER allocate_appointments_resources
+  AFTER INSERT OR UPDATE OF appointment_date, appointment_time, duration_minutes, status ON appointments
+  FOR EACH ROW EXECUTE FUNCTION allocate_resources_for_appointment();
+
+CREATE OR REPLACE FUNCTION allocate_resources_for_item()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM allocate_appointment_resources(COALESCE(NEW.appointment_id, OLD.appointment_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER allocate_appointment_items_resources AFTER INSERT OR UPDATE OR DELETE ON appointment_items
+  FOR EACH ROW EXECUTE FUNCTION allocate_resources_for_item();
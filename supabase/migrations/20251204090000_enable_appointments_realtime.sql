@@ -0,0 +1,13 @@
+/*
+  # Realtime agenda updates
+
+  1. Changes
+    - Adds `appointments` to the `supabase_realtime` publication so open agendas
+      receive inserts, updates and deletes made on other devices
+
+  2. Security
+    - Realtime applies the existing `appointments` RLS policies to each
+      subscriber, so professionals only receive their own appointments
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE appointments;
@@ -0,0 +1,66 @@
+/*
+  # Check-in, in-service and checkout
+
+  1. Changes
+    - `appointments.status` accepts `checked_in` (patient arrived) and
+      `in_progress` (in service), between `confirmed` and `completed`
+    - New columns on `appointments`
+      - `checked_in_at` (timestamptz, arrival at the front desk)
+      - `started_at` (timestamptz, service started)
+      - `completed_at` (timestamptz, checkout)
+    - Trigger stamps the columns when the status changes, so wait time
+      (`started_at - checked_in_at`) and service time (`completed_at - started_at`)
+      come from the server clock. Moving back to scheduled/confirmed clears them.
+
+  2. Security
+    - Super admins can open a cash register closing for any professional, so the
+      front desk can register the payment at checkout
+*/
+
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_status_check;
+
+ALTER TABLE appointments ADD CONSTRAINT appointments_status_check
+  CHECK (status IN ('scheduled', 'confirmed', 'checked_in', 'in_progress', 'completed', 'cancelled', 'no_show'));
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS checked_in_at timestamptz,
+  ADD COLUMN IF NOT EXISTS started_at timestamptz,
+  ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+CREATE OR REPLACE FUNCTION stamp_appointment_status_times()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'checked_in' THEN
+    NEW.checked_in_at := COALESCE(NEW.checked_in_at, now());
+  ELSIF NEW.status = 'in_progress' THEN
+    NEW.started_at := COALESCE(NEW.started_at, now());
+    NEW.checked_in_at := COALESCE(NEW.checked_in_at, NEW.started_at);
+  ELSIF NEW.status = 'completed' THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+  ELSIF NEW.status IN ('scheduled', 'confirmed') THEN
+    NEW.checked_in_at := NULL;
+    NEW.started_at := NULL;
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_appointments_status_times BEFORE UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION stamp_appointment_status_times();
+
+CREATE POLICY "Super admins can create any closing"
+  ON cash_register_closings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
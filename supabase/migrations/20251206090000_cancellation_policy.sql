@@ -0,0 +1,186 @@
+/*
+  # Cancellation policy
+
+  1. New Tables
+    - `patient_charges`
+      - `id` (uuid, PK)
+      - `patient_id` (uuid, FK to patients)
+      - `appointment_id` (uuid, FK to appointments, the cancelled appointment)
+      - `professional_id` (uuid, FK to profiles, whose cash register receives it)
+      - `amount` (numeric)
+      - `reason` (text)
+      - `status` (text: pending, paid, waived)
+      - `transaction_id` (uuid, FK to cash_register_transactions once paid)
+      - `created_by` (uuid, FK to profiles)
+      - `created_at` (timestamptz)
+      - `resolved_at` (timestamptz, paid or waived)
+
+  2. Changes
+    - `clinic_settings`
+      - `cancellation_notice_hours` (integer, minimum notice; 0 disables the fee)
+      - `cancellation_fee_type` (text: percent, fixed)
+      - `cancellation_fee_value` (numeric, percentage of the appointment price
+        or fixed amount)
+
+  3. Functions
+    - `cancel_appointment(appointment, reason, waive_fee)` cancels with a
+      required reason and, when the notice is shorter than the policy, creates
+      a pending charge against the patient. Only super admins can waive it.
+
+  4. Security
+    - Professionals view and settle charges of their own patients; super admins
+      manage all. Charges are only created by `cancel_appointment`.
+*/
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS cancellation_notice_hours integer NOT NULL DEFAULT 0 CHECK (cancellation_notice_hours >= 0),
+  ADD COLUMN IF NOT EXISTS cancellation_fee_type text NOT NULL DEFAULT 'percent' CHECK (cancellation_fee_type IN ('percent', 'fixed')),
+  ADD COLUMN IF NOT EXISTS cancellation_fee_value numeric(10,2) NOT NULL DEFAULT 0 CHECK (cancellation_fee_value >= 0);
+
+CREATE TABLE IF NOT EXISTS patient_charges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid REFERENCES patients(id) ON DELETE CASCADE NOT NULL,
+  appointment_id uuid REFERENCES appointments(id) ON DELETE SET NULL,
+  professional_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  reason text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'waived')),
+  transaction_id uuid REFERENCES cash_register_transactions(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  resolved_at timestamptz
+);
+
+ALTER TABLE patient_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_patient_charges_professional ON patient_charges(professional_id, status);
+CREATE INDEX IF NOT EXISTS idx_patient_charges_patient ON patient_charges(patient_id);
+
+-- RLS Policies for patient_charges
+CREATE POLICY "Users can view own charges"
+  ON patient_charges FOR SELECT
+  TO authenticated
+  USING (professional_id = auth.uid());
+
+CREATE POLICY "Users can update own charges"
+  ON patient_charges FOR UPDATE
+  TO authenticated
+  USING (professional_id = auth.uid())
+  WITH CHECK (professional_id = auth.uid() AND status IN ('pending', 'paid'));
+
+CREATE POLICY "Super admins can view all charges"
+  ON patient_charges FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE POLICY "Super admins can update all charges"
+  ON patient_charges FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- Cancels an appointment applying the clinic cancellation policy.
+-- Returns the amount charged (0 when on time or waived).
+CREATE OR REPLACE FUNCTION cancel_appointment(
+  p_appointment_id uuid,
+  p_reason text,
+  p_waive_fee boolean DEFAULT false
+)
+RETURNS numeric
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings clinic_settings%ROWTYPE;
+  apt appointments%ROWTYPE;
+  caller_is_admin boolean;
+  notice interval;
+  base_price numeric(10,2);
+  fee numeric(10,2) := 0;
+BEGIN
+  IF length(trim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'Informe o motivo do cancelamento'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  SELECT * INTO apt FROM appointments WHERE id = p_appointment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agendamento não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  caller_is_admin := EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  );
+
+  -- auth.uid() is null for the service role (patient answering a reminder)
+  IF auth.uid() IS NOT NULL AND apt.professional_id <> auth.uid() AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Sem permissão para cancelar este agendamento'
+      USING HINT = 'forbidden';
+  END IF;
+
+  IF p_waive_fee AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Somente administradores podem isentar a taxa de cancelamento'
+      USING HINT = 'forbidden';
+  END IF;
+
+  IF apt.status NOT IN ('scheduled', 'confirmed') THEN
+    RAISE EXCEPTION 'Este agendamento não pode mais ser cancelado'
+      USING HINT = 'invalid_status';
+  END IF;
+
+  SELECT * INTO settings FROM clinic_settings WHERE id;
+
+  notice := ((apt.appointment_date + apt.appointment_time) AT TIME ZONE 'America/Sao_Paulo') - now();
+
+  IF NOT p_waive_fee
+    AND settings.cancellation_notice_hours > 0
+    AND settings.cancellation_fee_value > 0
+    AND notice < make_interval(hours => settings.cancellation_notice_hours) THEN
+    IF settings.cancellation_fee_type = 'fixed' THEN
+      fee := settings.cancellation_fee_value;
+    ELSE
+      SELECT COALESCE(sum(price), 0) INTO base_price
+      FROM appointment_items
+      WHERE appointment_id = apt.id;
+
+      fee := round(base_price * settings.cancellation_fee_value / 100, 2);
+    END IF;
+  END IF;
+
+  UPDATE appointments
+  SET status = 'cancelled',
+      cancellation_reason = trim(p_reason)
+  WHERE id = apt.id;
+
+  IF fee > 0 THEN
+    INSERT INTO patient_charges (patient_id, appointment_id, professional_id, amount, reason, created_by)
+    VALUES (
+      apt.patient_id,
+      apt.id,
+      apt.professional_id,
+      fee,
+      'Cancelamento com menos de ' || settings.cancellation_notice_hours || 'h de antecedência',
+      auth.uid()
+    );
+  END IF;
+
+  RETURN fee;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION cancel_appointment(uuid, text, boolean) TO authenticated;
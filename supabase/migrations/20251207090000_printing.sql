@@ -0,0 +1,20 @@
+/*
+  # Printable schedule and appointment slips
+
+  1. Changes
+    - `clinic_settings`
+      - `clinic_name` (text, printed on schedules and slips)
+      - `clinic_address` (text)
+      - `clinic_phone` (text)
+    - `procedures`
+      - `preparation_instructions` (text, printed on the patient slip, e.g.
+        "vir sem maquiagem")
+*/
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS clinic_name text NOT NULL DEFAULT 'Miss Belle',
+  ADD COLUMN IF NOT EXISTS clinic_address text,
+  ADD COLUMN IF NOT EXISTS clinic_phone text;
+
+ALTER TABLE procedures
+  ADD COLUMN IF NOT EXISTS preparation_instructions text;
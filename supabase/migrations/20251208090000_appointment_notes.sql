@@ -0,0 +1,112 @@
+/*
+  # Appointment notes and comments
+
+  1. New Tables
+    - `appointment_comments`
+      - `id` (uuid, PK)
+      - `appointment_id` (uuid, FK to appointments)
+      - `author_id` (uuid, FK to profiles)
+      - `body` (text)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - New columns on `appointments`
+      - `notes` (text, e.g. "alérgica a lidocaína", "trazer exames anteriores")
+      - `notes_updated_by` (uuid, FK to profiles)
+      - `notes_updated_at` (timestamptz)
+    - Trigger stamps the author and time whenever the notes change
+
+  3. Security
+    - Professionals read and write comments on their own appointments; super
+      admins on all. Authors can delete their own comments.
+*/
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS notes text,
+  ADD COLUMN IF NOT EXISTS notes_updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS notes_updated_at timestamptz;
+
+CREATE OR REPLACE FUNCTION stamp_appointment_notes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.notes IS NOT DISTINCT FROM OLD.notes THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.notes IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.notes_updated_by := auth.uid();
+  NEW.notes_updated_at := now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_appointments_notes BEFORE INSERT OR UPDATE OF notes ON appointments
+  FOR EACH ROW EXECUTE FUNCTION stamp_appointment_notes();
+
+CREATE TABLE IF NOT EXISTS appointment_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid REFERENCES appointments(id) ON DELETE CASCADE NOT NULL,
+  author_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE appointment_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_appointment_comments_appointment ON appointment_comments(appointment_id, created_at);
+
+-- RLS Policies for appointment_comments
+CREATE POLICY "Users can view comments on own appointments"
+  ON appointment_comments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.id = appointment_id
+      AND appointments.professional_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can comment on own appointments"
+  ON appointment_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.id = appointment_id
+      AND appointments.professional_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Super admins can view all comments"
+  ON appointment_comments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE POLICY "Super admins can comment on any appointment"
+  ON appointment_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE POLICY "Users can delete own comments"
+  ON appointment_comments FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid());
@@ -0,0 +1,109 @@
+/*
+  # Agreed price and discounts
+
+  1. Changes
+    - New columns on `appointments`
+      - `discount_type` (text: percent, fixed; null for no discount)
+      - `discount_value` (numeric, percentage or amount off)
+      - `discount_reason` (text)
+      - `agreed_price` (numeric, sum of the item prices minus the discount;
+        what the cash register expects to receive)
+    - `agreed_price` is kept up to date when the items or the discount change
+    - The discount of a completed appointment can no longer be changed
+*/
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS discount_type text CHECK (discount_type IN ('percent', 'fixed')),
+  ADD COLUMN IF NOT EXISTS discount_value numeric(10,2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  ADD COLUMN IF NOT EXISTS discount_reason text,
+  ADD COLUMN IF NOT EXISTS agreed_price numeric(10,2);
+
+ALTER TABLE appointments ADD CONSTRAINT appointments_discount_percent_check
+  CHECK (discount_type IS DISTINCT FROM 'percent' OR discount_value <= 100);
+
+CREATE OR REPLACE FUNCTION discounted_price(list_price numeric, discount_type text, discount_value numeric)
+RETURNS numeric
+IMMUTABLE
+AS $$
+  SELECT GREATEST(0, round(
+    CASE discount_type
+      WHEN 'percent' THEN list_price * (1 - discount_value / 100)
+      WHEN 'fixed' THEN list_price - discount_value
+      ELSE list_price
+    END,
+    2
+  ));
+$$ LANGUAGE sql;
+
+UPDATE appointments
+SET agreed_price = (
+  SELECT COALESCE(SUM(price), 0)
+  FROM appointment_items
+  WHERE appointment_items.appointment_id = appointments.id
+);
+
+-- Same as before, plus the agreed price
+CREATE OR REPLACE FUNCTION sync_appointment_from_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_id uuid := COALESCE(NEW.appointment_id, OLD.appointment_id);
+  total_minutes integer;
+  total_price numeric;
+  first_procedure_id uuid;
+BEGIN
+  SELECT SUM(duration_minutes), SUM(price) INTO total_minutes, total_price
+  FROM appointment_items
+  WHERE appointment_id = target_id;
+
+  -- Items are being replaced; wait for the new ones
+  IF total_minutes IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT procedure_id INTO first_procedure_id
+  FROM appointment_items
+  WHERE appointment_id = target_id
+  ORDER BY position, created_at
+  LIMIT 1;
+
+  UPDATE appointments
+  SET duration_minutes = total_minutes,
+      procedure_id = first_procedure_id,
+      agreed_price = discounted_price(total_price, discount_type, discount_value)
+  WHERE id = target_id
+  AND (duration_minutes IS DISTINCT FROM total_minutes
+       OR procedure_id IS DISTINCT FROM first_procedure_id
+       OR agreed_price IS DISTINCT FROM discounted_price(total_price, discount_type, discount_value));
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION apply_appointment_discount()
+RETURNS TRIGGER AS $$
+DECLARE
+  total_price numeric;
+BEGIN
+  IF NEW.discount_type IS NOT DISTINCT FROM OLD.discount_type
+    AND NEW.discount_value IS NOT DISTINCT FROM OLD.discount_value
+    AND NEW.discount_reason IS NOT DISTINCT FROM OLD.discount_reason THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'completed' THEN
+    RAISE EXCEPTION 'O valor de um atendimento concluído não pode ser alterado'
+      USING HINT = 'price_locked';
+  END IF;
+
+  SELECT COALESCE(SUM(price), 0) INTO total_price
+  FROM appointment_items
+  WHERE appointment_id = NEW.id;
+
+  NEW.agreed_price := discounted_price(total_price, NEW.discount_type, NEW.discount_value);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apply_appointments_discount BEFORE UPDATE OF discount_type, discount_value, discount_reason ON appointments
+  FOR EACH ROW EXECUTE FUNCTION apply_appointment_discount();
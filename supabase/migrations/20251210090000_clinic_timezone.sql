@@ -0,0 +1,272 @@
+/*
+  # Clinic timezone
+
+  1. Changes
+    - `clinic_settings.timezone` (text, IANA name, default America/Sao_Paulo).
+      Appointment `date`/`time` columns are wall-clock values in this timezone.
+    - `clinic_timezone()` returns it; the reminder trigger, the public booking
+      slots and `cancel_appointment` use it instead of a hardcoded zone
+    - Changing the timezone moves the pending reminders accordingly
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_timezone(tz text)
+RETURNS boolean
+STABLE
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE tz;
+  RETURN true;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'America/Sao_Paulo' CHECK (is_valid_timezone(timezone));
+
+CREATE OR REPLACE FUNCTION clinic_timezone()
+RETURNS text
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT timezone FROM clinic_settings WHERE id), 'America/Sao_Paulo');
+$$ LANGUAGE sql;
+
+GRANT EXECUTE ON FUNCTION clinic_timezone() TO anon, authenticated;
+
+-- Queue, move or cancel the reminder of an appointment
+CREATE OR REPLACE FUNCTION queue_appointment_reminder()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  hours_before integer;
+  due timestamptz;
+BEGIN
+  IF NEW.status NOT IN ('scheduled', 'confirmed') THEN
+    UPDATE appointment_reminders
+    SET status = 'cancelled'
+    WHERE appointment_id = NEW.id
+    AND status = 'pending';
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.status IN ('scheduled', 'confirmed')
+    AND NEW.appointment_date IS NOT DISTINCT FROM OLD.appointment_date
+    AND NEW.appointment_time IS NOT DISTINCT FROM OLD.appointment_time THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT reminder_hours_before INTO hours_before FROM clinic_settings WHERE id;
+
+  due := ((NEW.appointment_date + NEW.appointment_time) AT TIME ZONE clinic_timezone())
+    - make_interval(hours => COALESCE(hours_before, 24));
+
+  -- Too late to remind: the appointment is sooner than the reminder window
+  IF due < now() AND TG_OP = 'INSERT' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO appointment_reminders (appointment_id, send_at)
+  VALUES (NEW.id, due)
+  ON CONFLICT (appointment_id) DO UPDATE
+  SET send_at = EXCLUDED.send_at,
+      status = 'pending',
+      sent_at = NULL,
+      error = NULL,
+      response = NULL,
+      responded_at = NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Free start times (15 minute steps) on a date
+CREATE OR REPLACE FUNCTION public_booking_slots(
+  p_procedure_id uuid,
+  p_date date,
+  p_professional_id uuid DEFAULT NULL
+)
+RETURNS TABLE (slot_professional_id uuid, professional_name text, slot_time time)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings clinic_settings%ROWTYPE;
+  v_duration integer;
+  local_now timestamp := now() AT TIME ZONE clinic_timezone();
+BEGIN
+  SELECT * INTO settings FROM clinic_settings WHERE id;
+
+  IF NOT COALESCE(settings.public_booking_enabled, false) THEN
+    RAISE EXCEPTION 'Agendamento online indisponível'
+      USING HINT = 'public_booking_disabled';
+  END IF;
+
+  IF p_date < local_now::date OR p_date > local_now::date + settings.public_booking_days_ahead THEN
+    RETURN;
+  END IF;
+
+  SELECT duration_minutes INTO v_duration
+  FROM procedures
+  WHERE id = p_procedure_id
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Procedimento não encontrado';
+  END IF;
+
+  RETURN QUERY
+  SELECT prof.id, prof.full_name, candidate.slot::time
+  FROM profiles prof
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(wh.start_time, time '08:00') AS day_start,
+      COALESCE(wh.end_time, time '18:00') AS day_end
+    FROM (SELECT 1) AS one
+    LEFT JOIN professional_working_hours wh
+      ON wh.professional_id = prof.id
+      AND wh.weekday = EXTRACT(DOW FROM p_date)
+  ) hours
+  CROSS JOIN LATERAL generate_series(
+    p_date + hours.day_start,
+    p_date + hours.day_end - v_duration * interval '1 minute',
+    interval '15 minutes'
+  ) AS candidate(slot)
+  WHERE prof.is_active
+    AND (p_professional_id IS NULL OR prof.id = p_professional_id)
+    AND candidate.slot > local_now
+    AND is_within_availability(prof.id, p_date, candidate.slot::time, v_duration)
+    AND NOT EXISTS (
+      SELECT 1 FROM appointments a
+      WHERE a.professional_id = prof.id
+      AND a.appointment_date = p_date
+      AND a.status <> 'cancelled'
+      AND tsrange(
+        a.appointment_date + a.appointment_time,
+        a.appointment_date + a.appointment_time + a.duration_minutes * interval '1 minute'
+      ) && tsrange(candidate.slot, candidate.slot + v_duration * interval '1 minute')
+    )
+  ORDER BY candidate.slot, prof.full_name;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cancels an appointment applying the clinic cancellation policy
+CREATE OR REPLACE FUNCTION cancel_appointment(
+  p_appointment_id uuid,
+  p_reason text,
+  p_waive_fee boolean DEFAULT false
+)
+RETURNS numeric
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings clinic_settings%ROWTYPE;
+  apt appointments%ROWTYPE;
+  caller_is_admin boolean;
+  notice interval;
+  base_price numeric(10,2);
+  fee numeric(10,2) := 0;
+BEGIN
+  IF length(trim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'Informe o motivo do cancelamento'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  SELECT * INTO apt FROM appointments WHERE id = p_appointment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agendamento não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  caller_is_admin := EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  );
+
+  -- auth.uid() is null for the service role (patient answering a reminder)
+  IF auth.uid() IS NOT NULL AND apt.professional_id <> auth.uid() AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Sem permissão para cancelar este agendamento'
+      USING HINT = 'forbidden';
+  END IF;
+
+  IF p_waive_fee AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Somente administradores podem isentar a taxa de cancelamento'
+      USING HINT = 'forbidden';
+  END IF;
+
+  IF apt.status NOT IN ('scheduled', 'confirmed') THEN
+    RAISE EXCEPTION 'Este agendamento não pode mais ser cancelado'
+      USING HINT = 'invalid_status';
+  END IF;
+
+  SELECT * INTO settings FROM clinic_settings WHERE id;
+
+  notice := ((apt.appointment_date + apt.appointment_time) AT TIME ZONE clinic_timezone()) - now();
+
+  IF NOT p_waive_fee
+    AND settings.cancellation_notice_hours > 0
+    AND settings.cancellation_fee_value > 0
+    AND notice < make_interval(hours => settings.cancellation_notice_hours) THEN
+    IF settings.cancellation_fee_type = 'fixed' THEN
+      fee := settings.cancellation_fee_value;
+    ELSE
+      SELECT COALESCE(sum(price), 0) INTO base_price
+      FROM appointment_items
+      WHERE appointment_id = apt.id;
+
+      fee := round(base_price * settings.cancellation_fee_value / 100, 2);
+    END IF;
+  END IF;
+
+  UPDATE appointments
+  SET status = 'cancelled',
+      cancellation_reason = trim(p_reason)
+  WHERE id = apt.id;
+
+  IF fee > 0 THEN
+    INSERT INTO patient_charges (patient_id, appointment_id, professional_id, amount, reason, created_by)
+    VALUES (
+      apt.patient_id,
+      apt.id,
+      apt.professional_id,
+      fee,
+      'Cancelamento com menos de ' || settings.cancellation_notice_hours || 'h de antecedência',
+      auth.uid()
+    );
+  END IF;
+
+  RETURN fee;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION move_reminders_to_timezone()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.timezone IS NOT DISTINCT FROM OLD.timezone THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE appointment_reminders r
+  SET send_at = ((a.appointment_date + a.appointment_time) AT TIME ZONE NEW.timezone)
+    - make_interval(hours => NEW.reminder_hours_before)
+  FROM appointments a
+  WHERE a.id = r.appointment_id
+  AND r.status = 'pending';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER move_clinic_settings_reminders AFTER UPDATE OF timezone ON clinic_settings
+  FOR EACH ROW EXECUTE FUNCTION move_reminders_to_timezone();
@@ -0,0 +1,15 @@
+/*
+  # Patient archive
+
+  1. Changes
+    - New column on `patients`
+      - `archived_at` (timestamptz, set when the patient is archived; null
+        for active patients)
+    - Archived patients keep their appointments and payments; they are only
+      hidden from the patient list and from the booking forms
+*/
+
+ALTER TABLE patients
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_patients_archived_at ON patients(archived_at);
@@ -0,0 +1,244 @@
+/*
+  # Patient identity fields
+
+  1. Changes
+    - New columns on `patients`
+      - `cpf` (text, 11 digits, unique, checksum validated)
+      - `birth_date` (date)
+      - `cep`, `street`, `address_number`, `address_complement`,
+        `neighborhood`, `city`, `state` (address; `cep` is 8 digits and
+        `state` the two-letter UF)
+      - `gender` (text: female, male, non_binary, other; null when not informed)
+      - `pronouns` (text, free form, e.g. "ela/dela")
+    - Phones are stored in E.164 (+55 followed by area code and number).
+      Existing phones are normalized; the ones that cannot be are left as they
+      are and must be fixed on the next edit
+    - A trigger normalizes and validates phone, CPF, CEP and birth date on every
+      write, with the same rules as the patient form
+    - `public_book_appointment` matches returning patients by the normalized phone
+*/
+
+-- +55 followed by a valid area code and a landline (8 digits) or mobile
+-- (9 digits starting with 9) number; null when the input is not a Brazilian phone
+CREATE OR REPLACE FUNCTION normalize_br_phone(phone text)
+RETURNS text
+IMMUTABLE
+AS $$
+DECLARE
+  digits text := regexp_replace(COALESCE(phone, ''), '\D', '', 'g');
+BEGIN
+  IF length(digits) IN (12, 13) AND left(digits, 2) = '55' THEN
+    digits := substr(digits, 3);
+  ELSIF length(digits) IN (11, 12) AND left(digits, 1) = '0' THEN
+    digits := substr(digits, 2);
+  END IF;
+
+  IF digits ~ '^[1-9]{2}(9[0-9]{8}|[2-8][0-9]{7})$' THEN
+    RETURN '+55' || digits;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Digits only, with both check digits matching (repeated digits are rejected)
+CREATE OR REPLACE FUNCTION is_valid_cpf(cpf text)
+RETURNS boolean
+IMMUTABLE
+AS $$
+DECLARE
+  digits int[];
+  total int;
+BEGIN
+  IF cpf IS NULL OR cpf !~ '^[0-9]{11}$' OR cpf ~ '^(.)\1{10}$' THEN
+    RETURN false;
+  END IF;
+
+  digits := string_to_array(cpf, NULL)::int[];
+
+  FOR check_position IN 10..11 LOOP
+    total := 0;
+    FOR i IN 1..check_position - 1 LOOP
+      total := total + digits[i] * (check_position + 1 - i);
+    END LOOP;
+
+    IF (total * 10) % 11 % 10 <> digits[check_position] THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+UPDATE patients
+SET phone = normalize_br_phone(phone)
+WHERE normalize_br_phone(phone) IS NOT NULL;
+
+ALTER TABLE patients
+  ADD COLUMN IF NOT EXISTS cpf text CHECK (cpf IS NULL OR is_valid_cpf(cpf)),
+  ADD COLUMN IF NOT EXISTS birth_date date,
+  ADD COLUMN IF NOT EXISTS cep text CHECK (cep ~ '^[0-9]{8}$'),
+  ADD COLUMN IF NOT EXISTS street text,
+  ADD COLUMN IF NOT EXISTS address_number text,
+  ADD COLUMN IF NOT EXISTS address_complement text,
+  ADD COLUMN IF NOT EXISTS neighborhood text,
+  ADD COLUMN IF NOT EXISTS city text,
+  ADD COLUMN IF NOT EXISTS state text CHECK (state IN (
+    'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+    'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO'
+  )),
+  ADD COLUMN IF NOT EXISTS gender text CHECK (gender IN ('female', 'male', 'non_binary', 'other')),
+  ADD COLUMN IF NOT EXISTS pronouns text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_patients_cpf ON patients(cpf) WHERE cpf IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION normalize_patient_identity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.phone IS DISTINCT FROM OLD.phone THEN
+    NEW.phone := normalize_br_phone(NEW.phone);
+    IF NEW.phone IS NULL THEN
+      RAISE EXCEPTION 'Telefone inválido. Informe DDD e número.'
+        USING HINT = 'invalid_phone';
+    END IF;
+  END IF;
+
+  NEW.cpf := NULLIF(regexp_replace(COALESCE(NEW.cpf, ''), '\D', '', 'g'), '');
+  IF NEW.cpf IS NOT NULL AND NOT is_valid_cpf(NEW.cpf) THEN
+    RAISE EXCEPTION 'CPF inválido'
+      USING HINT = 'invalid_cpf';
+  END IF;
+
+  NEW.cep := NULLIF(regexp_replace(COALESCE(NEW.cep, ''), '\D', '', 'g'), '');
+  NEW.state := NULLIF(upper(trim(COALESCE(NEW.state, ''))), '');
+
+  IF NEW.birth_date > current_date THEN
+    RAISE EXCEPTION 'A data de nascimento não pode estar no futuro'
+      USING HINT = 'invalid_birth_date';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER normalize_patients_identity BEFORE INSERT OR UPDATE ON patients
+  FOR EACH ROW EXECUTE FUNCTION normalize_patient_identity();
+
+-- Same as before, matching and validating phones through normalize_br_phone
+CREATE OR REPLACE FUNCTION public_book_appointment(
+  p_procedure_id uuid,
+  p_professional_id uuid,
+  p_date date,
+  p_time time,
+  p_full_name text,
+  p_phone text
+)
+RETURNS jsonb
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings clinic_settings%ROWTYPE;
+  phone_digits text := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+  client_ip text;
+  v_duration integer;
+  v_patient_id uuid;
+  v_appointment_id uuid;
+BEGIN
+  SELECT * INTO settings FROM clinic_settings WHERE id;
+
+  IF NOT COALESCE(settings.public_booking_enabled, false) THEN
+    RAISE EXCEPTION 'Agendamento online indisponível'
+      USING HINT = 'public_booking_disabled';
+  END IF;
+
+  IF length(trim(COALESCE(p_full_name, ''))) < 3 THEN
+    RAISE EXCEPTION 'Informe seu nome completo'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  IF normalize_br_phone(p_phone) IS NULL THEN
+    RAISE EXCEPTION 'Telefone inválido'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  client_ip := trim(split_part(
+    COALESCE(current_setting('request.headers', true)::json ->> 'x-forwarded-for', 'unknown'),
+    ',',
+    1
+  ));
+
+  IF (
+    SELECT count(*) FROM public_booking_requests
+    WHERE ip = client_ip
+    AND created_at > now() - interval '1 hour'
+  ) >= 5 OR (
+    SELECT count(*) FROM public_booking_requests
+    WHERE phone = phone_digits
+    AND created_at > now() - interval '1 day'
+  ) >= 3 THEN
+    RAISE EXCEPTION 'Muitas tentativas de agendamento. Tente novamente mais tarde.'
+      USING HINT = 'rate_limited';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public_booking_slots(p_procedure_id, p_date, p_professional_id) s
+    WHERE s.slot_professional_id = p_professional_id
+    AND s.slot_time = p_time
+  ) THEN
+    RAISE EXCEPTION 'Este horário não está mais disponível'
+      USING HINT = 'slot_unavailable';
+  END IF;
+
+  INSERT INTO public_booking_requests (ip, phone) VALUES (client_ip, phone_digits);
+
+  SELECT duration_minutes INTO v_duration FROM procedures WHERE id = p_procedure_id;
+
+  -- Returning patients are matched by phone, preferring the chosen professional's record
+  SELECT id INTO v_patient_id
+  FROM patients
+  WHERE phone = normalize_br_phone(p_phone)
+  ORDER BY (professional_id = p_professional_id) DESC, created_at
+  LIMIT 1;
+
+  IF v_patient_id IS NULL THEN
+    INSERT INTO patients (full_name, phone, professional_id)
+    VALUES (trim(p_full_name), trim(p_phone), p_professional_id)
+    RETURNING id INTO v_patient_id;
+  END IF;
+
+  BEGIN
+    INSERT INTO appointments (
+      patient_id,
+      procedure_id,
+      professional_id,
+      appointment_date,
+      appointment_time,
+      duration_minutes,
+      status,
+      booking_source,
+      pending_approval
+    ) VALUES (
+      v_patient_id,
+      p_procedure_id,
+      p_professional_id,
+      p_date,
+      p_time,
+      v_duration,
+      'scheduled',
+      'online',
+      settings.public_booking_requires_approval
+    )
+    RETURNING id INTO v_appointment_id;
+  EXCEPTION WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'Este horário não está mais disponível'
+      USING HINT = 'slot_unavailable';
+  END;
+
+  RETURN jsonb_build_object(
+    'appointment_id', v_appointment_id,
+    'pending_approval', settings.public_booking_requires_approval
+  );
+END;
+$$ LANGUAGE plpgsql;
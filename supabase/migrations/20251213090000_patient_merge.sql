@@ -0,0 +1,227 @@
+/*
+  # Duplicate patients and merge
+
+  1. New Tables
+    - `patient_merges` (audit, one row per merged duplicate)
+      - `id` (uuid, PK)
+      - `survivor_id` (uuid, patient that was kept)
+      - `merged_patient_id` (uuid, patient that was removed)
+      - `merged_patient` (jsonb, the removed record as it was)
+      - `appointment_ids` (uuid[], appointments moved to the survivor)
+      - `merged_by` (uuid, FK to profiles)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `find_patient_duplicates(...)` looks across every professional's patients
+      for the same CPF, phone (normalized), e-mail or a similar name
+    - `merge_patients(survivor, duplicates)` moves appointments, series, waitlist
+      entries and charges of the duplicates to the survivor, fills the survivor's
+      blank fields from them, records the merge and deletes the duplicates
+
+  3. Security
+    - Only super admins can merge and read the merge history
+    - Professionals can view the patients of their own appointments, so a merge
+      into another professional's record keeps their agenda readable
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS patient_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_id uuid NOT NULL,
+  merged_patient_id uuid NOT NULL,
+  merged_patient jsonb NOT NULL,
+  appointment_ids uuid[] NOT NULL DEFAULT '{}',
+  merged_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE patient_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_patient_merges_survivor ON patient_merges(survivor_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_patients_phone ON patients(phone);
+CREATE INDEX IF NOT EXISTS idx_patients_email ON patients(lower(email));
+
+-- RLS Policies for patient_merges (written only by merge_patients)
+CREATE POLICY "Super admins can view patient merges"
+  ON patient_merges FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+CREATE POLICY "Users can view patients of own appointments"
+  ON patients FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM appointments
+      WHERE appointments.patient_id = patients.id
+      AND appointments.professional_id = auth.uid()
+    )
+  );
+
+-- Lowercase, without accents and repeated spaces, for name comparison
+CREATE OR REPLACE FUNCTION normalize_person_name(name text)
+RETURNS text
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(
+    trim(translate(lower(COALESCE(name, '')), 'áàâãäéèêëíìîïóòôõöúùûüçñ', 'aaaaaeeeeiiiiooooouuuucn')),
+    '\s+',
+    ' ',
+    'g'
+  );
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION find_patient_duplicates(
+  p_full_name text,
+  p_phone text,
+  p_email text,
+  p_cpf text,
+  p_exclude_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  patient_id uuid,
+  full_name text,
+  professional_id uuid,
+  professional_name text,
+  archived boolean,
+  matched_on text[]
+)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_phone text := normalize_br_phone(p_phone);
+  v_email text := NULLIF(lower(trim(COALESCE(p_email, ''))), '');
+  v_cpf text := NULLIF(regexp_replace(COALESCE(p_cpf, ''), '\D', '', 'g'), '');
+  v_name text := normalize_person_name(p_full_name);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Short names match too much to be useful
+  IF length(v_name) < 5 THEN
+    v_name := NULL;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    candidates.id,
+    candidates.patient_name,
+    candidates.professional_id,
+    candidates.professional_name,
+    candidates.archived,
+    candidates.matches
+  FROM (
+    SELECT
+      p.id,
+      p.full_name AS patient_name,
+      p.professional_id,
+      pr.full_name AS professional_name,
+      p.archived_at IS NOT NULL AS archived,
+      array_remove(ARRAY[
+        CASE WHEN p.cpf = v_cpf THEN 'cpf' END,
+        CASE WHEN p.phone = v_phone THEN 'phone' END,
+        CASE WHEN lower(p.email) = v_email THEN 'email' END,
+        CASE WHEN similarity(normalize_person_name(p.full_name), v_name) >= 0.6 THEN 'name' END
+      ], NULL) AS matches
+    FROM patients p
+    LEFT JOIN profiles pr ON pr.id = p.professional_id
+    WHERE p.id IS DISTINCT FROM p_exclude_id
+  ) candidates
+  WHERE cardinality(candidates.matches) > 0
+  ORDER BY cardinality(candidates.matches) DESC, candidates.patient_name
+  LIMIT 10;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Returns how many appointments were moved to the survivor
+CREATE OR REPLACE FUNCTION merge_patients(p_survivor_id uuid, p_duplicate_ids uuid[])
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  duplicate patients%ROWTYPE;
+  moved_ids uuid[];
+  total_moved integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  ) THEN
+    RAISE EXCEPTION 'Apenas administradores podem mesclar pacientes'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF cardinality(COALESCE(p_duplicate_ids, '{}')) = 0 OR p_survivor_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'Escolha o cadastro que fica e ao menos um duplicado diferente dele'
+      USING HINT = 'invalid_merge';
+  END IF;
+
+  PERFORM 1 FROM patients
+  WHERE id = p_survivor_id OR id = ANY(p_duplicate_ids)
+  FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM patients WHERE id = p_survivor_id) THEN
+    RAISE EXCEPTION 'Paciente não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  FOR duplicate IN
+    SELECT * FROM patients WHERE id = ANY(p_duplicate_ids) ORDER BY created_at
+  LOOP
+    WITH moved AS (
+      UPDATE appointments
+      SET patient_id = p_survivor_id
+      WHERE patient_id = duplicate.id
+      RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO moved_ids FROM moved;
+
+    UPDATE appointment_series SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE waitlist_entries SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE patient_charges SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+
+    INSERT INTO patient_merges (survivor_id, merged_patient_id, merged_patient, appointment_ids, merged_by)
+    VALUES (p_survivor_id, duplicate.id, to_jsonb(duplicate), moved_ids, auth.uid());
+
+    -- Deleted first so the CPF can move to the survivor
+    DELETE FROM patients WHERE id = duplicate.id;
+
+    -- The survivor keeps what it has; blanks are filled from the duplicate.
+    -- The address moves as a whole so parts of two addresses are never mixed.
+    UPDATE patients
+    SET email = COALESCE(email, duplicate.email),
+        cpf = COALESCE(cpf, duplicate.cpf),
+        birth_date = COALESCE(birth_date, duplicate.birth_date),
+        gender = COALESCE(gender, duplicate.gender),
+        pronouns = COALESCE(pronouns, duplicate.pronouns),
+        notes = CASE
+          WHEN duplicate.notes IS NULL OR notes IS NOT DISTINCT FROM duplicate.notes THEN notes
+          ELSE concat_ws(E'\n', notes, duplicate.notes)
+        END,
+        cep = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.cep ELSE cep END,
+        street = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.street ELSE street END,
+        address_number = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.address_number ELSE address_number END,
+        address_complement = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.address_complement ELSE address_complement END,
+        neighborhood = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.neighborhood ELSE neighborhood END,
+        city = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.city ELSE city END,
+        state = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.state ELSE state END
+    WHERE id = p_survivor_id;
+
+    total_moved := total_moved + cardinality(moved_ids);
+  END LOOP;
+
+  RETURN total_moved;
+END;
+$$ LANGUAGE plpgsql;
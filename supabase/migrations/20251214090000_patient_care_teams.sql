@@ -0,0 +1,281 @@
+/*
+  # Clinic-wide patients with care teams
+
+  1. New Tables
+    - `patient_care_team` (professionals who treat a patient)
+      - `patient_id` (uuid, FK to patients)
+      - `professional_id` (uuid, FK to profiles)
+      - `added_by` (uuid, FK to profiles)
+      - `created_at` (timestamptz)
+    - `patient_notes` (clinical notes, readable by the care team only)
+      - `id` (uuid, PK)
+      - `patient_id` (uuid, FK to patients)
+      - `author_id` (uuid, FK to profiles)
+      - `body` (text)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - Patients belong to the clinic; `patients.professional_id` now only records
+      who registered them
+    - `clinic_settings.share_patient_contacts`: when on, every professional sees
+      the contact data of every patient (and can book them); when off, only the
+      care team does
+    - The registering professional and every professional a patient is booked
+      with join the care team automatically; existing patients are backfilled
+      the same way
+    - `merge_patients` also moves care team members and clinical notes
+
+  3. Security
+    - Patients are visible to their care team, to super admins and, with
+      sharing on, to every authenticated user
+    - Care team members and super admins can update the patient and manage
+      the care team
+    - Clinical notes are visible to the care team and super admins only; only
+      the author edits or deletes a note
+*/
+
+ALTER TABLE clinic_settings
+  ADD COLUMN IF NOT EXISTS share_patient_contacts boolean NOT NULL DEFAULT true;
+
+CREATE TABLE IF NOT EXISTS patient_care_team (
+  patient_id uuid REFERENCES patients(id) ON DELETE CASCADE NOT NULL,
+  professional_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  added_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (patient_id, professional_id)
+);
+
+ALTER TABLE patient_care_team ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_patient_care_team_professional ON patient_care_team(professional_id);
+
+CREATE TABLE IF NOT EXISTS patient_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid REFERENCES patients(id) ON DELETE CASCADE NOT NULL,
+  author_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE patient_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_patient_notes_patient ON patient_notes(patient_id, created_at);
+
+CREATE TRIGGER update_patient_notes_updated_at BEFORE UPDATE ON patient_notes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO patient_care_team (patient_id, professional_id, added_by)
+SELECT id, professional_id, NULL FROM patients
+ON CONFLICT DO NOTHING;
+
+INSERT INTO patient_care_team (patient_id, professional_id, added_by)
+SELECT DISTINCT patient_id, professional_id, NULL::uuid FROM appointments
+ON CONFLICT DO NOTHING;
+
+-- Policies on patients and patient_care_team both need these checks; running
+-- them as definer keeps the policies from recursing into each other
+CREATE OR REPLACE FUNCTION is_patient_care_team_member(p_patient_id uuid)
+RETURNS boolean
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM patient_care_team
+    WHERE patient_id = p_patient_id
+    AND professional_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  );
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION clinic_shares_patient_contacts()
+RETURNS boolean
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT share_patient_contacts FROM clinic_settings WHERE id), false);
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION add_patient_creator_to_care_team()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO patient_care_team (patient_id, professional_id, added_by)
+  VALUES (NEW.id, NEW.professional_id, auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER add_patients_creator_to_care_team AFTER INSERT ON patients
+  FOR EACH ROW EXECUTE FUNCTION add_patient_creator_to_care_team();
+
+CREATE OR REPLACE FUNCTION add_appointment_professional_to_care_team()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO patient_care_team (patient_id, professional_id, added_by)
+  VALUES (NEW.patient_id, NEW.professional_id, auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER add_appointments_professional_to_care_team
+  AFTER INSERT OR UPDATE OF patient_id, professional_id ON appointments
+  FOR EACH ROW EXECUTE FUNCTION add_appointment_professional_to_care_team();
+
+-- RLS Policies for patients
+DROP POLICY IF EXISTS "Users can view own patients" ON patients;
+DROP POLICY IF EXISTS "Users can view patients of own appointments" ON patients;
+DROP POLICY IF EXISTS "Users can update own patients" ON patients;
+
+CREATE POLICY "Users can view care team or shared patients"
+  ON patients FOR SELECT
+  TO authenticated
+  USING (is_patient_care_team_member(id) OR clinic_shares_patient_contacts());
+
+CREATE POLICY "Users can update care team patients"
+  ON patients FOR UPDATE
+  TO authenticated
+  USING (is_patient_care_team_member(id))
+  WITH CHECK (is_patient_care_team_member(id));
+
+-- RLS Policies for patient_care_team
+CREATE POLICY "Users can view care teams of visible patients"
+  ON patient_care_team FOR SELECT
+  TO authenticated
+  USING (is_patient_care_team_member(patient_id) OR clinic_shares_patient_contacts());
+
+CREATE POLICY "Users can add to care teams they belong to"
+  ON patient_care_team FOR INSERT
+  TO authenticated
+  WITH CHECK (is_patient_care_team_member(patient_id));
+
+CREATE POLICY "Users can remove from care teams they belong to"
+  ON patient_care_team FOR DELETE
+  TO authenticated
+  USING (is_patient_care_team_member(patient_id));
+
+-- RLS Policies for patient_notes
+CREATE POLICY "Users can view notes of care team patients"
+  ON patient_notes FOR SELECT
+  TO authenticated
+  USING (is_patient_care_team_member(patient_id));
+
+CREATE POLICY "Users can create notes on care team patients"
+  ON patient_notes FOR INSERT
+  TO authenticated
+  WITH CHECK (author_id = auth.uid() AND is_patient_care_team_member(patient_id));
+
+CREATE POLICY "Users can update own patient notes"
+  ON patient_notes FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid() AND is_patient_care_team_member(patient_id));
+
+CREATE POLICY "Users can delete own patient notes"
+  ON patient_notes FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid());
+
+-- Returns how many appointments were moved to the survivor
+CREATE OR REPLACE FUNCTION merge_patients(p_survivor_id uuid, p_duplicate_ids uuid[])
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  duplicate patients%ROWTYPE;
+  moved_ids uuid[];
+  total_moved integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  ) THEN
+    RAISE EXCEPTION 'Apenas administradores podem mesclar pacientes'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF cardinality(COALESCE(p_duplicate_ids, '{}')) = 0 OR p_survivor_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'Escolha o cadastro que fica e ao menos um duplicado diferente dele'
+      USING HINT = 'invalid_merge';
+  END IF;
+
+  PERFORM 1 FROM patients
+  WHERE id = p_survivor_id OR id = ANY(p_duplicate_ids)
+  FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM patients WHERE id = p_survivor_id) THEN
+    RAISE EXCEPTION 'Paciente não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  FOR duplicate IN
+    SELECT * FROM patients WHERE id = ANY(p_duplicate_ids) ORDER BY created_at
+  LOOP
+    WITH moved AS (
+      UPDATE appointments
+      SET patient_id = p_survivor_id
+      WHERE patient_id = duplicate.id
+      RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO moved_ids FROM moved;
+
+    UPDATE appointment_series SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE waitlist_entries SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE patient_charges SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE patient_notes SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+
+    INSERT INTO patient_care_team (patient_id, professional_id, added_by)
+    SELECT p_survivor_id, professional_id, added_by
+    FROM patient_care_team
+    WHERE patient_id = duplicate.id
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO patient_merges (survivor_id, merged_patient_id, merged_patient, appointment_ids, merged_by)
+    VALUES (p_survivor_id, duplicate.id, to_jsonb(duplicate), moved_ids, auth.uid());
+
+    -- Deleted first so the CPF can move to the survivor
+    DELETE FROM patients WHERE id = duplicate.id;
+
+    -- The survivor keeps what it has; blanks are filled from the duplicate.
+    -- The address moves as a whole so parts of two addresses are never mixed.
+    UPDATE patients
+    SET email = COALESCE(email, duplicate.email),
+        cpf = COALESCE(cpf, duplicate.cpf),
+        birth_date = COALESCE(birth_date, duplicate.birth_date),
+        gender = COALESCE(gender, duplicate.gender),
+        pronouns = COALESCE(pronouns, duplicate.pronouns),
+        notes = CASE
+          WHEN duplicate.notes IS NULL OR notes IS NOT DISTINCT FROM duplicate.notes THEN notes
+          ELSE concat_ws(E'\n', notes, duplicate.notes)
+        END,
+        cep = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.cep ELSE cep END,
+        street = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.street ELSE street END,
+        address_number = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.address_number ELSE address_number END,
+        address_complement = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.address_complement ELSE address_complement END,
+        neighborhood = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.neighborhood ELSE neighborhood END,
+        city = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.city ELSE city END,
+        state = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.state ELSE state END
+    WHERE id = p_survivor_id;
+
+    total_moved := total_moved + cardinality(moved_ids);
+  END LOOP;
+
+  RETURN total_moved;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,345 @@
+/*
+  # Anamnesis forms
+
+  1. New Tables
+    - `anamnesis_templates`
+      - `id` (uuid, PK)
+      - `name` (text)
+      - `description` (text, nullable)
+      - `questions` (jsonb, ordered list of questions; see below)
+      - `version` (integer, bumped whenever the questions change)
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamptz)
+    - `procedure_anamnesis_templates`
+      - `procedure_id` (uuid, FK to procedures)
+      - `template_id` (uuid, FK to anamnesis_templates)
+    - `anamnesis_responses` (one row per time a form is filled; never updated)
+      - `id` (uuid, PK)
+      - `patient_id` (uuid, FK to patients)
+      - `template_id` (uuid, FK to anamnesis_templates)
+      - `template_name`, `template_version`, `questions` (copied from the template)
+      - `answers` (jsonb, question id -> answer)
+      - `risky_question_ids` (text[], questions whose answer is flagged as a risk)
+      - `filled_by` (uuid, FK to profiles)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - A question is an object with `id`, `type` (text, yes_no, choice or scale),
+      `label` and `required`. Choice questions list `options`, scale questions
+      `scale_min`/`scale_max`. Risk rules: `risk_answer` ('yes' or 'no') for
+      yes/no, `risk_options` for choice and `risk_from` (inclusive) for scale.
+    - Responses copy the template as it was and get their risky answers from a
+      trigger, so later template edits do not change past answers
+    - `missing_anamnesis_templates(appointment)` lists the active forms linked
+      to the appointment's procedures that the patient never filled, unless the
+      patient already completed an appointment with that procedure
+    - Starting or completing an appointment with missing forms is rejected with
+      the `anamnesis_required` hint
+    - `merge_patients` also moves the duplicates' responses
+
+  3. Security
+    - Authenticated users can read templates and links; super admins manage them
+    - Responses are clinical data: only the patient's care team and super
+      admins read and fill them
+*/
+
+CREATE TABLE IF NOT EXISTS anamnesis_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  questions jsonb NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(questions) = 'array'),
+  version integer NOT NULL DEFAULT 1,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE anamnesis_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS procedure_anamnesis_templates (
+  procedure_id uuid REFERENCES procedures(id) ON DELETE CASCADE NOT NULL,
+  template_id uuid REFERENCES anamnesis_templates(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (procedure_id, template_id)
+);
+
+ALTER TABLE procedure_anamnesis_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS anamnesis_responses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid REFERENCES patients(id) ON DELETE CASCADE NOT NULL,
+  template_id uuid REFERENCES anamnesis_templates(id) NOT NULL,
+  template_name text NOT NULL,
+  template_version integer NOT NULL,
+  questions jsonb NOT NULL,
+  answers jsonb NOT NULL DEFAULT '{}',
+  risky_question_ids text[] NOT NULL DEFAULT '{}',
+  filled_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE anamnesis_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_procedure_anamnesis_templates_template ON procedure_anamnesis_templates(template_id);
+CREATE INDEX IF NOT EXISTS idx_anamnesis_responses_patient ON anamnesis_responses(patient_id, template_id, created_at);
+
+CREATE TRIGGER update_anamnesis_templates_updated_at BEFORE UPDATE ON anamnesis_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION bump_anamnesis_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.questions IS DISTINCT FROM OLD.questions THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_anamnesis_templates_version BEFORE UPDATE ON anamnesis_templates
+  FOR EACH ROW EXECUTE FUNCTION bump_anamnesis_template_version();
+
+-- Copies the template into the response, checks required answers and flags
+-- the risky ones
+CREATE OR REPLACE FUNCTION prepare_anamnesis_response()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  template anamnesis_templates%ROWTYPE;
+  question jsonb;
+  answer text;
+BEGIN
+  SELECT * INTO template FROM anamnesis_templates WHERE id = NEW.template_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Formulário não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  NEW.template_name := template.name;
+  NEW.template_version := template.version;
+  NEW.questions := template.questions;
+  NEW.risky_question_ids := '{}';
+  NEW.filled_by := auth.uid();
+  NEW.created_at := now();
+
+  FOR question IN SELECT * FROM jsonb_array_elements(template.questions) LOOP
+    answer := NULLIF(trim(NEW.answers ->> (question ->> 'id')), '');
+
+    IF answer IS NULL THEN
+      IF COALESCE((question ->> 'required')::boolean, false) THEN
+        RAISE EXCEPTION 'Responda a pergunta "%"', question ->> 'label'
+          USING HINT = 'answer_required';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF (question ->> 'type' = 'yes_no' AND answer = question ->> 'risk_answer')
+      OR (question ->> 'type' = 'choice' AND COALESCE(question -> 'risk_options', '[]') ? answer)
+      OR (
+        question ->> 'type' = 'scale'
+        AND question ->> 'risk_from' IS NOT NULL
+        AND answer::numeric >= (question ->> 'risk_from')::numeric
+      )
+    THEN
+      NEW.risky_question_ids := array_append(NEW.risky_question_ids, question ->> 'id');
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prepare_anamnesis_responses BEFORE INSERT ON anamnesis_responses
+  FOR EACH ROW EXECUTE FUNCTION prepare_anamnesis_response();
+
+CREATE OR REPLACE FUNCTION missing_anamnesis_templates(p_appointment_id uuid)
+RETURNS TABLE (template_id uuid, template_name text)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT t.id, t.name
+  FROM appointments a
+  JOIN appointment_items i ON i.appointment_id = a.id
+  JOIN procedure_anamnesis_templates pt ON pt.procedure_id = i.procedure_id
+  JOIN anamnesis_templates t ON t.id = pt.template_id AND t.is_active
+  WHERE a.id = p_appointment_id
+  AND NOT EXISTS (
+    SELECT 1 FROM anamnesis_responses r
+    WHERE r.patient_id = a.patient_id
+    AND r.template_id = t.id
+  )
+  -- Only the first appointment of the procedure requires the form
+  AND NOT EXISTS (
+    SELECT 1
+    FROM appointments earlier
+    JOIN appointment_items earlier_item ON earlier_item.appointment_id = earlier.id
+    WHERE earlier.patient_id = a.patient_id
+    AND earlier.id <> a.id
+    AND earlier.status = 'completed'
+    AND earlier_item.procedure_id = i.procedure_id
+  );
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION require_appointment_anamnesis()
+RETURNS TRIGGER AS $$
+DECLARE
+  missing text;
+BEGIN
+  IF NEW.status IN ('in_progress', 'completed') AND OLD.status NOT IN ('in_progress', 'completed') THEN
+    SELECT string_agg(template_name, ', ' ORDER BY template_name) INTO missing
+    FROM missing_anamnesis_templates(NEW.id);
+
+    IF missing IS NOT NULL THEN
+      RAISE EXCEPTION 'Preencha a anamnese antes do atendimento: %', missing
+        USING HINT = 'anamnesis_required';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER require_appointments_anamnesis BEFORE UPDATE OF status ON appointments
+  FOR EACH ROW EXECUTE FUNCTION require_appointment_anamnesis();
+
+-- Returns how many appointments were moved to the survivor
+CREATE OR REPLACE FUNCTION merge_patients(p_survivor_id uuid, p_duplicate_ids uuid[])
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  duplicate patients%ROWTYPE;
+  moved_ids uuid[];
+  total_moved integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  ) THEN
+    RAISE EXCEPTION 'Apenas administradores podem mesclar pacientes'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF cardinality(COALESCE(p_duplicate_ids, '{}')) = 0 OR p_survivor_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'Escolha o cadastro que fica e ao menos um duplicado diferente dele'
+      USING HINT = 'invalid_merge';
+  END IF;
+
+  PERFORM 1 FROM patients
+  WHERE id = p_survivor_id OR id = ANY(p_duplicate_ids)
+  FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM patients WHERE id = p_survivor_id) THEN
+    RAISE EXCEPTION 'Paciente não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  FOR duplicate IN
+    SELECT * FROM patients WHERE id = ANY(p_duplicate_ids) ORDER BY created_at
+  LOOP
+    WITH moved AS (
+      UPDATE appointments
+      SET patient_id = p_survivor_id
+      WHERE patient_id = duplicate.id
+      RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO moved_ids FROM moved;
+
+    UPDATE appointment_series SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE waitlist_entries SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE patient_charges SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE patient_notes SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE anamnesis_responses SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+
+    INSERT INTO patient_care_team (patient_id, professional_id, added_by)
+    SELECT p_survivor_id, professional_id, added_by
+    FROM patient_care_team
+    WHERE patient_id = duplicate.id
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO patient_merges (survivor_id, merged_patient_id, merged_patient, appointment_ids, merged_by)
+    VALUES (p_survivor_id, duplicate.id, to_jsonb(duplicate), moved_ids, auth.uid());
+
+    -- Deleted first so the CPF can move to the survivor
+    DELETE FROM patients WHERE id = duplicate.id;
+
+    -- The survivor keeps what it has; blanks are filled from the duplicate.
+    -- The address moves as a whole so parts of two addresses are never mixed.
+    UPDATE patients
+    SET email = COALESCE(email, duplicate.email),
+        cpf = COALESCE(cpf, duplicate.cpf),
+        birth_date = COALESCE(birth_date, duplicate.birth_date),
+        gender = COALESCE(gender, duplicate.gender),
+        pronouns = COALESCE(pronouns, duplicate.pronouns),
+        notes = CASE
+          WHEN duplicate.notes IS NULL OR notes IS NOT DISTINCT FROM duplicate.notes THEN notes
+          ELSE concat_ws(E'\n', notes, duplicate.notes)
+        END,
+        cep = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.cep ELSE cep END,
+        street = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.street ELSE street END,
+        address_number = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.address_number ELSE address_number END,
+        address_complement = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.address_complement ELSE address_complement END,
+        neighborhood = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.neighborhood ELSE neighborhood END,
+        city = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.city ELSE city END,
+        state = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.state ELSE state END
+    WHERE id = p_survivor_id;
+
+    total_moved := total_moved + cardinality(moved_ids);
+  END LOOP;
+
+  RETURN total_moved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS Policies for anamnesis_templates
+CREATE POLICY "Authenticated users can view anamnesis templates"
+  ON anamnesis_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Super admins can manage anamnesis templates"
+  ON anamnesis_templates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- RLS Policies for procedure_anamnesis_templates
+CREATE POLICY "Authenticated users can view procedure anamnesis templates"
+  ON procedure_anamnesis_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Super admins can manage procedure anamnesis templates"
+  ON procedure_anamnesis_templates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    )
+  );
+
+-- RLS Policies for anamnesis_responses
+CREATE POLICY "Users can view anamnesis of care team patients"
+  ON anamnesis_responses FOR SELECT
+  TO authenticated
+  USING (is_patient_care_team_member(patient_id));
+
+CREATE POLICY "Users can fill anamnesis of care team patients"
+  ON anamnesis_responses FOR INSERT
+  TO authenticated
+  WITH CHECK (is_patient_care_team_member(patient_id));
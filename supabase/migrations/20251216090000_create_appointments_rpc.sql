@@ -0,0 +1,117 @@
+/*
+  # Create appointments in one transaction
+
+  1. Changes
+    - New function `create_appointments`, used by the agenda to book a visit or
+      a whole series. The series row, the appointments and their items are
+      written together, so a failure (overlap, availability, busy resource)
+      leaves nothing behind. The client used to insert them one request at a
+      time and could not roll back: appointments and series have no DELETE
+      policy, so a failed visit kept holding its slot.
+    - The default item the database creates for each appointment is replaced
+      by the chosen procedures inside the same transaction
+
+  2. Security
+    - Runs with the caller's rights, so the existing RLS policies and the
+      availability trigger still apply
+    - Only authenticated users can call it
+*/
+
+-- p_items: [{procedure_id, duration_minutes, price}] in visit order
+-- p_series: {start_date, interval_value, interval_unit, occurrence_count, end_date}, or null
+-- for a single visit
+CREATE OR REPLACE FUNCTION create_appointments(
+  p_patient_id uuid,
+  p_professional_id uuid,
+  p_dates date[],
+  p_appointment_time time,
+  p_items jsonb,
+  p_discount_type text DEFAULT NULL,
+  p_discount_value numeric DEFAULT 0,
+  p_discount_reason text DEFAULT NULL,
+  p_series jsonb DEFAULT NULL
+)
+RETURNS uuid[]
+SET search_path = public
+AS $$
+DECLARE
+  new_series_id uuid;
+  new_ids uuid[];
+  total_minutes integer;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Adicione ao menos um procedimento.'
+      USING HINT = 'items_required';
+  END IF;
+
+  IF COALESCE(array_length(p_dates, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Nenhuma data para agendar.'
+      USING HINT = 'dates_required';
+  END IF;
+
+  SELECT SUM((item->>'duration_minutes')::integer) INTO total_minutes
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF p_series IS NOT NULL THEN
+    INSERT INTO appointment_series (
+      patient_id, procedure_id, professional_id, start_date, appointment_time,
+      interval_value, interval_unit, occurrence_count, end_date, created_by
+    )
+    VALUES (
+      p_patient_id,
+      (p_items->0->>'procedure_id')::uuid,
+      p_professional_id,
+      (p_series->>'start_date')::date,
+      p_appointment_time,
+      (p_series->>'interval_value')::integer,
+      p_series->>'interval_unit',
+      (p_series->>'occurrence_count')::integer,
+      (p_series->>'end_date')::date,
+      auth.uid()
+    )
+    RETURNING id INTO new_series_id;
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO appointments (
+      patient_id, procedure_id, professional_id, appointment_date, appointment_time,
+      duration_minutes, status, series_id, discount_type, discount_value, discount_reason, created_by
+    )
+    SELECT
+      p_patient_id,
+      (p_items->0->>'procedure_id')::uuid,
+      p_professional_id,
+      dates.appointment_date,
+      p_appointment_time,
+      total_minutes,
+      'scheduled',
+      new_series_id,
+      p_discount_type,
+      COALESCE(p_discount_value, 0),
+      p_discount_reason,
+      auth.uid()
+    FROM unnest(p_dates) AS dates(appointment_date)
+    RETURNING id
+  )
+  SELECT array_agg(id) INTO new_ids FROM inserted;
+
+  -- Swap the default items for the chosen procedures; the items trigger
+  -- recomputes each appointment's duration and agreed price
+  DELETE FROM appointment_items WHERE appointment_id = ANY(new_ids);
+
+  INSERT INTO appointment_items (appointment_id, procedure_id, position, duration_minutes, price)
+  SELECT
+    ids.appointment_id,
+    (item.value->>'procedure_id')::uuid,
+    (item.ordinality - 1)::integer,
+    (item.value->>'duration_minutes')::integer,
+    COALESCE((item.value->>'price')::numeric, 0)
+  FROM unnest(new_ids) AS ids(appointment_id)
+  CROSS JOIN jsonb_array_elements(p_items) WITH ORDINALITY AS item(value, ordinality);
+
+  RETURN new_ids;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION create_appointments(uuid, uuid, date[], time, jsonb, text, numeric, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_appointments(uuid, uuid, date[], time, jsonb, text, numeric, text, jsonb) TO authenticated;
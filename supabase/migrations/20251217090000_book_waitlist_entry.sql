@@ -0,0 +1,65 @@
+/*
+  # Book waitlist entries in one transaction
+
+  1. Changes
+    - New function `book_waitlist_entry`: creates the appointment for a freed
+      slot and marks the entry as booked together. The client used to do it
+      in two requests, so a failed update left the entry waiting for a slot
+      it already had, and two people offering the same entry could book it twice.
+    - The entry is locked while it is booked; an entry that is no longer
+      waiting is refused
+
+  2. Security
+    - Runs with the caller's rights, so the existing RLS policies and the
+      appointment triggers still apply
+    - Only authenticated users can call it
+*/
+
+CREATE OR REPLACE FUNCTION book_waitlist_entry(
+  p_entry_id uuid,
+  p_professional_id uuid,
+  p_date date,
+  p_time time
+)
+RETURNS uuid
+SET search_path = public
+AS $$
+DECLARE
+  entry waitlist_entries%ROWTYPE;
+  new_appointment_id uuid;
+BEGIN
+  SELECT * INTO entry
+  FROM waitlist_entries
+  WHERE id = p_entry_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entrada da lista de espera não encontrada'
+      USING HINT = 'waitlist_entry_not_found';
+  END IF;
+
+  IF entry.status <> 'waiting' THEN
+    RAISE EXCEPTION 'Este paciente já saiu da lista de espera'
+      USING HINT = 'waitlist_entry_closed';
+  END IF;
+
+  -- The duration comes from the procedure (set_appointment_duration)
+  INSERT INTO appointments (
+    patient_id, procedure_id, professional_id, appointment_date, appointment_time, status, created_by
+  )
+  VALUES (
+    entry.patient_id, entry.procedure_id, p_professional_id, p_date, p_time, 'scheduled', auth.uid()
+  )
+  RETURNING id INTO new_appointment_id;
+
+  UPDATE waitlist_entries
+  SET status = 'booked',
+      appointment_id = new_appointment_id
+  WHERE id = p_entry_id;
+
+  RETURN new_appointment_id;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION book_waitlist_entry(uuid, uuid, date, time) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION book_waitlist_entry(uuid, uuid, date, time) TO authenticated;
@@ -0,0 +1,72 @@
+/*
+  # Claim reminders before sending them
+
+  1. Changes
+    - New reminder status `sending`
+    - New function `claim_due_reminders`: marks a batch of due reminders as
+      `sending` and returns them, skipping rows another run has locked, so
+      overlapping send-reminders runs never deliver the same reminder twice.
+      Reminders left in `sending` for 15 minutes (a run that crashed) are
+      claimed again.
+    - Changing `reminder_hours_before` now moves the pending reminders, like
+      changing the timezone already did
+
+  2. Security
+    - `claim_due_reminders` can only be called with the service role
+*/
+
+ALTER TABLE appointment_reminders DROP CONSTRAINT IF EXISTS appointment_reminders_status_check;
+ALTER TABLE appointment_reminders ADD CONSTRAINT appointment_reminders_status_check
+  CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled'));
+
+CREATE OR REPLACE FUNCTION claim_due_reminders(p_limit integer)
+RETURNS SETOF appointment_reminders
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE appointment_reminders
+  SET status = 'sending'
+  WHERE id IN (
+    SELECT id
+    FROM appointment_reminders
+    WHERE (status = 'pending' AND send_at <= now())
+    OR (status = 'sending' AND updated_at < now() - interval '15 minutes')
+    ORDER BY send_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION claim_due_reminders(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_reminders(integer) TO service_role;
+
+-- Same as before, also run when the reminder window changes
+CREATE OR REPLACE FUNCTION move_reminders_to_timezone()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.timezone IS NOT DISTINCT FROM OLD.timezone
+    AND NEW.reminder_hours_before IS NOT DISTINCT FROM OLD.reminder_hours_before THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE appointment_reminders r
+  SET send_at = ((a.appointment_date + a.appointment_time) AT TIME ZONE NEW.timezone)
+    - make_interval(hours => NEW.reminder_hours_before)
+  FROM appointments a
+  WHERE a.id = r.appointment_id
+  AND r.status = 'pending';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS move_clinic_settings_reminders ON clinic_settings;
+CREATE TRIGGER move_clinic_settings_reminders AFTER UPDATE OF timezone, reminder_hours_before ON clinic_settings
+  FOR EACH ROW EXECUTE FUNCTION move_reminders_to_timezone();
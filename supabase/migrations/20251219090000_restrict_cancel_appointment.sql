@@ -0,0 +1,113 @@
+/*
+  # Restrict cancel_appointment and charge on the agreed price
+
+  1. Changes
+    - `cancel_appointment` skipped the ownership check whenever `auth.uid()`
+      was null, which is also the case for anonymous callers. Only the service
+      role (the appointment-response Edge Function) skips it now.
+    - The percent late-cancellation fee is computed on `agreed_price` (the
+      price after discount) instead of the sum of the item list prices
+
+  2. Security
+    - Execute is revoked from PUBLIC and anon; authenticated users and the
+      service role can call it
+*/
+
+-- Same as before, but only the service role skips the ownership check and the
+-- percent fee applies to the agreed price
+CREATE OR REPLACE FUNCTION cancel_appointment(
+  p_appointment_id uuid,
+  p_reason text,
+  p_waive_fee boolean DEFAULT false
+)
+RETURNS numeric
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings clinic_settings%ROWTYPE;
+  apt appointments%ROWTYPE;
+  caller_is_admin boolean;
+  notice interval;
+  base_price numeric(10,2);
+  fee numeric(10,2) := 0;
+BEGIN
+  IF length(trim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'Informe o motivo do cancelamento'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  SELECT * INTO apt FROM appointments WHERE id = p_appointment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agendamento não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  caller_is_admin := EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  );
+
+  -- The service role cancels on behalf of a patient answering a reminder
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND apt.professional_id IS DISTINCT FROM auth.uid()
+    AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Sem permissão para cancelar este agendamento'
+      USING HINT = 'forbidden';
+  END IF;
+
+  IF p_waive_fee AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Somente administradores podem isentar a taxa de cancelamento'
+      USING HINT = 'forbidden';
+  END IF;
+
+  IF apt.status NOT IN ('scheduled', 'confirmed') THEN
+    RAISE EXCEPTION 'Este agendamento não pode mais ser cancelado'
+      USING HINT = 'invalid_status';
+  END IF;
+
+  SELECT * INTO settings FROM clinic_settings WHERE id;
+
+  notice := ((apt.appointment_date + apt.appointment_time) AT TIME ZONE clinic_timezone()) - now();
+
+  IF NOT p_waive_fee
+    AND settings.cancellation_notice_hours > 0
+    AND settings.cancellation_fee_value > 0
+    AND notice < make_interval(hours => settings.cancellation_notice_hours) THEN
+    IF settings.cancellation_fee_type = 'fixed' THEN
+      fee := settings.cancellation_fee_value;
+    ELSE
+      -- The agreed price already has the discount applied
+      SELECT COALESCE(apt.agreed_price, sum(price), 0) INTO base_price
+      FROM appointment_items
+      WHERE appointment_id = apt.id;
+
+      fee := round(base_price * settings.cancellation_fee_value / 100, 2);
+    END IF;
+  END IF;
+
+  UPDATE appointments
+  SET status = 'cancelled',
+      cancellation_reason = trim(p_reason)
+  WHERE id = apt.id;
+
+  IF fee > 0 THEN
+    INSERT INTO patient_charges (patient_id, appointment_id, professional_id, amount, reason, created_by)
+    VALUES (
+      apt.patient_id,
+      apt.id,
+      apt.professional_id,
+      fee,
+      'Cancelamento com menos de ' || settings.cancellation_notice_hours || 'h de antecedência',
+      auth.uid()
+    );
+  END IF;
+
+  RETURN fee;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION cancel_appointment(uuid, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_appointment(uuid, text, boolean) TO authenticated, service_role;
@@ -0,0 +1,82 @@
+/*
+  # Limit what duplicate checks reveal
+
+  1. Changes
+    - `find_patient_duplicates` returned the name and id of every matching
+      patient, including ones the caller cannot see. Outside the patient's care
+      team (super admins see everything) it now only says that there is a
+      match, on what, and whose patient it is; id, name and archived flag are null
+
+  2. Security
+    - Execute is revoked from PUBLIC and anon and granted to authenticated users
+*/
+
+-- Same as before, hiding patients outside the caller's care teams
+CREATE OR REPLACE FUNCTION find_patient_duplicates(
+  p_full_name text,
+  p_phone text,
+  p_email text,
+  p_cpf text,
+  p_exclude_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  patient_id uuid,
+  full_name text,
+  professional_id uuid,
+  professional_name text,
+  archived boolean,
+  matched_on text[]
+)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_phone text := normalize_br_phone(p_phone);
+  v_email text := NULLIF(lower(trim(COALESCE(p_email, ''))), '');
+  v_cpf text := NULLIF(regexp_replace(COALESCE(p_cpf, ''), '\D', '', 'g'), '');
+  v_name text := normalize_person_name(p_full_name);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Short names match too much to be useful
+  IF length(v_name) < 5 THEN
+    v_name := NULL;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE WHEN candidates.visible THEN candidates.id END,
+    CASE WHEN candidates.visible THEN candidates.patient_name END,
+    candidates.professional_id,
+    candidates.professional_name,
+    CASE WHEN candidates.visible THEN candidates.archived END,
+    candidates.matches
+  FROM (
+    SELECT
+      p.id,
+      p.full_name AS patient_name,
+      p.professional_id,
+      pr.full_name AS professional_name,
+      p.archived_at IS NOT NULL AS archived,
+      is_patient_care_team_member(p.id) AS visible,
+      array_remove(ARRAY[
+        CASE WHEN p.cpf = v_cpf THEN 'cpf' END,
+        CASE WHEN p.phone = v_phone THEN 'phone' END,
+        CASE WHEN lower(p.email) = v_email THEN 'email' END,
+        CASE WHEN similarity(normalize_person_name(p.full_name), v_name) >= 0.6 THEN 'name' END
+      ], NULL) AS matches
+    FROM patients p
+    LEFT JOIN profiles pr ON pr.id = p.professional_id
+    WHERE p.id IS DISTINCT FROM p_exclude_id
+  ) candidates
+  WHERE cardinality(candidates.matches) > 0
+  ORDER BY cardinality(candidates.matches) DESC, candidates.patient_name
+  LIMIT 10;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION find_patient_duplicates(text, text, text, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_patient_duplicates(text, text, text, text, uuid) TO authenticated;
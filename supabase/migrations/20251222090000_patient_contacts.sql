@@ -0,0 +1,147 @@
+/*
+  # Contact-only access to patients outside the care team
+
+  1. Changes
+    - `patients.notes` moves into `patient_notes`, one note per patient written
+      by the professional who registered them, and the column is dropped. The
+      notes were clinical but lived on the patient row, which every professional
+      could read with contact sharing on.
+    - New view `patient_contacts` (id, name, phone, e-mail, registering
+      professional, archived flag, created_at) for picking and searching
+      patients. It lists the patients of the user's care teams and, with
+      contact sharing on, every other patient too. `cpf` is only filled in for
+      the care team, so it can still be searched.
+    - `clinic_settings.share_patient_contacts` now defaults to off and is
+      turned off; admins who want clinic-wide contacts switch it back on
+    - `merge_patients` no longer merges the notes column; the notes already
+      move with `patient_notes`
+
+  2. Security
+    - `patients` rows (CPF, birth date, address...) are visible to the care team
+      and super admins only; sharing no longer opens the whole row
+    - `patient_contacts` is readable by authenticated users only
+*/
+
+ALTER TABLE clinic_settings ALTER COLUMN share_patient_contacts SET DEFAULT false;
+UPDATE clinic_settings SET share_patient_contacts = false;
+
+INSERT INTO patient_notes (patient_id, author_id, body, created_at, updated_at)
+SELECT id, professional_id, trim(notes), COALESCE(updated_at, created_at), COALESCE(updated_at, created_at)
+FROM patients
+WHERE length(trim(COALESCE(notes, ''))) > 0;
+
+-- Same as before, without the notes column
+CREATE OR REPLACE FUNCTION merge_patients(p_survivor_id uuid, p_duplicate_ids uuid[])
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  duplicate patients%ROWTYPE;
+  moved_ids uuid[];
+  total_moved integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  ) THEN
+    RAISE EXCEPTION 'Apenas administradores podem mesclar pacientes'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF cardinality(COALESCE(p_duplicate_ids, '{}')) = 0 OR p_survivor_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'Escolha o cadastro que fica e ao menos um duplicado diferente dele'
+      USING HINT = 'invalid_merge';
+  END IF;
+
+  PERFORM 1 FROM patients
+  WHERE id = p_survivor_id OR id = ANY(p_duplicate_ids)
+  FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM patients WHERE id = p_survivor_id) THEN
+    RAISE EXCEPTION 'Paciente não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  FOR duplicate IN
+    SELECT * FROM patients WHERE id = ANY(p_duplicate_ids) ORDER BY created_at
+  LOOP
+    WITH moved AS (
+      UPDATE appointments
+      SET patient_id = p_survivor_id
+      WHERE patient_id = duplicate.id
+      RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO moved_ids FROM moved;
+
+    UPDATE appointment_series SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE waitlist_entries SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE patient_charges SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE patient_notes SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE anamnesis_responses SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+
+    INSERT INTO patient_care_team (patient_id, professional_id, added_by)
+    SELECT p_survivor_id, professional_id, added_by
+    FROM patient_care_team
+    WHERE patient_id = duplicate.id
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO patient_merges (survivor_id, merged_patient_id, merged_patient, appointment_ids, merged_by)
+    VALUES (p_survivor_id, duplicate.id, to_jsonb(duplicate), moved_ids, auth.uid());
+
+    -- Deleted first so the CPF can move to the survivor
+    DELETE FROM patients WHERE id = duplicate.id;
+
+    -- The survivor keeps what it has; blanks are filled from the duplicate.
+    -- The address moves as a whole so parts of two addresses are never mixed.
+    UPDATE patients
+    SET email = COALESCE(email, duplicate.email),
+        cpf = COALESCE(cpf, duplicate.cpf),
+        birth_date = COALESCE(birth_date, duplicate.birth_date),
+        gender = COALESCE(gender, duplicate.gender),
+        pronouns = COALESCE(pronouns, duplicate.pronouns),
+        cep = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.cep ELSE cep END,
+        street = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.street ELSE street END,
+        address_number = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.address_number ELSE address_number END,
+        address_complement = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.address_complement ELSE address_complement END,
+        neighborhood = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.neighborhood ELSE neighborhood END,
+        city = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.city ELSE city END,
+        state = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.state ELSE state END
+    WHERE id = p_survivor_id;
+
+    total_moved := total_moved + cardinality(moved_ids);
+  END LOOP;
+
+  RETURN total_moved;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE patients DROP COLUMN IF EXISTS notes;
+
+-- RLS Policies for patients
+DROP POLICY IF EXISTS "Users can view care team or shared patients" ON patients;
+
+CREATE POLICY "Users can view care team patients"
+  ON patients FOR SELECT
+  TO authenticated
+  USING (is_patient_care_team_member(id));
+
+-- Runs with the owner's rights, so it reaches patients the user cannot read
+-- in full; the WHERE clause is what limits it
+CREATE OR REPLACE VIEW patient_contacts AS
+SELECT
+  id,
+  full_name,
+  phone,
+  email,
+  CASE WHEN is_patient_care_team_member(id) THEN cpf END AS cpf,
+  professional_id,
+  archived_at,
+  created_at
+FROM patients
+WHERE auth.uid() IS NOT NULL
+AND (is_patient_care_team_member(id) OR clinic_shares_patient_contacts());
+
+REVOKE ALL ON patient_contacts FROM PUBLIC, anon;
+GRANT SELECT ON patient_contacts TO authenticated;
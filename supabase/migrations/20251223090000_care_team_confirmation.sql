@@ -0,0 +1,194 @@
+/*
+  # Confirm care team members who joined by booking
+
+  1. Changes
+    - `patient_care_team.pending` (boolean). Booking a patient with a
+      professional who is not on the care team adds them as pending, unless the
+      booking was made by a care team member or a super admin. Public bookings
+      also add pending members, since anyone can book with a known phone.
+    - Pending members see the patient's contact data through `patient_contacts`
+      and the care team, but not the full record, clinical notes or anamnesis
+      until a care team member or a super admin confirms them
+    - `merge_patients` carries the pending flag over
+
+  2. Security
+    - `is_patient_care_team_member` only counts confirmed members, so every
+      policy built on it ignores pending ones
+    - Care team members can confirm pending members
+*/
+
+ALTER TABLE patient_care_team
+  ADD COLUMN IF NOT EXISTS pending boolean NOT NULL DEFAULT false;
+
+-- Confirmed members and super admins
+CREATE OR REPLACE FUNCTION is_patient_care_team_member(p_patient_id uuid)
+RETURNS boolean
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM patient_care_team
+    WHERE patient_id = p_patient_id
+    AND professional_id = auth.uid()
+    AND NOT pending
+  ) OR EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  );
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION is_patient_care_team_pending(p_patient_id uuid)
+RETURNS boolean
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM patient_care_team
+    WHERE patient_id = p_patient_id
+    AND professional_id = auth.uid()
+    AND pending
+  );
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION add_appointment_professional_to_care_team()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO patient_care_team (patient_id, professional_id, added_by, pending)
+  VALUES (NEW.patient_id, NEW.professional_id, auth.uid(), NOT is_patient_care_team_member(NEW.patient_id))
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as before, with pending members
+CREATE OR REPLACE VIEW patient_contacts AS
+SELECT
+  id,
+  full_name,
+  phone,
+  email,
+  CASE WHEN is_patient_care_team_member(id) THEN cpf END AS cpf,
+  professional_id,
+  archived_at,
+  created_at
+FROM patients
+WHERE auth.uid() IS NOT NULL
+AND (
+  is_patient_care_team_member(id)
+  OR is_patient_care_team_pending(id)
+  OR clinic_shares_patient_contacts()
+);
+
+-- RLS Policies for patient_care_team
+DROP POLICY IF EXISTS "Users can view care teams of visible patients" ON patient_care_team;
+
+CREATE POLICY "Users can view care teams of visible patients"
+  ON patient_care_team FOR SELECT
+  TO authenticated
+  USING (
+    is_patient_care_team_member(patient_id)
+    OR is_patient_care_team_pending(patient_id)
+    OR clinic_shares_patient_contacts()
+  );
+
+CREATE POLICY "Users can confirm members of care teams they belong to"
+  ON patient_care_team FOR UPDATE
+  TO authenticated
+  USING (is_patient_care_team_member(patient_id))
+  WITH CHECK (is_patient_care_team_member(patient_id));
+
+-- Same as before, keeping confirmed memberships confirmed
+CREATE OR REPLACE FUNCTION merge_patients(p_survivor_id uuid, p_duplicate_ids uuid[])
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  duplicate patients%ROWTYPE;
+  moved_ids uuid[];
+  total_moved integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  ) THEN
+    RAISE EXCEPTION 'Apenas administradores podem mesclar pacientes'
+      USING HINT = 'not_allowed';
+  END IF;
+
+  IF cardinality(COALESCE(p_duplicate_ids, '{}')) = 0 OR p_survivor_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'Escolha o cadastro que fica e ao menos um duplicado diferente dele'
+      USING HINT = 'invalid_merge';
+  END IF;
+
+  PERFORM 1 FROM patients
+  WHERE id = p_survivor_id OR id = ANY(p_duplicate_ids)
+  FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM patients WHERE id = p_survivor_id) THEN
+    RAISE EXCEPTION 'Paciente não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  FOR duplicate IN
+    SELECT * FROM patients WHERE id = ANY(p_duplicate_ids) ORDER BY created_at
+  LOOP
+    WITH moved AS (
+      UPDATE appointments
+      SET patient_id = p_survivor_id
+      WHERE patient_id = duplicate.id
+      RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), '{}') INTO moved_ids FROM moved;
+
+    UPDATE appointment_series SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE waitlist_entries SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE patient_charges SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE patient_notes SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+    UPDATE anamnesis_responses SET patient_id = p_survivor_id WHERE patient_id = duplicate.id;
+
+    -- A confirmed membership on either record is kept confirmed
+    INSERT INTO patient_care_team (patient_id, professional_id, added_by, pending)
+    SELECT p_survivor_id, professional_id, added_by, pending
+    FROM patient_care_team
+    WHERE patient_id = duplicate.id
+    ON CONFLICT (patient_id, professional_id) DO UPDATE
+    SET pending = patient_care_team.pending AND EXCLUDED.pending;
+
+    INSERT INTO patient_merges (survivor_id, merged_patient_id, merged_patient, appointment_ids, merged_by)
+    VALUES (p_survivor_id, duplicate.id, to_jsonb(duplicate), moved_ids, auth.uid());
+
+    -- Deleted first so the CPF can move to the survivor
+    DELETE FROM patients WHERE id = duplicate.id;
+
+    -- The survivor keeps what it has; blanks are filled from the duplicate.
+    -- The address moves as a whole so parts of two addresses are never mixed.
+    UPDATE patients
+    SET email = COALESCE(email, duplicate.email),
+        cpf = COALESCE(cpf, duplicate.cpf),
+        birth_date = COALESCE(birth_date, duplicate.birth_date),
+        gender = COALESCE(gender, duplicate.gender),
+        pronouns = COALESCE(pronouns, duplicate.pronouns),
+        cep = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.cep ELSE cep END,
+        street = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.street ELSE street END,
+        address_number = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.address_number ELSE address_number END,
+        address_complement = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.address_complement ELSE address_complement END,
+        neighborhood = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.neighborhood ELSE neighborhood END,
+        city = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.city ELSE city END,
+        state = CASE WHEN cep IS NULL AND street IS NULL THEN duplicate.state ELSE state END
+    WHERE id = p_survivor_id;
+
+    total_moved := total_moved + cardinality(moved_ids);
+  END LOOP;
+
+  RETURN total_moved;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,134 @@
+/*
+  # Cancel appointments only through cancel_appointment
+
+  1. Changes
+    - The "Users can update own appointments" policy let a professional set
+      `status = 'cancelled'` directly, with no reason, no late fee and no
+      charge. A trigger now rejects any move to `cancelled` that does not come
+      from `cancel_appointment`, which flags its own update with a
+      transaction-local setting.
+
+  2. Security
+    - Cancellation is enforced on the server, like availability, overlaps,
+      anamnesis and the price lock
+*/
+
+-- Same as before, but flags its update so the trigger below lets it through
+CREATE OR REPLACE FUNCTION cancel_appointment(
+  p_appointment_id uuid,
+  p_reason text,
+  p_waive_fee boolean DEFAULT false
+)
+RETURNS numeric
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings clinic_settings%ROWTYPE;
+  apt appointments%ROWTYPE;
+  caller_is_admin boolean;
+  notice interval;
+  base_price numeric(10,2);
+  fee numeric(10,2) := 0;
+BEGIN
+  IF length(trim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'Informe o motivo do cancelamento'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  SELECT * INTO apt FROM appointments WHERE id = p_appointment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agendamento não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  caller_is_admin := EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'super_admin'
+  );
+
+  -- The service role cancels on behalf of a patient answering a reminder
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND apt.professional_id IS DISTINCT FROM auth.uid()
+    AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Sem permissão para cancelar este agendamento'
+      USING HINT = 'forbidden';
+  END IF;
+
+  IF p_waive_fee AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Somente administradores podem isentar a taxa de cancelamento'
+      USING HINT = 'forbidden';
+  END IF;
+
+  IF apt.status NOT IN ('scheduled', 'confirmed') THEN
+    RAISE EXCEPTION 'Este agendamento não pode mais ser cancelado'
+      USING HINT = 'invalid_status';
+  END IF;
+
+  SELECT * INTO settings FROM clinic_settings WHERE id;
+
+  notice := ((apt.appointment_date + apt.appointment_time) AT TIME ZONE clinic_timezone()) - now();
+
+  IF NOT p_waive_fee
+    AND settings.cancellation_notice_hours > 0
+    AND settings.cancellation_fee_value > 0
+    AND notice < make_interval(hours => settings.cancellation_notice_hours) THEN
+    IF settings.cancellation_fee_type = 'fixed' THEN
+      fee := settings.cancellation_fee_value;
+    ELSE
+      -- The agreed price already has the discount applied
+      SELECT COALESCE(apt.agreed_price, sum(price), 0) INTO base_price
+      FROM appointment_items
+      WHERE appointment_id = apt.id;
+
+      fee := round(base_price * settings.cancellation_fee_value / 100, 2);
+    END IF;
+  END IF;
+
+  -- Lets this update past require_cancel_appointment, for this transaction only
+  PERFORM set_config('app.cancelling_appointment', 'on', true);
+
+  UPDATE appointments
+  SET status = 'cancelled',
+      cancellation_reason = trim(p_reason)
+  WHERE id = apt.id;
+
+  PERFORM set_config('app.cancelling_appointment', 'off', true);
+
+  IF fee > 0 THEN
+    INSERT INTO patient_charges (patient_id, appointment_id, professional_id, amount, reason, created_by)
+    VALUES (
+      apt.patient_id,
+      apt.id,
+      apt.professional_id,
+      fee,
+      'Cancelamento com menos de ' || settings.cancellation_notice_hours || 'h de antecedência',
+      auth.uid()
+    );
+  END IF;
+
+  RETURN fee;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION cancel_appointment(uuid, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_appointment(uuid, text, boolean) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION require_cancel_appointment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled'
+    AND OLD.status IS DISTINCT FROM 'cancelled'
+    AND current_setting('app.cancelling_appointment', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Use a opção de cancelar o agendamento para informar o motivo'
+      USING HINT = 'cancel_required';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER require_appointments_cancel_function BEFORE UPDATE OF status ON appointments
+  FOR EACH ROW EXECUTE FUNCTION require_cancel_appointment();
@@ -0,0 +1,57 @@
+/*
+  # Decline online bookings on the server
+
+  1. Changes
+    - New function `decline_online_booking`. Declining an online booking used
+      to be a direct update to `cancelled`, which `require_cancel_appointment`
+      now rejects. No late fee applies: the clinic is the one declining.
+
+  2. Security
+    - Only the professional of the appointment or a super admin can decline it
+    - Only authenticated users can call it
+*/
+
+CREATE OR REPLACE FUNCTION decline_online_booking(p_appointment_id uuid)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  apt appointments%ROWTYPE;
+BEGIN
+  SELECT * INTO apt FROM appointments WHERE id = p_appointment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agendamento não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  IF apt.professional_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'super_admin'
+    ) THEN
+    RAISE EXCEPTION 'Sem permissão para recusar este agendamento'
+      USING HINT = 'forbidden';
+  END IF;
+
+  IF NOT apt.pending_approval OR apt.status NOT IN ('scheduled', 'confirmed') THEN
+    RAISE EXCEPTION 'Este agendamento não está aguardando aprovação'
+      USING HINT = 'invalid_status';
+  END IF;
+
+  PERFORM set_config('app.cancelling_appointment', 'on', true);
+
+  UPDATE appointments
+  SET pending_approval = false,
+      status = 'cancelled',
+      cancellation_reason = 'Agendamento online recusado'
+  WHERE id = apt.id;
+
+  PERFORM set_config('app.cancelling_appointment', 'off', true);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION decline_online_booking(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION decline_online_booking(uuid) TO authenticated;
@@ -0,0 +1,58 @@
+/*
+  # Cancel the following occurrences of a series in one transaction
+
+  1. Changes
+    - New function `cancel_series_from`, used by "this and following" in the
+      agenda. It cancels the occurrence and every later open one of its series
+      through `cancel_appointment`, so each gets its reason and late fee, and
+      a failure leaves the whole series untouched. The client used to call
+      `cancel_appointment` once per occurrence and could stop halfway.
+
+  2. Security
+    - Runs with the caller's rights; `cancel_appointment` still checks each
+      occurrence
+    - Only authenticated users can call it
+*/
+
+-- Returns the total charged to the patient
+CREATE OR REPLACE FUNCTION cancel_series_from(
+  p_appointment_id uuid,
+  p_reason text,
+  p_waive_fee boolean DEFAULT false
+)
+RETURNS numeric
+SET search_path = public
+AS $$
+DECLARE
+  apt appointments%ROWTYPE;
+  occurrence_id uuid;
+  total numeric(10,2) := 0;
+BEGIN
+  SELECT * INTO apt FROM appointments WHERE id = p_appointment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agendamento não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  IF apt.series_id IS NULL THEN
+    RAISE EXCEPTION 'Este agendamento não faz parte de uma série'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  FOR occurrence_id IN
+    SELECT id FROM appointments
+    WHERE series_id = apt.series_id
+    AND appointment_date >= apt.appointment_date
+    AND status IN ('scheduled', 'confirmed')
+    ORDER BY appointment_date
+  LOOP
+    total := total + cancel_appointment(occurrence_id, p_reason, p_waive_fee);
+  END LOOP;
+
+  RETURN total;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION cancel_series_from(uuid, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_series_from(uuid, text, boolean) TO authenticated;
@@ -0,0 +1,66 @@
+/*
+  # Lock the price of completed appointments and allow a custom price
+
+  1. Changes
+    - Only the discount columns of a completed appointment were locked. Its
+      items could still be changed, which recomputed `agreed_price`, and
+      `agreed_price` itself could be updated directly. Both are rejected now.
+    - New discount type `price`: `discount_value` is the agreed price itself,
+      so a price above the list price can be entered
+*/
+
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_discount_type_check;
+ALTER TABLE appointments ADD CONSTRAINT appointments_discount_type_check
+  CHECK (discount_type IN ('percent', 'fixed', 'price'));
+
+-- Same as before, plus the custom price
+CREATE OR REPLACE FUNCTION discounted_price(list_price numeric, discount_type text, discount_value numeric)
+RETURNS numeric
+IMMUTABLE
+AS $$
+  SELECT GREATEST(0, round(
+    CASE discount_type
+      WHEN 'percent' THEN list_price * (1 - discount_value / 100)
+      WHEN 'fixed' THEN list_price - discount_value
+      WHEN 'price' THEN discount_value
+      ELSE list_price
+    END,
+    2
+  ));
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION lock_completed_agreed_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'completed' AND NEW.agreed_price IS DISTINCT FROM OLD.agreed_price THEN
+    RAISE EXCEPTION 'O valor de um atendimento concluído não pode ser alterado'
+      USING HINT = 'price_locked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER lock_appointments_agreed_price BEFORE UPDATE OF agreed_price ON appointments
+  FOR EACH ROW EXECUTE FUNCTION lock_completed_agreed_price();
+
+-- Items of an appointment being deleted are let through: the appointment row
+-- is already gone when the cascade reaches them
+CREATE OR REPLACE FUNCTION lock_completed_items()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM appointments
+    WHERE id IN (NEW.appointment_id, OLD.appointment_id)
+    AND status = 'completed'
+  ) THEN
+    RAISE EXCEPTION 'Os procedimentos de um atendimento concluído não podem ser alterados'
+      USING HINT = 'price_locked';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER lock_appointment_items_completed BEFORE INSERT OR UPDATE OR DELETE ON appointment_items
+  FOR EACH ROW EXECUTE FUNCTION lock_completed_items();
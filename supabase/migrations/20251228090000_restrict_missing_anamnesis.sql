@@ -0,0 +1,46 @@
+/*
+  # Restrict missing_anamnesis_templates
+
+  1. Changes
+    - `missing_anamnesis_templates` answered for any appointment id. It now
+      returns nothing unless the caller is the appointment's professional or in
+      the patient's care team (super admins included), like the other definer
+      functions of the anamnesis forms
+
+  2. Security
+    - Execute is revoked from PUBLIC and anon and granted to authenticated users
+*/
+
+-- Same as before, limited to the appointment's professional and care team
+CREATE OR REPLACE FUNCTION missing_anamnesis_templates(p_appointment_id uuid)
+RETURNS TABLE (template_id uuid, template_name text)
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT t.id, t.name
+  FROM appointments a
+  JOIN appointment_items i ON i.appointment_id = a.id
+  JOIN procedure_anamnesis_templates pt ON pt.procedure_id = i.procedure_id
+  JOIN anamnesis_templates t ON t.id = pt.template_id AND t.is_active
+  WHERE a.id = p_appointment_id
+  AND (a.professional_id = auth.uid() OR is_patient_care_team_member(a.patient_id))
+  AND NOT EXISTS (
+    SELECT 1 FROM anamnesis_responses r
+    WHERE r.patient_id = a.patient_id
+    AND r.template_id = t.id
+  )
+  -- Only the first appointment of the procedure requires the form
+  AND NOT EXISTS (
+    SELECT 1
+    FROM appointments earlier
+    JOIN appointment_items earlier_item ON earlier_item.appointment_id = earlier.id
+    WHERE earlier.patient_id = a.patient_id
+    AND earlier.id <> a.id
+    AND earlier.status = 'completed'
+    AND earlier_item.procedure_id = i.procedure_id
+  );
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION missing_anamnesis_templates(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION missing_anamnesis_templates(uuid) TO authenticated;
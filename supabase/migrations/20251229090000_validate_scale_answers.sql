@@ -0,0 +1,65 @@
+/*
+  # Reject non-numeric scale answers
+
+  1. Changes
+    - A scale answer that is not a number aborted the insert of an anamnesis
+      response with a raw cast error. It is now rejected with a readable
+      message and the `invalid_answer` hint.
+*/
+
+-- Same as before, checking scale answers before reading them as numbers
+CREATE OR REPLACE FUNCTION prepare_anamnesis_response()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  template anamnesis_templates%ROWTYPE;
+  question jsonb;
+  answer text;
+BEGIN
+  SELECT * INTO template FROM anamnesis_templates WHERE id = NEW.template_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Formulário não encontrado'
+      USING HINT = 'not_found';
+  END IF;
+
+  NEW.template_name := template.name;
+  NEW.template_version := template.version;
+  NEW.questions := template.questions;
+  NEW.risky_question_ids := '{}';
+  NEW.filled_by := auth.uid();
+  NEW.created_at := now();
+
+  FOR question IN SELECT * FROM jsonb_array_elements(template.questions) LOOP
+    answer := NULLIF(trim(NEW.answers ->> (question ->> 'id')), '');
+
+    IF answer IS NULL THEN
+      IF COALESCE((question ->> 'required')::boolean, false) THEN
+        RAISE EXCEPTION 'Responda a pergunta "%"', question ->> 'label'
+          USING HINT = 'answer_required';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF question ->> 'type' = 'scale' AND answer !~ '^-?\d+(\.\d+)?$' THEN
+      RAISE EXCEPTION 'Resposta inválida para a pergunta "%"', question ->> 'label'
+        USING HINT = 'invalid_answer';
+    END IF;
+
+    IF (question ->> 'type' = 'yes_no' AND answer = question ->> 'risk_answer')
+      OR (question ->> 'type' = 'choice' AND COALESCE(question -> 'risk_options', '[]') ? answer)
+      OR (
+        question ->> 'type' = 'scale'
+        AND question ->> 'risk_from' IS NOT NULL
+        AND answer::numeric >= (question ->> 'risk_from')::numeric
+      )
+    THEN
+      NEW.risky_question_ids := array_append(NEW.risky_question_ids, question ->> 'id');
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,40 @@
+/*
+  # Restrict allocate_appointment_resources
+
+  1. Changes
+    - `allocate_appointment_resources` is only meant for the allocation
+      triggers, but it kept the default execute grant, so any caller could
+      rebuild the allocations of any appointment id. Execute is revoked from
+      everyone but the owner.
+    - The trigger functions calling it now run as the owner, so inserts and
+      updates by authenticated users still reallocate resources
+
+  2. Security
+    - Execute on `allocate_appointment_resources` is revoked from PUBLIC, anon
+      and authenticated
+*/
+
+-- Same as before, running as the owner
+CREATE OR REPLACE FUNCTION allocate_resources_for_appointment()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM allocate_appointment_resources(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION allocate_resources_for_item()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM allocate_appointment_resources(COALESCE(NEW.appointment_id, OLD.appointment_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION allocate_appointment_resources(uuid) FROM PUBLIC, anon, authenticated;
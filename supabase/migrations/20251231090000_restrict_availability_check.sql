@@ -0,0 +1,15 @@
+/*
+  # Restrict is_within_availability
+
+  1. Changes
+    - `is_within_availability` kept the default execute grant, so anonymous
+      callers could probe any professional's working hours and time off
+
+  2. Security
+    - Execute is revoked from PUBLIC and anon. Authenticated users keep it for
+      the availability trigger, which runs with their rights; the public
+      booking functions run as the owner.
+*/
+
+REVOKE EXECUTE ON FUNCTION is_within_availability(uuid, date, time, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_within_availability(uuid, date, time, integer) TO authenticated;
@@ -0,0 +1,128 @@
+/*
+  # Serialize the public booking rate limit
+
+  1. Changes
+    - `public_book_appointment` counted recent attempts and then recorded its
+      own with no lock, so concurrent requests all passed the limit. It now
+      takes transaction-level advisory locks on the phone and the client
+      address before counting.
+*/
+
+-- Same as before, locking the phone and address before counting attempts
+CREATE OR REPLACE FUNCTION public_book_appointment(
+  p_procedure_id uuid,
+  p_professional_id uuid,
+  p_date date,
+  p_time time,
+  p_full_name text,
+  p_phone text
+)
+RETURNS jsonb
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings clinic_settings%ROWTYPE;
+  normalized_phone text := normalize_br_phone(p_phone);
+  client_ip text;
+  v_duration integer;
+  v_patient_id uuid;
+  v_appointment_id uuid;
+BEGIN
+  SELECT * INTO settings FROM clinic_settings WHERE id;
+
+  IF NOT COALESCE(settings.public_booking_enabled, false) THEN
+    RAISE EXCEPTION 'Agendamento online indisponível'
+      USING HINT = 'public_booking_disabled';
+  END IF;
+
+  IF length(trim(COALESCE(p_full_name, ''))) < 3 THEN
+    RAISE EXCEPTION 'Informe seu nome completo'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  IF normalized_phone IS NULL THEN
+    RAISE EXCEPTION 'Telefone inválido'
+      USING HINT = 'invalid_input';
+  END IF;
+
+  client_ip := public_booking_client_ip();
+
+  -- Concurrent requests from the same phone or address wait here, so each one
+  -- counts the attempts recorded by the others. Always phone first, then IP.
+  PERFORM pg_advisory_xact_lock(hashtext('public_booking_phone:' || normalized_phone));
+  PERFORM pg_advisory_xact_lock(hashtext('public_booking_ip:' || client_ip));
+
+  IF (
+    SELECT count(*) FROM public_booking_requests
+    WHERE ip = client_ip
+    AND created_at > now() - interval '1 hour'
+  ) >= 5 OR (
+    SELECT count(*) FROM public_booking_requests
+    WHERE phone = normalized_phone
+    AND created_at > now() - interval '1 day'
+  ) >= 3 THEN
+    RAISE EXCEPTION 'Muitas tentativas de agendamento. Tente novamente mais tarde.'
+      USING HINT = 'rate_limited';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public_booking_slots(p_procedure_id, p_date, p_professional_id) s
+    WHERE s.slot_professional_id = p_professional_id
+    AND s.slot_time = p_time
+  ) THEN
+    RAISE EXCEPTION 'Este horário não está mais disponível'
+      USING HINT = 'slot_unavailable';
+  END IF;
+
+  INSERT INTO public_booking_requests (ip, phone) VALUES (client_ip, normalized_phone);
+
+  SELECT duration_minutes INTO v_duration FROM procedures WHERE id = p_procedure_id;
+
+  -- Returning patients are matched by phone, preferring the chosen professional's record
+  SELECT id INTO v_patient_id
+  FROM patients
+  WHERE phone = normalized_phone
+  ORDER BY (professional_id = p_professional_id) DESC, created_at
+  LIMIT 1;
+
+  IF v_patient_id IS NULL THEN
+    INSERT INTO patients (full_name, phone, professional_id)
+    VALUES (trim(p_full_name), trim(p_phone), p_professional_id)
+    RETURNING id INTO v_patient_id;
+  END IF;
+
+  BEGIN
+    INSERT INTO appointments (
+      patient_id,
+      procedure_id,
+      professional_id,
+      appointment_date,
+      appointment_time,
+      duration_minutes,
+      status,
+      booking_source,
+      pending_approval
+    ) VALUES (
+      v_patient_id,
+      p_procedure_id,
+      p_professional_id,
+      p_date,
+      p_time,
+      v_duration,
+      'scheduled',
+      'online',
+      settings.public_booking_requires_approval
+    )
+    RETURNING id INTO v_appointment_id;
+  EXCEPTION WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'Este horário não está mais disponível'
+      USING HINT = 'slot_unavailable';
+  END;
+
+  RETURN jsonb_build_object(
+    'appointment_id', v_appointment_id,
+    'pending_approval', settings.public_booking_requires_approval
+  );
+END;
+$$ LANGUAGE plpgsql;